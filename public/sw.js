@@ -0,0 +1,281 @@
+const CACHE_NAME = 'mdrrmo-v4';
+const urlsToCache = [
+  '/',
+  '/manifest.json'
+];
+
+// Must match src/utils/incidentOutbox.ts
+const OUTBOX_DB_NAME = 'mdrrmo-outbox';
+const OUTBOX_DB_VERSION = 1;
+const OUTBOX_STORE = 'incidents';
+const OUTBOX_META_STORE = 'meta';
+const OUTBOX_SYNC_TAG = 'incident-outbox';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(urlsToCache))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) {
+    return;
+  }
+
+  // Pages go to the network first so a new deploy is picked up immediately
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match('/')));
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request)
+      .then((response) => {
+        if (response) {
+          return response;
+        }
+        return fetch(request);
+      }
+    )
+  );
+});
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(flushOutbox());
+  }
+});
+
+// Emergency alerts sent by the web-push dispatch channel. The payload shape
+// is PushNotificationPayload in supabase/functions/_shared/pushSubscriptions.ts
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    return;
+  }
+
+  const isCritical = payload.severity === 'critical';
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      icon: '/icon-192x192.png',
+      badge: '/icon-192x192.png',
+      // An update to the same alert replaces its notification
+      tag: `emergency-alert-${payload.alertId}`,
+      renotify: true,
+      requireInteraction: isCritical,
+      vibrate: isCritical ? [500, 200, 500, 200, 500] : [300, 100, 300],
+      data: { url: payload.url }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (existing) {
+        return existing.focus().then((client) => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
+
+// IndexedDB helpers
+
+const openOutbox = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+      db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+    }
+    if (!db.objectStoreNames.contains(OUTBOX_META_STORE)) {
+      db.createObjectStore(OUTBOX_META_STORE);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const runTransaction = async (storeName, mode, action) => {
+  const db = await openOutbox();
+  try {
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = action(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Supabase REST calls, mirroring DataContext's sendIncident
+
+const uploadFile = async (config, path, body, contentType) => {
+  const response = await fetch(`${config.supabaseUrl}/storage/v1/object/incidents/${path}`, {
+    method: 'POST',
+    headers: {
+      apikey: config.anonKey,
+      Authorization: `Bearer ${config.anonKey}`,
+      'Content-Type': contentType || 'application/octet-stream'
+    },
+    body
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    // A retry of an upload that already succeeded
+    if (!/already exists|Duplicate/i.test(error.message || error.error || '')) return false;
+  }
+  return true;
+};
+
+const uploadAttachments = async (config, entry) => {
+  const attachments = [];
+
+  for (const attachment of entry.attachments || []) {
+    const extension = attachment.name.split('.').pop() || (attachment.mediaType === 'image' ? 'jpg' : 'mp4');
+    const filePath = `${entry.row.id}/${attachment.id}.${extension}`;
+    if (!(await uploadFile(config, filePath, attachment.blob, attachment.mimeType))) continue;
+
+    const thumbnailPath = `${entry.row.id}/${attachment.id}_thumb.jpg`;
+    const hasThumbnail = attachment.thumbnail
+      ? await uploadFile(config, thumbnailPath, attachment.thumbnail, 'image/jpeg')
+      : false;
+
+    attachments.push({
+      id: attachment.id,
+      media_type: attachment.mediaType,
+      mime_type: attachment.mimeType,
+      file_path: filePath,
+      thumbnail_path: hasThumbnail ? thumbnailPath : null,
+      file_size: attachment.blob.size,
+      width: attachment.width,
+      height: attachment.height,
+      duration_seconds: attachment.durationSeconds
+    });
+  }
+
+  return attachments;
+};
+
+// Must match solveProofOfWork in supabase/functions/_shared/incidentSubmission.ts
+const PROOF_OF_WORK_DIFFICULTY = 14;
+
+const solveProofOfWork = async (incidentId) => {
+  const issuedAt = Date.now();
+  const encoder = new TextEncoder();
+
+  for (let nonce = 0; ; nonce++) {
+    const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(`${incidentId}:${issuedAt}:${nonce}`)));
+    let solved = true;
+    for (let i = 0; i < PROOF_OF_WORK_DIFFICULTY && solved; i++) {
+      solved = !(hash[i >> 3] & (0x80 >> (i & 7)));
+    }
+    if (solved) return { issuedAt, nonce };
+  }
+};
+
+// Must match INCIDENT_REJECTED_CODE in supabase/functions/_shared/incidentSubmission.ts
+const INCIDENT_REJECTED_CODE = 'incident_rejected';
+
+// Reports go through the submit-incident edge function, which assigns the
+// final reference number and is safe to call again for the same report.
+// Errors for reports it will never accept have `final` set.
+const submitIncident = async (config, row, attachments, verificationId) => {
+  const proof = await solveProofOfWork(row.id);
+  const response = await fetch(`${config.supabaseUrl}/functions/v1/submit-incident`, {
+    method: 'POST',
+    headers: {
+      apikey: config.anonKey,
+      Authorization: `Bearer ${config.anonKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ row, attachments, proof, verificationId: verificationId || null })
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || !body.referenceNumber) {
+    const error = new Error(body.error || `Submission failed with status ${response.status}`);
+    if (body.code === INCIDENT_REJECTED_CODE) {
+      // Same text as describeRejection in src/utils/incidentOutbox.ts
+      error.message = [error.message, ...Object.values(body.errors || {})].join(' ');
+      error.final = true;
+    }
+    throw error;
+  }
+  return body.referenceNumber;
+};
+
+const notifyClients = async () => {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true, type: 'window' });
+  clients.forEach((client) => client.postMessage({ type: 'INCIDENT_OUTBOX_UPDATED' }));
+};
+
+const flushOutbox = async () => {
+  const config = await runTransaction(OUTBOX_META_STORE, 'readonly', (store) => store.get('config'));
+  if (!config) return;
+
+  const entries = (await runTransaction(OUTBOX_STORE, 'readonly', (store) => store.getAll())) || [];
+  let retryError = null;
+
+  for (const entry of entries.filter((e) => e.status === 'queued')) {
+    try {
+      const attachments = await uploadAttachments(config, entry);
+      const referenceNumber = await submitIncident(config, entry.row, attachments, entry.verificationId);
+      await runTransaction(OUTBOX_STORE, 'readwrite', (store) => store.put({
+        ...entry,
+        row: { ...entry.row, reference_number: referenceNumber },
+        attachments: [],
+        status: 'sent',
+        sentAt: new Date().toISOString()
+      }));
+    } catch (error) {
+      if (error.final) {
+        await runTransaction(OUTBOX_STORE, 'readwrite', (store) => store.put({
+          ...entry,
+          attachments: [],
+          status: 'rejected',
+          attempts: entry.attempts + 1,
+          lastError: error.message
+        }));
+        continue;
+      }
+
+      await runTransaction(OUTBOX_STORE, 'readwrite', (store) => store.put({
+        ...entry,
+        attempts: entry.attempts + 1,
+        lastError: error.message
+      }));
+      retryError = error;
+      // Still offline: the rest would fail the same way
+      if (error instanceof TypeError) break;
+    }
+  }
+
+  await notifyClients();
+  // Rejecting makes the browser retry the sync later with backoff
+  if (retryError) throw retryError;
+};
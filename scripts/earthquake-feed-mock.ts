@@ -0,0 +1,179 @@
+// Local stand-in for the earthquake feed, for developing the earthquake-feed
+// edge function, the public widget and the draft alerts without waiting for
+// a real quake:
+//
+//   deno run --allow-net --allow-env scripts/earthquake-feed-mock.ts
+//
+//   GET  /feed.geojson          the fixture quakes as a USGS-format GeoJSON
+//                               feed, timed relative to when the mock started
+//   GET  /quakes/<id>           one quake, the event page each feature links to
+//   POST /quakes                adds a quake: {"mag", "lat", "lng", "depth"?,
+//                               "place"?, "intensity_reports"?}; posting an
+//                               existing "id" revises that quake instead
+//   POST /reset                 back to the fixture quakes
+//
+// Set EARTHQUAKE_FEED_URL on the earthquake-feed function to the feed address
+// the edge functions can reach the mock at
+// (http://host.docker.internal:8788/feed.geojson under `supabase functions serve`).
+
+interface IntensityReport {
+  place: string
+  intensity: number
+}
+
+interface MockQuake {
+  id: string
+  mag: number
+  magType: string
+  lat: number
+  lng: number
+  depth: number
+  place: string
+  time: number
+  intensity_reports: IntensityReport[]
+}
+
+const port = Number(Deno.env.get('EARTHQUAKE_MOCK_PORT') ?? 8788)
+const publicUrl = Deno.env.get('EARTHQUAKE_MOCK_URL') ?? `http://localhost:${port}`
+
+const HOUR = 60 * 60 * 1000
+
+// With the default 200 km radius and magnitude 4.5: the first two are near
+// Pio Duran and get draft alerts, the third is too weak, the fourth too far
+// and the last too old to draft
+const createFixtures = (now: number): MockQuake[] => [
+  {
+    id: 'mock-burias-pass',
+    mag: 5.8,
+    magType: 'mww',
+    lat: 12.78,
+    lng: 123.21,
+    depth: 14,
+    place: 'Burias Pass, 37 km SW of Pio Duran (Albay)',
+    time: now - 20 * 60 * 1000,
+    intensity_reports: [
+      { place: 'Pio Duran, Albay', intensity: 5 },
+      { place: 'Ligao City, Albay', intensity: 4 },
+      { place: 'Legazpi City, Albay', intensity: 3 }
+    ]
+  },
+  {
+    id: 'mock-ragay-gulf',
+    mag: 4.7,
+    magType: 'mb',
+    lat: 13.42,
+    lng: 122.88,
+    depth: 22,
+    place: 'Ragay Gulf, 75 km NW of Pio Duran (Camarines Sur)',
+    time: now - 3 * HOUR,
+    intensity_reports: [{ place: 'Pio Duran, Albay', intensity: 3 }]
+  },
+  {
+    id: 'mock-masbate-small',
+    mag: 3.4,
+    magType: 'ml',
+    lat: 12.55,
+    lng: 123.62,
+    depth: 10,
+    place: 'Masbate, 56 km SSE of Pio Duran',
+    time: now - 5 * HOUR,
+    intensity_reports: []
+  },
+  {
+    id: 'mock-davao-oriental',
+    mag: 5.2,
+    magType: 'mb',
+    lat: 7.21,
+    lng: 126.65,
+    depth: 35,
+    place: 'Davao Oriental, Mindanao',
+    time: now - 8 * HOUR,
+    intensity_reports: []
+  },
+  {
+    id: 'mock-albay-gulf-old',
+    mag: 4.9,
+    magType: 'mb',
+    lat: 13.15,
+    lng: 123.92,
+    depth: 18,
+    place: 'Albay Gulf, 53 km E of Pio Duran',
+    time: now - 40 * HOUR,
+    intensity_reports: [{ place: 'Legazpi City, Albay', intensity: 4 }]
+  }
+]
+
+let quakes = createFixtures(Date.now())
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body, null, 2), { status, headers: { 'Content-Type': 'application/json' } })
+
+const toFeature = (quake: MockQuake) => ({
+  type: 'Feature',
+  id: quake.id,
+  properties: {
+    mag: quake.mag,
+    magType: quake.magType,
+    place: quake.place,
+    time: quake.time,
+    updated: Date.now(),
+    url: `${publicUrl}/quakes/${quake.id}`,
+    intensity_reports: quake.intensity_reports
+  },
+  geometry: { type: 'Point', coordinates: [quake.lng, quake.lat, quake.depth] }
+})
+
+Deno.serve({ port }, async (req) => {
+  const url = new URL(req.url)
+
+  if (req.method === 'GET' && url.pathname === '/feed.geojson') {
+    return jsonResponse({
+      type: 'FeatureCollection',
+      metadata: { generated: Date.now(), title: 'Earthquake feed mock', count: quakes.length },
+      features: quakes.map(toFeature)
+    })
+  }
+
+  const quakeMatch = url.pathname.match(/^\/quakes\/([\w-]+)$/)
+  if (req.method === 'GET' && quakeMatch) {
+    const quake = quakes.find(item => item.id === quakeMatch[1])
+    return quake ? jsonResponse(toFeature(quake)) : new Response('Unknown quake', { status: 404 })
+  }
+
+  if (req.method === 'POST' && url.pathname === '/quakes') {
+    try {
+      const body = await req.json()
+      if (typeof body.mag !== 'number' || typeof body.lat !== 'number' || typeof body.lng !== 'number') {
+        return new Response('mag, lat and lng are required numbers', { status: 400 })
+      }
+
+      const existing = quakes.find(quake => quake.id === body.id)
+      const quake: MockQuake = {
+        id: body.id ?? `mock-${crypto.randomUUID()}`,
+        mag: body.mag,
+        magType: body.magType ?? existing?.magType ?? 'mb',
+        lat: body.lat,
+        lng: body.lng,
+        depth: body.depth ?? existing?.depth ?? 10,
+        place: body.place ?? existing?.place ?? `${body.lat.toFixed(2)}°N ${body.lng.toFixed(2)}°E`,
+        time: existing?.time ?? Date.now(),
+        intensity_reports: body.intensity_reports ?? existing?.intensity_reports ?? []
+      }
+      quakes = [quake, ...quakes.filter(item => item.id !== quake.id)]
+      console.log(`${existing ? 'Revised' : 'Added'} quake ${quake.id}: M${quake.mag} at ${quake.place}`)
+
+      return jsonResponse(toFeature(quake), existing ? 200 : 201)
+    } catch (error) {
+      return new Response((error as Error).message, { status: 400 })
+    }
+  }
+
+  if (req.method === 'POST' && url.pathname === '/reset') {
+    quakes = createFixtures(Date.now())
+    return jsonResponse({ count: quakes.length })
+  }
+
+  return new Response('Not found', { status: 404 })
+})
+
+console.log(`Earthquake feed mock listening on ${publicUrl}/feed.geojson`)
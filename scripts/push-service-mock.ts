@@ -0,0 +1,142 @@
+// Local stand-in for a browser push service, for testing the web-push alert
+// channel without a real browser:
+//
+//   deno run --allow-net --allow-env scripts/push-service-mock.ts
+//
+//   GET  /subscription          a new subscription to save with the
+//                               push-subscription function (?gone=1 makes one
+//                               that answers 410, as if the browser unsubscribed)
+//   POST /push/<id>             checks the VAPID header, decrypts the message and logs it
+//   GET  /messages              everything received so far
+//
+// Set PUSH_MOCK_URL to the address the edge functions can reach the mock at
+// (http://host.docker.internal:8787 under `supabase functions serve`) and
+// PUSH_ALLOW_INSECURE_ENDPOINTS=true on the push-subscription function, which
+// otherwise only accepts endpoints on the browser push services.
+
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  deriveContentKeys
+} from '../supabase/functions/_shared/webPush.ts'
+
+interface MockSubscriber {
+  keyPair: CryptoKeyPair
+  publicKey: Uint8Array
+  authSecret: Uint8Array
+  gone: boolean
+}
+
+interface ReceivedMessage {
+  subscriptionId: string
+  receivedAt: string
+  headers: Record<string, string | null>
+  payload: unknown
+}
+
+const port = Number(Deno.env.get('PUSH_MOCK_PORT') ?? 8787)
+const publicUrl = Deno.env.get('PUSH_MOCK_URL') ?? `http://localhost:${port}`
+
+const subscribers = new Map<string, MockSubscriber>()
+const messages: ReceivedMessage[] = []
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body, null, 2), { status, headers: { 'Content-Type': 'application/json' } })
+
+const createSubscription = async (gone: boolean) => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey))
+  const authSecret = crypto.getRandomValues(new Uint8Array(16))
+  const id = crypto.randomUUID()
+
+  subscribers.set(id, { keyPair, publicKey, authSecret, gone })
+  return {
+    endpoint: `${publicUrl}/push/${id}`,
+    keys: { p256dh: base64UrlEncode(publicKey), auth: base64UrlEncode(authSecret) }
+  }
+}
+
+// Throws unless the JWT is signed by the key in k= and is meant for this origin
+const verifyVapid = async (authorization: string | null) => {
+  const match = authorization?.match(/^vapid t=([^,]+),\s*k=(.+)$/)
+  if (!match) throw new Error('Missing or malformed VAPID Authorization header')
+
+  const [header, claims, signature] = match[1].split('.')
+  const publicKey = await crypto.subtle.importKey(
+    'raw', base64UrlDecode(match[2]), { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']
+  )
+  const isValid = await crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    publicKey,
+    base64UrlDecode(signature),
+    new TextEncoder().encode(`${header}.${claims}`)
+  )
+  if (!isValid) throw new Error('VAPID signature does not verify')
+
+  const { aud, exp, sub } = JSON.parse(new TextDecoder().decode(base64UrlDecode(claims)))
+  if (aud !== new URL(publicUrl).origin) throw new Error(`VAPID audience ${aud} is not ${new URL(publicUrl).origin}`)
+  if (exp * 1000 < Date.now()) throw new Error('VAPID token has expired')
+  if (!/^(mailto|https):/.test(sub)) throw new Error('VAPID subject must be a mailto: or https: URL')
+}
+
+const decryptMessage = async (subscriber: MockSubscriber, body: Uint8Array) => {
+  const salt = body.slice(0, 16)
+  const keyIdLength = body[20]
+  const senderPublicKey = body.slice(21, 21 + keyIdLength)
+
+  const { key, nonce } = await deriveContentKeys(
+    subscriber.keyPair.privateKey, senderPublicKey, subscriber.publicKey, senderPublicKey, subscriber.authSecret, salt
+  )
+  const plaintext = new Uint8Array(await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: nonce }, key, body.slice(21 + keyIdLength)
+  ))
+
+  // Strip the padding and the last-record delimiter
+  let end = plaintext.length - 1
+  while (end > 0 && plaintext[end] === 0) end--
+  return new TextDecoder().decode(plaintext.slice(0, end))
+}
+
+Deno.serve({ port }, async (req) => {
+  const url = new URL(req.url)
+
+  if (req.method === 'GET' && url.pathname === '/subscription') {
+    return jsonResponse(await createSubscription(url.searchParams.has('gone')))
+  }
+
+  if (req.method === 'GET' && url.pathname === '/messages') {
+    return jsonResponse(messages)
+  }
+
+  const pushMatch = url.pathname.match(/^\/push\/([\w-]+)$/)
+  if (req.method === 'POST' && pushMatch) {
+    const subscriber = subscribers.get(pushMatch[1])
+    if (!subscriber) return new Response('Unknown subscription', { status: 404 })
+    if (subscriber.gone) return new Response('Subscription has expired', { status: 410 })
+
+    try {
+      await verifyVapid(req.headers.get('Authorization'))
+      if (req.headers.get('Content-Encoding') !== 'aes128gcm') throw new Error('Content-Encoding must be aes128gcm')
+      if (!req.headers.get('TTL')) throw new Error('TTL header is required')
+
+      const text = await decryptMessage(subscriber, new Uint8Array(await req.arrayBuffer()))
+      const message: ReceivedMessage = {
+        subscriptionId: pushMatch[1],
+        receivedAt: new Date().toISOString(),
+        headers: { ttl: req.headers.get('TTL'), urgency: req.headers.get('Urgency'), topic: req.headers.get('Topic') },
+        payload: JSON.parse(text)
+      }
+      messages.push(message)
+      console.log('Push received:', JSON.stringify(message))
+
+      return new Response(null, { status: 201, headers: { Location: `${publicUrl}/messages/${messages.length}` } })
+    } catch (error) {
+      console.error('Push rejected:', (error as Error).message)
+      return new Response((error as Error).message, { status: 400 })
+    }
+  }
+
+  return new Response('Not found', { status: 404 })
+})
+
+console.log(`Push service mock listening on ${publicUrl}`)
@@ -18,6 +18,10 @@ import DisasterPlanPage from './pages/public/DisasterPlanPage';
 import Contact from './pages/public/Contact';
 import Gallery from './pages/public/Gallery';
 import DynamicPage from './pages/public/DynamicPage';
+import TrackIncident from './pages/public/TrackIncident';
+import EmergencyAlerts from './pages/public/EmergencyAlerts';
+import AcknowledgeAlert from './pages/public/AcknowledgeAlert';
+import TropicalCyclone from './pages/public/TropicalCyclone';
 
 // Admin Pages
 import AdminLayout from './layouts/AdminLayout';
@@ -35,6 +39,9 @@ import ResourcesManagement from './pages/admin/ResourcesManagement';
 import NavigationManagement from './pages/admin/NavigationManagement';
 import UsersManagement from './pages/admin/UsersManagement';
 import IncidentReports from './pages/admin/IncidentReports';
+import IncidentAnalytics from './pages/admin/IncidentAnalytics';
+import IncidentTypesManagement from './pages/admin/IncidentTypesManagement';
+import IncidentSubmissionLog from './pages/admin/IncidentSubmissionLog';
 import Settings from './pages/admin/Settings';
 // import WeatherManagement from './pages/admin/WeatherManagement';
 import VideoGallery from './pages/public/VideoGallery';
@@ -66,6 +73,12 @@ function App() {
                   <Route path="gallery" element={<Gallery />} />
                   <Route path="video-gallery" element={<VideoGallery />} />
                   <Route path="contact" element={<Contact />} />
+                  <Route path="track" element={<TrackIncident />} />
+                  <Route path="alerts" element={<EmergencyAlerts />} />
+                  <Route path="alerts/:id" element={<EmergencyAlerts />} />
+                  <Route path="acknowledge/:token" element={<AcknowledgeAlert />} />
+                  <Route path="tropical-cyclone" element={<TropicalCyclone />} />
+                  <Route path="tropical-cyclone/:id" element={<TropicalCyclone />} />
                   {/* Dynamic pages route */}
                   <Route path=":slug" element={<DynamicPage />} />
                 </Route>
@@ -94,6 +107,9 @@ function App() {
                   <Route path="navigation" element={<NavigationManagement />} />
                   <Route path="users" element={<UsersManagement />} />
                   <Route path="incidents" element={<IncidentReports />} />
+                  <Route path="incidents/analytics" element={<IncidentAnalytics />} />
+                  <Route path="incidents/rejected" element={<IncidentSubmissionLog />} />
+                  <Route path="incident-types" element={<IncidentTypesManagement />} />
                   <Route path="settings" element={<Settings />} />
                 </Route>
               </Routes>
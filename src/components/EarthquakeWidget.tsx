@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Activity, ChevronDown, ChevronUp, ExternalLink } from 'lucide-react';
+import { RealtimeManager } from '../utils/realtime';
+import {
+  RECENT_EARTHQUAKE_DAYS,
+  formatIntensity,
+  getDirectionFromPioDuran,
+  getRecentNearbyEarthquakes
+} from '../utils/earthquakes';
+import type { EarthquakeEvent } from '../types';
+
+const getMagnitudeClassName = (magnitude: number) =>
+  magnitude >= 7 ? 'bg-red-900 text-white' :
+  magnitude >= 6 ? 'bg-red-600 text-white' :
+  magnitude >= 5 ? 'bg-orange-600 text-white' :
+  'bg-amber-500 text-gray-900';
+
+const formatTimeAgo = (timestamp: string) => {
+  const diffInMinutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / (1000 * 60));
+
+  if (diffInMinutes < 1) return 'Just now';
+  if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
+  if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`;
+  return `${Math.floor(diffInMinutes / 1440)}d ago`;
+};
+
+const describeQuake = (quake: EarthquakeEvent) =>
+  `${Math.round(quake.distance_km)} km ${getDirectionFromPioDuran(quake.latitude, quake.longitude)}`;
+
+// Quakes within the configured radius and magnitude of Pio Duran over the
+// past week, from the earthquake feed. Hidden when there are none.
+const EarthquakeWidget: React.FC = () => {
+  const [quakes, setQuakes] = useState<EarthquakeEvent[]>([]);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => {
+    const fetchQuakes = () => {
+      getRecentNearbyEarthquakes()
+        .then(setQuakes)
+        .catch(error => console.error('Error fetching earthquakes:', error));
+    };
+
+    fetchQuakes();
+    const subscription = RealtimeManager.subscribe('earthquake_events', fetchQuakes);
+    return () => subscription.unsubscribe();
+  }, []);
+
+  if (quakes.length === 0) return null;
+
+  const latest = quakes[0];
+
+  return (
+    <div className={`earthquake-widget ${getMagnitudeClassName(latest.magnitude)} py-2 px-4 shadow-lg border-b-4 border-blue-950`}>
+      <div className="container mx-auto">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="w-full flex items-center justify-between text-left"
+          aria-expanded={isExpanded}
+        >
+          <span className="flex flex-wrap items-center gap-x-3 gap-y-1">
+            <Activity size={18} />
+            <span className="font-bold">Magnitude {latest.magnitude.toFixed(1)} earthquake</span>
+            <span>{describeQuake(latest)} of Pio Duran</span>
+            {latest.max_intensity !== null && (
+              <span className="font-semibold">{formatIntensity(latest.max_intensity)}</span>
+            )}
+            <span className="text-sm opacity-75">{formatTimeAgo(latest.occurred_at)}</span>
+          </span>
+          {isExpanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+        </button>
+
+        {isExpanded && (
+          <div className="pt-3 pb-1 space-y-3 text-sm">
+            {quakes.map(quake => (
+              <div key={quake.id} className="space-y-1">
+                <p className="flex flex-wrap items-center gap-x-3">
+                  <span className="font-semibold">M{quake.magnitude.toFixed(1)}</span>
+                  <span>{describeQuake(quake)}{quake.place ? `, ${quake.place}` : ''}</span>
+                  {quake.depth_km !== null && <span>Depth {Math.round(quake.depth_km)} km</span>}
+                  <span className="opacity-75">{new Date(quake.occurred_at).toLocaleString()}</span>
+                  {quake.url && (
+                    <a
+                      href={quake.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 underline"
+                    >
+                      Details <ExternalLink size={12} />
+                    </a>
+                  )}
+                </p>
+                {quake.intensity_reports.length > 0 && (
+                  <p className="opacity-90">
+                    {quake.intensity_reports
+                      .map(report => `${formatIntensity(report.intensity)} in ${report.place}`)
+                      .join(', ')}
+                  </p>
+                )}
+              </div>
+            ))}
+            <p className="opacity-75">
+              Earthquakes near Pio Duran in the past {RECENT_EARTHQUAKE_DAYS} days. Expect aftershocks and report damage to the MDRRMO.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EarthquakeWidget;
@@ -1,6 +1,21 @@
-import React, { useState, useEffect } from 'react';
-import { AlertTriangle, X, Volume2, VolumeX } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, X, Volume2, VolumeX, MapPin, Languages } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { RealtimeManager } from '../utils/realtime';
+import { playAlertTone } from '../utils/alertTone';
+import useLocalStorage from '../hooks/useLocalStorage';
+import { useVisitorLanguage } from '../hooks/useVisitorLanguage';
+import { ALERT_LANGUAGES, getLocalizedAlert } from '../utils/alertLanguages';
+import {
+  getNextAlertTransition,
+  getVisitorBarangay,
+  isAlertForBarangay,
+  isAlertLive,
+  setVisitorBarangay
+} from '../utils/emergencyAlerts';
+import { BARANGAYS } from '../utils/constants';
+import type { AlertLanguage, AlertTranslations } from '../types';
 
 interface EmergencyAlert {
   id: string;
@@ -10,23 +25,113 @@ interface EmergencyAlert {
   message: string;
   location: string;
   issued_at: string;
+  status: 'active' | 'expired' | 'cancelled';
+  expires_at: string | null;
+  target_barangays: string[];
+  revision: number;
+  translations: AlertTranslations;
 }
 
+// Polled only while the realtime channel is down
+const FALLBACK_POLL_INTERVAL = 60000;
+// How long a new critical alert holds the banner before rotation resumes
+const CRITICAL_INTERRUPT_MS = 30000;
+
+type EmergencyAlertRow = Omit<EmergencyAlert, 'location' | 'target_barangays' | 'revision' | 'translations'> & {
+  location: string | null;
+  target_barangays: string[] | null;
+  revision: number | null;
+  translations: AlertTranslations | null;
+};
+
+// Visitors can only read these columns (see the public_face migration)
+const BANNER_COLUMNS = 'id, type, severity, title, message, location, issued_at, status, expires_at, target_barangays, revision, translations';
+
+const toBannerAlert = (alert: EmergencyAlertRow): EmergencyAlert => ({
+  id: alert.id,
+  type: alert.type,
+  severity: alert.severity,
+  title: alert.title,
+  message: alert.message,
+  location: alert.location || 'Municipality-wide',
+  issued_at: alert.issued_at,
+  status: alert.status,
+  expires_at: alert.expires_at,
+  target_barangays: alert.target_barangays || [],
+  revision: alert.revision || 1,
+  translations: alert.translations || {}
+});
+
+// Updated alerts count as new so a critical update is announced again
+const getAlertKey = (alert: EmergencyAlert) => `${alert.id}:${alert.revision}`;
+
 const EmergencyAlertBanner: React.FC = () => {
   const [alerts, setAlerts] = useState<EmergencyAlert[]>([]);
+  const [hasLoaded, setHasLoaded] = useState(false);
   const [currentAlertIndex, setCurrentAlertIndex] = useState(0);
+  const [interruptingAlertId, setInterruptingAlertId] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState<{ text: string; language: AlertLanguage }>({ text: '', language: 'en' });
   const [isVisible, setIsVisible] = useState(true);
-  const [isMuted, setIsMuted] = useState(false);
+  const [isMuted, setIsMuted] = useLocalStorage('alert-tone-muted', false);
+  const [now, setNow] = useState(Date.now());
+  const [barangay, setBarangay] = useState<string | null>(getVisitorBarangay);
+  const [isPickingBarangay, setIsPickingBarangay] = useState(false);
+  const [language, setLanguage] = useVisitorLanguage();
+  const seenAlertKeys = useRef<Set<string> | null>(null);
 
   useEffect(() => {
+    let isMounted = true;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+
     fetchActiveAlerts();
+
+    // New alerts, scheduled alerts going live, edits, expiries and cancellations
+    const subscription = RealtimeManager.subscribe('emergency_alerts', (payload) => {
+      const id = payload.eventType === 'DELETE' ? payload.old.id : payload.new.id;
+      const isShown = payload.eventType !== 'DELETE' &&
+        payload.new.status === 'active' && payload.new.show_on_frontend !== false;
+
+      setAlerts(prev => {
+        const others = prev.filter(alert => alert.id !== id);
+        if (!isShown) return others;
+        return [toBannerAlert(payload.new), ...others]
+          .sort((a, b) => new Date(b.issued_at).getTime() - new Date(a.issued_at).getTime());
+      });
+      setNow(Date.now());
+    }, undefined, (status) => {
+      if (!isMounted) return;
+      if (status === 'SUBSCRIBED') {
+        if (pollTimer) {
+          clearInterval(pollTimer);
+          pollTimer = null;
+          // Catch up on whatever changed while disconnected
+          fetchActiveAlerts();
+        }
+      } else if (!pollTimer) {
+        pollTimer = setInterval(fetchActiveAlerts, FALLBACK_POLL_INTERVAL);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+      if (pollTimer) clearInterval(pollTimer);
+      subscription.unsubscribe();
+    };
   }, []);
 
+  // Drop an alert at its expires_at even if the scheduler has not run yet
+  useEffect(() => {
+    const delay = getNextAlertTransition(alerts, now);
+    if (delay === null) return;
+    const timer = setTimeout(() => setNow(Date.now()), delay + 1000);
+    return () => clearTimeout(timer);
+  }, [alerts, now]);
+
   const fetchActiveAlerts = async () => {
     try {
       const { data, error } = await supabase
         .from('emergency_alerts')
-        .select('*')
+        .select(BANNER_COLUMNS)
         .eq('status', 'active')
         .eq('show_on_frontend', true)
         .order('issued_at', { ascending: false });
@@ -35,30 +140,76 @@ const EmergencyAlertBanner: React.FC = () => {
         throw error;
       }
       
-      const transformedData = (data || []).map(alert => ({
-        id: alert.id,
-        type: alert.type,
-        severity: alert.severity,
-        title: alert.title,
-        message: alert.message,
-        location: alert.location || 'Municipality-wide',
-        issued_at: alert.issued_at
-      }));
-      
-      setAlerts(transformedData);
+      setAlerts((data || []).map(toBannerAlert));
+      setNow(Date.now());
     } catch (error) {
       console.error('Error fetching emergency alerts:', error);
+    } finally {
+      setHasLoaded(true);
     }
   };
 
+  const liveAlerts = alerts.filter(alert => isAlertLive(alert, now) && isAlertForBarangay(alert, barangay));
+
+  // Alerts already up when the page loaded are shown without interrupting
   useEffect(() => {
-    if (alerts.length > 1) {
+    if (!hasLoaded) return;
+
+    const keys = alerts.filter(alert => isAlertLive(alert, now)).map(getAlertKey);
+    if (seenAlertKeys.current === null) {
+      seenAlertKeys.current = new Set(keys);
+      return;
+    }
+
+    const seen = seenAlertKeys.current;
+    const newCritical = alerts.find(alert =>
+      alert.severity === 'critical' &&
+      !seen.has(getAlertKey(alert)) &&
+      isAlertLive(alert, now) &&
+      isAlertForBarangay(alert, barangay)
+    );
+    keys.forEach(key => seen.add(key));
+    if (!newCritical) return;
+
+    const text = getLocalizedAlert(newCritical, language);
+    setInterruptingAlertId(newCritical.id);
+    setIsVisible(true);
+    setAnnouncement({ text: `${text.title}. ${text.message}`, language: text.language });
+    if (!isMuted) playAlertTone();
+  }, [alerts, hasLoaded, now, barangay, isMuted, language]);
+
+  const interruptingIndex = liveAlerts.findIndex(alert => alert.id === interruptingAlertId);
+
+  // Rotation resumes from the critical alert once it has been held long enough
+  useEffect(() => {
+    if (!interruptingAlertId) return;
+    if (interruptingIndex < 0) {
+      // Cancelled, expired or edited down while it held the banner
+      setInterruptingAlertId(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      setInterruptingAlertId(null);
+      setCurrentAlertIndex(interruptingIndex);
+    }, CRITICAL_INTERRUPT_MS);
+    return () => clearTimeout(timer);
+  }, [interruptingAlertId, interruptingIndex]);
+
+  const handleBarangayChange = (value: string | null) => {
+    setBarangay(value);
+    setVisitorBarangay(value);
+    setCurrentAlertIndex(0);
+    setIsPickingBarangay(false);
+  };
+
+  useEffect(() => {
+    if (liveAlerts.length > 1 && !interruptingAlertId) {
       const interval = setInterval(() => {
-        setCurrentAlertIndex((prev) => (prev + 1) % alerts.length);
+        setCurrentAlertIndex((prev) => (prev + 1) % liveAlerts.length);
       }, 5000);
       return () => clearInterval(interval);
     }
-  }, [alerts.length]);
+  }, [liveAlerts.length, interruptingAlertId]);
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
@@ -85,19 +236,32 @@ const EmergencyAlertBanner: React.FC = () => {
         return '🌊';
       case 'fire':
         return '🔥';
+      case 'volcano':
+        return '🌋';
       default:
         return '⚠️';
     }
   };
 
-  if (!isVisible || alerts.length === 0) {
-    return null;
+  // Rendered even while the banner is hidden so screen readers pick up changes
+  const liveRegion = (
+    <div role="alert" aria-live="assertive" aria-atomic="true" lang={announcement.language} className="sr-only">
+      {announcement.text}
+    </div>
+  );
+
+  if (!isVisible || liveAlerts.length === 0) {
+    return liveRegion;
   }
 
-  const currentAlert = alerts[currentAlertIndex];
+  const currentAlert = interruptingIndex >= 0
+    ? liveAlerts[interruptingIndex]
+    : liveAlerts[currentAlertIndex % liveAlerts.length];
+  const currentText = getLocalizedAlert(currentAlert, language);
 
   return (
     <div className={`${getSeverityColor(currentAlert.severity)} text-white py-0 px-1 relative z-40`}>
+      {liveRegion}
       <div className="container mx-auto flex items-center justify-between">
         <div className="flex items-center space-x-3 flex-1">
           <div className="flex items-center space-x-2">
@@ -108,32 +272,78 @@ const EmergencyAlertBanner: React.FC = () => {
           
           <div className="flex-1 overflow-hidden">
             <div className="animate-marquee whitespace-nowrap">
-              <span className="font-medium">{currentAlert.title}</span>
+              <Link to={`/alerts/${currentAlert.id}`} lang={currentText.language} className="font-medium hover:underline">{currentText.title}</Link>
               <span className="mx-4">•</span>
-              <span>{currentAlert.message}</span>
+              <span lang={currentText.language}>{currentText.message}</span>
               <span className="mx-4">•</span>
-              <span>Location: {currentAlert.location}</span>
+              <span>
+                Location: {currentAlert.target_barangays.length > 0 ? currentAlert.target_barangays.join(', ') : currentAlert.location}
+              </span>
             </div>
           </div>
         </div>
 
         <div className="flex items-center space-x-2">
-          {alerts.length > 1 && (
+          <div className="relative">
+            <button
+              onClick={() => setIsPickingBarangay(!isPickingBarangay)}
+              className="flex items-center text-xs bg-white bg-opacity-20 px-2 py-1 rounded hover:bg-opacity-30 transition-colors"
+              title="Show alerts for your barangay"
+            >
+              <MapPin size={12} className="mr-1" />
+              {barangay || 'All barangays'}
+            </button>
+            {isPickingBarangay && (
+              <div className="absolute right-0 top-full mt-1 bg-white text-gray-900 rounded-lg shadow-lg p-3 w-56 z-50">
+                <label className="block text-xs font-medium text-gray-700 mb-1">Your barangay</label>
+                <select
+                  value={barangay || ''}
+                  onChange={(e) => handleBarangayChange(e.target.value || null)}
+                  className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                >
+                  <option value="">All barangays</option>
+                  {BARANGAYS.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          <label className="flex items-center text-xs bg-white bg-opacity-20 px-2 py-1 rounded hover:bg-opacity-30 transition-colors">
+            <Languages size={12} className="mr-1" />
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as AlertLanguage)}
+              className="bg-transparent text-white focus:outline-none cursor-pointer"
+              aria-label="Alert language"
+            >
+              {ALERT_LANGUAGES.map(option => (
+                <option key={option.id} value={option.id} className="text-gray-900">{option.name}</option>
+              ))}
+            </select>
+          </label>
+
+          {liveAlerts.length > 1 && (
             <div className="text-xs bg-white bg-opacity-20 px-2 py-1 rounded">
-              {currentAlertIndex + 1} of {alerts.length}
+              {liveAlerts.indexOf(currentAlert) + 1} of {liveAlerts.length}
             </div>
           )}
           
           <button
             onClick={() => setIsMuted(!isMuted)}
             className="text-white hover:text-gray-200 transition-colors"
-            title={isMuted ? 'Unmute alerts' : 'Mute alerts'}
+            title={isMuted ? 'Unmute alert tone' : 'Mute alert tone'}
+            aria-pressed={isMuted}
           >
             {isMuted ? <VolumeX size={16} /> : <Volume2 size={16} />}
           </button>
           
           <button
-            onClick={() => setIsVisible(false)}
+            onClick={() => {
+              setIsVisible(false);
+              setInterruptingAlertId(null);
+            }}
             className="text-white hover:text-gray-200 transition-colors"
             title="Dismiss alert"
           >
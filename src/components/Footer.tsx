@@ -49,6 +49,7 @@ const Footer: React.FC = () => {
     { label: 'Programs & Services', path: '/services-detail' },
     { label: 'News & Updates', path: '/news-portal' },
     { label: 'Resources', path: '/resources' },
+    { label: 'Track a Report', path: '/track' },
     { label: 'Contact Us', path: '/contact' }
   ];
 
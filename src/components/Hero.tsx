@@ -2,6 +2,8 @@ import React, { useEffect, useRef, useState } from 'react';
 import { Phone, AlertTriangle, ChevronDown, CloudRain, Zap, Wind } from 'lucide-react';
 import Navigation from './Navigation';
 import WeatherTickerWidget from './WeatherTickerWidget';
+import VolcanoStatusWidget from './VolcanoStatusWidget';
+import EarthquakeWidget from './EarthquakeWidget';
 import WeatherForecastWidget from './WeatherForecastWidget';
 // import SmoothScroll from './SmoothScroll';
 
@@ -232,9 +234,11 @@ const Hero = ({ onEmergencyClick, onIncidentClick }) => {
         </div>
       </div>
       
-      {/* Weather Widgets */}
+      {/* Weather, Volcano and Earthquake Widgets */}
       <div className="relative z-50 weather-widgets-container">
         <WeatherTickerWidget />
+        <VolcanoStatusWidget />
+        <EarthquakeWidget />
         <WeatherForecastWidget />
       </div>
       
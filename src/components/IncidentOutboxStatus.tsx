@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, CloudOff, CheckCircle, X } from 'lucide-react';
+import {
+  getOutboxEntries,
+  removeOutboxEntry,
+  isOutboxSupported,
+  OUTBOX_CHANGE_EVENT,
+  type OutboxEntry
+} from '../utils/incidentOutbox';
+
+const IncidentOutboxStatus: React.FC = () => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => {
+    if (!isOutboxSupported()) return;
+
+    const loadEntries = () => {
+      getOutboxEntries()
+        .then(setEntries)
+        .catch(error => console.error('Error reading incident outbox:', error));
+    };
+
+    loadEntries();
+    window.addEventListener(OUTBOX_CHANGE_EVENT, loadEntries);
+    return () => window.removeEventListener(OUTBOX_CHANGE_EVENT, loadEntries);
+  }, []);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 max-w-sm w-[calc(100%-2rem)] space-y-2" aria-live="polite">
+      {entries.map(entry => (
+        <div key={entry.id} className="bg-white rounded-lg shadow-lg border border-gray-200 p-4 flex items-start space-x-3">
+          {entry.status === 'queued' ? (
+            <CloudOff className="text-yellow-600 mt-0.5" size={20} />
+          ) : entry.status === 'rejected' ? (
+            <AlertTriangle className="text-red-600 mt-0.5" size={20} />
+          ) : (
+            <CheckCircle className="text-green-600 mt-0.5" size={20} />
+          )}
+          <div className="flex-1 text-sm">
+            {entry.status === 'queued' ? (
+              <>
+                <p className="font-medium text-gray-900">Report queued – will send when online</p>
+                <p className="text-gray-600">
+                  Provisional reference: <span className="font-mono">{entry.id}</span>
+                </p>
+              </>
+            ) : entry.status === 'rejected' ? (
+              <>
+                <p className="font-medium text-gray-900">Queued report not accepted</p>
+                {entry.lastError && <p className="text-gray-600">{entry.lastError}</p>}
+                <p className="text-gray-600">
+                  Please submit a new report, or call the hotline if this is an emergency.
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="font-medium text-gray-900">Queued report sent</p>
+                <p className="text-gray-600">
+                  Reference number: <span className="font-bold text-blue-600">{entry.row.reference_number}</span>
+                </p>
+                <Link
+                  to={`/track?ref=${encodeURIComponent(entry.row.reference_number)}`}
+                  className="text-xs font-medium text-blue-700 hover:text-blue-900"
+                >
+                  Track your report
+                </Link>
+              </>
+            )}
+          </div>
+          {entry.status !== 'queued' && (
+            <button
+              onClick={() => removeOutboxEntry(entry.id)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Dismiss"
+            >
+              <X size={16} />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default IncidentOutboxStatus;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Mountain } from 'lucide-react';
+import { databaseManager } from '../lib/database';
+import { RealtimeManager } from '../utils/realtime';
+import { getDangerZoneName, getEvacuationBarangays, getVolcanoAlertLevel } from '../utils/mayonVolcano';
+import type { VolcanoBulletin, VolcanoDangerZoneBarangay } from '../types';
+
+// Mayon Volcano alert level from the latest PHIVOLCS bulletin, shown under
+// the weather ticker. Hidden until a bulletin has been posted.
+const VolcanoStatusWidget: React.FC = () => {
+  const [bulletin, setBulletin] = useState<VolcanoBulletin | null>(null);
+  const [dangerZones, setDangerZones] = useState<VolcanoDangerZoneBarangay[]>([]);
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  useEffect(() => {
+    const fetchLatest = () => {
+      databaseManager.getVolcanoBulletins(1)
+        .then(data => setBulletin((data[0] as VolcanoBulletin | undefined) ?? null))
+        .catch(error => console.error('Error fetching Mayon Volcano status:', error));
+    };
+
+    fetchLatest();
+    databaseManager.getVolcanoDangerZones()
+      .then(data => setDangerZones(data as VolcanoDangerZoneBarangay[]))
+      .catch(error => console.error('Error fetching Mayon danger zones:', error));
+
+    const subscription = RealtimeManager.subscribe('volcano_bulletins', fetchLatest);
+    return () => subscription.unsubscribe();
+  }, []);
+
+  if (!bulletin) return null;
+
+  const level = getVolcanoAlertLevel(bulletin.alert_level);
+  const evacuating = getEvacuationBarangays(bulletin.alert_level, dangerZones);
+  const figures = [
+    bulletin.volcanic_earthquakes !== null && `${bulletin.volcanic_earthquakes} volcanic earthquakes`,
+    bulletin.rockfall_events !== null && `${bulletin.rockfall_events} rockfall events`,
+    bulletin.pdc_events !== null && `${bulletin.pdc_events} pyroclastic density currents`,
+    bulletin.so2_flux_tonnes !== null && `SO2 emission ${bulletin.so2_flux_tonnes} tonnes/day`,
+    bulletin.plume_height_m !== null && `plume ${bulletin.plume_height_m} m${bulletin.plume_drift ? ` drifting ${bulletin.plume_drift}` : ''}`
+  ].filter(Boolean);
+
+  return (
+    <div className={`volcano-status-widget ${level.className} py-2 px-4 shadow-lg border-b-4 border-blue-950`}>
+      <div className="container mx-auto">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="w-full flex items-center justify-between text-left"
+          aria-expanded={isExpanded}
+        >
+          <span className="flex flex-wrap items-center gap-x-3 gap-y-1">
+            <Mountain size={18} />
+            <span className="font-bold">Mayon Volcano: Alert Level {level.level}</span>
+            <span>{level.name}</span>
+            {evacuating.length > 0 && (
+              <span className="font-semibold animate-pulse">Evacuation in effect</span>
+            )}
+            <span className="text-sm opacity-75">
+              PHIVOLCS, {new Date(bulletin.issued_at).toLocaleString()}
+            </span>
+          </span>
+          {isExpanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+        </button>
+
+        {isExpanded && (
+          <div className="pt-3 pb-1 space-y-2 text-sm">
+            <p>{level.description}</p>
+            {figures.length > 0 && <p>Past 24 hours: {figures.join(', ')}.</p>}
+            {bulletin.observations && <p className="whitespace-pre-line">{bulletin.observations}</p>}
+            {evacuating.length > 0 && (
+              <p className="font-semibold">
+                Evacuate the {level.evacuate.map(getDangerZoneName).join(' and ')}:{' '}
+                {evacuating.map(zone => `${zone.barangay}${zone.notes ? ` (${zone.notes})` : ''}`).join(', ')}
+              </p>
+            )}
+            {bulletin.recommendations && <p className="whitespace-pre-line">{bulletin.recommendations}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VolcanoStatusWidget;
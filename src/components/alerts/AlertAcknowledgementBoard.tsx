@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { X, Bell, CheckCircle, Clock, UserX } from 'lucide-react';
+import { databaseManager } from '../../lib/database';
+import { RealtimeManager } from '../../utils/realtime';
+import { BARANGAYS } from '../../utils/constants';
+import { getAcknowledgementArea, remindAlertAcknowledgements } from '../../utils/alertAcknowledgements';
+import type { AlertAcknowledgement, EmergencyAlert } from '../../types';
+
+interface AlertAcknowledgementBoardProps {
+  alert: Pick<EmergencyAlert, 'id' | 'title' | 'status' | 'target_barangays'>;
+  onClose: () => void;
+}
+
+type BoardState = 'acknowledged' | 'pending' | 'not-asked' | 'not-targeted';
+
+const STATES: Record<BoardState, { label: string; className: string }> = {
+  acknowledged: { label: 'Acknowledged', className: 'bg-green-100 text-green-800' },
+  pending: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800' },
+  'not-asked': { label: 'No focal person', className: 'bg-red-100 text-red-800' },
+  'not-targeted': { label: 'Not targeted', className: 'bg-gray-100 text-gray-500' }
+};
+
+// Which barangays have confirmed they received an alert, updated live as
+// focal persons open their acknowledge links
+const AlertAcknowledgementBoard: React.FC<AlertAcknowledgementBoardProps> = ({ alert, onClose }) => {
+  const [acknowledgements, setAcknowledgements] = useState<AlertAcknowledgement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [remindingBarangays, setRemindingBarangays] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    databaseManager.getAlertAcknowledgements(alert.id)
+      .then(data => {
+        if (!cancelled) setAcknowledgements(data as AlertAcknowledgement[]);
+      })
+      .catch(error => console.error('Error fetching alert acknowledgements:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    const subscription = RealtimeManager.subscribe('alert_acknowledgements', (payload) => {
+      if (payload.eventType === 'DELETE') return;
+      const acknowledgement = payload.new as AlertAcknowledgement;
+      setAcknowledgements(prev => prev.some(a => a.id === acknowledgement.id)
+        ? prev.map(a => a.id === acknowledgement.id ? acknowledgement : a)
+        : [...prev, acknowledgement]);
+    }, { column: 'alert_id', value: alert.id });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [alert.id]);
+
+  const area = getAcknowledgementArea(alert);
+  const byBarangay = new Map(acknowledgements.map(acknowledgement => [acknowledgement.barangay, acknowledgement]));
+  const isActive = alert.status === 'active';
+
+  const getState = (barangay: string): BoardState => {
+    const acknowledgement = byBarangay.get(barangay);
+    if (acknowledgement?.acknowledged_at) return 'acknowledged';
+    if (!area.includes(barangay)) return 'not-targeted';
+    return acknowledgement ? 'pending' : 'not-asked';
+  };
+
+  const pending = area.filter(barangay => getState(barangay) === 'pending');
+  const acknowledgedCount = area.filter(barangay => getState(barangay) === 'acknowledged').length;
+
+  const handleRemind = async (barangays: string[]) => {
+    setRemindingBarangays(barangays);
+    try {
+      const result = await remindAlertAcknowledgements({ alertId: alert.id, barangays });
+      if (!result.success) {
+        window.alert(result.error || 'Unable to send reminders. Please try again.');
+      } else if (result.reminded?.length === 0) {
+        window.alert('No reminder could be sent. Check the focal persons\' email addresses and numbers in Alert Contacts.');
+      }
+    } catch (error) {
+      console.error('Error sending acknowledgement reminders:', error);
+      window.alert('Error sending reminders. Please try again.');
+    } finally {
+      setRemindingBarangays([]);
+    }
+  };
+
+  const handleRecord = async (barangay: string) => {
+    const name = window.prompt(`Who acknowledged this alert for ${barangay}? (e.g. the punong barangay reached by radio)`);
+    if (!name?.trim()) return;
+
+    try {
+      const acknowledgement = await databaseManager.recordAlertAcknowledgement(alert.id, barangay, name.trim()) as AlertAcknowledgement;
+      setAcknowledgements(prev => [...prev.filter(a => a.id !== acknowledgement.id), acknowledgement]);
+    } catch (error) {
+      console.error('Error recording acknowledgement:', error);
+      window.alert((error as { message?: string }).message || 'Error recording the acknowledgement. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Barangay Acknowledgements</h3>
+            <p className="text-sm text-gray-600">{alert.title}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex-1">
+              <p className="text-sm text-gray-700">
+                <span className="font-semibold text-gray-900">{acknowledgedCount} of {area.length}</span> barangays acknowledged
+              </p>
+              <div className="mt-2 h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-green-500 transition-all"
+                  style={{ width: `${area.length ? (acknowledgedCount / area.length) * 100 : 0}%` }}
+                />
+              </div>
+            </div>
+            {isActive && pending.length > 0 && (
+              <button
+                onClick={() => handleRemind(pending)}
+                disabled={remindingBarangays.length > 0}
+                className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                <Bell size={16} />
+                <span>
+                  {remindingBarangays.length > 1 ? 'Sending...' : `Remind ${pending.length} Pending`}
+                </span>
+              </button>
+            )}
+          </div>
+
+          {loading ? (
+            <p className="text-center text-gray-500 py-8">Loading acknowledgements...</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Barangay</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Acknowledged By</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {BARANGAYS.map(barangay => {
+                    const acknowledgement = byBarangay.get(barangay);
+                    const state = getState(barangay);
+                    return (
+                      <tr key={barangay} className={state === 'not-targeted' ? 'opacity-60' : ''}>
+                        <td className="px-4 py-2 text-sm text-gray-900">{barangay}</td>
+                        <td className="px-4 py-2">
+                          <span className={`text-xs px-2 py-1 rounded-full font-medium inline-flex items-center ${STATES[state].className}`}>
+                            {state === 'acknowledged' && <CheckCircle size={12} className="mr-1" />}
+                            {state === 'pending' && <Clock size={12} className="mr-1" />}
+                            {state === 'not-asked' && <UserX size={12} className="mr-1" />}
+                            {STATES[state].label}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-700">
+                          {state === 'acknowledged' ? (
+                            <>
+                              {acknowledgement?.acknowledged_by_name}
+                              {acknowledgement?.recorded_by_name && (
+                                <span className="block text-xs text-gray-500">Recorded by {acknowledgement.recorded_by_name}</span>
+                              )}
+                            </>
+                          ) : state === 'pending' && acknowledgement ? (
+                            <span className="text-xs text-gray-500">
+                              Asked {new Date(acknowledgement.created_at).toLocaleString()}
+                              {acknowledgement.reminder_count > 0 && (
+                                <> · {acknowledgement.reminder_count} {acknowledgement.reminder_count === 1 ? 'reminder' : 'reminders'}, last {new Date(acknowledgement.last_reminded_at!).toLocaleString()}</>
+                              )}
+                            </span>
+                          ) : state === 'not-asked' ? (
+                            <span className="text-xs text-gray-500">Add a focal person in Alert Contacts, or record a radio or phone confirmation</span>
+                          ) : '—'}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-500">
+                          {acknowledgement?.acknowledged_at ? new Date(acknowledgement.acknowledged_at).toLocaleString() : '—'}
+                        </td>
+                        <td className="px-4 py-2 text-right whitespace-nowrap space-x-3">
+                          {isActive && state === 'pending' && (
+                            <button
+                              onClick={() => handleRemind([barangay])}
+                              disabled={remindingBarangays.length > 0}
+                              className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+                            >
+                              {remindingBarangays.length === 1 && remindingBarangays[0] === barangay ? 'Sending...' : 'Remind'}
+                            </button>
+                          )}
+                          {(state === 'pending' || state === 'not-asked') && (
+                            <button
+                              onClick={() => handleRecord(barangay)}
+                              className="text-sm text-blue-600 hover:text-blue-800"
+                            >
+                              Mark Acknowledged
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertAcknowledgementBoard;
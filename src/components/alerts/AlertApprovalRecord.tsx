@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { X, CheckCircle, XCircle, Send } from 'lucide-react';
+import { databaseManager } from '../../lib/database';
+import { SEVERITY_LEVELS } from '../../utils/constants';
+import type { AlertApproval } from '../../types';
+
+interface AlertApprovalRecordProps {
+  alert: { id: string; title: string };
+  onClose: () => void;
+}
+
+const DECISIONS: Record<AlertApproval['decision'], { label: string; icon: typeof Send; color: string }> = {
+  requested: { label: 'Submitted for approval', icon: Send, color: 'text-blue-600' },
+  approved: { label: 'Approved', icon: CheckCircle, color: 'text-green-600' },
+  rejected: { label: 'Rejected', icon: XCircle, color: 'text-red-600' }
+};
+
+// Who asked for and who decided on an alert, with the text they saw. The
+// record is append-only in the database.
+const AlertApprovalRecord: React.FC<AlertApprovalRecordProps> = ({ alert, onClose }) => {
+  const [approvals, setApprovals] = useState<AlertApproval[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    databaseManager.getAlertApprovals(alert.id)
+      .then(data => {
+        if (!cancelled) setApprovals(data as unknown as AlertApproval[]);
+      })
+      .catch(error => console.error('Error fetching alert approvals:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [alert.id]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Approval Record</h3>
+            <p className="text-sm text-gray-600">{alert.title}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {loading ? (
+            <p className="text-center text-gray-500 py-8">Loading approval record...</p>
+          ) : approvals.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">This alert did not need approval.</p>
+          ) : (
+            <ol className="space-y-4">
+              {approvals.map(approval => {
+                const decision = DECISIONS[approval.decision];
+                const snapshot = approval.alert_snapshot;
+                return (
+                  <li key={approval.id} className="flex space-x-3">
+                    <decision.icon size={20} className={`${decision.color} flex-shrink-0 mt-0.5`} />
+                    <div className="flex-1">
+                      <p className="text-sm text-gray-900">
+                        <span className="font-medium">{decision.label}</span>
+                        {' by '}{approval.actor_name || 'a deleted user'}
+                      </p>
+                      <p className="text-xs text-gray-500">{new Date(approval.created_at).toLocaleString()}</p>
+                      {approval.reason && (
+                        <p className="text-sm text-red-700 mt-1">Reason: {approval.reason}</p>
+                      )}
+                      <div className="mt-2 bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm">
+                        <p className="font-medium text-gray-900">{snapshot.title}</p>
+                        <p className="text-gray-700 whitespace-pre-line mt-1">{snapshot.message}</p>
+                        <p className="text-xs text-gray-500 mt-2">
+                          {SEVERITY_LEVELS.find(level => level.id === snapshot.severity)?.name} · Priority {snapshot.priority}/5
+                          {' · '}{snapshot.target_barangays?.length ? snapshot.target_barangays.join(', ') : snapshot.location || 'Municipality-wide'}
+                        </p>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertApprovalRecord;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { BARANGAYS } from '../../utils/constants';
+
+export interface AlertArea {
+  targetBarangays: string[];
+}
+
+interface AlertAreaPickerProps {
+  value: AlertArea;
+  onChange: (area: AlertArea) => void;
+}
+
+type AreaMode = 'municipality' | 'barangays';
+
+// Target area for an emergency alert: the whole municipality or picked barangays
+const AlertAreaPicker: React.FC<AlertAreaPickerProps> = ({ value, onChange }) => {
+  const [mode, setMode] = useState<AreaMode>(value.targetBarangays.length ? 'barangays' : 'municipality');
+
+  const handleModeChange = (next: AreaMode) => {
+    setMode(next);
+    onChange({ targetBarangays: next === 'barangays' ? value.targetBarangays : [] });
+  };
+
+  const toggleBarangay = (name: string) => {
+    onChange({
+      targetBarangays: value.targetBarangays.includes(name)
+        ? value.targetBarangays.filter(b => b !== name)
+        : [...value.targetBarangays, name].sort((a, b) => BARANGAYS.indexOf(a) - BARANGAYS.indexOf(b))
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {[
+          { id: 'municipality' as const, label: 'Municipality-wide' },
+          { id: 'barangays' as const, label: 'Select barangays' }
+        ].map(option => (
+          <button
+            key={option.id}
+            type="button"
+            onClick={() => handleModeChange(option.id)}
+            className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+              mode === option.id
+                ? 'border-red-500 bg-red-50 text-red-700'
+                : 'border-gray-300 text-gray-700 hover:border-gray-400'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'barangays' && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-1 max-h-56 overflow-y-auto border border-gray-200 rounded-lg p-2">
+          {BARANGAYS.map(name => (
+            <label key={name} className="flex items-center space-x-2 text-sm text-gray-700 px-1 py-0.5 rounded hover:bg-gray-50">
+              <input
+                type="checkbox"
+                checked={value.targetBarangays.includes(name)}
+                onChange={() => toggleBarangay(name)}
+                className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+              />
+              <span>{name}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+        <span className="block text-sm font-medium text-gray-700 mb-1">
+          {mode === 'municipality' ? 'All barangays' : `${value.targetBarangays.length} barangay(s) affected`}
+        </span>
+        {mode !== 'municipality' && (
+          value.targetBarangays.length === 0 ? (
+            <p className="text-xs text-gray-500">No barangays selected yet; the alert will go to the whole municipality.</p>
+          ) : (
+            <div className="flex flex-wrap gap-1">
+              {value.targetBarangays.map(name => (
+                <span key={name} className="bg-red-100 text-red-800 text-xs px-2 py-0.5 rounded-full">
+                  {name}
+                </span>
+              ))}
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertAreaPicker;
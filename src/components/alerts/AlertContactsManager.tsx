@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Mail, Phone, Users } from 'lucide-react';
+import { databaseManager } from '../../lib/database';
+import type { Database } from '../../lib/supabase';
+import { BARANGAYS } from '../../utils/constants';
+import { validateEmail, validatePhone } from '../../utils/validation';
+
+type AlertContact = Database['public']['Tables']['alert_contacts']['Row'];
+
+const EMPTY_CONTACT = { name: '', email: '', phone: '', barangay: '' };
+
+// Recipients for the email and SMS alert channels
+const AlertContactsManager: React.FC = () => {
+  const [contacts, setContacts] = useState<AlertContact[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState(EMPTY_CONTACT);
+
+  useEffect(() => {
+    databaseManager.getAlertContacts()
+      .then(setContacts)
+      .catch(error => console.error('Error fetching alert contacts:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = formData.email.trim();
+    const phone = formData.phone.trim();
+
+    if (!formData.name.trim() || (!email && !phone)) {
+      alert('Please enter a name and an email address or phone number');
+      return;
+    }
+    if (email && !validateEmail(email)) {
+      alert('Please enter a valid email address');
+      return;
+    }
+    if (phone && !validatePhone(phone)) {
+      alert('Please enter a valid phone number');
+      return;
+    }
+
+    try {
+      const contact = await databaseManager.createAlertContact({
+        name: formData.name.trim(),
+        email: email || null,
+        phone: phone || null,
+        barangay: formData.barangay || null
+      });
+      setContacts(prev => [...prev, contact].sort((a, b) => a.name.localeCompare(b.name)));
+      setFormData(EMPTY_CONTACT);
+    } catch (error) {
+      console.error('Error adding alert contact:', error);
+      alert('Error adding contact. Please try again.');
+    }
+  };
+
+  const handleToggle = async (contact: AlertContact) => {
+    try {
+      const updated = await databaseManager.updateAlertContact(contact.id, { is_active: !contact.is_active });
+      setContacts(prev => prev.map(c => c.id === contact.id ? updated : c));
+    } catch (error) {
+      console.error('Error updating alert contact:', error);
+      alert('Error updating contact. Please try again.');
+    }
+  };
+
+  const handleDelete = async (contact: AlertContact) => {
+    if (!window.confirm(`Remove ${contact.name} from the alert contacts?`)) return;
+
+    try {
+      await databaseManager.deleteAlertContact(contact.id);
+      setContacts(prev => prev.filter(c => c.id !== contact.id));
+    } catch (error) {
+      console.error('Error deleting alert contact:', error);
+      alert('Error deleting contact. Please try again.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="p-6 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-900">Alert Contacts</h3>
+        <p className="text-sm text-gray-600">
+          Receive alerts sent by email or SMS. Contacts with a barangay only get alerts for that barangay and municipality-wide alerts.
+        </p>
+      </div>
+
+      <form onSubmit={handleAdd} className="p-6 border-b border-gray-200 grid grid-cols-1 md:grid-cols-5 gap-3">
+        <input
+          type="text"
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          placeholder="Name"
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+        />
+        <input
+          type="email"
+          value={formData.email}
+          onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+          placeholder="Email"
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+        />
+        <input
+          type="tel"
+          value={formData.phone}
+          onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+          placeholder="Mobile number"
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+        />
+        <select
+          value={formData.barangay}
+          onChange={(e) => setFormData({ ...formData, barangay: e.target.value })}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+        >
+          <option value="">All alerts</option>
+          {BARANGAYS.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center justify-center space-x-2"
+        >
+          <Plus size={16} />
+          <span>Add Contact</span>
+        </button>
+      </form>
+
+      {loading ? (
+        <p className="p-12 text-center text-gray-500">Loading contacts...</p>
+      ) : contacts.length === 0 ? (
+        <div className="text-center py-12">
+          <Users className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+          <p className="text-gray-500">No alert contacts yet.</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {contacts.map(contact => (
+            <div key={contact.id} className={`p-4 flex items-center justify-between ${contact.is_active ? '' : 'opacity-60'}`}>
+              <div>
+                <p className="font-medium text-gray-900">{contact.name}</p>
+                <div className="flex items-center space-x-4 text-sm text-gray-600">
+                  {contact.email && (
+                    <span className="flex items-center"><Mail size={14} className="mr-1" />{contact.email}</span>
+                  )}
+                  {contact.phone && (
+                    <span className="flex items-center"><Phone size={14} className="mr-1" />{contact.phone}</span>
+                  )}
+                  <span>{contact.barangay || 'All alerts'}</span>
+                </div>
+              </div>
+              <div className="flex items-center space-x-3">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={contact.is_active}
+                    onChange={() => handleToggle(contact)}
+                    className="rounded border-gray-300 text-red-600 focus:ring-red-500 mr-2"
+                  />
+                  Active
+                </label>
+                <button
+                  onClick={() => handleDelete(contact)}
+                  className="text-red-600 hover:text-red-800"
+                  title="Remove Contact"
+                >
+                  <Trash2 size={18} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertContactsManager;
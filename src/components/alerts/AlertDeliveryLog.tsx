@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { X, RefreshCw, Send } from 'lucide-react';
+import { databaseManager } from '../../lib/database';
+import type { Database } from '../../lib/supabase';
+import { RealtimeManager } from '../../utils/realtime';
+import { ALERT_CHANNELS, dispatchAlert, type AlertDeliveryStatus } from '../../utils/alertDispatch';
+
+type AlertDelivery = Database['public']['Tables']['alert_deliveries']['Row'];
+
+interface AlertDeliveryLogProps {
+  alert: { id: string; title: string; status: string; revision: number };
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<AlertDeliveryStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-gray-100 text-gray-700'
+};
+
+const getChannelName = (id: string) => ALERT_CHANNELS.find(channel => channel.id === id)?.name || id;
+
+// Per-channel delivery record for one alert, updated live while a dispatch runs
+const AlertDeliveryLog: React.FC<AlertDeliveryLogProps> = ({ alert, onClose }) => {
+  const [deliveries, setDeliveries] = useState<AlertDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDispatching, setIsDispatching] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    databaseManager.getAlertDeliveries(alert.id)
+      .then(data => {
+        if (!cancelled) setDeliveries(data);
+      })
+      .catch(error => console.error('Error fetching alert deliveries:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    const subscription = RealtimeManager.subscribe('alert_deliveries', (payload) => {
+      if (payload.eventType === 'DELETE') return;
+      const delivery = payload.new as AlertDelivery;
+      setDeliveries(prev => prev.some(d => d.id === delivery.id)
+        ? prev.map(d => d.id === delivery.id ? delivery : d)
+        : [...prev, delivery]);
+    }, { column: 'alert_id', value: alert.id });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [alert.id]);
+
+  const handleDispatch = async () => {
+    setIsDispatching(true);
+    try {
+      const result = await dispatchAlert(alert.id);
+      if (!result.success) {
+        window.alert(result.error || 'Dispatch failed. Please try again.');
+      }
+    } catch (error) {
+      console.error('Error dispatching alert:', error);
+      window.alert('Error dispatching alert. Please try again.');
+    } finally {
+      setIsDispatching(false);
+    }
+  };
+
+  const current = deliveries.filter(d => d.alert_revision === alert.revision);
+  const earlier = deliveries.filter(d => d.alert_revision !== alert.revision);
+  const failedCount = current.filter(d => d.status === 'failed').length;
+
+  const renderRows = (rows: AlertDelivery[]) => rows.map(delivery => (
+    <tr key={delivery.id}>
+      <td className="px-4 py-2 text-sm text-gray-900">{getChannelName(delivery.channel)}</td>
+      <td className="px-4 py-2 text-sm text-gray-700 break-all">{delivery.recipient === '*' ? '—' : delivery.recipient}</td>
+      <td className="px-4 py-2">
+        <span className={`text-xs px-2 py-1 rounded-full font-medium ${STATUS_STYLES[delivery.status]}`}>
+          {delivery.status}
+        </span>
+      </td>
+      <td className="px-4 py-2 text-sm text-gray-700">{delivery.attempts}</td>
+      <td className="px-4 py-2 text-sm text-gray-500">
+        {delivery.sent_at ? new Date(delivery.sent_at).toLocaleString() : delivery.last_error || '—'}
+      </td>
+    </tr>
+  ));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Delivery Log</h3>
+            <p className="text-sm text-gray-600">{alert.title}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {ALERT_CHANNELS.map(channel => {
+              const rows = current.filter(d => d.channel === channel.id);
+              return (
+                <div key={channel.id} className="border border-gray-200 rounded-lg p-3">
+                  <p className="text-sm font-medium text-gray-700">{channel.name}</p>
+                  {rows.length === 0 ? (
+                    <p className="text-xs text-gray-400 mt-1">Not sent</p>
+                  ) : (
+                    <p className="text-xs text-gray-600 mt-1">
+                      {(['sent', 'failed', 'pending', 'skipped'] as const)
+                        .map(status => [status, rows.filter(d => d.status === status).length] as const)
+                        .filter(([, count]) => count > 0)
+                        .map(([status, count]) => `${count} ${status}`)
+                        .join(' · ')}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {alert.status === 'active' && (
+            <div className="flex justify-end">
+              <button
+                onClick={handleDispatch}
+                disabled={isDispatching}
+                className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                {failedCount > 0 ? <RefreshCw size={16} /> : <Send size={16} />}
+                <span>
+                  {isDispatching ? 'Sending...' : failedCount > 0 ? `Retry ${failedCount} Failed` : 'Send Again'}
+                </span>
+              </button>
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-center text-gray-500 py-8">Loading deliveries...</p>
+          ) : deliveries.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">This alert has not been dispatched yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Channel</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sent / Last Error</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {renderRows(current)}
+                  {earlier.length > 0 && (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-2 text-xs font-medium text-gray-500 bg-gray-50">
+                        Earlier versions of this alert
+                      </td>
+                    </tr>
+                  )}
+                  {renderRows(earlier)}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertDeliveryLog;
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { Bell, BellOff } from 'lucide-react';
+import { ALERT_TYPES, BARANGAYS } from '../../utils/constants';
+import { getVisitorBarangay } from '../../utils/emergencyAlerts';
+import {
+  getPushSubscription,
+  getSavedPushPreferences,
+  isWebPushSupported,
+  subscribeToAlerts,
+  unsubscribeFromAlerts,
+  type PushPreferences
+} from '../../utils/webPush';
+
+// Opt-in for Warning and Emergency alerts as system notifications
+const AlertNotificationSettings: React.FC = () => {
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [preferences, setPreferences] = useState<PushPreferences>(
+    () => getSavedPushPreferences() ?? { hazardTypes: [], barangay: getVisitorBarangay() }
+  );
+
+  useEffect(() => {
+    getPushSubscription()
+      .then(subscription => setIsSubscribed(!!subscription))
+      .catch(error => console.error('Error reading push subscription:', error));
+  }, []);
+
+  if (!isWebPushSupported()) {
+    return (
+      <div className="bg-gray-50 rounded-2xl p-6 border border-gray-200 text-sm text-gray-600">
+        Alert notifications are not available in this browser. Install the MDRRMO app from a supported browser
+        such as Chrome, Edge or Firefox, or Safari on iOS 16.4 and later, to receive them.
+      </div>
+    );
+  }
+
+  const toggleHazardType = (type: string) => {
+    setPreferences(prev => ({
+      ...prev,
+      hazardTypes: prev.hazardTypes.includes(type)
+        ? prev.hazardTypes.filter(t => t !== type)
+        : [...prev.hazardTypes, type]
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await subscribeToAlerts(preferences);
+      if (result.success) {
+        setIsSubscribed(true);
+        alert('You will now receive emergency alert notifications on this device.');
+      } else {
+        alert(result.error);
+      }
+    } catch (error) {
+      console.error('Error subscribing to alerts:', error);
+      alert('Unable to turn on notifications. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnsubscribe = async () => {
+    setIsSaving(true);
+    try {
+      const result = await unsubscribeFromAlerts();
+      if (result.success) {
+        setIsSubscribed(false);
+      } else {
+        alert(result.error);
+      }
+    } catch (error) {
+      console.error('Error unsubscribing from alerts:', error);
+      alert('Unable to turn off notifications. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-2xl p-6 border border-gray-200">
+      <div className="flex items-start space-x-3 mb-4">
+        <div className="bg-yellow-500 p-2 rounded-lg">
+          <Bell className="text-blue-950" size={20} />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-blue-950">Alert Notifications</h2>
+          <p className="text-sm text-gray-600">
+            Get Warning and Emergency alerts on this device, even when the site is closed.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">Hazards</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {ALERT_TYPES.map(type => (
+              <label key={type.id} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={preferences.hazardTypes.includes(type.id)}
+                  onChange={() => toggleHazardType(type.id)}
+                  className="rounded border-gray-300 text-yellow-600 focus:ring-yellow-500 mr-2"
+                />
+                {type.icon} {type.name}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">Leave all unchecked to receive every hazard</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Barangay</label>
+          <select
+            value={preferences.barangay || ''}
+            onChange={(e) => setPreferences({ ...preferences, barangay: e.target.value || null })}
+            className="w-full md:w-64 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500"
+          >
+            <option value="">All barangays</option>
+            {BARANGAYS.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">Municipality-wide alerts are always sent</p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-400 hover:to-yellow-500 text-blue-950 font-bold py-2 px-4 rounded-lg transition-all duration-300 flex items-center gap-2 disabled:opacity-50"
+          >
+            <Bell size={16} />
+            <span>{isSaving ? 'Saving...' : isSubscribed ? 'Update Preferences' : 'Turn On Notifications'}</span>
+          </button>
+          {isSubscribed && (
+            <button
+              onClick={handleUnsubscribe}
+              disabled={isSaving}
+              className="text-gray-600 hover:text-gray-800 py-2 px-4 rounded-lg border border-gray-300 flex items-center gap-2 disabled:opacity-50"
+            >
+              <BellOff size={16} />
+              <span>Turn Off</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertNotificationSettings;
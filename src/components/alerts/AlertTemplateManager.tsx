@@ -0,0 +1,333 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, X, FileText } from 'lucide-react';
+import { databaseManager } from '../../lib/database';
+import type { Database } from '../../lib/supabase';
+import { ALERT_TYPES, SEVERITY_LEVELS } from '../../utils/constants';
+import { ALERT_CHANNELS } from '../../utils/alertDispatch';
+import {
+  ALERT_TEMPLATE_VARIABLES,
+  extractTemplateVariables,
+  fillTemplate,
+  getTemplateVariable
+} from '../../utils/alertTemplates';
+import { ALERT_LANGUAGES, cleanTranslations, getAllAlertTexts, getTranslationStatus, hasIncompleteTranslation } from '../../utils/alertLanguages';
+import AlertWordingFields from './AlertWordingFields';
+
+type AlertTemplate = Database['public']['Tables']['alert_templates']['Row'];
+type AlertTemplateInput = Database['public']['Tables']['alert_templates']['Insert'];
+
+const EMPTY_TEMPLATE: AlertTemplateInput = {
+  name: '',
+  description: '',
+  type: 'general',
+  severity: 'medium',
+  title: '',
+  message: '',
+  channels: ['social-media'],
+  translations: {},
+  is_active: true
+};
+
+// Example values so the preview reads like a real advisory
+const SAMPLE_VALUES = Object.fromEntries(ALERT_TEMPLATE_VARIABLES.map(variable => [
+  variable.name,
+  variable.placeholder || (variable.name === 'barangays' ? 'Alegria, Malapay' : variable.name === 'valid_until' ? 'October 20, 2026 at 5:00 PM' : 'October 20, 2026')
+]));
+
+// Reusable advisory wording for the alert composer
+const AlertTemplateManager: React.FC = () => {
+  const [templates, setTemplates] = useState<AlertTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [formData, setFormData] = useState<AlertTemplateInput>(EMPTY_TEMPLATE);
+
+  useEffect(() => {
+    databaseManager.getAlertTemplates()
+      .then(setTemplates)
+      .catch(error => console.error('Error fetching alert templates:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const resetForm = () => {
+    setFormData(EMPTY_TEMPLATE);
+    setEditingId(null);
+    setIsEditing(false);
+  };
+
+  const handleEdit = (template: AlertTemplate) => {
+    setFormData({
+      name: template.name,
+      description: template.description,
+      type: template.type,
+      severity: template.severity,
+      title: template.title,
+      message: template.message,
+      channels: template.channels,
+      translations: template.translations || {},
+      is_active: template.is_active
+    });
+    setEditingId(template.id);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim() || !formData.title.trim() || !formData.message.trim()) {
+      alert('Please enter a name, title and message');
+      return;
+    }
+
+    if (hasIncompleteTranslation(formData.translations)) {
+      alert('Each translation needs both a title and a message, or neither');
+      return;
+    }
+
+    try {
+      const template = {
+        ...formData,
+        name: formData.name.trim(),
+        description: formData.description?.trim() || null,
+        translations: cleanTranslations(formData.translations)
+      };
+      const saved = editingId
+        ? await databaseManager.updateAlertTemplate(editingId, template)
+        : await databaseManager.createAlertTemplate(template);
+      setTemplates(prev => (prev.some(t => t.id === saved.id) ? prev.map(t => t.id === saved.id ? saved : t) : [...prev, saved])
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      resetForm();
+    } catch (error) {
+      console.error('Error saving alert template:', error);
+      alert('Error saving template. The name may already be in use.');
+    }
+  };
+
+  const handleDelete = async (template: AlertTemplate) => {
+    if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+
+    try {
+      await databaseManager.deleteAlertTemplate(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+    } catch (error) {
+      console.error('Error deleting alert template:', error);
+      alert('Error deleting template. Please try again.');
+    }
+  };
+
+  const variables = extractTemplateVariables(...getAllAlertTexts(formData));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Advisory Templates</h3>
+          <p className="text-sm text-gray-600">
+            Reusable alert wording. Write {'{{variable}}'} where the details change; they are filled in when composing an alert.
+          </p>
+        </div>
+        <button
+          onClick={() => setIsEditing(true)}
+          className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2"
+        >
+          <Plus size={16} />
+          <span>New Template</span>
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="p-12 text-center text-gray-500">Loading templates...</p>
+      ) : templates.length === 0 ? (
+        <div className="text-center py-12">
+          <FileText className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+          <p className="text-gray-500">No advisory templates yet.</p>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {templates.map(template => {
+            const type = ALERT_TYPES.find(t => t.id === template.type);
+            const severity = SEVERITY_LEVELS.find(s => s.id === template.severity);
+            return (
+              <div key={template.id} className={`p-4 flex items-start justify-between ${template.is_active ? '' : 'opacity-60'}`}>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center space-x-2">
+                    <span>{type?.icon}</span>
+                    <p className="font-medium text-gray-900">{template.name}</p>
+                    <span className={`${severity?.color || 'bg-gray-500'} text-white text-xs px-2 py-0.5 rounded-full`}>
+                      {severity?.name}
+                    </span>
+                    {!template.is_active && <span className="text-xs text-gray-500">Hidden</span>}
+                  </div>
+                  {template.description && <p className="text-sm text-gray-600 mt-1">{template.description}</p>}
+                  <p className="text-xs text-gray-500 mt-1">
+                    Variables: {extractTemplateVariables(...getAllAlertTexts(template)).join(', ') || 'none'}
+                    {' · '}Languages: {ALERT_LANGUAGES
+                      .filter(language => language.id === 'en' || getTranslationStatus(template.translations?.[language.id]) === 'complete')
+                      .map(language => language.shortName)
+                      .join(', ')}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3 ml-4">
+                  <button
+                    onClick={() => handleEdit(template)}
+                    className="text-blue-600 hover:text-blue-800"
+                    title="Edit Template"
+                  >
+                    <Edit size={18} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(template)}
+                    className="text-red-600 hover:text-red-800"
+                    title="Delete Template"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {isEditing && (
+        <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+              <h3 className="text-xl font-semibold text-gray-900">{editingId ? 'Edit Template' : 'New Template'}</h3>
+              <button onClick={resetForm} className="text-gray-400 hover:text-gray-600">
+                <X size={24} />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    placeholder="e.g. Tropical Cyclone Wind Signal"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">When to Use</label>
+                  <input
+                    type="text"
+                    value={formData.description || ''}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Alert Type</label>
+                  <select
+                    value={formData.type}
+                    onChange={(e) => setFormData({ ...formData, type: e.target.value as AlertTemplate['type'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  >
+                    {ALERT_TYPES.map(type => (
+                      <option key={type.id} value={type.id}>{type.icon} {type.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Severity</label>
+                  <select
+                    value={formData.severity}
+                    onChange={(e) => setFormData({ ...formData, severity: e.target.value as AlertTemplate['severity'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  >
+                    {SEVERITY_LEVELS.map(severity => (
+                      <option key={severity.id} value={severity.id}>{severity.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Send Through</label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {ALERT_CHANNELS.map(channel => (
+                    <label key={channel.id} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={(formData.channels || []).includes(channel.id)}
+                        onChange={(e) => setFormData({
+                          ...formData,
+                          channels: e.target.checked
+                            ? [...(formData.channels || []), channel.id]
+                            : (formData.channels || []).filter(c => c !== channel.id)
+                        })}
+                        className="rounded border-gray-300 text-red-600 focus:ring-red-500 mr-2"
+                      />
+                      {channel.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Alert Wording</label>
+                <AlertWordingFields
+                  value={{ title: formData.title, message: formData.message, translations: formData.translations || {} }}
+                  onChange={(wording) => setFormData({ ...formData, ...wording })}
+                  titlePlaceholder="Tropical Cyclone Wind Signal No. {{signal_level}}"
+                  messageClassName="font-mono text-sm"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Filled in automatically: {ALERT_TEMPLATE_VARIABLES.filter(v => v.automatic).map(v => `{{${v.name}}}`).join(', ')}.
+                  Others are typed in when composing.
+                </p>
+              </div>
+
+              {variables.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {variables.map(name => (
+                    <span key={name} className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
+                      {getTemplateVariable(name).label}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                <p className="text-xs font-medium text-gray-500 uppercase mb-2">Preview with example values</p>
+                <p className="font-semibold text-gray-900">{fillTemplate(formData.title, SAMPLE_VALUES) || 'Alert title'}</p>
+                <p className="text-sm text-gray-700 whitespace-pre-line mt-1">{fillTemplate(formData.message, SAMPLE_VALUES) || 'Alert message'}</p>
+              </div>
+
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.is_active !== false}
+                  onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                  className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+                />
+                <span className="ml-2 text-sm font-medium text-gray-700">Show in the alert composer</span>
+              </label>
+
+              <div className="flex justify-end space-x-3 pt-4 border-t">
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  {editingId ? 'Save Changes' : 'Create Template'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertTemplateManager;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import {
+  ALERT_LANGUAGES,
+  TRANSLATION_LANGUAGES,
+  getTranslationStatus,
+  type TranslationStatus
+} from '../../utils/alertLanguages';
+import type { AlertLanguage, AlertTranslation, AlertTranslations } from '../../types';
+
+export interface AlertWording {
+  title: string;
+  message: string;
+  translations: AlertTranslations;
+}
+
+interface AlertWordingFieldsProps {
+  value: AlertWording;
+  onChange: (value: AlertWording) => void;
+  titlePlaceholder?: string;
+  messageClassName?: string;
+}
+
+const STATUS_STYLES: Record<TranslationStatus, { label: string; className: string }> = {
+  complete: { label: 'Complete', className: 'bg-green-100 text-green-800' },
+  incomplete: { label: 'Incomplete', className: 'bg-yellow-100 text-yellow-800' },
+  missing: { label: 'Not translated', className: 'bg-gray-100 text-gray-600' }
+};
+
+// English, Filipino and Bikol title and message side by side, with the
+// translations that are missing or half-done called out below
+const AlertWordingFields: React.FC<AlertWordingFieldsProps> = ({
+  value,
+  onChange,
+  titlePlaceholder,
+  messageClassName = ''
+}) => {
+  const getText = (language: AlertLanguage): AlertTranslation =>
+    language === 'en'
+      ? { title: value.title, message: value.message }
+      : { title: value.translations[language]?.title || '', message: value.translations[language]?.message || '' };
+
+  const updateText = (language: AlertLanguage, field: keyof AlertTranslation, text: string) => {
+    if (language === 'en') {
+      onChange({ ...value, [field]: text });
+      return;
+    }
+    onChange({
+      ...value,
+      translations: { ...value.translations, [language]: { ...getText(language), [field]: text } }
+    });
+  };
+
+  const incomplete = TRANSLATION_LANGUAGES.filter(({ id }) => getTranslationStatus(value.translations[id]) === 'incomplete');
+  const missing = TRANSLATION_LANGUAGES.filter(({ id }) => getTranslationStatus(value.translations[id]) === 'missing');
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {ALERT_LANGUAGES.map(language => {
+          const text = getText(language.id);
+          const status = language.id === 'en' ? null : STATUS_STYLES[getTranslationStatus(text)];
+          return (
+            <div key={language.id} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-gray-700">{language.name}</span>
+                {status ? (
+                  <span className={`text-xs px-2 py-0.5 rounded-full ${status.className}`}>{status.label}</span>
+                ) : (
+                  <span className="text-xs text-gray-500">Required</span>
+                )}
+              </div>
+              <input
+                type="text"
+                lang={language.id}
+                value={text.title}
+                onChange={(e) => updateText(language.id, 'title', e.target.value)}
+                aria-label={`${language.name} title`}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                placeholder={language.id === 'en' ? titlePlaceholder || 'Brief, clear title for the alert' : `Title in ${language.name}`}
+              />
+              <textarea
+                lang={language.id}
+                value={text.message}
+                onChange={(e) => updateText(language.id, 'message', e.target.value)}
+                aria-label={`${language.name} message`}
+                rows={6}
+                className={`w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500 ${messageClassName}`}
+                placeholder={language.id === 'en' ? 'Detailed information about the emergency' : `Message in ${language.name}`}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      {incomplete.length > 0 && (
+        <p className="text-sm text-red-600 flex items-center">
+          <AlertTriangle size={14} className="mr-1 flex-shrink-0" />
+          {incomplete.map(language => language.name).join(' and ')} {incomplete.length > 1 ? 'need' : 'needs'} both a title and a message, or neither.
+        </p>
+      )}
+      {missing.length > 0 && (
+        <p className="text-sm text-yellow-700 flex items-center">
+          <AlertTriangle size={14} className="mr-1 flex-shrink-0" />
+          Not translated to {missing.map(language => language.name).join(' or ')}; visitors who prefer it see the English text.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default AlertWordingFields;
@@ -0,0 +1,47 @@
+import React from 'react';
+
+interface BarChartProps {
+  labels: string[];
+  values: number[];
+  color?: string;
+  height?: number;
+}
+
+const WIDTH = 720;
+const PADDING = { top: 16, right: 8, bottom: 28, left: 40 };
+
+const BarChart: React.FC<BarChartProps> = ({ labels, values, color = '#2563eb', height = 220 }) => {
+  const max = Math.max(1, ...values);
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const slot = plotWidth / Math.max(1, values.length);
+  const barWidth = Math.max(2, slot * 0.7);
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+  const ticks = Array.from(new Set([0, Math.round(max / 2), max]));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label="Bar chart">
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+          <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{tick}</text>
+        </g>
+      ))}
+      {values.map((value, index) => {
+        const barX = PADDING.left + index * slot + (slot - barWidth) / 2;
+        return (
+          <g key={labels[index]}>
+            <rect x={barX} y={y(value)} width={barWidth} height={PADDING.top + plotHeight - y(value)} fill={color} rx={2}>
+              <title>{`${labels[index]}: ${value}`}</title>
+            </rect>
+            <text x={barX + barWidth / 2} y={height - 10} textAnchor="middle" fontSize="11" fill="#6b7280">
+              {labels[index]}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default BarChart;
@@ -0,0 +1,66 @@
+import React, { useRef, useState } from 'react';
+import { FileSpreadsheet, Image as ImageIcon } from 'lucide-react';
+import { downloadCsv, downloadElementAsPng, toExportFilename } from '../../utils/chartExport';
+
+interface ChartCardProps {
+  title: string;
+  description?: string;
+  // Rows for the CSV export, header row first
+  csvRows: () => (string | number | null)[][];
+  children: React.ReactNode;
+  className?: string;
+}
+
+const ChartCard: React.FC<ChartCardProps> = ({ title, description, csvRows, children, className = '' }) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handlePngExport = async () => {
+    if (!chartRef.current) return;
+    setIsExporting(true);
+    try {
+      await downloadElementAsPng(chartRef.current, toExportFilename(title));
+    } catch (error) {
+      console.error('Error exporting chart:', error);
+      alert('Error exporting chart. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-sm border border-gray-200 ${className}`}>
+      <div className="p-4 border-b border-gray-200 flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+          {description && <p className="text-sm text-gray-600">{description}</p>}
+        </div>
+        <div className="flex items-center space-x-2 ml-4">
+          <button
+            onClick={() => downloadCsv(toExportFilename(title), csvRows())}
+            className="flex items-center px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+            title="Download CSV"
+          >
+            <FileSpreadsheet size={14} className="mr-1" />
+            CSV
+          </button>
+          <button
+            onClick={handlePngExport}
+            disabled={isExporting}
+            className="flex items-center px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+            title="Download PNG"
+          >
+            <ImageIcon size={14} className="mr-1" />
+            PNG
+          </button>
+        </div>
+      </div>
+      <div ref={chartRef} className="p-4 bg-white">
+        <p className="sr-only">{title}</p>
+        {children}
+      </div>
+    </div>
+  );
+};
+
+export default ChartCard;
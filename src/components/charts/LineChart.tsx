@@ -0,0 +1,74 @@
+import React from 'react';
+
+export interface LineSeries {
+  name: string;
+  values: number[];
+  color: string;
+}
+
+interface LineChartProps {
+  labels: string[];
+  series: LineSeries[];
+  height?: number;
+}
+
+const WIDTH = 720;
+const PADDING = { top: 16, right: 16, bottom: 36, left: 40 };
+
+const LineChart: React.FC<LineChartProps> = ({ labels, series, height = 260 }) => {
+  const max = Math.max(1, ...series.flatMap(s => s.values));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (index: number) => PADDING.left + (labels.length > 1 ? (index / (labels.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight;
+  const ticks = Array.from(new Set([0, Math.round(max / 2), max]));
+  // Keep roughly ten x-axis labels regardless of range
+  const labelStep = Math.max(1, Math.ceil(labels.length / 10));
+
+  if (series.length === 0) {
+    return <p className="text-gray-500 text-center py-8">No incidents in this period</p>;
+  }
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label="Incident trend chart">
+        {ticks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" fontSize="11" fill="#6b7280">{tick}</text>
+          </g>
+        ))}
+        {labels.map((label, index) => index % labelStep === 0 && (
+          <text key={label + index} x={x(index)} y={height - 12} textAnchor="middle" fontSize="11" fill="#6b7280">
+            {label}
+          </text>
+        ))}
+        {series.map(s => (
+          <g key={s.name}>
+            <polyline
+              fill="none"
+              stroke={s.color}
+              strokeWidth={2}
+              points={s.values.map((value, index) => `${x(index)},${y(value)}`).join(' ')}
+            />
+            {s.values.map((value, index) => (
+              <circle key={index} cx={x(index)} cy={y(value)} r={value > 0 ? 3 : 0} fill={s.color}>
+                <title>{`${s.name}, ${labels[index]}: ${value}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2">
+        {series.map(s => (
+          <span key={s.name} className="flex items-center text-xs text-gray-700">
+            <span className="inline-block w-3 h-3 rounded-full mr-1" style={{ backgroundColor: s.color }} />
+            {s.name} ({s.values.reduce((sum, value) => sum + value, 0)})
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LineChart;
@@ -0,0 +1,363 @@
+import React, { useState } from 'react';
+import { X, Plus, Trash2, ShieldCheck } from 'lucide-react';
+import type { Database } from '../../lib/supabase';
+import { BARANGAYS, SEVERITY_LEVELS } from '../../utils/constants';
+import { ALERT_CHANNELS } from '../../utils/alertDispatch';
+import { requiresAlertApproval } from '../../utils/alertApproval';
+import {
+  CYCLONE_CATEGORIES,
+  WIND_SIGNALS,
+  buildCycloneAlert,
+  cleanSignals,
+  getCycloneDisplayName
+} from '../../utils/tropicalCyclones';
+import type { AlertApprovalRule, CycloneBulletin, CycloneCategory, TropicalCyclone } from '../../types';
+
+export type CycloneBulletinInput = Omit<
+  Database['public']['Tables']['cyclone_bulletins']['Insert'],
+  'cyclone_id' | 'alert_id' | 'created_by' | 'created_by_name'
+>;
+
+interface CycloneBulletinFormProps {
+  cyclone: TropicalCyclone;
+  // New bulletins start from the last one, since most details carry over
+  previous?: CycloneBulletin;
+  channels: string[];
+  approvalRule: AlertApprovalRule;
+  onSubmit: (bulletin: CycloneBulletinInput, channels: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+interface ForecastRow {
+  forecast_at: string;
+  lat: string;
+  lng: string;
+}
+
+// datetime-local inputs hold local time without a zone
+const toIsoOrNull = (value?: string | null) => (value ? new Date(value).toISOString() : null);
+
+const toLocalInputValue = (value?: string | null) => {
+  const date = value ? new Date(value) : new Date();
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toNumberOrNull = (value: string) => (value.trim() === '' || Number.isNaN(Number(value)) ? null : Number(value));
+
+const CycloneBulletinForm: React.FC<CycloneBulletinFormProps> = ({
+  cyclone,
+  previous,
+  channels: initialChannels,
+  approvalRule,
+  onSubmit,
+  onClose
+}) => {
+  const [bulletinNumber, setBulletinNumber] = useState(String((previous?.bulletin_number ?? 0) + 1));
+  const [issuedAt, setIssuedAt] = useState(toLocalInputValue());
+  const [category, setCategory] = useState<CycloneCategory>(previous?.category ?? 'TD');
+  const [centerLat, setCenterLat] = useState(previous?.center_lat?.toString() ?? '');
+  const [centerLng, setCenterLng] = useState(previous?.center_lng?.toString() ?? '');
+  const [centerDescription, setCenterDescription] = useState(previous?.center_description ?? '');
+  const [maxWinds, setMaxWinds] = useState(previous?.max_winds_kph?.toString() ?? '');
+  const [gusts, setGusts] = useState(previous?.gusts_kph?.toString() ?? '');
+  const [movement, setMovement] = useState(previous?.movement ?? '');
+  const [summary, setSummary] = useState(previous?.summary ?? '');
+  const [nextBulletinAt, setNextBulletinAt] = useState('');
+  const [signals, setSignals] = useState<Record<string, number>>(() => cleanSignals(previous?.signals ?? {}));
+  const [forecast, setForecast] = useState<ForecastRow[]>([]);
+  const [channels, setChannels] = useState(initialChannels);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const cleanedSignals = cleanSignals(signals);
+  const bulletin = {
+    bulletin_number: Number(bulletinNumber),
+    issued_at: toIsoOrNull(issuedAt) ?? new Date().toISOString(),
+    category,
+    center_lat: toNumberOrNull(centerLat),
+    center_lng: toNumberOrNull(centerLng),
+    center_description: centerDescription.trim() || null,
+    max_winds_kph: toNumberOrNull(maxWinds),
+    gusts_kph: toNumberOrNull(gusts),
+    movement: movement.trim() || null,
+    summary: summary.trim() || null,
+    next_bulletin_at: toIsoOrNull(nextBulletinAt),
+    signals: cleanedSignals,
+    forecast_track: forecast.map(row => ({
+      forecast_at: toIsoOrNull(row.forecast_at) as string,
+      lat: Number(row.lat),
+      lng: Number(row.lng)
+    }))
+  };
+
+  const preview = buildCycloneAlert(cyclone, bulletin);
+  const severity = SEVERITY_LEVELS.find(level => level.id === preview.severity);
+  const needsApproval = requiresAlertApproval(approvalRule, preview);
+
+  const setAllSignals = (level: number) =>
+    setSignals(Object.fromEntries(BARANGAYS.map(barangay => [barangay, level])));
+
+  const updateForecast = (index: number, changes: Partial<ForecastRow>) =>
+    setForecast(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+
+  const handleSubmit = async () => {
+    if (!Number.isInteger(bulletin.bulletin_number) || bulletin.bulletin_number <= (previous?.bulletin_number ?? 0)) {
+      alert(`The bulletin number must be after No. ${previous?.bulletin_number ?? 0}`);
+      return;
+    }
+    if ((bulletin.center_lat === null) !== (bulletin.center_lng === null)) {
+      alert('Enter both the latitude and longitude of the center, or neither');
+      return;
+    }
+    if (forecast.some(row => !row.forecast_at || toNumberOrNull(row.lat) === null || toNumberOrNull(row.lng) === null)) {
+      alert('Each forecast point needs a time, latitude and longitude');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(bulletin, channels);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Post Bulletin</h3>
+            <p className="text-sm text-gray-600">{getCycloneDisplayName(cyclone)}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">PAGASA Bulletin No.</label>
+              <input type="number" min={1} value={bulletinNumber} onChange={(e) => setBulletinNumber(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Issued At</label>
+              <input type="datetime-local" value={issuedAt} onChange={(e) => setIssuedAt(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select value={category} onChange={(e) => setCategory(e.target.value as CycloneCategory)} className={inputClass}>
+                {CYCLONE_CATEGORIES.map(item => (
+                  <option key={item.id} value={item.id}>{item.name} ({item.id})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Center Latitude (°N)</label>
+              <input type="number" step="0.1" value={centerLat} onChange={(e) => setCenterLat(e.target.value)} className={inputClass} placeholder="13.5" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Center Longitude (°E)</label>
+              <input type="number" step="0.1" value={centerLng} onChange={(e) => setCenterLng(e.target.value)} className={inputClass} placeholder="126.4" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Location of Center</label>
+              <input
+                type="text"
+                value={centerDescription}
+                onChange={(e) => setCenterDescription(e.target.value)}
+                className={inputClass}
+                placeholder="310 km East of Virac, Catanduanes"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Maximum Sustained Winds (km/h)</label>
+              <input type="number" min={0} value={maxWinds} onChange={(e) => setMaxWinds(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Gustiness (km/h)</label>
+              <input type="number" min={0} value={gusts} onChange={(e) => setGusts(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Movement</label>
+              <input
+                type="text"
+                value={movement}
+                onChange={(e) => setMovement(e.target.value)}
+                className={inputClass}
+                placeholder="west northwestward at 20 km/h"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">Wind Signals in Pio Duran</label>
+              <select
+                value=""
+                onChange={(e) => e.target.value !== '' && setAllSignals(Number(e.target.value))}
+                className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                aria-label="Set every barangay to"
+              >
+                <option value="">Set all barangays to...</option>
+                {WIND_SIGNALS.map(signal => (
+                  <option key={signal.level} value={signal.level}>{signal.level === 0 ? 'No signal' : `Signal No. ${signal.level}`}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {BARANGAYS.map(barangay => {
+                const level = signals[barangay] ?? 0;
+                return (
+                  <label key={barangay} className={`flex items-center justify-between px-2 py-1 rounded-lg text-sm ${WIND_SIGNALS[level].className}`}>
+                    <span className="truncate mr-2">{barangay}</span>
+                    <select
+                      value={level}
+                      onChange={(e) => setSignals({ ...signals, [barangay]: Number(e.target.value) })}
+                      className="bg-white border border-gray-300 rounded text-xs px-1 py-0.5"
+                    >
+                      {WIND_SIGNALS.map(signal => (
+                        <option key={signal.level} value={signal.level}>{signal.level === 0 ? '—' : signal.level}</option>
+                      ))}
+                    </select>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">Forecast Track</label>
+              <button
+                type="button"
+                onClick={() => setForecast([...forecast, { forecast_at: '', lat: '', lng: '' }])}
+                className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+              >
+                <Plus size={14} className="mr-1" /> Add Point
+              </button>
+            </div>
+            {forecast.length === 0 ? (
+              <p className="text-sm text-gray-500">No forecast positions. Add the 24, 48 and 72-hour positions from the bulletin.</p>
+            ) : (
+              <div className="space-y-2">
+                {forecast.map((row, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_8rem_8rem_auto] gap-2 items-center">
+                    <input
+                      type="datetime-local"
+                      value={row.forecast_at}
+                      onChange={(e) => updateForecast(index, { forecast_at: e.target.value })}
+                      className={inputClass}
+                      aria-label="Forecast time"
+                    />
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={row.lat}
+                      onChange={(e) => updateForecast(index, { lat: e.target.value })}
+                      className={inputClass}
+                      placeholder="Lat °N"
+                    />
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={row.lng}
+                      onChange={(e) => updateForecast(index, { lng: e.target.value })}
+                      className={inputClass}
+                      placeholder="Lng °E"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setForecast(forecast.filter((_, i) => i !== index))}
+                      className="text-red-600 hover:text-red-800"
+                      title="Remove Point"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Hazards and Advice</label>
+              <textarea
+                value={summary}
+                onChange={(e) => setSummary(e.target.value)}
+                rows={4}
+                className={inputClass}
+                placeholder="Heavy rainfall and storm surge expected along the coast. Residents of low-lying areas should prepare to evacuate."
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Next Bulletin</label>
+              <input type="datetime-local" value={nextBulletinAt} onChange={(e) => setNextBulletinAt(e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Send Alert Through</label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {ALERT_CHANNELS.map(channel => (
+                <label key={channel.id} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={channels.includes(channel.id)}
+                    onChange={(e) => setChannels(e.target.checked ? [...channels, channel.id] : channels.filter(c => c !== channel.id))}
+                    className="rounded border-gray-300 text-red-600 focus:ring-red-500 mr-2"
+                  />
+                  {channel.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-medium text-gray-500 uppercase">
+                {cyclone.alert_id ? 'Updates the cyclone\'s emergency alert' : 'Creates an emergency alert'}
+              </p>
+              <span className={`${severity?.color || 'bg-gray-500'} text-white text-xs px-2 py-0.5 rounded-full`}>
+                {severity?.name} · Priority {preview.priority}/5
+              </span>
+            </div>
+            <p className="font-semibold text-gray-900">{preview.title}</p>
+            <p className="text-sm text-gray-700 whitespace-pre-line mt-1">{preview.message}</p>
+            <p className="text-xs text-gray-500 mt-2">Area: {preview.location}</p>
+          </div>
+
+          {needsApproval && (
+            <p className="text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded-lg p-3 flex items-start">
+              <ShieldCheck size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+              At this signal level the alert needs a second admin's approval before it goes out, unless the cyclone's alert was already approved at this level.
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+              className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              {isSubmitting ? 'Posting...' : 'Post Bulletin'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CycloneBulletinForm;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { createProjection, type LngLat, type MapBounds } from '../../utils/geo';
+import { PIO_DURAN_LOCATION } from '../../utils/tropicalCyclones';
+import type { CycloneForecastPoint } from '../../types';
+
+interface CycloneTrackMapProps {
+  // Centers from the bulletins so far, oldest first
+  positions: LngLat[];
+  forecast: CycloneForecastPoint[];
+  height?: number;
+}
+
+const WIDTH = 600;
+const GRID_STEP = 2;
+// Keep at least this many degrees around the track so Pio Duran has context
+const MIN_SPAN = 8;
+
+const getTrackBounds = (points: LngLat[]): MapBounds => {
+  const lngs = points.map(([lng]) => lng);
+  const lats = points.map(([, lat]) => lat);
+  const bounds = {
+    minLng: Math.min(...lngs) - 1,
+    minLat: Math.min(...lats) - 1,
+    maxLng: Math.max(...lngs) + 1,
+    maxLat: Math.max(...lats) + 1
+  };
+
+  const widen = (min: number, max: number): [number, number] => {
+    const missing = Math.max(0, MIN_SPAN - (max - min)) / 2;
+    return [min - missing, max + missing];
+  };
+  [bounds.minLng, bounds.maxLng] = widen(bounds.minLng, bounds.maxLng);
+  [bounds.minLat, bounds.maxLat] = widen(bounds.minLat, bounds.maxLat);
+  return bounds;
+};
+
+const formatForecastTime = (value: string) =>
+  new Date(value).toLocaleString('en-PH', { timeZone: 'Asia/Manila', month: 'short', day: 'numeric', hour: 'numeric' });
+
+// Past and forecast positions on a plain lat/lng grid, drawn without an
+// online tile service like the barangay map
+const CycloneTrackMap: React.FC<CycloneTrackMapProps> = ({ positions, forecast, height = 420 }) => {
+  const forecastPoints = forecast.map(point => [point.lng, point.lat] as LngLat);
+  const bounds = getTrackBounds([...positions, ...forecastPoints, PIO_DURAN_LOCATION]);
+  const { project } = createProjection(bounds, WIDTH, height, 24);
+
+  const toPoints = (points: LngLat[]) => points.map(point => project(point).join(',')).join(' ');
+  const latest = positions[positions.length - 1];
+  const [townX, townY] = project(PIO_DURAN_LOCATION);
+
+  const gridLngs: number[] = [];
+  for (let lng = Math.ceil(bounds.minLng / GRID_STEP) * GRID_STEP; lng <= bounds.maxLng; lng += GRID_STEP) gridLngs.push(lng);
+  const gridLats: number[] = [];
+  for (let lat = Math.ceil(bounds.minLat / GRID_STEP) * GRID_STEP; lat <= bounds.maxLat; lat += GRID_STEP) gridLats.push(lat);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      className="w-full h-auto bg-blue-50 rounded-lg"
+      role="img"
+      aria-label="Tropical cyclone track relative to Pio Duran"
+    >
+      <g stroke="#bfdbfe" strokeWidth={1}>
+        {gridLngs.map(lng => {
+          const [x] = project([lng, bounds.minLat]);
+          return <line key={`lng-${lng}`} x1={x} y1={0} x2={x} y2={height} />;
+        })}
+        {gridLats.map(lat => {
+          const [, y] = project([bounds.minLng, lat]);
+          return <line key={`lat-${lat}`} x1={0} y1={y} x2={WIDTH} y2={y} />;
+        })}
+      </g>
+      <g fill="#60a5fa" fontSize={10}>
+        {gridLngs.map(lng => (
+          <text key={`lng-label-${lng}`} x={project([lng, bounds.minLat])[0] + 2} y={height - 4}>{lng}°E</text>
+        ))}
+        {gridLats.map(lat => (
+          <text key={`lat-label-${lat}`} x={2} y={project([bounds.minLng, lat])[1] - 2}>{lat}°N</text>
+        ))}
+      </g>
+
+      {positions.length > 1 && (
+        <polyline points={toPoints(positions)} fill="none" stroke="#1e3a8a" strokeWidth={2.5} />
+      )}
+      {latest && forecastPoints.length > 0 && (
+        <polyline
+          points={toPoints([latest, ...forecastPoints])}
+          fill="none"
+          stroke="#dc2626"
+          strokeWidth={2}
+          strokeDasharray="6 4"
+        />
+      )}
+
+      {positions.slice(0, -1).map((point, index) => {
+        const [x, y] = project(point);
+        return <circle key={`past-${index}`} cx={x} cy={y} r={3} fill="#1e3a8a" />;
+      })}
+      {forecast.map((point, index) => {
+        const [x, y] = project(forecastPoints[index]);
+        return (
+          <g key={`forecast-${index}`}>
+            <circle cx={x} cy={y} r={4} fill="#ffffff" stroke="#dc2626" strokeWidth={2} />
+            <text x={x + 7} y={y + 4} fontSize={10} fill="#991b1b">{formatForecastTime(point.forecast_at)}</text>
+          </g>
+        );
+      })}
+      {latest && (() => {
+        const [x, y] = project(latest);
+        return (
+          <g>
+            <circle cx={x} cy={y} r={9} fill="#dc2626" fillOpacity={0.25} />
+            <circle cx={x} cy={y} r={5} fill="#dc2626" stroke="#ffffff" strokeWidth={1.5} />
+            <title>Latest position</title>
+          </g>
+        );
+      })()}
+
+      <g>
+        <rect x={townX - 4} y={townY - 4} width={8} height={8} fill="#facc15" stroke="#1e3a8a" strokeWidth={1.5} />
+        <text x={townX + 8} y={townY + 4} fontSize={11} fontWeight="bold" fill="#1e3a8a">Pio Duran</text>
+      </g>
+    </svg>
+  );
+};
+
+export default CycloneTrackMap;
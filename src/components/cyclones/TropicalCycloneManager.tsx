@@ -0,0 +1,332 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Wind, FileText, Flag, ExternalLink } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { databaseManager } from '../../lib/database';
+import { useAuth } from '../../contexts/AuthContext';
+import { ALERT_CHANNELS } from '../../utils/alertDispatch';
+import { ALERT_APPROVAL_SETTING_KEY, parseAlertApprovalRule } from '../../utils/alertApproval';
+import {
+  expireLinkedAlert,
+  getLinkedAlert,
+  getLinkedAlertStatusLabel,
+  publishLinkedAlert,
+  type LinkedAlert
+} from '../../utils/linkedAlerts';
+import {
+  buildCycloneAlert,
+  getCategoryName,
+  getCycloneDisplayName,
+  getHighestSignal,
+  getWindSignal,
+  groupBarangaysBySignal
+} from '../../utils/tropicalCyclones';
+import CycloneBulletinForm, { type CycloneBulletinInput } from './CycloneBulletinForm';
+import type { CycloneBulletin, TropicalCyclone } from '../../types';
+
+// Cyclones being tracked, with each PAGASA bulletin posted here creating or
+// updating the cyclone's emergency alert
+const TropicalCycloneManager: React.FC = () => {
+  const { user } = useAuth();
+  const [cyclones, setCyclones] = useState<TropicalCyclone[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [bulletins, setBulletins] = useState<CycloneBulletin[]>([]);
+  const [linkedAlert, setLinkedAlert] = useState<LinkedAlert | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newCyclone, setNewCyclone] = useState({ name: '', international_name: '' });
+  const [isPosting, setIsPosting] = useState(false);
+  const [approvalRule, setApprovalRule] = useState(() => parseAlertApprovalRule(null));
+
+  useEffect(() => {
+    databaseManager.getTropicalCyclones()
+      .then(data => {
+        setCyclones(data);
+        setSelectedId(current => current ?? data.find(cyclone => cyclone.status === 'active')?.id ?? data[0]?.id ?? null);
+      })
+      .catch(error => console.error('Error fetching tropical cyclones:', error))
+      .finally(() => setLoading(false));
+
+    databaseManager.getSetting(ALERT_APPROVAL_SETTING_KEY)
+      .then(setting => {
+        if (setting) setApprovalRule(parseAlertApprovalRule(setting.setting_value));
+      })
+      .catch(error => console.error('Error loading alert approval rule:', error));
+  }, []);
+
+  const selected = cyclones.find(cyclone => cyclone.id === selectedId) || null;
+
+  useEffect(() => {
+    if (!selectedId) return;
+    let cancelled = false;
+
+    databaseManager.getCycloneBulletins(selectedId)
+      .then(data => {
+        if (!cancelled) setBulletins(data as unknown as CycloneBulletin[]);
+      })
+      .catch(error => console.error('Error fetching cyclone bulletins:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  useEffect(() => {
+    if (!selected?.alert_id) {
+      setLinkedAlert(null);
+      return;
+    }
+    getLinkedAlert(selected.alert_id)
+      .then(setLinkedAlert)
+      .catch(error => console.error('Error fetching the cyclone alert:', error));
+  }, [selected?.alert_id]);
+
+  const updateCyclone = (updated: TropicalCyclone) =>
+    setCyclones(prev => prev.map(cyclone => cyclone.id === updated.id ? updated : cyclone));
+
+  const handleAddCyclone = async () => {
+    if (!newCyclone.name.trim()) {
+      alert('Enter the PAGASA name of the cyclone');
+      return;
+    }
+
+    try {
+      const created = await databaseManager.createTropicalCyclone({
+        name: newCyclone.name.trim(),
+        international_name: newCyclone.international_name.trim() || null,
+        created_by: user?.id ?? null
+      });
+      setCyclones(prev => [created, ...prev]);
+      setSelectedId(created.id);
+      setNewCyclone({ name: '', international_name: '' });
+      setIsAdding(false);
+    } catch (error) {
+      console.error('Error adding tropical cyclone:', error);
+      alert('Error adding the cyclone. Please try again.');
+    }
+  };
+
+  const publishAlert = async (cyclone: TropicalCyclone, bulletin: CycloneBulletin, channels: string[]) => {
+    const current = linkedAlert?.id === cyclone.alert_id ? linkedAlert : null;
+    const { alert: saved, message } = await publishLinkedAlert(current, { ...buildCycloneAlert(cyclone, bulletin), channels }, approvalRule);
+    setLinkedAlert(saved);
+
+    await databaseManager.updateCycloneBulletin(bulletin.id, { alert_id: saved.id });
+    setBulletins(prev => prev.map(item => item.id === bulletin.id ? { ...item, alert_id: saved.id } : item));
+    if (cyclone.alert_id !== saved.id) {
+      updateCyclone(await databaseManager.updateTropicalCyclone(cyclone.id, { alert_id: saved.id }));
+    }
+    return message;
+  };
+
+  const handlePostBulletin = async (input: CycloneBulletinInput, channels: string[]) => {
+    if (!selected) return;
+
+    let bulletin: CycloneBulletin;
+    try {
+      bulletin = await databaseManager.createCycloneBulletin({
+        ...input,
+        cyclone_id: selected.id,
+        created_by: user?.id ?? null,
+        created_by_name: user?.name ?? null
+      }) as unknown as CycloneBulletin;
+      setBulletins(prev => [...prev, bulletin]);
+      setIsPosting(false);
+    } catch (error) {
+      console.error('Error posting cyclone bulletin:', error);
+      alert('Error posting the bulletin. The bulletin number may already be in use.');
+      return;
+    }
+
+    try {
+      alert(await publishAlert(selected, bulletin, channels));
+    } catch (error) {
+      console.error('Error issuing the cyclone alert:', error);
+      alert(`Bulletin posted, but its alert could not be saved: ${(error as { message?: string }).message || 'please try again'}`);
+    }
+  };
+
+  const handleEndTracking = async (cyclone: TropicalCyclone) => {
+    const expiresAlert = linkedAlert?.status === 'active';
+    if (!window.confirm(`Stop tracking ${cyclone.name}?${expiresAlert ? ' Its emergency alert is taken down.' : ''}`)) return;
+
+    try {
+      if (expiresAlert) {
+        await expireLinkedAlert(linkedAlert!.id);
+        setLinkedAlert({ ...linkedAlert!, status: 'expired' });
+      }
+      updateCyclone(await databaseManager.updateTropicalCyclone(cyclone.id, {
+        status: 'ended',
+        ended_at: new Date().toISOString()
+      }));
+    } catch (error) {
+      console.error('Error ending cyclone tracking:', error);
+      alert('Error ending tracking. Please try again.');
+    }
+  };
+
+  const latest = bulletins[bulletins.length - 1];
+  const highest = latest ? getWindSignal(getHighestSignal(latest.signals)) : null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="p-4 border-b border-gray-200 flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-gray-900">Tropical Cyclones</h3>
+          <button
+            onClick={() => setIsAdding(!isAdding)}
+            className="bg-red-600 text-white px-3 py-1.5 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-1 text-sm"
+          >
+            <Plus size={14} />
+            <span>Track Cyclone</span>
+          </button>
+        </div>
+
+        {isAdding && (
+          <div className="p-4 border-b border-gray-200 space-y-3 bg-gray-50">
+            <input
+              type="text"
+              value={newCyclone.name}
+              onChange={(e) => setNewCyclone({ ...newCyclone, name: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              placeholder="PAGASA name, e.g. Kristine"
+            />
+            <input
+              type="text"
+              value={newCyclone.international_name}
+              onChange={(e) => setNewCyclone({ ...newCyclone, international_name: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              placeholder="International name (optional)"
+            />
+            <div className="flex justify-end space-x-2">
+              <button onClick={() => setIsAdding(false)} className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200">
+                Cancel
+              </button>
+              <button onClick={handleAddCyclone} className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700">
+                Add
+              </button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="p-8 text-center text-gray-500">Loading cyclones...</p>
+        ) : cyclones.length === 0 ? (
+          <div className="text-center py-12">
+            <Wind className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+            <p className="text-gray-500">No cyclones tracked yet.</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {cyclones.map(cyclone => (
+              <li key={cyclone.id}>
+                <button
+                  onClick={() => setSelectedId(cyclone.id)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${cyclone.id === selectedId ? 'bg-red-50' : ''}`}
+                >
+                  <p className="font-medium text-gray-900">{getCycloneDisplayName(cyclone)}</p>
+                  <p className="text-xs text-gray-500">
+                    {cyclone.status === 'active' ? 'Tracking' : `Ended ${new Date(cyclone.ended_at || cyclone.updated_at).toLocaleDateString()}`}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200">
+        {!selected ? (
+          <p className="p-12 text-center text-gray-500">Track a cyclone to post PAGASA bulletins for it.</p>
+        ) : (
+          <>
+            <div className="p-6 border-b border-gray-200 flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+              <div>
+                <h3 className="text-xl font-semibold text-gray-900">
+                  {getCycloneDisplayName(selected, latest?.category)}
+                </h3>
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-sm">
+                  {highest && (
+                    <span className={`px-2 py-0.5 rounded-full font-medium ${highest.className}`}>
+                      {highest.level > 0 ? `Signal No. ${highest.level}` : 'No signal'} in Pio Duran
+                    </span>
+                  )}
+                  {linkedAlert && (
+                    <span className="bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full">
+                      Alert: {getLinkedAlertStatusLabel(linkedAlert)}
+                    </span>
+                  )}
+                  <Link to={`/tropical-cyclone/${selected.id}`} target="_blank" className="text-blue-600 hover:text-blue-800 flex items-center">
+                    Public page <ExternalLink size={12} className="ml-1" />
+                  </Link>
+                </div>
+              </div>
+              {selected.status === 'active' && (
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => handleEndTracking(selected)}
+                    className="px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 flex items-center space-x-1"
+                  >
+                    <Flag size={14} />
+                    <span>End Tracking</span>
+                  </button>
+                  <button
+                    onClick={() => setIsPosting(true)}
+                    className="px-3 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 flex items-center space-x-1"
+                  >
+                    <FileText size={14} />
+                    <span>Post Bulletin</span>
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {bulletins.length === 0 ? (
+              <p className="p-12 text-center text-gray-500">No bulletins posted for this cyclone yet.</p>
+            ) : (
+              <ol className="p-6 space-y-4">
+                {[...bulletins].reverse().map(bulletin => {
+                  const signal = getWindSignal(getHighestSignal(bulletin.signals));
+                  return (
+                    <li key={bulletin.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="font-medium text-gray-900">
+                          Bulletin No. {bulletin.bulletin_number} · {getCategoryName(bulletin.category)}
+                        </p>
+                        <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${signal.className}`}>
+                          {signal.level > 0 ? `Signal No. ${signal.level}` : 'No signal'}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Issued {new Date(bulletin.issued_at).toLocaleString()}
+                        {bulletin.created_by_name && ` · posted by ${bulletin.created_by_name}`}
+                      </p>
+                      {groupBarangaysBySignal(bulletin.signals).map(group => (
+                        <p key={group.level} className="text-sm text-gray-700 mt-2">
+                          <span className="font-medium">Signal No. {group.level}:</span> {group.barangays.join(', ')}
+                        </p>
+                      ))}
+                      {bulletin.summary && <p className="text-sm text-gray-600 mt-2 whitespace-pre-line">{bulletin.summary}</p>}
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </>
+        )}
+      </div>
+
+      {isPosting && selected && (
+        <CycloneBulletinForm
+          cyclone={selected}
+          previous={latest}
+          channels={linkedAlert?.channels?.length ? linkedAlert.channels : ALERT_CHANNELS.map(channel => channel.id)}
+          approvalRule={approvalRule}
+          onSubmit={handlePostBulletin}
+          onClose={() => setIsPosting(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TropicalCycloneManager;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { BARANGAYS } from '../../utils/constants';
+
+interface BarangayGridProps {
+  fills?: Record<string, string>;
+  labels?: Record<string, string>;
+  selectedBarangay?: string;
+  onBarangayClick?: (name: string) => void;
+}
+
+// Barangays as colored tiles; stands in for a map until official
+// NAMRIA/PSA boundaries are available
+const BarangayGrid: React.FC<BarangayGridProps> = ({
+  fills = {},
+  labels = {},
+  selectedBarangay,
+  onBarangayClick
+}) => {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2" role="list" aria-label="Pio Duran barangays">
+      {BARANGAYS.map(name => {
+        const isSelected = name === selectedBarangay;
+        const tileClassName = `w-full flex items-center justify-between px-3 py-2 rounded-lg text-left text-sm text-gray-900 border ${
+          isSelected ? 'border-blue-900 ring-2 ring-blue-900' : 'border-gray-200'
+        }`;
+        const content = (
+          <>
+            <span className="truncate">{name}</span>
+            {labels[name] && <span className="ml-2 text-xs font-semibold">{labels[name]}</span>}
+          </>
+        );
+
+        return (
+          <div key={name} role="listitem">
+            {onBarangayClick ? (
+              <button
+                type="button"
+                onClick={() => onBarangayClick(name)}
+                className={`${tileClassName} hover:opacity-80`}
+                style={{ backgroundColor: fills[name] || '#f9fafb' }}
+              >
+                {content}
+              </button>
+            ) : (
+              <div className={tileClassName} style={{ backgroundColor: fills[name] || '#f9fafb' }}>
+                {content}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BarangayGrid;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Film } from 'lucide-react';
+import type { IncidentAttachment } from '../../types';
+
+interface IncidentAttachmentGalleryProps {
+  attachments: IncidentAttachment[];
+  // Reports from before attachments only have image_url
+  fallbackImageUrl?: string | null;
+}
+
+const IncidentAttachmentGallery: React.FC<IncidentAttachmentGalleryProps> = ({ attachments, fallbackImageUrl }) => {
+  if (attachments.length === 0) {
+    if (!fallbackImageUrl) {
+      return <p className="text-sm text-gray-500">No photos or videos were attached</p>;
+    }
+
+    return (
+      <img
+        src={fallbackImageUrl}
+        alt="Incident evidence"
+        className="w-full max-w-md h-auto rounded-lg shadow-sm"
+        onError={(e) => {
+          const target = e.target as HTMLImageElement;
+          target.style.display = 'none';
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      {attachments.map(attachment => (
+        <div key={attachment.id} className="bg-white rounded-lg shadow-sm overflow-hidden">
+          {attachment.media_type === 'video' ? (
+            <video
+              src={attachment.file_url}
+              poster={attachment.thumbnail_url || undefined}
+              controls
+              preload="none"
+              className="w-full h-48 bg-black"
+            />
+          ) : (
+            <a href={attachment.file_url} target="_blank" rel="noopener noreferrer">
+              <img
+                src={attachment.thumbnail_url || attachment.file_url}
+                alt="Incident evidence"
+                loading="lazy"
+                className="w-full h-48 object-cover"
+              />
+            </a>
+          )}
+          <div className="px-3 py-2 text-xs text-gray-600 flex items-center justify-between">
+            <span className="flex items-center">
+              {attachment.media_type === 'video' && <Film size={12} className="mr-1" />}
+              {attachment.width && attachment.height ? `${attachment.width}×${attachment.height}` : attachment.media_type}
+              {attachment.duration_seconds != null && ` · ${Math.round(attachment.duration_seconds)}s`}
+            </span>
+            {attachment.file_size != null && (
+              <span>{(attachment.file_size / 1024 / 1024).toFixed(2)} MB</span>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default IncidentAttachmentGallery;
@@ -0,0 +1,168 @@
+import React, { useMemo, useState } from 'react';
+import { MapPin } from 'lucide-react';
+import BarangayGrid from './BarangayGrid';
+import IncidentStatusBadge from './IncidentStatusBadge';
+import { BARANGAYS, URGENCY_LEVELS, URGENCY_MAP_COLORS } from '../../utils/constants';
+import type { Database } from '../../lib/supabase';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+
+interface IncidentBarangayViewProps {
+  incidents: IncidentReport[];
+  onSelectIncident: (incident: IncidentReport) => void;
+}
+
+interface BarangayCluster {
+  barangay: string;
+  incidents: IncidentReport[];
+  urgency: IncidentReport['urgency'];
+}
+
+const highestUrgency = (incidents: IncidentReport[]): IncidentReport['urgency'] => {
+  return incidents.reduce<IncidentReport['urgency']>(
+    (max, incident) => URGENCY_LEVELS.indexOf(incident.urgency) > URGENCY_LEVELS.indexOf(max) ? incident.urgency : max,
+    'LOW'
+  );
+};
+
+const IncidentBarangayView: React.FC<IncidentBarangayViewProps> = ({ incidents, onSelectIncident }) => {
+  const [selectedBarangay, setSelectedBarangay] = useState<string>('');
+
+  const { clusters, unmapped } = useMemo(() => {
+    const grouped: Record<string, IncidentReport[]> = {};
+    const unmappedIncidents: IncidentReport[] = [];
+
+    incidents.forEach(incident => {
+      // Grouped by the barangay the reporter picked; pinned coordinates are
+      // not matched to boundaries until official ones are available
+      if (incident.location && BARANGAYS.includes(incident.location)) {
+        (grouped[incident.location] = grouped[incident.location] || []).push(incident);
+      } else {
+        unmappedIncidents.push(incident);
+      }
+    });
+
+    const clusterList: BarangayCluster[] = Object.entries(grouped).map(([barangay, items]) => ({
+      barangay,
+      incidents: items,
+      urgency: highestUrgency(items)
+    }));
+
+    return { clusters: clusterList, unmapped: unmappedIncidents };
+  }, [incidents]);
+
+  const fills = useMemo(() => {
+    return clusters.reduce<Record<string, string>>((acc, cluster) => {
+      acc[cluster.barangay] = URGENCY_MAP_COLORS[cluster.urgency].fill;
+      return acc;
+    }, {});
+  }, [clusters]);
+
+  const counts = useMemo(() => {
+    return clusters.reduce<Record<string, string>>((acc, cluster) => {
+      acc[cluster.barangay] = String(cluster.incidents.length);
+      return acc;
+    }, {});
+  }, [clusters]);
+
+  const selectedCluster = clusters.find(c => c.barangay === selectedBarangay);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <BarangayGrid
+            fills={fills}
+            labels={counts}
+            selectedBarangay={selectedBarangay}
+            onBarangayClick={setSelectedBarangay}
+          />
+          <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-600">
+            {URGENCY_LEVELS.slice().reverse().map(level => (
+              <span key={level} className="flex items-center">
+                <span
+                  className="inline-block w-3 h-3 rounded-full mr-1"
+                  style={{ backgroundColor: URGENCY_MAP_COLORS[level].marker }}
+                />
+                {level}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          {selectedCluster ? (
+            <>
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-semibold text-gray-900">{selectedCluster.barangay}</h3>
+                <button
+                  onClick={() => setSelectedBarangay('')}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  Show all
+                </button>
+              </div>
+              <ul className="space-y-2 max-h-[420px] overflow-y-auto">
+                {selectedCluster.incidents.map(incident => (
+                  <li key={incident.id}>
+                    <button
+                      onClick={() => onSelectIncident(incident)}
+                      className="w-full text-left p-3 bg-gray-50 rounded-lg hover:bg-gray-100"
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-900">{incident.incident_type}</span>
+                        <IncidentStatusBadge status={incident.status} />
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {incident.reference_number} • {new Date(incident.date_reported).toLocaleString()}
+                      </p>
+                      {incident.latitude != null && incident.longitude != null && (
+                        <p className="text-xs text-gray-400 mt-1">
+                          {incident.latitude.toFixed(5)}, {incident.longitude.toFixed(5)}
+                        </p>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <>
+              <h3 className="font-semibold text-gray-900 mb-3">Incidents by Barangay</h3>
+              {clusters.length === 0 ? (
+                <p className="text-sm text-gray-500">No incidents to plot</p>
+              ) : (
+                <ul className="space-y-2 max-h-[420px] overflow-y-auto">
+                  {clusters
+                    .slice()
+                    .sort((a, b) => b.incidents.length - a.incidents.length)
+                    .map(cluster => (
+                      <li key={cluster.barangay}>
+                        <button
+                          onClick={() => setSelectedBarangay(cluster.barangay)}
+                          className="w-full flex items-center justify-between p-3 bg-gray-50 rounded-lg hover:bg-gray-100"
+                        >
+                          <span className="flex items-center text-sm text-gray-900">
+                            <MapPin size={14} className="mr-1" style={{ color: URGENCY_MAP_COLORS[cluster.urgency].marker }} />
+                            {cluster.barangay}
+                          </span>
+                          <span className="text-sm font-medium text-gray-700">{cluster.incidents.length}</span>
+                        </button>
+                      </li>
+                    ))}
+                </ul>
+              )}
+            </>
+          )}
+          {unmapped.length > 0 && (
+            <p className="text-xs text-gray-500 mt-4">
+              {unmapped.length} incident(s) have no barangay and are not shown above.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentBarangayView;
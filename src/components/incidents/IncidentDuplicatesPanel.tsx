@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { GitMerge } from 'lucide-react';
+import IncidentStatusBadge from './IncidentStatusBadge';
+import type { DuplicateCandidate } from '../../utils/incidentDuplicates';
+
+interface IncidentDuplicatesPanelProps {
+  candidates: DuplicateCandidate[];
+  onMerge: (childIds: string[]) => Promise<void>;
+}
+
+const IncidentDuplicatesPanel: React.FC<IncidentDuplicatesPanelProps> = ({ candidates, onMerge }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isMerging, setIsMerging] = useState(false);
+
+  if (candidates.length === 0) {
+    return <p className="text-sm text-gray-500">No likely duplicates found</p>;
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleMerge = async () => {
+    if (selectedIds.length === 0) return;
+    if (!window.confirm(`Merge ${selectedIds.length} report(s) into this incident? They will be marked as duplicates.`)) return;
+
+    setIsMerging(true);
+    try {
+      await onMerge(selectedIds);
+      setSelectedIds([]);
+    } catch (error) {
+      console.error('Error merging incidents:', error);
+      alert('Error merging incidents. Please try again.');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2">
+        {candidates.map(({ incident, score, reasons }) => (
+          <li key={incident.id} className="flex items-start space-x-3 p-3 bg-orange-50 rounded-lg">
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(incident.id)}
+              onChange={() => toggleSelected(incident.id)}
+              className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            <div className="flex-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-gray-900">{incident.reference_number}</span>
+                <IncidentStatusBadge status={incident.status} />
+                <span className="text-xs text-orange-700">{Math.round(score * 100)}% match</span>
+              </div>
+              <p className="text-xs text-gray-600 mt-1">
+                {incident.reporter_name} • {new Date(incident.date_reported).toLocaleString()}
+              </p>
+              {incident.description && (
+                <p className="text-sm text-gray-700 mt-1 line-clamp-2">{incident.description}</p>
+              )}
+              <p className="text-xs text-gray-500 mt-1">{reasons.join(' • ')}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <div className="flex justify-end">
+        <button
+          onClick={handleMerge}
+          disabled={isMerging || selectedIds.length === 0}
+          className="bg-orange-600 text-white px-4 py-2 rounded-lg hover:bg-orange-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+        >
+          <GitMerge size={16} />
+          <span className="text-sm">{isMerging ? 'Merging...' : `Merge Selected (${selectedIds.length})`}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentDuplicatesPanel;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertOctagon, CheckCircle } from 'lucide-react';
+import { useData } from '../../contexts/DataContext';
+import { useIncidentEscalations } from '../../hooks/useIncidentEscalations';
+import { formatDuration } from '../../utils/incidentMetrics';
+
+const IncidentEscalationsPanel: React.FC = () => {
+  const { incidents } = useData();
+  const { escalations, acknowledge } = useIncidentEscalations();
+  const [acknowledgingId, setAcknowledgingId] = useState<string | null>(null);
+
+  const handleAcknowledge = async (id: string) => {
+    setAcknowledgingId(id);
+    try {
+      await acknowledge(id);
+    } catch (error) {
+      console.error('Error acknowledging escalation:', error);
+      alert('Error acknowledging escalation. Please try again.');
+    } finally {
+      setAcknowledgingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <AlertOctagon className="mr-2 text-red-600" size={20} />
+          SLA Escalations
+        </h2>
+        {escalations.length > 0 && (
+          <span className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800">
+            {escalations.length} open
+          </span>
+        )}
+      </div>
+      <div className="p-6">
+        {escalations.length > 0 ? (
+          <div className="space-y-3">
+            {escalations.map(escalation => {
+              const incident = incidents.find(i => i.id === escalation.incident_id);
+              const overdue = Date.now() - new Date(escalation.due_at).getTime();
+
+              return (
+                <div key={escalation.id} className="flex items-center justify-between p-4 bg-red-50 rounded-lg">
+                  <div className="flex-1">
+                    <h3 className="font-medium text-gray-900">
+                      {escalation.breach_type === 'acknowledge' ? 'Not acknowledged' : 'Not resolved'}
+                      {' · '}
+                      <span className="text-red-700">{escalation.urgency}</span>
+                    </h3>
+                    <p className="text-sm text-gray-600">
+                      {incident
+                        ? `${incident.reference_number} – ${incident.incident_type || 'Incident'} at ${incident.location || 'unknown location'}`
+                        : 'Incident no longer loaded'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Due {new Date(escalation.due_at).toLocaleString()} · {formatDuration(overdue)} overdue
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3 ml-4">
+                    <Link to="/admin/incidents" className="text-sm text-blue-600 hover:text-blue-800">
+                      View
+                    </Link>
+                    <button
+                      onClick={() => handleAcknowledge(escalation.id)}
+                      disabled={acknowledgingId === escalation.id}
+                      className="flex items-center text-sm text-green-700 hover:text-green-900 disabled:opacity-50"
+                    >
+                      <CheckCircle size={16} className="mr-1" />
+                      Acknowledge
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-gray-500 text-center py-8">All incidents are within their SLA targets</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IncidentEscalationsPanel;
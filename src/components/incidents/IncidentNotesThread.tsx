@@ -0,0 +1,260 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Send, Paperclip, Lock, Eye, Trash2, X, FileText } from 'lucide-react';
+import { databaseManager } from '../../lib/database';
+import { RealtimeManager } from '../../utils/realtime';
+import { useAuth } from '../../contexts/AuthContext';
+import type { IncidentNote } from '../../types';
+
+interface IncidentNotesThreadProps {
+  incidentId: string;
+}
+
+const MAX_NOTE_FILES = 3;
+
+const IncidentNotesThread: React.FC<IncidentNotesThreadProps> = ({ incidentId }) => {
+  const { user } = useAuth();
+  const [notes, setNotes] = useState<IncidentNote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [body, setBody] = useState('');
+  const [visibility, setVisibility] = useState<IncidentNote['visibility']>('internal');
+  const [files, setFiles] = useState<File[]>([]);
+  const [isPosting, setIsPosting] = useState(false);
+  const threadEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    databaseManager.getIncidentNotes(incidentId)
+      .then(data => {
+        if (!cancelled) setNotes(data);
+      })
+      .catch(error => console.error('Error fetching incident notes:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    // Notes from other responders arrive live
+    const subscription = RealtimeManager.subscribe('incident_notes', (payload) => {
+      if (payload.eventType === 'INSERT') {
+        const note = payload.new as IncidentNote;
+        setNotes(prev => prev.some(n => n.id === note.id) ? prev : [...prev, note]);
+      } else if (payload.eventType === 'DELETE') {
+        setNotes(prev => prev.filter(n => n.id !== payload.old.id));
+      }
+    }, { column: 'incident_id', value: incidentId });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [incidentId]);
+
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [notes.length]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+    setFiles(prev => [...prev, ...selected].slice(0, MAX_NOTE_FILES));
+  };
+
+  const handlePost = async () => {
+    if (!body.trim()) return;
+
+    if (visibility === 'reporter' && !window.confirm('This note will be visible to the reporter on the public tracking page. Post it?')) {
+      return;
+    }
+
+    setIsPosting(true);
+    try {
+      const attachments = [];
+      for (const file of files) {
+        attachments.push(await databaseManager.uploadIncidentNoteAttachment(incidentId, file));
+      }
+
+      const note = await databaseManager.addIncidentNote({
+        incident_id: incidentId,
+        body: body.trim(),
+        visibility,
+        attachments
+      });
+      setNotes(prev => prev.some(n => n.id === note.id) ? prev : [...prev, note]);
+      setBody('');
+      setFiles([]);
+      setVisibility('internal');
+    } catch (error) {
+      console.error('Error posting incident note:', error);
+      alert(`Error posting note: ${(error as Error).message || 'Please try again.'}`);
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this note?')) return;
+
+    try {
+      await databaseManager.deleteIncidentNote(id);
+      setNotes(prev => prev.filter(n => n.id !== id));
+    } catch (error) {
+      console.error('Error deleting incident note:', error);
+      alert('Error deleting note. Please try again.');
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <div className="max-h-80 overflow-y-auto p-3 space-y-3 bg-gray-50" aria-live="polite">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading notes...</p>
+        ) : notes.length === 0 ? (
+          <p className="text-sm text-gray-500">No notes yet</p>
+        ) : (
+          notes.map(note => (
+            <div
+              key={note.id}
+              className={`rounded-lg p-3 text-sm ${
+                note.visibility === 'reporter' ? 'bg-blue-50 border border-blue-200' : 'bg-white border border-gray-200'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-gray-900">{note.author_name || 'Unknown'}</span>
+                  <span className="text-xs text-gray-500">{new Date(note.created_at).toLocaleString()}</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {note.visibility === 'reporter' ? (
+                    <span className="flex items-center text-xs text-blue-700">
+                      <Eye size={12} className="mr-1" />
+                      Shared with reporter
+                    </span>
+                  ) : (
+                    <span className="flex items-center text-xs text-gray-500">
+                      <Lock size={12} className="mr-1" />
+                      Internal
+                    </span>
+                  )}
+                  {user && note.author_id === user.id && (
+                    <button
+                      onClick={() => handleDelete(note.id)}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Delete note"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </div>
+              </div>
+              <p className="text-gray-800 whitespace-pre-wrap">{note.body}</p>
+              {note.attachments?.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {note.attachments.map(attachment => (
+                    <a
+                      key={attachment.path}
+                      href={attachment.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center text-xs text-blue-600 hover:text-blue-800 bg-white border border-gray-200 rounded px-2 py-1"
+                    >
+                      {attachment.mime_type?.startsWith('image/') ? (
+                        <img src={attachment.url} alt="" className="h-8 w-8 object-cover rounded mr-1" />
+                      ) : (
+                        <FileText size={14} className="mr-1" />
+                      )}
+                      {attachment.name}
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+        <div ref={threadEndRef} />
+      </div>
+
+      <div className="p-3 border-t border-gray-200 space-y-2">
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={2}
+          placeholder={visibility === 'reporter'
+            ? 'e.g. Response team has been dispatched to your area.'
+            : 'Add a note for responders on duty'}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+        />
+
+        {files.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {files.map((file, index) => (
+              <span key={file.name + index} className="flex items-center text-xs bg-gray-100 rounded px-2 py-1">
+                {file.name}
+                <button
+                  onClick={() => setFiles(prev => prev.filter((_, i) => i !== index))}
+                  className="ml-1 text-gray-500 hover:text-red-600"
+                  aria-label={`Remove ${file.name}`}
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center space-x-4 text-sm">
+            <label className="flex items-center">
+              <input
+                type="radio"
+                checked={visibility === 'internal'}
+                onChange={() => setVisibility('internal')}
+                className="mr-1"
+              />
+              Internal
+            </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                checked={visibility === 'reporter'}
+                onChange={() => setVisibility('reporter')}
+                className="mr-1"
+              />
+              Share with reporter
+            </label>
+            <label
+              className={`flex items-center text-gray-600 ${files.length >= MAX_NOTE_FILES ? 'opacity-50' : 'cursor-pointer hover:text-gray-900'}`}
+              title={`Attach up to ${MAX_NOTE_FILES} files`}
+            >
+              <Paperclip size={16} className="mr-1" />
+              Attach
+              <input
+                type="file"
+                multiple
+                accept="image/*,video/*,application/pdf"
+                className="sr-only"
+                onChange={handleFileChange}
+                disabled={files.length >= MAX_NOTE_FILES}
+              />
+            </label>
+          </div>
+          <button
+            onClick={handlePost}
+            disabled={isPosting || !body.trim()}
+            className="bg-blue-600 text-white px-3 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-1 disabled:opacity-50"
+          >
+            <Send size={16} />
+            <span className="text-sm">{isPosting ? 'Posting...' : 'Post'}</span>
+          </button>
+        </div>
+        {visibility === 'reporter' && (
+          <p className="text-xs text-gray-500">
+            Visible to the reporter on the public tracking page. Do not include other people's personal details.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IncidentNotesThread;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { getIncidentSlaState, formatSlaCountdown } from '../../utils/incidentSla';
+import type { Database } from '../../lib/supabase';
+import type { IncidentSlaSettings } from '../../types';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+
+interface IncidentSlaBadgeProps {
+  incident: Pick<IncidentReport, 'status' | 'urgency' | 'date_reported'>;
+  sla: IncidentSlaSettings;
+  now: number;
+}
+
+const IncidentSlaBadge: React.FC<IncidentSlaBadgeProps> = ({ incident, sla, now }) => {
+  const state = getIncidentSlaState(incident, sla, now);
+  if (!state) return <span className="text-xs text-gray-400">—</span>;
+
+  // Amber once less than a fifth of the target window is left
+  const target = state.phase === 'acknowledge' ? sla[incident.urgency].acknowledge_minutes : sla[incident.urgency].resolve_minutes;
+  const isWarning = !state.breached && state.remainingMs < target * 60000 * 0.2;
+
+  const colors = state.breached
+    ? 'bg-red-100 text-red-800 animate-pulse'
+    : isWarning
+      ? 'bg-yellow-100 text-yellow-800'
+      : 'bg-gray-100 text-gray-700';
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full whitespace-nowrap ${colors}`}
+      title={`${state.phase === 'acknowledge' ? 'Acknowledge' : 'Resolve'} by ${new Date(state.dueAt).toLocaleString()}`}
+    >
+      <Timer size={12} className="mr-1" />
+      {state.phase === 'acknowledge' ? 'Ack' : 'Resolve'}: {formatSlaCountdown(state)}
+    </span>
+  );
+};
+
+export default IncidentSlaBadge;
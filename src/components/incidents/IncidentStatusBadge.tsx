@@ -0,0 +1,45 @@
+import React from 'react';
+import { Clock, ShieldCheck, Truck, MapPin, CheckCircle, Archive, XCircle, Copy } from 'lucide-react';
+import { INCIDENT_STATUSES } from '../../utils/constants';
+import type { IncidentStatus } from '../../types';
+
+interface IncidentStatusBadgeProps {
+  status: IncidentStatus;
+  showIcon?: boolean;
+}
+
+export const IncidentStatusIcon: React.FC<{ status: string; size?: number }> = ({ status, size = 16 }) => {
+  switch (status) {
+    case 'received':
+      return <Clock className="text-yellow-500" size={size} />;
+    case 'verified':
+      return <ShieldCheck className="text-indigo-500" size={size} />;
+    case 'dispatched':
+      return <Truck className="text-blue-500" size={size} />;
+    case 'on-scene':
+      return <MapPin className="text-purple-500" size={size} />;
+    case 'resolved':
+      return <CheckCircle className="text-green-500" size={size} />;
+    case 'closed':
+      return <Archive className="text-gray-500" size={size} />;
+    case 'rejected':
+      return <XCircle className="text-red-500" size={size} />;
+    case 'duplicate':
+      return <Copy className="text-orange-500" size={size} />;
+    default:
+      return null;
+  }
+};
+
+const IncidentStatusBadge: React.FC<IncidentStatusBadgeProps> = ({ status, showIcon = false }) => {
+  const config = INCIDENT_STATUSES.find(s => s.id === status);
+
+  return (
+    <span className={`inline-flex items-center gap-1 px-2 py-1 text-xs rounded-full ${config?.color || 'bg-gray-100 text-gray-800'}`}>
+      {showIcon && <IncidentStatusIcon status={status} size={12} />}
+      {config?.name || status}
+    </span>
+  );
+};
+
+export default IncidentStatusBadge;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { ArrowRight, User, Users } from 'lucide-react';
+import IncidentStatusBadge, { IncidentStatusIcon } from './IncidentStatusBadge';
+import type { IncidentStatusUpdate, ResponseTeam } from '../../types';
+
+interface IncidentTimelineProps {
+  history: IncidentStatusUpdate[];
+  teams: ResponseTeam[];
+}
+
+const IncidentTimeline: React.FC<IncidentTimelineProps> = ({ history, teams }) => {
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No status history recorded</p>;
+  }
+
+  return (
+    <ol className="space-y-4">
+      {history.map((entry) => {
+        const team = teams.find(t => t.id === entry.assigned_team_id);
+
+        return (
+          <li key={entry.id} className="flex items-start space-x-3">
+            <div className="mt-1">
+              <IncidentStatusIcon status={entry.status} />
+            </div>
+            <div className="flex-1">
+              <div className="flex flex-wrap items-center gap-2">
+                {entry.from_status && (
+                  <>
+                    <IncidentStatusBadge status={entry.from_status} />
+                    <ArrowRight size={12} className="text-gray-400" />
+                  </>
+                )}
+                <IncidentStatusBadge status={entry.status} />
+                <span className="text-xs text-gray-500">{new Date(entry.created_at).toLocaleString()}</span>
+              </div>
+              <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-gray-600">
+                {entry.changed_by_name && (
+                  <span className="flex items-center">
+                    <User size={12} className="mr-1" />
+                    {entry.changed_by_name}
+                  </span>
+                )}
+                {team && entry.status === 'dispatched' && (
+                  <span className="flex items-center">
+                    <Users size={12} className="mr-1" />
+                    {team.name}
+                  </span>
+                )}
+              </div>
+              {entry.note && (
+                <p className="text-sm text-gray-700 mt-1">{entry.note}</p>
+              )}
+              {entry.public_note && (
+                <p className="text-sm text-blue-800 bg-blue-50 rounded p-2 mt-1">
+                  <span className="font-medium">Public update:</span> {entry.public_note}
+                </p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default IncidentTimeline;
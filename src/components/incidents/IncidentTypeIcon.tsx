@@ -0,0 +1,24 @@
+import React from 'react';
+import {
+  AlertTriangle, Flame, Waves, Mountain, Car, HeartPulse, Wind, Zap,
+  Droplets, Building, Anchor, TreePine, Biohazard, ShieldAlert, Users, type LucideIcon
+} from 'lucide-react';
+
+// Keep in sync with INCIDENT_TYPE_ICONS in utils/constants.ts
+const ICONS: Record<string, LucideIcon> = {
+  AlertTriangle, Flame, Waves, Mountain, Car, HeartPulse, Wind, Zap,
+  Droplets, Building, Anchor, TreePine, Biohazard, ShieldAlert, Users
+};
+
+interface IncidentTypeIconProps {
+  name?: string | null;
+  size?: number;
+  className?: string;
+}
+
+const IncidentTypeIcon: React.FC<IncidentTypeIconProps> = ({ name, size = 16, className }) => {
+  const Icon = (name && ICONS[name]) || AlertTriangle;
+  return <Icon size={size} className={className} />;
+};
+
+export default IncidentTypeIcon;
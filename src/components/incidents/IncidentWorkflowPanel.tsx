@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Send } from 'lucide-react';
+import { INCIDENT_STATUSES, INCIDENT_STATUS_TRANSITIONS } from '../../utils/constants';
+import type { IncidentReport, IncidentStatus, ResponseTeam } from '../../types';
+
+interface IncidentWorkflowPanelProps {
+  incident: Pick<IncidentReport, 'status' | 'assigned_team_id'>;
+  teams: ResponseTeam[];
+  onTransition: (status: IncidentStatus, note: string, teamId: string | null) => Promise<void>;
+}
+
+const IncidentWorkflowPanel: React.FC<IncidentWorkflowPanelProps> = ({ incident, teams, onTransition }) => {
+  const nextStatuses = INCIDENT_STATUS_TRANSITIONS[incident.status] || [];
+  const [nextStatus, setNextStatus] = useState<IncidentStatus | ''>(nextStatuses[0] || '');
+  const [teamId, setTeamId] = useState(incident.assigned_team_id || '');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  if (nextStatuses.length === 0) {
+    return <p className="text-sm text-gray-500">This incident is closed. No further status changes are possible.</p>;
+  }
+
+  const needsTeam = nextStatus === 'dispatched';
+
+  const handleSubmit = async () => {
+    if (!nextStatus) return;
+
+    if (needsTeam && !teamId) {
+      setError('Assign a response team before dispatching');
+      return;
+    }
+
+    if (['rejected', 'duplicate'].includes(nextStatus) && !note.trim()) {
+      setError('Please add a note explaining why');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      await onTransition(nextStatus, note.trim(), teamId || null);
+      setNote('');
+    } catch (err) {
+      console.error('Error updating incident status:', err);
+      setError('Error updating incident status. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Move to</label>
+          <select
+            value={nextStatus}
+            onChange={(e) => setNextStatus(e.target.value as IncidentStatus)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          >
+            {nextStatuses.map((status) => (
+              <option key={status} value={status}>
+                {INCIDENT_STATUSES.find(s => s.id === status)?.name || status}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">
+            Assigned Team {needsTeam && <span className="text-red-500">*</span>}
+          </label>
+          <select
+            value={teamId}
+            onChange={(e) => setTeamId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          >
+            <option value="">Unassigned</option>
+            {teams.filter(t => t.is_active || t.id === teamId).map((team) => (
+              <option key={team.id} value={team.id}>{team.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        rows={2}
+        placeholder="Internal note for this transition (not shown to the reporter)"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex justify-end">
+        <button
+          onClick={handleSubmit}
+          disabled={isSubmitting || !nextStatus}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+        >
+          <Send size={16} />
+          <span className="text-sm">{isSubmitting ? 'Updating...' : 'Update Status'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentWorkflowPanel;
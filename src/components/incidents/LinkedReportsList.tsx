@@ -0,0 +1,52 @@
+import React from 'react';
+import { Phone } from 'lucide-react';
+import type { Database } from '../../lib/supabase';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+
+interface LinkedReportsListProps {
+  reports: IncidentReport[];
+  onSelect: (report: IncidentReport) => void;
+}
+
+const LinkedReportsList: React.FC<LinkedReportsListProps> = ({ reports, onSelect }) => {
+  if (reports.length === 0) {
+    return <p className="text-sm text-gray-500">No reports have been merged into this incident</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {reports.map(report => (
+        <li key={report.id} className="flex items-start justify-between p-3 bg-gray-50 rounded-lg">
+          <div className="flex-1">
+            <button
+              onClick={() => onSelect(report)}
+              className="text-sm font-medium text-blue-600 hover:text-blue-800"
+            >
+              {report.reference_number}
+            </button>
+            <p className="text-sm text-gray-900">{report.reporter_name || 'Unknown'}</p>
+            <p className="text-xs text-gray-600 flex items-center">
+              <Phone size={12} className="mr-1" />
+              {report.contact_number || 'No contact'}
+            </p>
+            <p className="text-xs text-gray-500">
+              {report.location || 'Not specified'} • {new Date(report.date_reported).toLocaleString()}
+            </p>
+          </div>
+          {report.image_url && (
+            <a href={report.image_url} target="_blank" rel="noopener noreferrer">
+              <img
+                src={report.image_url}
+                alt={`Photo from ${report.reference_number}`}
+                className="h-16 w-16 object-cover rounded-md ml-3"
+              />
+            </a>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default LinkedReportsList;
@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, Loader2 } from 'lucide-react';
+import { validatePhone } from '../../utils/validation';
+import {
+  requestVerificationCode,
+  confirmVerificationCode,
+  VERIFICATION_CODE_LENGTH,
+  VERIFICATION_RESEND_COOLDOWN_MS
+} from '../../utils/phoneVerification';
+
+interface PhoneVerificationProps {
+  phone: string;
+  verificationId: string | null;
+  onVerified: (verificationId: string | null) => void;
+}
+
+// Optional one-time code check for the reporter's contact number. Render it
+// with the number as its key so a different number starts over.
+const PhoneVerification: React.FC<PhoneVerificationProps> = ({ phone, verificationId, onVerified }) => {
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [devCode, setDevCode] = useState<string | null>(null);
+  const [resendAt, setResendAt] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!pendingId || now >= resendAt) return;
+    const timer = setTimeout(() => setNow(Date.now()), 1000);
+    return () => clearTimeout(timer);
+  }, [pendingId, now, resendAt]);
+
+  const handleSend = async () => {
+    setIsBusy(true);
+    setError('');
+    try {
+      const result = await requestVerificationCode(phone);
+      if (!result.success || !result.verificationId) {
+        setError(result.error || 'Unable to send a code');
+        return;
+      }
+      setPendingId(result.verificationId);
+      setDevCode(result.devCode || null);
+      setCode('');
+      setResendAt(Date.now() + VERIFICATION_RESEND_COOLDOWN_MS);
+      setNow(Date.now());
+    } catch (err) {
+      console.error('Error sending verification code:', err);
+      setError('Unable to send a code. You can still submit without verifying.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingId) return;
+    setIsBusy(true);
+    setError('');
+    try {
+      const result = await confirmVerificationCode(pendingId, code);
+      if (result.success && result.verified) {
+        onVerified(pendingId);
+        setPendingId(null);
+        setDevCode(null);
+      } else {
+        setError(result.attemptsLeft !== undefined
+          ? `${result.error || 'Incorrect code'} (${result.attemptsLeft} attempt(s) left)`
+          : result.error || 'Incorrect code');
+      }
+    } catch (err) {
+      console.error('Error confirming verification code:', err);
+      setError('Unable to check the code. Please try again.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (verificationId) {
+    return (
+      <p className="flex items-center text-sm text-green-700 mt-1">
+        <ShieldCheck size={16} className="mr-1" />
+        Number verified
+      </p>
+    );
+  }
+
+  const canSend = validatePhone(phone) && !isBusy && now >= resendAt;
+  const secondsLeft = Math.ceil((resendAt - now) / 1000);
+
+  return (
+    <div className="mt-2 text-sm">
+      {!pendingId ? (
+        <button
+          type="button"
+          onClick={handleSend}
+          disabled={!canSend}
+          className="text-blue-600 hover:text-blue-800 disabled:text-gray-400 flex items-center"
+        >
+          {isBusy ? <Loader2 size={14} className="mr-1 animate-spin" /> : <ShieldCheck size={14} className="mr-1" />}
+          Verify this number by SMS (optional, speeds up response)
+        </button>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-gray-600">Enter the {VERIFICATION_CODE_LENGTH}-digit code we sent to {phone}.</p>
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={VERIFICATION_CODE_LENGTH}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              className="w-32 px-3 py-1 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 tracking-widest"
+              aria-label="Verification code"
+            />
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={isBusy || code.length !== VERIFICATION_CODE_LENGTH}
+              className="bg-blue-600 text-white px-3 py-1 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isBusy ? 'Checking...' : 'Confirm'}
+            </button>
+            <button
+              type="button"
+              onClick={handleSend}
+              disabled={!canSend}
+              className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+            >
+              {now < resendAt ? `Resend in ${secondsLeft}s` : 'Resend'}
+            </button>
+          </div>
+          {devCode && (
+            <p className="text-xs text-gray-500">Development mode: your code is {devCode}</p>
+          )}
+        </div>
+      )}
+      {error && <p className="text-red-500 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default PhoneVerification;
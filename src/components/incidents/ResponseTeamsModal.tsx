@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { databaseManager } from '../../lib/database';
+import { RESPONSE_UNIT_TYPES } from '../../utils/constants';
+import type { ResponseTeam } from '../../types';
+
+interface ResponseTeamsModalProps {
+  isOpen: boolean;
+  teams: ResponseTeam[];
+  onClose: () => void;
+  onTeamsChange: (teams: ResponseTeam[]) => void;
+}
+
+const ResponseTeamsModal: React.FC<ResponseTeamsModalProps> = ({ isOpen, teams, onClose, onTeamsChange }) => {
+  const [formData, setFormData] = useState({
+    name: '',
+    unit_type: 'rescue' as ResponseTeam['unit_type'],
+    contact_number: ''
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!isOpen) return null;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const team = await databaseManager.createResponseTeam({
+        name: formData.name.trim(),
+        unit_type: formData.unit_type,
+        contact_number: formData.contact_number.trim() || null,
+        is_active: true
+      });
+      onTeamsChange([...teams, team].sort((a, b) => a.name.localeCompare(b.name)));
+      setFormData({ name: '', unit_type: 'rescue', contact_number: '' });
+    } catch (error) {
+      console.error('Error creating response team:', error);
+      alert('Error creating response team. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (team: ResponseTeam) => {
+    try {
+      const updated = await databaseManager.updateResponseTeam(team.id, { is_active: !team.is_active });
+      onTeamsChange(teams.map(t => t.id === team.id ? updated : t));
+    } catch (error) {
+      console.error('Error updating response team:', error);
+      alert('Error updating response team. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-semibold text-gray-900">Response Teams</h2>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Team name"
+              className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+            />
+            <select
+              value={formData.unit_type}
+              onChange={(e) => setFormData(prev => ({ ...prev, unit_type: e.target.value as ResponseTeam['unit_type'] }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+            >
+              {RESPONSE_UNIT_TYPES.map(type => (
+                <option key={type.id} value={type.id}>{type.name}</option>
+              ))}
+            </select>
+            <input
+              type="tel"
+              value={formData.contact_number}
+              onChange={(e) => setFormData(prev => ({ ...prev, contact_number: e.target.value }))}
+              placeholder="Contact number"
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+            />
+            <div className="md:col-span-4 flex justify-end">
+              <button
+                type="submit"
+                disabled={isSaving || !formData.name.trim()}
+                className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+              >
+                <Plus size={16} />
+                <span className="text-sm">Add Team</span>
+              </button>
+            </div>
+          </form>
+
+          <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {teams.length === 0 && (
+              <li className="p-4 text-sm text-gray-500">No response teams configured</li>
+            )}
+            {teams.map(team => (
+              <li key={team.id} className="p-4 flex items-center justify-between">
+                <div>
+                  <p className={`text-sm font-medium ${team.is_active ? 'text-gray-900' : 'text-gray-400'}`}>{team.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {RESPONSE_UNIT_TYPES.find(t => t.id === team.unit_type)?.name || team.unit_type}
+                    {team.contact_number && ` • ${team.contact_number}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleToggleActive(team)}
+                  className={`px-2 py-1 text-xs rounded-full ${
+                    team.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                  }`}
+                >
+                  {team.is_active ? 'Active' : 'Inactive'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResponseTeamsModal;
@@ -0,0 +1,18 @@
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+
+interface VerifiedContactBadgeProps {
+  verifiedAt: string;
+}
+
+const VerifiedContactBadge: React.FC<VerifiedContactBadgeProps> = ({ verifiedAt }) => (
+  <span
+    className="inline-flex items-center px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800"
+    title={`Contact number confirmed by SMS code on ${new Date(verifiedAt).toLocaleString()}`}
+  >
+    <ShieldCheck size={12} className="mr-1" />
+    Verified
+  </span>
+);
+
+export default VerifiedContactBadge;
@@ -1,8 +1,13 @@
-import React, { useState } from 'react';
-import { X, MapPin, Camera, AlertTriangle } from 'lucide-react';
-import { BARANGAYS, INCIDENT_TYPES } from '../../utils/constants';
-import { validateRequired, validatePhone, sanitizeInput } from '../../utils/validation';
-import { validateFileUpload, rateLimit } from '../../utils/security';
+import React, { useEffect, useState } from 'react';
+import { X, MapPin, Camera, AlertTriangle, Film, Loader2 } from 'lucide-react';
+import { BARANGAYS } from '../../utils/constants';
+import IncidentTypeIcon from '../incidents/IncidentTypeIcon';
+import PhoneVerification from '../incidents/PhoneVerification';
+import { useIncidentTypes } from '../../hooks/useIncidentTypes';
+import type { IncidentExtraDetails, IncidentExtraField } from '../../types';
+import { validateIncidentForm, sanitizeInput } from '../../utils/validation';
+import { validateFileUpload } from '../../utils/security';
+import { processAttachment, ATTACHMENT_LIMITS, type ProcessedAttachment } from '../../utils/mediaProcessing';
 import { supabase } from '../../lib/supabase';
 
 interface IncidentModalProps {
@@ -23,10 +28,18 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSubmit
     agreement: false
   });
 
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const { incidentTypes } = useIncidentTypes();
+  const [extraDetails, setExtraDetails] = useState<IncidentExtraDetails>({});
+  const [honeypot, setHoneypot] = useState('');
+  const [verificationId, setVerificationId] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<ProcessedAttachment[]>([]);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [usePhotoLocation, setUsePhotoLocation] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isUploading, setIsUploading] = useState(false);
+  const [coordinates, setCoordinates] = useState<{ latitude: number; longitude: number; accuracy: number | null } | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
@@ -37,58 +50,127 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSubmit
       [name]: type === 'checkbox' ? checked : sanitizeInput(value)
     }));
 
+    if (name === 'contactNumber') {
+      setVerificationId(null);
+    }
+
     // Clear error when user starts typing
     if (errors[name]) {
       setErrors(prev => ({ ...prev, [name]: '' }));
     }
   };
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    const validation = validateFileUpload(file, {
-      maxSize: 5 * 1024 * 1024,
-      allowedTypes: ['image/*']
+  // Object URLs for thumbnails are released when attachments change or the modal unmounts
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    attachments.forEach(attachment => {
+      if (attachment.thumbnail) urls[attachment.id] = URL.createObjectURL(attachment.thumbnail);
     });
-    
-    if (!validation.valid) {
-      setErrors(prev => ({ ...prev, image: validation.error || 'Invalid file' }));
+    setPreviews(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [attachments]);
+
+  const handleAttachmentChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    const remaining = ATTACHMENT_LIMITS.maxFiles - attachments.length;
+    if (files.length > remaining) {
+      setErrors(prev => ({ ...prev, image: `You can attach up to ${ATTACHMENT_LIMITS.maxFiles} files` }));
       return;
     }
 
-    setImageFile(file);
-    setErrors(prev => ({ ...prev, image: '' }));
+    setIsProcessing(true);
+    const processed: ProcessedAttachment[] = [];
+    const failures: string[] = [];
 
-    // Create preview
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      setImagePreview(e.target?.result as string);
-    };
-    reader.readAsDataURL(file);
+    for (const file of files) {
+      const validation = validateFileUpload(file, {
+        maxSize: ATTACHMENT_LIMITS.maxImageInputSize,
+        allowedTypes: ['image/*', 'video/*']
+      });
+
+      if (!validation.valid) {
+        failures.push(`${file.name}: ${validation.error || 'Invalid file'}`);
+        continue;
+      }
+
+      try {
+        processed.push(await processAttachment(file));
+      } catch (error) {
+        failures.push((error as Error).message);
+      }
+    }
+
+    const next = [...attachments, ...processed];
+    setAttachments(next);
+    setErrors(prev => ({ ...prev, image: failures.join('. ') }));
+    setIsProcessing(false);
+
+    if (usePhotoLocation) applyPhotoLocation(next);
   };
 
-  const removeImage = () => {
-    setImageFile(null);
-    setImagePreview(null);
+  const removeAttachment = (id: string) => {
+    setAttachments(prev => prev.filter(attachment => attachment.id !== id));
     setErrors(prev => ({ ...prev, image: '' }));
   };
 
+  const photoWithLocation = attachments.find(attachment => attachment.gps);
+
+  const applyPhotoLocation = (items: ProcessedAttachment[]) => {
+    const gps = items.find(attachment => attachment.gps)?.gps;
+    if (!gps || coordinates) return;
+
+    setCoordinates({ latitude: gps.latitude, longitude: gps.longitude, accuracy: null });
+  };
+
+  const handlePhotoLocationToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setUsePhotoLocation(e.target.checked);
+    if (e.target.checked) applyPhotoLocation(attachments);
+  };
+
+  const selectedType = incidentTypes.find(type => type.name === formData.incidentType);
+
+  const handleTypeSelect = (name: string) => {
+    const type = incidentTypes.find(t => t.name === name);
+    setFormData(prev => ({
+      ...prev,
+      incidentType: name,
+      urgency: type?.default_urgency || prev.urgency
+    }));
+    setExtraDetails({});
+    setErrors(prev => ({ ...prev, extraDetails: '' }));
+  };
+
+  const handleExtraFieldChange = (field: IncidentExtraField, value: string | boolean) => {
+    let parsed: string | number | boolean | null = value;
+    if (field.type === 'number') {
+      parsed = value === '' ? null : Number(value);
+    } else if (typeof value === 'string') {
+      parsed = sanitizeInput(value);
+    }
+    setExtraDetails(prev => ({ ...prev, [field.key]: parsed }));
+    if (errors[`extra_${field.key}`]) {
+      setErrors(prev => ({ ...prev, [`extra_${field.key}`]: '' }));
+    }
+  };
+
   const getLocation = () => {
     if (!navigator.geolocation) {
       alert('Geolocation is not supported by this browser');
       return;
     }
 
+    setIsLocating(true);
     navigator.geolocation.getCurrentPosition(
       (position) => {
-        const { latitude, longitude } = position.coords;
-        setFormData(prev => ({
-          ...prev,
-          landmark: `Lat: ${latitude.toFixed(6)}, Long: ${longitude.toFixed(6)}`
-        }));
+        const { latitude, longitude, accuracy } = position.coords;
+        setCoordinates({ latitude, longitude, accuracy });
+        setIsLocating(false);
       },
       (error) => {
+        setIsLocating(false);
         let message = 'Unable to get location. Please enter manually.';
         switch (error.code) {
           case error.PERMISSION_DENIED:
@@ -102,22 +184,23 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSubmit
             break;
         }
         alert(message);
-      }
+      },
+      { enableHighAccuracy: true, timeout: 15000 }
     );
   };
 
   const validateForm = () => {
-    const newErrors: Record<string, string> = {};
-
-    if (!validateRequired(formData.reporterName)) {
-      newErrors.reporterName = 'Name is required';
-    }
-
-    if (!validateRequired(formData.contactNumber)) {
-      newErrors.contactNumber = 'Contact number is required';
-    } else if (!validatePhone(formData.contactNumber)) {
-      newErrors.contactNumber = 'Please enter a valid phone number';
-    }
+    // Same rules the submit-incident edge function enforces
+    const newErrors: Record<string, string> = { ...validateIncidentForm(formData).errors };
+
+    selectedType?.extra_fields.forEach(field => {
+      const value = extraDetails[field.key];
+      if (field.required && (value === undefined || value === null || value === '')) {
+        newErrors[`extra_${field.key}`] = `${field.label} is required`;
+      } else if (field.type === 'number' && typeof value === 'number' && (!Number.isFinite(value) || (field.min !== undefined && value < field.min))) {
+        newErrors[`extra_${field.key}`] = `Please enter a valid number${field.min !== undefined ? ` (${field.min} or more)` : ''}`;
+      }
+    });
 
     if (!formData.agreement) {
       newErrors.agreement = 'You must agree to the terms';
@@ -129,13 +212,7 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSubmit
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    // Rate limiting
-    if (!rateLimit('incident_report', 3, 60000)) {
-      setErrors(prev => ({ ...prev, form: 'Too many reports submitted. Please wait before submitting again.' }));
-      return;
-    }
-    
+
     if (!validateForm()) {
       return;
     }
@@ -152,11 +229,16 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSubmit
       location: formData.location,
       landmark: formData.landmark,
       incident_type: formData.incidentType,
+      extra_details: extraDetails,
       description: formData.description,
       urgency: formData.urgency,
-      status: 'pending' as const,
-      image_url: imagePreview,
-      imageFile
+      latitude: coordinates?.latitude ?? null,
+      longitude: coordinates?.longitude ?? null,
+      location_accuracy: coordinates?.accuracy ?? null,
+      status: 'received' as const,
+      attachments,
+      website: honeypot,
+      verification_id: verificationId
     };
 
     onSubmit(incidentData);
@@ -172,8 +254,12 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSubmit
       urgency: 'HIGH',
       agreement: false
     });
-    setImageFile(null);
-    setImagePreview(null);
+    setExtraDetails({});
+    setHoneypot('');
+    setVerificationId(null);
+    setAttachments([]);
+    setUsePhotoLocation(false);
+    setCoordinates(null);
     setErrors({});
   };
 
@@ -238,6 +324,12 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSubmit
               {errors.contactNumber && (
                 <p className="text-red-500 text-sm mt-1">{errors.contactNumber}</p>
               )}
+              <PhoneVerification
+                key={formData.contactNumber}
+                phone={formData.contactNumber}
+                verificationId={verificationId}
+                onVerified={setVerificationId}
+              />
             </div>
           </div>
 
@@ -267,14 +359,32 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSubmit
               placeholder="Nearest landmark or specific location"
               className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
             />
-            <button
-              type="button"
-              onClick={getLocation}
-              className="mt-2 text-sm text-blue-600 hover:text-blue-800 flex items-center"
-            >
-              <MapPin className="mr-1" size={16} />
-              Use My Current Location
-            </button>
+            <div className="mt-2">
+              <button
+                type="button"
+                onClick={getLocation}
+                disabled={isLocating}
+                className="text-sm text-blue-600 hover:text-blue-800 flex items-center disabled:opacity-50"
+              >
+                <MapPin className="mr-1" size={16} />
+                {isLocating ? 'Getting Location...' : 'Use My Current Location'}
+              </button>
+            </div>
+            {coordinates && (
+              <div className="mt-2 flex items-center justify-between bg-gray-50 p-2 rounded-md text-xs text-gray-600">
+                <span>
+                  Pinned at {coordinates.latitude.toFixed(6)}, {coordinates.longitude.toFixed(6)}
+                  {coordinates.accuracy !== null && ` (±${Math.round(coordinates.accuracy)} m)`}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setCoordinates(null)}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Incident Type */}
@@ -282,20 +392,82 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSubmit
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Type of Incident
             </label>
-            <select
-              name="incidentType"
-              value={formData.incidentType}
-              onChange={handleInputChange}
-              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
-            >
-              {INCIDENT_TYPES.map((type) => (
-                <option key={type} value={type}>
-                  {type}
-                </option>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2" role="radiogroup" aria-label="Type of Incident">
+              {incidentTypes.map((type) => (
+                <button
+                  key={type.id}
+                  type="button"
+                  role="radio"
+                  aria-checked={formData.incidentType === type.name}
+                  onClick={() => handleTypeSelect(type.name)}
+                  className={`flex items-center px-3 py-2 border rounded-md text-sm text-left transition-colors ${
+                    formData.incidentType === type.name
+                      ? 'border-blue-600 bg-blue-50 text-blue-900 font-medium'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <IncidentTypeIcon name={type.icon} size={18} className="mr-2 flex-shrink-0" />
+                  {type.name}
+                </button>
               ))}
-            </select>
+            </div>
           </div>
 
+          {/* Type-specific questions */}
+          {selectedType && selectedType.extra_fields.length > 0 && (
+            <div className="bg-gray-50 rounded-md p-4 space-y-4">
+              {selectedType.extra_fields.map(field => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor={`extra_${field.key}`}>
+                    {field.label} {field.required && <span className="text-red-500">*</span>}
+                  </label>
+                  {field.type === 'select' ? (
+                    <select
+                      id={`extra_${field.key}`}
+                      value={String(extraDetails[field.key] ?? '')}
+                      onChange={(e) => handleExtraFieldChange(field, e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Select...</option>
+                      {(field.options || []).map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                  ) : field.type === 'boolean' ? (
+                    <div className="flex space-x-4">
+                      {[true, false].map(option => (
+                        <label key={String(option)} className="inline-flex items-center text-sm">
+                          <input
+                            type="radio"
+                            name={`extra_${field.key}`}
+                            checked={extraDetails[field.key] === option}
+                            onChange={() => handleExtraFieldChange(field, option)}
+                            className="text-blue-600 focus:ring-blue-500"
+                          />
+                          <span className="ml-2">{option ? 'Yes' : 'No'}</span>
+                        </label>
+                      ))}
+                    </div>
+                  ) : (
+                    <input
+                      id={`extra_${field.key}`}
+                      type={field.type === 'number' ? 'number' : 'text'}
+                      min={field.type === 'number' ? field.min : undefined}
+                      value={extraDetails[field.key] === null || extraDetails[field.key] === undefined ? '' : String(extraDetails[field.key])}
+                      onChange={(e) => handleExtraFieldChange(field, e.target.value)}
+                      className={`w-full px-4 py-2 border rounded-md focus:ring-blue-500 focus:border-blue-500 ${
+                        errors[`extra_${field.key}`] ? 'border-red-500' : 'border-gray-300'
+                      }`}
+                    />
+                  )}
+                  {errors[`extra_${field.key}`] && (
+                    <p className="text-red-500 text-sm mt-1">{errors[`extra_${field.key}`]}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Description */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -307,8 +479,28 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSubmit
               onChange={handleInputChange}
               rows={4}
               placeholder="Provide a detailed description: what happened, how many people affected, visible risks..."
-              className="w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              className={`w-full px-4 py-2 border rounded-md focus:ring-blue-500 focus:border-blue-500 ${
+                errors.description ? 'border-red-500' : 'border-gray-300'
+              }`}
             />
+            {errors.description && (
+              <p className="text-red-500 text-sm mt-1">{errors.description}</p>
+            )}
+          </div>
+
+          {/* Left empty by people; bots that fill every field are rejected by the server */}
+          <div className="absolute -left-[9999px]" aria-hidden="true">
+            <label>
+              Website
+              <input
+                type="text"
+                name="website"
+                value={honeypot}
+                onChange={(e) => setHoneypot(e.target.value)}
+                tabIndex={-1}
+                autoComplete="off"
+              />
+            </label>
           </div>
 
           {/* Urgency Level */}
@@ -341,65 +533,101 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSubmit
             </div>
           </div>
 
-          {/* Photo Upload */}
+          {/* Photo and Video Upload */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Upload Photo (Optional)
+              Photos or Videos (Optional)
             </label>
             <div className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-300 border-dashed rounded-md">
               <div className="space-y-1 text-center">
                 <Camera className="mx-auto h-12 w-12 text-gray-400" />
                 <div className="flex text-sm text-gray-600 justify-center">
                   <label className="relative cursor-pointer bg-white rounded-md font-medium text-blue-600 hover:text-blue-500 focus-within:outline-none">
-                    <span>Upload a file</span>
+                    <span>Upload files</span>
                     <input
                       type="file"
                       className="sr-only"
-                      accept="image/*"
-                      onChange={handleImageChange}
-                      disabled={isUploading}
+                      accept="image/*,video/*"
+                      multiple
+                      onChange={handleAttachmentChange}
+                      disabled={isUploading || isProcessing || attachments.length >= ATTACHMENT_LIMITS.maxFiles}
                     />
                   </label>
-                  <p className="pl-1">or drag and drop</p>
+                  <p className="pl-1">or take a photo</p>
                 </div>
-                <p className="text-xs text-gray-500">PNG, JPG, GIF up to 5MB</p>
+                <p className="text-xs text-gray-500">
+                  Up to {ATTACHMENT_LIMITS.maxFiles} photos or video clips ({ATTACHMENT_LIMITS.maxVideoDurationSeconds}s max), 20MB each
+                </p>
               </div>
             </div>
 
-            {/* Image Preview */}
-            {imagePreview && (
-              <div className="mt-2">
-                <div className="flex items-center justify-between bg-gray-50 p-2 rounded-md">
-                  <div className="flex items-center">
-                    <img
-                      src={imagePreview}
-                      alt="Preview"
-                      className="h-20 w-20 object-cover rounded-md"
-                    />
-                    <div className="ml-3">
-                      <p className="text-sm font-medium text-gray-900">
-                        {imageFile?.name}
-                      </p>
-                      <p className="text-xs text-gray-500">
-                        {imageFile && (imageFile.size / 1024 / 1024).toFixed(2)} MB
-                      </p>
-                      <p className="text-xs text-green-600">
-                        ✓ Ready to upload
-                      </p>
-                    </div>
+            {isProcessing && (
+              <p className="mt-2 text-sm text-gray-600 flex items-center">
+                <Loader2 className="animate-spin mr-2" size={16} />
+                Processing files...
+              </p>
+            )}
+
+            {/* Attachment Previews */}
+            {attachments.length > 0 && (
+              <div className="mt-2 grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {attachments.map(attachment => (
+                  <div key={attachment.id} className="relative bg-gray-50 rounded-md overflow-hidden">
+                    {previews[attachment.id] ? (
+                      <img
+                        src={previews[attachment.id]}
+                        alt={attachment.name}
+                        className="h-24 w-full object-cover"
+                      />
+                    ) : (
+                      <div className="h-24 flex items-center justify-center text-gray-400">
+                        <Film size={24} />
+                      </div>
+                    )}
+                    {attachment.mediaType === 'video' && (
+                      <span className="absolute bottom-7 left-1 bg-black bg-opacity-60 text-white text-xs px-1.5 py-0.5 rounded flex items-center">
+                        <Film size={12} className="mr-1" />
+                        {Math.round(attachment.durationSeconds || 0)}s
+                      </span>
+                    )}
+                    <p className="text-xs text-gray-600 px-2 py-1 truncate">
+                      {(attachment.blob.size / 1024 / 1024).toFixed(2)} MB
+                    </p>
+                    <button
+                      type="button"
+                      onClick={() => removeAttachment(attachment.id)}
+                      className="absolute top-1 right-1 bg-white rounded-full p-0.5 text-red-600 hover:text-red-800 shadow"
+                      disabled={isUploading}
+                      aria-label={`Remove ${attachment.name}`}
+                    >
+                      <X size={16} />
+                    </button>
                   </div>
-                  <button
-                    type="button"
-                    onClick={removeImage}
-                    className="text-red-600 hover:text-red-800"
-                    disabled={isUploading}
-                  >
-                    <X size={20} />
-                  </button>
-                </div>
+                ))}
               </div>
             )}
 
+            {attachments.length > 0 && (
+              <p className="mt-2 text-xs text-gray-500">
+                Photos are resized and their camera details, including location, are removed before upload.
+              </p>
+            )}
+
+            {photoWithLocation && (
+              <label className="mt-2 flex items-start text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={usePhotoLocation}
+                  onChange={handlePhotoLocationToggle}
+                  className="mt-0.5 mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span>
+                  Use the location stored in my photo to pin this report
+                  {coordinates && !usePhotoLocation && ' (your pinned location will be kept)'}
+                </span>
+              </label>
+            )}
+
             {/* Upload Error */}
             {errors.image && (
               <div className="mt-2 bg-red-50 border-l-4 border-red-500 p-4 flex items-start">
@@ -437,7 +665,7 @@ const IncidentModal: React.FC<IncidentModalProps> = ({ isOpen, onClose, onSubmit
             <button
               type="submit"
               className="w-full bg-gradient-to-r from-red-600 to-red-700 text-white font-bold py-3 px-6 rounded-md hover:from-red-700 hover:to-red-800 transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
-              disabled={isUploading}
+              disabled={isUploading || isProcessing}
             >
               {isUploading ? 'Submitting Report...' : 'Submit Report'}
             </button>
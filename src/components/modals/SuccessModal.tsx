@@ -1,42 +1,83 @@
 import React from 'react';
-import { CheckCircle, X } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { CheckCircle, CloudOff, Search } from 'lucide-react';
 
 interface SuccessModalProps {
   isOpen: boolean;
   onClose: () => void;
   referenceNumber: string;
+  isQueued?: boolean;
 }
 
-const SuccessModal: React.FC<SuccessModalProps> = ({ isOpen, onClose, referenceNumber }) => {
+const SuccessModal: React.FC<SuccessModalProps> = ({ isOpen, onClose, referenceNumber, isQueued = false }) => {
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
       <div className="bg-white rounded-lg p-6 max-w-md w-full text-center animate-fadeIn">
-        <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-green-100 mb-4">
-          <CheckCircle className="text-green-600" size={32} />
-        </div>
-        
-        <h3 className="text-lg font-medium text-gray-900 mb-2">
-          Report Submitted Successfully!
-        </h3>
-        
-        <div className="mb-4">
-          <p className="text-sm text-gray-500 mb-2">
-            Your reference number is:{' '}
-            <span className="font-bold text-blue-600">{referenceNumber}</span>
-          </p>
-          <p className="text-sm text-gray-500">
-            An MDRRMO responder will contact you shortly.
-          </p>
-        </div>
-        
-        <div className="bg-blue-50 p-4 rounded-lg mb-4">
-          <p className="text-xs text-blue-800">
-            Please save your reference number for tracking purposes. 
-            You can use it to follow up on your report.
-          </p>
-        </div>
+        {isQueued ? (
+          <>
+            <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-yellow-100 mb-4">
+              <CloudOff className="text-yellow-600" size={32} />
+            </div>
+
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              Queued – Will Send When Online
+            </h3>
+
+            <div className="mb-4">
+              <p className="text-sm text-gray-500 mb-2">
+                Your provisional reference is:{' '}
+                <span className="font-bold text-yellow-700">{referenceNumber}</span>
+              </p>
+              <p className="text-sm text-gray-500">
+                Your report and photo are saved on this device and will be sent automatically once you
+                are back online. You will see your final reference number here when it is sent.
+              </p>
+            </div>
+
+            <div className="bg-red-50 p-4 rounded-lg mb-4">
+              <p className="text-xs text-red-800">
+                If lives are at risk, call the MDRRMO hotline at 911 now instead of waiting.
+              </p>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-green-100 mb-4">
+              <CheckCircle className="text-green-600" size={32} />
+            </div>
+
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              Report Submitted Successfully!
+            </h3>
+
+            <div className="mb-4">
+              <p className="text-sm text-gray-500 mb-2">
+                Your reference number is:{' '}
+                <span className="font-bold text-blue-600">{referenceNumber}</span>
+              </p>
+              <p className="text-sm text-gray-500">
+                An MDRRMO responder will contact you shortly.
+              </p>
+            </div>
+
+            <div className="bg-blue-50 p-4 rounded-lg mb-4">
+              <p className="text-xs text-blue-800">
+                Please save your reference number for tracking purposes.
+                You can use it to follow up on your report.
+              </p>
+              <Link
+                to={`/track?ref=${encodeURIComponent(referenceNumber)}`}
+                onClick={onClose}
+                className="mt-2 inline-flex items-center text-xs font-medium text-blue-700 hover:text-blue-900"
+              >
+                <Search className="mr-1" size={14} />
+                Track your report
+              </Link>
+            </div>
+          </>
+        )}
         
         <button
           onClick={onClose}
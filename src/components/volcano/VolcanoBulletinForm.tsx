@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import type { Database } from '../../lib/supabase';
+import { SEVERITY_LEVELS } from '../../utils/constants';
+import { ALERT_CHANNELS } from '../../utils/alertDispatch';
+import { requiresAlertApproval } from '../../utils/alertApproval';
+import type { LinkedAlert } from '../../utils/linkedAlerts';
+import {
+  VOLCANO_ALERT_LEVELS,
+  buildVolcanoAdvisory,
+  getDangerZoneName,
+  getEvacuationBarangays,
+  getVolcanoAlertLevel
+} from '../../utils/mayonVolcano';
+import type { AlertApprovalRule, VolcanoAlertLevel, VolcanoBulletin, VolcanoDangerZoneBarangay } from '../../types';
+
+export type VolcanoBulletinInput = Omit<
+  Database['public']['Tables']['volcano_bulletins']['Insert'],
+  'alert_id' | 'created_by' | 'created_by_name'
+>;
+
+export interface VolcanoAdvisoryOptions {
+  // Issue or update the evacuation advisory for the barangays this level evacuates
+  issueAdvisory: boolean;
+  // Take the live advisory down when this level no longer evacuates anyone
+  liftAdvisory: boolean;
+  channels: string[];
+}
+
+interface VolcanoBulletinFormProps {
+  // Alert level and recommendations usually carry over from the last bulletin
+  previous?: VolcanoBulletin;
+  dangerZones: VolcanoDangerZoneBarangay[];
+  currentAdvisory: LinkedAlert | null;
+  channels: string[];
+  approvalRule: AlertApprovalRule;
+  onSubmit: (bulletin: VolcanoBulletinInput, options: VolcanoAdvisoryOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+// datetime-local inputs hold local time without a zone
+const toLocalInputValue = (value?: string | null) => {
+  const date = value ? new Date(value) : new Date();
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toCountOrNull = (value: string) =>
+  value.trim() === '' || !Number.isInteger(Number(value)) || Number(value) < 0 ? null : Number(value);
+
+const VolcanoBulletinForm: React.FC<VolcanoBulletinFormProps> = ({
+  previous,
+  dangerZones,
+  currentAdvisory,
+  channels: initialChannels,
+  approvalRule,
+  onSubmit,
+  onClose
+}) => {
+  const [alertLevel, setAlertLevel] = useState<VolcanoAlertLevel>(previous?.alert_level ?? 0);
+  const [issuedAt, setIssuedAt] = useState(toLocalInputValue());
+  const [counts, setCounts] = useState({
+    volcanic_earthquakes: '',
+    rockfall_events: '',
+    pdc_events: '',
+    so2_flux_tonnes: '',
+    plume_height_m: ''
+  });
+  const [plumeDrift, setPlumeDrift] = useState('');
+  const [observations, setObservations] = useState('');
+  const [recommendations, setRecommendations] = useState(previous?.recommendations ?? '');
+  const [issueAdvisory, setIssueAdvisory] = useState(true);
+  const [liftAdvisory, setLiftAdvisory] = useState(true);
+  const [channels, setChannels] = useState(initialChannels);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const bulletin = {
+    alert_level: alertLevel,
+    issued_at: new Date(issuedAt || Date.now()).toISOString(),
+    volcanic_earthquakes: toCountOrNull(counts.volcanic_earthquakes),
+    rockfall_events: toCountOrNull(counts.rockfall_events),
+    pdc_events: toCountOrNull(counts.pdc_events),
+    so2_flux_tonnes: toCountOrNull(counts.so2_flux_tonnes),
+    plume_height_m: toCountOrNull(counts.plume_height_m),
+    plume_drift: plumeDrift.trim() || null,
+    observations: observations.trim() || null,
+    recommendations: recommendations.trim() || null
+  };
+
+  const level = getVolcanoAlertLevel(alertLevel);
+  const evacuating = getEvacuationBarangays(alertLevel, dangerZones);
+  const preview = evacuating.length > 0 ? buildVolcanoAdvisory(bulletin, dangerZones) : null;
+  const severity = preview && SEVERITY_LEVELS.find(item => item.id === preview.severity);
+  const needsApproval = preview !== null && issueAdvisory && requiresAlertApproval(approvalRule, preview);
+  const canLift = preview === null && currentAdvisory?.status === 'active';
+
+  const handleSubmit = async () => {
+    const invalid = Object.entries(counts).find(([, value]) => value.trim() !== '' && toCountOrNull(value) === null);
+    if (invalid) {
+      alert('Earthquake, rockfall, PDC, SO2 and plume figures must be whole numbers');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(bulletin, {
+        issueAdvisory: preview !== null && issueAdvisory,
+        liftAdvisory: canLift && liftAdvisory,
+        channels
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500';
+
+  const countFields: { key: keyof typeof counts; label: string }[] = [
+    { key: 'volcanic_earthquakes', label: 'Volcanic Earthquakes' },
+    { key: 'rockfall_events', label: 'Rockfall Events' },
+    { key: 'pdc_events', label: 'Pyroclastic Density Currents' },
+    { key: 'so2_flux_tonnes', label: 'SO2 Emission (tonnes/day)' },
+    { key: 'plume_height_m', label: 'Plume Height (m)' }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Post PHIVOLCS Bulletin</h3>
+            <p className="text-sm text-gray-600">Mayon Volcano</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Alert Level</label>
+              <select
+                value={alertLevel}
+                onChange={(e) => setAlertLevel(Number(e.target.value) as VolcanoAlertLevel)}
+                className={inputClass}
+              >
+                {VOLCANO_ALERT_LEVELS.map(item => (
+                  <option key={item.level} value={item.level}>Alert Level {item.level}: {item.name}</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">{level.description}</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Issued At</label>
+              <input type="datetime-local" value={issuedAt} onChange={(e) => setIssuedAt(e.target.value)} className={inputClass} />
+            </div>
+            {countFields.map(field => (
+              <div key={field.key}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={counts[field.key]}
+                  onChange={(e) => setCounts({ ...counts, [field.key]: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Plume Drift</label>
+              <input
+                type="text"
+                value={plumeDrift}
+                onChange={(e) => setPlumeDrift(e.target.value)}
+                className={inputClass}
+                placeholder="west-southwest"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Observations</label>
+            <textarea
+              value={observations}
+              onChange={(e) => setObservations(e.target.value)}
+              rows={3}
+              className={inputClass}
+              placeholder="Slow effusion of lava from the summit crater feeding lava flows on the Mi-isi, Bonga and Basud gullies."
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Recommendations</label>
+            <textarea
+              value={recommendations}
+              onChange={(e) => setRecommendations(e.target.value)}
+              rows={3}
+              className={inputClass}
+              placeholder="Entry into the 6 km radius Permanent Danger Zone is strictly prohibited."
+            />
+          </div>
+
+          {level.evacuate.length > 0 && evacuating.length === 0 && (
+            <p className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg p-3">
+              Alert Level {level.level} evacuates the {level.evacuate.map(getDangerZoneName).join(' and ')}, but no Pio Duran
+              barangays are marked as inside them, so no evacuation advisory is issued.
+            </p>
+          )}
+
+          {canLift && (
+            <label className="flex items-start text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={liftAdvisory}
+                onChange={(e) => setLiftAdvisory(e.target.checked)}
+                className="rounded border-gray-300 text-red-600 focus:ring-red-500 mr-2 mt-0.5"
+              />
+              Take down the current evacuation advisory ({currentAdvisory?.title})
+            </label>
+          )}
+
+          {preview && (
+            <>
+              <label className="flex items-center text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={issueAdvisory}
+                  onChange={(e) => setIssueAdvisory(e.target.checked)}
+                  className="rounded border-gray-300 text-red-600 focus:ring-red-500 mr-2"
+                />
+                {currentAdvisory?.status === 'active' || currentAdvisory?.status === 'pending_approval'
+                  ? 'Update the evacuation advisory'
+                  : 'Issue an evacuation advisory'} for {evacuating.length} barangay{evacuating.length === 1 ? '' : 's'}
+              </label>
+
+              {issueAdvisory && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Send Advisory Through</label>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                      {ALERT_CHANNELS.map(channel => (
+                        <label key={channel.id} className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={channels.includes(channel.id)}
+                            onChange={(e) => setChannels(e.target.checked ? [...channels, channel.id] : channels.filter(c => c !== channel.id))}
+                            className="rounded border-gray-300 text-red-600 focus:ring-red-500 mr-2"
+                          />
+                          {channel.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <p className="text-xs font-medium text-gray-500 uppercase">Evacuation advisory</p>
+                      <span className={`${severity?.color || 'bg-gray-500'} text-white text-xs px-2 py-0.5 rounded-full`}>
+                        {severity?.name} · Priority {preview.priority}/5
+                      </span>
+                    </div>
+                    <p className="font-semibold text-gray-900">{preview.title}</p>
+                    <p className="text-sm text-gray-700 whitespace-pre-line mt-1">{preview.message}</p>
+                    <p className="text-xs text-gray-500 mt-2">Area: {preview.location}</p>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+
+          {needsApproval && (
+            <p className="text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded-lg p-3 flex items-start">
+              <ShieldCheck size={16} className="mr-2 mt-0.5 flex-shrink-0" />
+              At this alert level the advisory needs a second admin's approval before it goes out, unless the current advisory was already approved at this level.
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+              className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              {isSubmitting ? 'Posting...' : 'Post Bulletin'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VolcanoBulletinForm;
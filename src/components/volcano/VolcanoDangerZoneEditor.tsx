@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { databaseManager } from '../../lib/database';
+import { useAuth } from '../../contexts/AuthContext';
+import { BARANGAYS } from '../../utils/constants';
+import { VOLCANO_DANGER_ZONES } from '../../utils/mayonVolcano';
+import type { VolcanoDangerZone, VolcanoDangerZoneBarangay } from '../../types';
+
+interface VolcanoDangerZoneEditorProps {
+  zones: VolcanoDangerZoneBarangay[];
+  onSaved: (zones: VolcanoDangerZoneBarangay[]) => void;
+  onClose: () => void;
+}
+
+interface ZoneRow {
+  zone: VolcanoDangerZone | '';
+  notes: string;
+}
+
+// Which barangays have areas inside Mayon's danger zones, from the
+// provincial hazard maps
+const VolcanoDangerZoneEditor: React.FC<VolcanoDangerZoneEditorProps> = ({ zones, onSaved, onClose }) => {
+  const { user } = useAuth();
+  const [rows, setRows] = useState<Record<string, ZoneRow>>(() =>
+    Object.fromEntries(BARANGAYS.map(barangay => {
+      const existing = zones.find(zone => zone.barangay === barangay);
+      return [barangay, { zone: existing?.zone ?? '', notes: existing?.notes ?? '' }];
+    }))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateRow = (barangay: string, changes: Partial<ZoneRow>) =>
+    setRows(prev => ({ ...prev, [barangay]: { ...prev[barangay], ...changes } }));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      for (const barangay of BARANGAYS) {
+        const row = rows[barangay];
+        const existing = zones.find(zone => zone.barangay === barangay);
+        const notes = row.notes.trim() || null;
+
+        if (!row.zone) {
+          if (existing) await databaseManager.deleteVolcanoDangerZone(barangay);
+        } else if (!existing || existing.zone !== row.zone || existing.notes !== notes) {
+          await databaseManager.saveVolcanoDangerZone({ barangay, zone: row.zone, notes, updated_by: user?.id ?? null });
+        }
+      }
+      onSaved(await databaseManager.getVolcanoDangerZones() as VolcanoDangerZoneBarangay[]);
+    } catch (error) {
+      console.error('Error saving volcano danger zones:', error);
+      alert('Error saving the danger zones. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 flex justify-between items-start">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Mayon Danger Zones</h3>
+            <p className="text-sm text-gray-600">
+              Barangays with puroks or sitios inside the danger zones are evacuated when PHIVOLCS raises the alert level.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-2">
+          {BARANGAYS.map(barangay => (
+            <div key={barangay} className="grid grid-cols-1 md:grid-cols-[10rem_14rem_1fr] gap-2 items-center">
+              <span className="text-sm font-medium text-gray-900">{barangay}</span>
+              <select
+                value={rows[barangay].zone}
+                onChange={(e) => updateRow(barangay, { zone: e.target.value as ZoneRow['zone'] })}
+                className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="">Outside the danger zones</option>
+                {VOLCANO_DANGER_ZONES.map(zone => (
+                  <option key={zone.id} value={zone.id}>{zone.name} ({zone.radius})</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={rows[barangay].notes}
+                onChange={(e) => updateRow(barangay, { notes: e.target.value })}
+                disabled={!rows[barangay].zone}
+                className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+                placeholder="Puroks or sitios inside the zone"
+              />
+            </div>
+          ))}
+
+          <div className="flex justify-end space-x-3 pt-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Danger Zones'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VolcanoDangerZoneEditor;
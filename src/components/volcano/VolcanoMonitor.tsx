@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, MapPinned, Mountain } from 'lucide-react';
+import { databaseManager } from '../../lib/database';
+import { useAuth } from '../../contexts/AuthContext';
+import { ALERT_CHANNELS } from '../../utils/alertDispatch';
+import { ALERT_APPROVAL_SETTING_KEY, parseAlertApprovalRule } from '../../utils/alertApproval';
+import {
+  expireLinkedAlert,
+  getLinkedAlert,
+  getLinkedAlertStatusLabel,
+  publishLinkedAlert,
+  type LinkedAlert
+} from '../../utils/linkedAlerts';
+import {
+  VOLCANO_DANGER_ZONES,
+  buildVolcanoAdvisory,
+  getVolcanoAlertLevel
+} from '../../utils/mayonVolcano';
+import VolcanoBulletinForm, { type VolcanoAdvisoryOptions, type VolcanoBulletinInput } from './VolcanoBulletinForm';
+import VolcanoDangerZoneEditor from './VolcanoDangerZoneEditor';
+import type { VolcanoBulletin, VolcanoDangerZoneBarangay } from '../../types';
+
+// Mayon Volcano status from PHIVOLCS bulletins, with the evacuation advisory
+// for the danger zone barangays kept up to date from them
+const VolcanoMonitor: React.FC = () => {
+  const { user } = useAuth();
+  const [bulletins, setBulletins] = useState<VolcanoBulletin[]>([]);
+  const [dangerZones, setDangerZones] = useState<VolcanoDangerZoneBarangay[]>([]);
+  const [advisory, setAdvisory] = useState<LinkedAlert | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isPosting, setIsPosting] = useState(false);
+  const [isEditingZones, setIsEditingZones] = useState(false);
+  const [approvalRule, setApprovalRule] = useState(() => parseAlertApprovalRule(null));
+
+  useEffect(() => {
+    Promise.all([databaseManager.getVolcanoBulletins(50), databaseManager.getVolcanoDangerZones()])
+      .then(([bulletinData, zoneData]) => {
+        setBulletins(bulletinData as VolcanoBulletin[]);
+        setDangerZones(zoneData as VolcanoDangerZoneBarangay[]);
+      })
+      .catch(error => console.error('Error fetching Mayon Volcano data:', error))
+      .finally(() => setLoading(false));
+
+    databaseManager.getSetting(ALERT_APPROVAL_SETTING_KEY)
+      .then(setting => {
+        if (setting) setApprovalRule(parseAlertApprovalRule(setting.setting_value));
+      })
+      .catch(error => console.error('Error loading alert approval rule:', error));
+  }, []);
+
+  // The advisory from the most recent bulletin that issued or updated one
+  const advisoryId = bulletins.find(bulletin => bulletin.alert_id)?.alert_id ?? null;
+
+  useEffect(() => {
+    if (!advisoryId) {
+      setAdvisory(null);
+      return;
+    }
+    getLinkedAlert(advisoryId)
+      .then(setAdvisory)
+      .catch(error => console.error('Error fetching the evacuation advisory:', error));
+  }, [advisoryId]);
+
+  const handlePostBulletin = async (input: VolcanoBulletinInput, options: VolcanoAdvisoryOptions) => {
+    let bulletin: VolcanoBulletin;
+    try {
+      bulletin = await databaseManager.createVolcanoBulletin({
+        ...input,
+        created_by: user?.id ?? null,
+        created_by_name: user?.name ?? null
+      }) as VolcanoBulletin;
+      setBulletins(prev => [bulletin, ...prev]);
+      setIsPosting(false);
+    } catch (error) {
+      console.error('Error posting volcano bulletin:', error);
+      alert('Error posting the bulletin. Please try again.');
+      return;
+    }
+
+    try {
+      if (options.issueAdvisory) {
+        const { alert: saved, message } = await publishLinkedAlert(
+          advisory,
+          { ...buildVolcanoAdvisory(bulletin, dangerZones), channels: options.channels },
+          approvalRule
+        );
+        await databaseManager.updateVolcanoBulletin(bulletin.id, { alert_id: saved.id });
+        setBulletins(prev => prev.map(item => item.id === bulletin.id ? { ...item, alert_id: saved.id } : item));
+        setAdvisory(saved);
+        alert(message);
+      } else if (options.liftAdvisory && advisory) {
+        await expireLinkedAlert(advisory.id);
+        setAdvisory({ ...advisory, status: 'expired' });
+        alert('Bulletin posted and the evacuation advisory taken down.');
+      }
+    } catch (error) {
+      console.error('Error updating the evacuation advisory:', error);
+      alert(`Bulletin posted, but the evacuation advisory could not be saved: ${(error as { message?: string }).message || 'please try again'}`);
+    }
+  };
+
+  const latest = bulletins[0];
+  const level = latest ? getVolcanoAlertLevel(latest.alert_level) : null;
+
+  if (loading) {
+    return <p className="p-8 text-center text-gray-500">Loading Mayon Volcano status...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-4">
+          <div className={`w-16 h-16 rounded-lg flex flex-col items-center justify-center ${level?.className || 'bg-gray-100 text-gray-500'}`}>
+            <span className="text-xs uppercase">Level</span>
+            <span className="text-2xl font-bold">{level ? level.level : '?'}</span>
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">Mayon Volcano</h3>
+            {latest && level ? (
+              <>
+                <p className="text-sm text-gray-700">{level.name}</p>
+                <p className="text-xs text-gray-500">
+                  PHIVOLCS bulletin of {new Date(latest.issued_at).toLocaleString()}
+                  {latest.created_by_name && ` · posted by ${latest.created_by_name}`}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">No PHIVOLCS bulletin posted yet.</p>
+            )}
+            {advisory && (
+              <p className="text-xs text-gray-600 mt-1">
+                Evacuation advisory: {getLinkedAlertStatusLabel(advisory)}
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => setIsEditingZones(true)}
+            className="px-3 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 flex items-center space-x-1"
+          >
+            <MapPinned size={14} />
+            <span>Danger Zones</span>
+          </button>
+          <button
+            onClick={() => setIsPosting(true)}
+            className="px-3 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 flex items-center space-x-1"
+          >
+            <FileText size={14} />
+            <span>Post Bulletin</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Danger Zone Barangays</h3>
+          {VOLCANO_DANGER_ZONES.map(zone => {
+            const members = dangerZones.filter(item => item.zone === zone.id);
+            return (
+              <div key={zone.id}>
+                <p className="text-sm font-medium text-gray-700">{zone.name} ({zone.radius})</p>
+                {members.length === 0 ? (
+                  <p className="text-sm text-gray-500">None</p>
+                ) : (
+                  <ul className="text-sm text-gray-700 list-disc list-inside">
+                    {members.map(member => (
+                      <li key={member.barangay}>
+                        {member.barangay}
+                        {member.notes && <span className="text-gray-500"> ({member.notes})</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 p-6 border-b border-gray-200">Bulletin History</h3>
+          {bulletins.length === 0 ? (
+            <div className="text-center py-12">
+              <Mountain className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <p className="text-gray-500">Post PHIVOLCS bulletins here to track Mayon's alert level.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Issued</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Level</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Earthquakes</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Rockfalls</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">PDCs</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">SO2 (t/d)</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Advisory</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {bulletins.map(bulletin => (
+                    <tr key={bulletin.id}>
+                      <td className="px-4 py-2 text-gray-700 whitespace-nowrap">{new Date(bulletin.issued_at).toLocaleString()}</td>
+                      <td className="px-4 py-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getVolcanoAlertLevel(bulletin.alert_level).className}`}>
+                          {bulletin.alert_level}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-right text-gray-700">{bulletin.volcanic_earthquakes ?? '—'}</td>
+                      <td className="px-4 py-2 text-right text-gray-700">{bulletin.rockfall_events ?? '—'}</td>
+                      <td className="px-4 py-2 text-right text-gray-700">{bulletin.pdc_events ?? '—'}</td>
+                      <td className="px-4 py-2 text-right text-gray-700">{bulletin.so2_flux_tonnes ?? '—'}</td>
+                      <td className="px-4 py-2 text-gray-500">{bulletin.alert_id ? 'Issued' : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {isPosting && (
+        <VolcanoBulletinForm
+          previous={latest}
+          dangerZones={dangerZones}
+          currentAdvisory={advisory}
+          channels={advisory?.channels?.length ? advisory.channels : ALERT_CHANNELS.map(channel => channel.id)}
+          approvalRule={approvalRule}
+          onSubmit={handlePostBulletin}
+          onClose={() => setIsPosting(false)}
+        />
+      )}
+
+      {isEditingZones && (
+        <VolcanoDangerZoneEditor
+          zones={dangerZones}
+          onSaved={(zones) => {
+            setDangerZones(zones);
+            setIsEditingZones(false);
+          }}
+          onClose={() => setIsEditingZones(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default VolcanoMonitor;
@@ -1,7 +1,21 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useCallback, useContext, useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
 import { databaseManager } from '../lib/database';
 import { handleAsyncError } from '../utils/errorHandling';
+import {
+  queueIncident,
+  flushIncidentOutbox,
+  saveOutboxSyncConfig,
+  isOutboxSupported,
+  isNetworkError,
+  generateReferenceNumber,
+  OUTBOX_CHANGE_EVENT,
+  type OutboxEntry,
+  type OutboxAttachment,
+  type IncidentSubmissionResult
+} from '../utils/incidentOutbox';
+import { submitIncidentReport, type IncidentSubmissionAttachment } from '../utils/incidentSubmission';
+import type { ProcessedAttachment } from '../utils/mediaProcessing';
 import type { Database } from '../lib/supabase';
 
 type NewsItem = Database['public']['Tables']['news']['Row'];
@@ -20,8 +34,10 @@ interface DataContextType {
   updateService: (id: string, service: Partial<Service>) => Promise<void>;
   deleteService: (id: string) => Promise<void>;
   incidents: IncidentReport[];
-  addIncident: (incident: Omit<IncidentReport, 'id' | 'date_reported' | 'updated_at' | 'reference_number'>) => Promise<void>;
+  addIncident: (incident: Omit<IncidentReport, 'id' | 'date_reported' | 'updated_at' | 'reference_number'>) => Promise<IncidentSubmissionResult>;
   updateIncident: (id: string, incident: Partial<IncidentReport>) => Promise<void>;
+  transitionIncident: (id: string, status: IncidentReport['status'], note?: string, teamId?: string | null) => Promise<void>;
+  mergeIncidents: (parentId: string, childIds: string[], note?: string) => Promise<void>;
   deleteIncident: (id: string) => Promise<void>;
   gallery: GalleryItem[];
   addGalleryItem: (item: Omit<GalleryItem, 'id' | 'created_at' | 'updated_at'>) => Promise<void>;
@@ -36,6 +52,16 @@ interface DataContextType {
   error: string | null;
 }
 
+// Uploads a file to the incidents bucket. A retry of an upload that already
+// succeeded is treated as success, since reporters cannot overwrite objects.
+const uploadIncidentFile = async (path: string, file: Blob, contentType: string) => {
+  const { error } = await supabase.storage
+    .from('incidents')
+    .upload(path, file, { contentType });
+
+  if (error && !/already exists/i.test(error.message)) throw error;
+};
+
 const DataContext = createContext<DataContextType | undefined>(undefined);
 
 export const useData = () => {
@@ -117,6 +143,77 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, []);
 
+  // Uploads the attachments and submits the report through the submit-incident
+  // edge function. Shared by direct submissions and the offline outbox, so it
+  // must be safe to call more than once.
+  const sendIncident = useCallback(async (
+    row: OutboxEntry['row'],
+    attachments: OutboxAttachment[] = [],
+    options: Parameters<typeof submitIncidentReport>[2] = {}
+  ) => {
+    const uploaded: IncidentSubmissionAttachment[] = [];
+
+    for (const attachment of attachments) {
+      try {
+        const extension = attachment.name.split('.').pop() || (attachment.mediaType === 'image' ? 'jpg' : 'mp4');
+        const filePath = `${row.id}/${attachment.id}.${extension}`;
+        await uploadIncidentFile(filePath, attachment.blob, attachment.mimeType);
+        let thumbnailPath: string | null = null;
+        if (attachment.thumbnail) {
+          thumbnailPath = `${row.id}/${attachment.id}_thumb.jpg`;
+          await uploadIncidentFile(thumbnailPath, attachment.thumbnail, 'image/jpeg');
+        }
+
+        uploaded.push({
+          id: attachment.id,
+          media_type: attachment.mediaType,
+          mime_type: attachment.mimeType,
+          file_path: filePath,
+          thumbnail_path: thumbnailPath,
+          file_size: attachment.blob.size,
+          width: attachment.width,
+          height: attachment.height,
+          duration_seconds: attachment.durationSeconds
+        });
+      } catch (uploadError) {
+        if (isNetworkError(uploadError)) throw uploadError;
+        console.error('Error uploading incident attachment:', uploadError);
+      }
+    }
+
+    return submitIncidentReport(row, uploaded, options);
+  }, []);
+
+  // Retry queued offline reports on load and whenever the connection returns.
+  // Browsers with Background Sync also retry from public/sw.js.
+  useEffect(() => {
+    if (!isOutboxSupported()) return;
+
+    const flushOutbox = () => {
+      if (!navigator.onLine) return;
+      flushIncidentOutbox(entry => sendIncident(entry.row, entry.attachments, { verificationId: entry.verificationId }))
+        .catch(err => console.error('Error sending queued incident reports:', err));
+    };
+
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'INCIDENT_OUTBOX_UPDATED') {
+        window.dispatchEvent(new CustomEvent(OUTBOX_CHANGE_EVENT));
+      }
+    };
+
+    saveOutboxSyncConfig(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_ANON_KEY)
+      .catch(err => console.error('Error saving outbox sync config:', err));
+    flushOutbox();
+
+    window.addEventListener('online', flushOutbox);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+
+    return () => {
+      window.removeEventListener('online', flushOutbox);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
+  }, [sendIncident]);
+
   // Enhanced error handling for fetch failures
   const fetchAllData = async () => {
     try {
@@ -209,53 +306,42 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const addIncident = async (incident: Omit<IncidentReport, 'id' | 'date_reported' | 'updated_at' | 'reference_number'>) => {
-    try {
-      const referenceNumber = (incident as any).reference_number ||
-        `RD-${new Date().getFullYear()}-${String(Math.floor(Math.random() * 9999) + 1).padStart(4, '0')}`;
-
-      let imageUrl = null;
-      if ((incident as any).imageFile) {
-        try {
-          const file = (incident as any).imageFile;
-          const fileExt = file.name.split('.').pop();
-          const fileName = `incident_${referenceNumber}_${Date.now()}.${fileExt}`;
-
-          const { data: uploadData, error: uploadError } = await supabase.storage
-            .from('incidents')
-            .upload(fileName, file);
-
-          if (!uploadError) {
-            const { data: { publicUrl } } = supabase.storage
-              .from('incidents')
-              .getPublicUrl(fileName);
-            imageUrl = publicUrl;
-          }
-        } catch (uploadError) {
-          console.error('Error uploading incident image:', uploadError);
-        }
-      }
+  const addIncident = async (incident: Omit<IncidentReport, 'id' | 'date_reported' | 'updated_at' | 'reference_number'>): Promise<IncidentSubmissionResult> => {
+    // Sent by the report form alongside the incident columns
+    const { attachments = [], verification_id: verificationId = null, website } = incident as typeof incident & {
+      attachments?: ProcessedAttachment[];
+      verification_id?: string | null;
+      website?: string;
+    };
+    const row: OutboxEntry['row'] = {
+      id: crypto.randomUUID(),
+      reference_number: (incident as any).reference_number || generateReferenceNumber(),
+      reporter_name: (incident as any).reporter_name || (incident as any).reporterName,
+      contact_number: (incident as any).contact_number || (incident as any).contactNumber,
+      location: incident.location,
+      incident_type: (incident as any).incident_type || (incident as any).incidentType,
+      extra_details: (incident as any).extra_details || {},
+      description: incident.description,
+      urgency: incident.urgency,
+      latitude: incident.latitude ?? null,
+      longitude: incident.longitude ?? null,
+      location_accuracy: incident.location_accuracy ?? null,
+      status: 'received'
+    };
 
-      const { data, error } = await supabase
-        .from('incident_reports')
-        .insert([{
-          reference_number: referenceNumber,
-          reporter_name: (incident as any).reporter_name || (incident as any).reporterName,
-          contact_number: (incident as any).contact_number || (incident as any).contactNumber,
-          location: incident.location,
-          incident_type: (incident as any).incident_type || (incident as any).incidentType,
-          description: incident.description,
-          urgency: incident.urgency,
-          status: 'pending',
-          image_url: imageUrl || (incident as any).image_url
-        }])
-        .select()
-        .single();
+    if (!navigator.onLine && isOutboxSupported()) {
+      const entry = await queueIncident(row, attachments, verificationId);
+      return { status: 'queued', referenceNumber: entry.id };
+    }
 
-      if (error) throw error;
-      setIncidents(prev => [data, ...prev]);
-      return data.reference_number;
+    try {
+      const referenceNumber = await sendIncident(row, attachments, { honeypot: website, verificationId });
+      return { status: 'sent', referenceNumber };
     } catch (err) {
+      if (isNetworkError(err) && isOutboxSupported()) {
+        const entry = await queueIncident(row, attachments, verificationId);
+        return { status: 'queued', referenceNumber: entry.id };
+      }
       if (err instanceof TypeError && err.message === "Failed to fetch") {
         setError("Network error: Unable to submit incident report. Please check your network, CORS settings, and Supabase configuration.");
       }
@@ -284,6 +370,32 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const transitionIncident = async (id: string, status: IncidentReport['status'], note?: string, teamId?: string | null) => {
+    try {
+      const data = await databaseManager.transitionIncidentStatus(id, status, note, teamId);
+      setIncidents(prev => prev.map(item => item.id === id ? data : item));
+    } catch (err) {
+      if (err instanceof TypeError && err.message === "Failed to fetch") {
+        setError("Network error: Unable to update incident status. Please check your network, CORS settings, and Supabase configuration.");
+      }
+      console.error('Error transitioning incident status:', err);
+      throw err;
+    }
+  };
+
+  const mergeIncidents = async (parentId: string, childIds: string[], note?: string) => {
+    try {
+      const merged = await databaseManager.mergeIncidentReports(parentId, childIds, note);
+      setIncidents(prev => prev.map(item => merged.find(m => m.id === item.id) || item));
+    } catch (err) {
+      if (err instanceof TypeError && err.message === "Failed to fetch") {
+        setError("Network error: Unable to merge incidents. Please check your network, CORS settings, and Supabase configuration.");
+      }
+      console.error('Error merging incidents:', err);
+      throw err;
+    }
+  };
+
   const deleteIncident = async (id: string) => {
     try {
       const { error } = await supabase
@@ -435,7 +547,7 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     <DataContext.Provider value={{
       news, addNews, updateNews, deleteNews,
       services, addService, updateService, deleteService,
-      incidents, addIncident, updateIncident, deleteIncident,
+      incidents, addIncident, updateIncident, transitionIncident, mergeIncidents, deleteIncident,
       gallery, addGalleryItem, updateGalleryItem, deleteGalleryItem,
       videos, addVideo, updateVideo, deleteVideo, incrementVideoView,
       loading, error
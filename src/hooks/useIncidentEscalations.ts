@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { databaseManager } from '../lib/database';
+import { RealtimeManager } from '../utils/realtime';
+import type { IncidentEscalation } from '../types';
+
+const ESCALATION_CHECK_INTERVAL = 60000;
+
+/**
+ * Open (unacknowledged) SLA escalations, kept current through realtime and a
+ * one-minute poll. With `recordBreaches` the poll also asks the database to
+ * record new breaches, so escalations happen while any admin has the panel open.
+ */
+export const useIncidentEscalations = ({ recordBreaches = false } = {}) => {
+  const [escalations, setEscalations] = useState<IncidentEscalation[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      if (recordBreaches) {
+        await databaseManager.recordIncidentSlaBreaches();
+      }
+      setEscalations(await databaseManager.getOpenIncidentEscalations());
+    } catch (error) {
+      console.error('Error checking incident escalations:', error);
+    }
+  }, [recordBreaches]);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, ESCALATION_CHECK_INTERVAL);
+    const subscription = RealtimeManager.subscribe('incident_escalations', () => {
+      databaseManager.getOpenIncidentEscalations()
+        .then(setEscalations)
+        .catch(error => console.error('Error refreshing incident escalations:', error));
+    });
+
+    return () => {
+      clearInterval(timer);
+      subscription.unsubscribe();
+    };
+  }, [refresh]);
+
+  const acknowledge = async (id: string) => {
+    await databaseManager.acknowledgeIncidentEscalation(id);
+    setEscalations(prev => prev.filter(escalation => escalation.id !== id));
+  };
+
+  return { escalations, acknowledge, refresh };
+};
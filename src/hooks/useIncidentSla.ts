@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { databaseManager } from '../lib/database';
+import { parseIncidentSlaSettings, INCIDENT_SLA_SETTING_KEY } from '../utils/incidentSla';
+import type { IncidentSlaSettings } from '../types';
+
+// Loads the configured SLA targets and re-renders every `tickMs` for countdowns
+export const useIncidentSla = (tickMs = 1000) => {
+  const [sla, setSla] = useState<IncidentSlaSettings>(() => parseIncidentSlaSettings(null));
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    databaseManager.getSetting(INCIDENT_SLA_SETTING_KEY)
+      .then(setting => {
+        if (!cancelled && setting) setSla(parseIncidentSlaSettings(setting.setting_value));
+      })
+      .catch(error => console.error('Error loading incident SLA settings:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), tickMs);
+    return () => clearInterval(timer);
+  }, [tickMs]);
+
+  return { sla, now };
+};
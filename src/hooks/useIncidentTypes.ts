@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { databaseManager } from '../lib/database';
+import { INCIDENT_TYPES } from '../utils/constants';
+import type { IncidentTypeDefinition } from '../types';
+
+// Used until the catalog loads, and if it cannot be loaded at all
+const FALLBACK_TYPES: IncidentTypeDefinition[] = INCIDENT_TYPES.map((name, index) => ({
+  id: name,
+  name,
+  icon: 'AlertTriangle',
+  default_urgency: name === 'Others' ? 'MEDIUM' : 'HIGH',
+  hazard_alert_type: null,
+  extra_fields: [],
+  sort_order: index,
+  is_active: true,
+  created_at: '',
+  updated_at: ''
+}));
+
+export const useIncidentTypes = ({ includeInactive = false } = {}) => {
+  const [incidentTypes, setIncidentTypes] = useState<IncidentTypeDefinition[]>(FALLBACK_TYPES);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await databaseManager.getIncidentTypes(includeInactive);
+      if (data.length > 0 || includeInactive) setIncidentTypes(data);
+    } catch (error) {
+      console.error('Error loading incident types:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [includeInactive]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { incidentTypes, setIncidentTypes, loading, refresh };
+};
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+import { databaseManager } from '../lib/database';
+import { RealtimeManager } from '../utils/realtime';
+import type { EmergencyAlert } from '../types';
+
+const APPROVAL_CHECK_INTERVAL = 60000;
+
+/**
+ * Alerts, and changes to live alerts, waiting for a second admin's approval,
+ * kept current through realtime
+ * and a one-minute poll in case the realtime connection drops.
+ */
+export const usePendingAlertApprovals = () => {
+  const [pendingAlerts, setPendingAlerts] = useState<EmergencyAlert[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setPendingAlerts(await databaseManager.getPendingApprovalAlerts());
+    } catch (error) {
+      console.error('Error checking pending alert approvals:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, APPROVAL_CHECK_INTERVAL);
+    const subscription = RealtimeManager.subscribe('emergency_alerts', refresh);
+
+    return () => {
+      clearInterval(timer);
+      subscription.unsubscribe();
+    };
+  }, [refresh]);
+
+  return { pendingAlerts, refresh };
+};
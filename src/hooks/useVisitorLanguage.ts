@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { getVisitorLanguage, setVisitorLanguage, VISITOR_LANGUAGE_EVENT } from '../utils/alertLanguages';
+import type { AlertLanguage } from '../types';
+
+// The alert language preference, kept in step between the banner and pages
+export const useVisitorLanguage = (): [AlertLanguage, (language: AlertLanguage) => void] => {
+  const [language, setLanguage] = useState<AlertLanguage>(getVisitorLanguage);
+
+  useEffect(() => {
+    const handleChange = () => setLanguage(getVisitorLanguage());
+    window.addEventListener(VISITOR_LANGUAGE_EVENT, handleChange);
+    window.addEventListener('storage', handleChange);
+    return () => {
+      window.removeEventListener(VISITOR_LANGUAGE_EVENT, handleChange);
+      window.removeEventListener('storage', handleChange);
+    };
+  }, []);
+
+  return [language, setVisitorLanguage];
+};
@@ -1,7 +1,10 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Outlet, Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { useData } from '../contexts/DataContext';
 import { useNotifications } from '../hooks/useNotifications';
+import { useIncidentEscalations } from '../hooks/useIncidentEscalations';
+import { usePendingAlertApprovals } from '../hooks/usePendingAlertApprovals';
 import NotificationSystem from '../components/NotificationSystem';
 import DatabaseSelector from '../components/DatabaseSelector';
 import { 
@@ -22,16 +25,82 @@ import {
   FolderOpen,
   Phone,
   Cloud,
-  Play
+  Play,
+  BarChart3,
+  Tags
 } from 'lucide-react';
 
 const AdminLayout: React.FC = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const { user, logout } = useAuth();
-  const { notifications, removeNotification } = useNotifications();
+  const { notifications, addNotification, removeNotification } = useNotifications();
+  const { incidents } = useData();
+  const { escalations } = useIncidentEscalations({ recordBreaches: true });
+  const escalationNotifications = useRef(new Map<string, string>());
+  const { pendingAlerts } = usePendingAlertApprovals();
+  const approvalNotifications = useRef(new Map<string, string>());
   const location = useLocation();
   const navigate = useNavigate();
 
+  // One persistent notification per open escalation, cleared once acknowledged
+  useEffect(() => {
+    const notified = escalationNotifications.current;
+    const openIds = new Set(escalations.map(escalation => escalation.id));
+
+    escalations.forEach(escalation => {
+      if (notified.has(escalation.id)) return;
+
+      const incident = incidents.find(i => i.id === escalation.incident_id);
+      const subject = incident
+        ? `${incident.reference_number} (${incident.incident_type || 'Incident'}, ${incident.location || 'unknown location'})`
+        : 'An incident report';
+      const notificationId = addNotification(
+        'error',
+        `${escalation.urgency} incident SLA breached`,
+        `${subject} has not been ${escalation.breach_type === 'acknowledge' ? 'acknowledged' : 'resolved'} within its target time.`,
+        { persistent: true }
+      );
+      notified.set(escalation.id, notificationId);
+    });
+
+    notified.forEach((notificationId, escalationId) => {
+      if (!openIds.has(escalationId)) {
+        removeNotification(notificationId);
+        notified.delete(escalationId);
+      }
+    });
+  }, [escalations, incidents, addNotification, removeNotification]);
+
+  // Admins other than the requester are asked to review pending alerts
+  useEffect(() => {
+    const notified = approvalNotifications.current;
+    const reviewable = user?.role === 'admin'
+      ? pendingAlerts.filter(alert => alert.approval_requested_by !== user.id)
+      : [];
+    const reviewableIds = new Set(reviewable.map(alert => alert.id));
+
+    reviewable.forEach(alert => {
+      if (notified.has(alert.id)) return;
+
+      const notificationId = addNotification(
+        'warning',
+        alert.pending_changes ? 'Alert changes awaiting approval' : 'Emergency alert awaiting approval',
+        alert.pending_changes
+          ? `${alert.approval_requested_by_name || 'A staff member'} submitted changes to the live alert "${alert.title}". Review them under Emergency Alerts.`
+          : `${alert.approval_requested_by_name || 'A staff member'} submitted "${alert.title}". Review it under Emergency Alerts.`,
+        { persistent: true }
+      );
+      notified.set(alert.id, notificationId);
+    });
+
+    notified.forEach((notificationId, alertId) => {
+      if (!reviewableIds.has(alertId)) {
+        removeNotification(notificationId);
+        notified.delete(alertId);
+      }
+    });
+  }, [pendingAlerts, user, addNotification, removeNotification]);
+
   const handleLogout = () => {
     logout();
     navigate('/admin/login');
@@ -51,6 +120,8 @@ const AdminLayout: React.FC = () => {
     { path: '/admin/resources', icon: FolderOpen, label: 'Resources' },
     { path: '/admin/navigation', icon: Menu, label: 'Navigation' },
     { path: '/admin/incidents', icon: AlertTriangle, label: 'Incident Reports' },
+    { path: '/admin/incidents/analytics', icon: BarChart3, label: 'Incident Analytics' },
+    { path: '/admin/incident-types', icon: Tags, label: 'Incident Types' },
     { path: '/admin/users', icon: Users, label: 'Users' },
     { path: '/admin/settings', icon: Settings, label: 'Settings' },
   ];
@@ -6,6 +6,7 @@ import EmergencyAlertBanner from '../components/EmergencyAlertBanner';
 import OfflineIndicator from '../components/OfflineIndicator';
 import AccessibilityMenu from '../components/AccessibilityMenu';
 import PWAInstallPrompt from '../components/PWAInstallPrompt';
+import IncidentOutboxStatus from '../components/IncidentOutboxStatus';
 import Footer from '../components/Footer';
 import BackToTop from '../components/BackToTop';
 
@@ -33,6 +34,7 @@ const PublicLayout: React.FC = () => {
       <BackToTop />
       <AccessibilityMenu />
       <PWAInstallPrompt />
+      <IncidentOutboxStatus />
     </div>
   );
 };
@@ -1,12 +1,31 @@
 // Database abstraction layer for Supabase
 import { supabase } from './supabase';
 import type { Database } from './supabase';
+import type { AlertAcknowledgementLink, EmergencyAlert, IncidentTrackingResult } from '../types';
+import { fileUpload } from '../utils/fileUpload';
 
 // Type definitions for database operations
 type Tables = Database['public']['Tables'];
 type NewsRow = Tables['news']['Row'];
 type ServiceRow = Tables['services']['Row'];
 type IncidentRow = Tables['incident_reports']['Row'];
+type IncidentStatusHistoryRow = Tables['incident_status_history']['Row'];
+type ResponseTeamRow = Tables['response_teams']['Row'];
+type IncidentAttachmentRow = Tables['incident_attachments']['Row'];
+type IncidentEscalationRow = Tables['incident_escalations']['Row'];
+type IncidentNoteRow = Tables['incident_notes']['Row'];
+type IncidentTypeRow = Tables['incident_types']['Row'];
+type IncidentSubmissionLogRow = Tables['incident_submission_log']['Row'];
+type AlertContactRow = Tables['alert_contacts']['Row'];
+type AlertDeliveryRow = Tables['alert_deliveries']['Row'];
+type AlertTemplateRow = Tables['alert_templates']['Row'];
+type AlertApprovalRow = Tables['alert_approvals']['Row'];
+type AlertAcknowledgementRow = Tables['alert_acknowledgements']['Row'];
+type TropicalCycloneRow = Tables['tropical_cyclones']['Row'];
+type CycloneBulletinRow = Tables['cyclone_bulletins']['Row'];
+type VolcanoBulletinRow = Tables['volcano_bulletins']['Row'];
+type VolcanoDangerZoneRow = Tables['volcano_danger_zones']['Row'];
+type EarthquakeEventRow = Tables['earthquake_events']['Row'];
 type GalleryRow = Tables['gallery']['Row'];
 type UserRow = Tables['users']['Row'];
 type SettingRow = Tables['system_settings']['Row'];
@@ -197,6 +216,574 @@ export class DatabaseManager {
     if (error) throw error;
   }
 
+  async transitionIncidentStatus(
+    id: string,
+    status: IncidentRow['status'],
+    note?: string,
+    teamId?: string | null
+  ): Promise<IncidentRow> {
+    const { data, error } = await supabase.rpc('transition_incident_status', {
+      p_incident_id: id,
+      p_status: status,
+      p_note: note || null,
+      p_team_id: teamId || null
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async mergeIncidentReports(parentId: string, childIds: string[], note?: string): Promise<IncidentRow[]> {
+    const { data, error } = await supabase.rpc('merge_incident_reports', {
+      p_parent_id: parentId,
+      p_child_ids: childIds,
+      p_note: note || null
+    });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getIncidentStatusHistory(incidentId: string): Promise<IncidentStatusHistoryRow[]> {
+    const { data, error } = await supabase
+      .from('incident_status_history')
+      .select('*')
+      .eq('incident_id', incidentId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getIncidentAttachments(incidentId: string): Promise<IncidentAttachmentRow[]> {
+    const { data, error } = await supabase
+      .from('incident_attachments')
+      .select('*')
+      .eq('incident_id', incidentId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async recordIncidentSlaBreaches(): Promise<IncidentEscalationRow[]> {
+    const { data, error } = await supabase.rpc('record_incident_sla_breaches');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getOpenIncidentEscalations(): Promise<IncidentEscalationRow[]> {
+    const { data, error } = await supabase
+      .from('incident_escalations')
+      .select('*')
+      .is('acknowledged_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async acknowledgeIncidentEscalation(id: string): Promise<IncidentEscalationRow> {
+    const { data, error } = await supabase.rpc('acknowledge_incident_escalation', {
+      p_escalation_id: id
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Incident type catalog
+  async getIncidentTypes(includeInactive = false): Promise<IncidentTypeRow[]> {
+    let query = supabase
+      .from('incident_types')
+      .select('*')
+      .order('sort_order', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createIncidentType(type: Tables['incident_types']['Insert']): Promise<IncidentTypeRow> {
+    const { data, error } = await supabase
+      .from('incident_types')
+      .insert([type])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateIncidentType(id: string, updates: Tables['incident_types']['Update']): Promise<IncidentTypeRow> {
+    const { data, error } = await supabase
+      .from('incident_types')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteIncidentType(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('incident_types')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Submissions refused by the submit-incident edge function
+  async getRejectedIncidentSubmissions(limit = 200): Promise<IncidentSubmissionLogRow[]> {
+    const { data, error } = await supabase
+      .from('incident_submission_log')
+      .select('*')
+      .eq('outcome', 'rejected')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async deleteIncidentSubmissionLogEntries(ids: string[]): Promise<void> {
+    const { error } = await supabase
+      .from('incident_submission_log')
+      .delete()
+      .in('id', ids);
+
+    if (error) throw error;
+  }
+
+  async getIncidentNotes(incidentId: string): Promise<IncidentNoteRow[]> {
+    const { data, error } = await supabase
+      .from('incident_notes')
+      .select('*')
+      .eq('incident_id', incidentId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async addIncidentNote(note: Tables['incident_notes']['Insert']): Promise<IncidentNoteRow> {
+    const { data, error } = await supabase
+      .from('incident_notes')
+      .insert([note])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteIncidentNote(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('incident_notes')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async uploadIncidentNoteAttachment(incidentId: string, file: File): Promise<IncidentNoteRow['attachments'][number]> {
+    const result = await fileUpload.uploadSingle(file, {
+      bucket: 'incidents',
+      maxSize: 10 * 1024 * 1024,
+      allowedTypes: ['image/*', 'video/*', 'application/pdf'],
+      generatePath: (f) => `notes/${incidentId}/${Date.now()}_${f.name.replace(/[^\w.-]+/g, '_')}`
+    });
+
+    if (!result.success || !result.url || !result.fileName) {
+      throw new Error(result.error || 'Upload failed');
+    }
+
+    return {
+      name: file.name,
+      url: result.url,
+      path: result.fileName,
+      mime_type: file.type || null,
+      size: file.size
+    };
+  }
+
+  // People who receive emergency alerts by email or SMS
+  async getAlertContacts(): Promise<AlertContactRow[]> {
+    const { data, error } = await supabase
+      .from('alert_contacts')
+      .select('*')
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createAlertContact(contact: Tables['alert_contacts']['Insert']): Promise<AlertContactRow> {
+    const { data, error } = await supabase
+      .from('alert_contacts')
+      .insert([contact])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateAlertContact(id: string, updates: Tables['alert_contacts']['Update']): Promise<AlertContactRow> {
+    const { data, error } = await supabase
+      .from('alert_contacts')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteAlertContact(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('alert_contacts')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async getAlertTemplates(): Promise<AlertTemplateRow[]> {
+    const { data, error } = await supabase
+      .from('alert_templates')
+      .select('*')
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createAlertTemplate(template: Tables['alert_templates']['Insert']): Promise<AlertTemplateRow> {
+    const { data, error } = await supabase
+      .from('alert_templates')
+      .insert([template])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateAlertTemplate(id: string, updates: Tables['alert_templates']['Update']): Promise<AlertTemplateRow> {
+    const { data, error } = await supabase
+      .from('alert_templates')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteAlertTemplate(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('alert_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Written by the dispatch-alert edge function
+  async getAlertDeliveries(alertId: string): Promise<AlertDeliveryRow[]> {
+    const { data, error } = await supabase
+      .from('alert_deliveries')
+      .select('*')
+      .eq('alert_id', alertId)
+      .order('alert_revision', { ascending: false })
+      .order('created_at');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Approving or rejecting goes through the RPC so the reviewer can't be the requester
+  async reviewEmergencyAlert(id: string, approve: boolean, reason?: string) {
+    const { data, error } = await supabase.rpc('review_emergency_alert', {
+      p_alert_id: id,
+      p_approve: approve,
+      p_reason: reason ?? null
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getPendingApprovalAlerts(): Promise<EmergencyAlert[]> {
+    const { data, error } = await supabase
+      .from('emergency_alerts')
+      .select('*')
+      .or('status.eq.pending_approval,pending_changes.not.is.null')
+      .order('approval_requested_at');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getAlertApprovals(alertId: string): Promise<AlertApprovalRow[]> {
+    const { data, error } = await supabase
+      .from('alert_approvals')
+      .select('*')
+      .eq('alert_id', alertId)
+      .order('created_at');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getAlertAcknowledgements(alertId: string): Promise<AlertAcknowledgementRow[]> {
+    const { data, error } = await supabase
+      .from('alert_acknowledgements')
+      .select('*')
+      .eq('alert_id', alertId)
+      .order('barangay');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // For a barangay that confirmed by radio or phone instead of its link
+  async recordAlertAcknowledgement(alertId: string, barangay: string, acknowledgedByName: string) {
+    const { data, error } = await supabase.rpc('record_alert_acknowledgement', {
+      p_alert_id: alertId,
+      p_barangay: barangay,
+      p_name: acknowledgedByName
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Public acknowledge page: the token in the link is the barangay's credential
+  async getAlertAcknowledgementLink(token: string): Promise<AlertAcknowledgementLink | null> {
+    const { data, error } = await supabase.rpc('get_alert_acknowledgement', { p_token: token });
+
+    if (error) throw error;
+    return data || null;
+  }
+
+  async acknowledgeAlert(token: string, contactId: string, name: string): Promise<AlertAcknowledgementLink> {
+    const { data, error } = await supabase.rpc('acknowledge_alert', {
+      p_token: token,
+      p_contact_id: contactId,
+      p_name: name
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Tropical cyclone tracker
+  async getTropicalCyclones(): Promise<TropicalCycloneRow[]> {
+    const { data, error } = await supabase
+      .from('tropical_cyclones')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createTropicalCyclone(cyclone: Tables['tropical_cyclones']['Insert']): Promise<TropicalCycloneRow> {
+    const { data, error } = await supabase
+      .from('tropical_cyclones')
+      .insert([cyclone])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateTropicalCyclone(id: string, updates: Tables['tropical_cyclones']['Update']): Promise<TropicalCycloneRow> {
+    const { data, error } = await supabase
+      .from('tropical_cyclones')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getCycloneBulletins(cycloneId: string): Promise<CycloneBulletinRow[]> {
+    const { data, error } = await supabase
+      .from('cyclone_bulletins')
+      .select('*')
+      .eq('cyclone_id', cycloneId)
+      .order('bulletin_number');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createCycloneBulletin(bulletin: Tables['cyclone_bulletins']['Insert']): Promise<CycloneBulletinRow> {
+    const { data, error } = await supabase
+      .from('cyclone_bulletins')
+      .insert([bulletin])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateCycloneBulletin(id: string, updates: Tables['cyclone_bulletins']['Update']): Promise<CycloneBulletinRow> {
+    const { data, error } = await supabase
+      .from('cyclone_bulletins')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Mayon Volcano alert levels
+  async getVolcanoBulletins(limit = 20): Promise<VolcanoBulletinRow[]> {
+    const { data, error } = await supabase
+      .from('volcano_bulletins')
+      .select('*')
+      .order('issued_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createVolcanoBulletin(bulletin: Tables['volcano_bulletins']['Insert']): Promise<VolcanoBulletinRow> {
+    const { data, error } = await supabase
+      .from('volcano_bulletins')
+      .insert([bulletin])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateVolcanoBulletin(id: string, updates: Tables['volcano_bulletins']['Update']): Promise<VolcanoBulletinRow> {
+    const { data, error } = await supabase
+      .from('volcano_bulletins')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getVolcanoDangerZones(): Promise<VolcanoDangerZoneRow[]> {
+    const { data, error } = await supabase
+      .from('volcano_danger_zones')
+      .select('*')
+      .order('barangay');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async saveVolcanoDangerZone(zone: Tables['volcano_danger_zones']['Insert']): Promise<VolcanoDangerZoneRow> {
+    const { data, error } = await supabase
+      .from('volcano_danger_zones')
+      .upsert(zone)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteVolcanoDangerZone(barangay: string): Promise<void> {
+    const { error } = await supabase
+      .from('volcano_danger_zones')
+      .delete()
+      .eq('barangay', barangay);
+
+    if (error) throw error;
+  }
+
+  // Earthquakes from the feed; written only by the earthquake-feed edge function
+  async getEarthquakeEvents(options: { nearbyOnly?: boolean; since?: string; limit?: number } = {}): Promise<EarthquakeEventRow[]> {
+    let query = supabase
+      .from('earthquake_events')
+      .select('*')
+      .order('occurred_at', { ascending: false })
+      .limit(options.limit ?? 20);
+
+    if (options.nearbyOnly) query = query.eq('is_nearby', true);
+    if (options.since) query = query.gte('occurred_at', options.since);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Public tracking: requires the reporter's contact number and returns no personal data
+  async trackIncident(referenceNumber: string, contactNumber: string): Promise<IncidentTrackingResult | null> {
+    const { data, error } = await supabase.rpc('track_incident', {
+      p_reference_number: referenceNumber,
+      p_contact_number: contactNumber
+    });
+
+    if (error) throw error;
+    return data || null;
+  }
+
+  // Response team operations
+  async getResponseTeams(): Promise<ResponseTeamRow[]> {
+    const { data, error } = await supabase
+      .from('response_teams')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async createResponseTeam(team: Omit<ResponseTeamRow, 'id' | 'created_at' | 'updated_at'>): Promise<ResponseTeamRow> {
+    const { data, error } = await supabase
+      .from('response_teams')
+      .insert([team])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateResponseTeam(id: string, updates: Partial<ResponseTeamRow>): Promise<ResponseTeamRow> {
+    const { data, error } = await supabase
+      .from('response_teams')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
   // Gallery operations
   async getGallery(): Promise<GalleryRow[]> {
     const { data, error } = await supabase
@@ -327,6 +914,17 @@ export class DatabaseManager {
   }
 
 
+  async getSetting(key: string): Promise<SettingRow | null> {
+    const { data, error } = await supabase
+      .from('system_settings')
+      .select('*')
+      .eq('setting_key', key)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
   async updateSetting(key: string, value: any, type: string = 'string', isPublic: boolean = false): Promise<void> {
     const { error } = await supabase
       .from('system_settings')
@@ -13,6 +13,28 @@ export const supabase = createClient(
 );
 
 // Database types
+
+// Shape of each entry in incident_notes.attachments
+interface IncidentNoteAttachmentJson {
+  name: string
+  url: string
+  path: string
+  mime_type: string | null
+  size: number
+}
+
+// Shape of each entry in incident_types.extra_fields
+interface IncidentExtraFieldJson {
+  key: string
+  label: string
+  type: 'number' | 'text' | 'select' | 'boolean'
+  required: boolean
+  options?: string[]
+  min?: number
+}
+
+type IncidentExtraDetailsJson = Record<string, string | number | boolean | null>
+
 export interface Database {
   public: {
     Tables: {
@@ -96,9 +118,21 @@ export interface Database {
           incident_type: string | null
           description: string | null
           urgency: 'LOW' | 'MEDIUM' | 'HIGH'
-          status: 'pending' | 'in-progress' | 'resolved'
+          status: 'received' | 'verified' | 'dispatched' | 'on-scene' | 'resolved' | 'closed' | 'rejected' | 'duplicate'
           date_reported: string
           image_url: string | null
+          assigned_team_id: string | null
+          verified_at: string | null
+          dispatched_at: string | null
+          on_scene_at: string | null
+          resolved_at: string | null
+          closed_at: string | null
+          latitude: number | null
+          longitude: number | null
+          location_accuracy: number | null
+          parent_incident_id: string | null
+          extra_details: IncidentExtraDetailsJson
+          contact_verified_at: string | null
           updated_at: string
         }
         Insert: {
@@ -110,9 +144,21 @@ export interface Database {
           incident_type?: string | null
           description?: string | null
           urgency?: 'LOW' | 'MEDIUM' | 'HIGH'
-          status?: 'pending' | 'in-progress' | 'resolved'
+          status?: 'received' | 'verified' | 'dispatched' | 'on-scene' | 'resolved' | 'closed' | 'rejected' | 'duplicate'
           date_reported?: string
           image_url?: string | null
+          assigned_team_id?: string | null
+          verified_at?: string | null
+          dispatched_at?: string | null
+          on_scene_at?: string | null
+          resolved_at?: string | null
+          closed_at?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          location_accuracy?: number | null
+          parent_incident_id?: string | null
+          extra_details?: IncidentExtraDetailsJson
+          contact_verified_at?: string | null
           updated_at?: string
         }
         Update: {
@@ -124,9 +170,706 @@ export interface Database {
           incident_type?: string | null
           description?: string | null
           urgency?: 'LOW' | 'MEDIUM' | 'HIGH'
-          status?: 'pending' | 'in-progress' | 'resolved'
+          status?: 'received' | 'verified' | 'dispatched' | 'on-scene' | 'resolved' | 'closed' | 'rejected' | 'duplicate'
           date_reported?: string
           image_url?: string | null
+          assigned_team_id?: string | null
+          verified_at?: string | null
+          dispatched_at?: string | null
+          on_scene_at?: string | null
+          resolved_at?: string | null
+          closed_at?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          location_accuracy?: number | null
+          parent_incident_id?: string | null
+          extra_details?: IncidentExtraDetailsJson
+          contact_verified_at?: string | null
+          updated_at?: string
+        }
+      }
+      incident_status_history: {
+        Row: {
+          id: string
+          incident_id: string
+          status: 'received' | 'verified' | 'dispatched' | 'on-scene' | 'resolved' | 'closed' | 'rejected' | 'duplicate'
+          from_status: 'received' | 'verified' | 'dispatched' | 'on-scene' | 'resolved' | 'closed' | 'rejected' | 'duplicate' | null
+          note: string | null
+          public_note: string | null
+          changed_by: string | null
+          changed_by_name: string | null
+          assigned_team_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          incident_id: string
+          status: 'received' | 'verified' | 'dispatched' | 'on-scene' | 'resolved' | 'closed' | 'rejected' | 'duplicate'
+          from_status?: 'received' | 'verified' | 'dispatched' | 'on-scene' | 'resolved' | 'closed' | 'rejected' | 'duplicate' | null
+          note?: string | null
+          public_note?: string | null
+          changed_by?: string | null
+          changed_by_name?: string | null
+          assigned_team_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          incident_id?: string
+          status?: 'received' | 'verified' | 'dispatched' | 'on-scene' | 'resolved' | 'closed' | 'rejected' | 'duplicate'
+          from_status?: 'received' | 'verified' | 'dispatched' | 'on-scene' | 'resolved' | 'closed' | 'rejected' | 'duplicate' | null
+          note?: string | null
+          public_note?: string | null
+          changed_by?: string | null
+          changed_by_name?: string | null
+          assigned_team_id?: string | null
+          created_at?: string
+        }
+      }
+      incident_attachments: {
+        Row: {
+          id: string
+          incident_id: string
+          media_type: 'image' | 'video'
+          mime_type: string | null
+          file_path: string | null
+          file_url: string
+          thumbnail_url: string | null
+          file_size: number | null
+          width: number | null
+          height: number | null
+          duration_seconds: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          incident_id: string
+          media_type: 'image' | 'video'
+          mime_type?: string | null
+          file_path?: string | null
+          file_url: string
+          thumbnail_url?: string | null
+          file_size?: number | null
+          width?: number | null
+          height?: number | null
+          duration_seconds?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          incident_id?: string
+          media_type?: 'image' | 'video'
+          mime_type?: string | null
+          file_path?: string | null
+          file_url?: string
+          thumbnail_url?: string | null
+          file_size?: number | null
+          width?: number | null
+          height?: number | null
+          duration_seconds?: number | null
+          created_at?: string
+        }
+      }
+      incident_types: {
+        Row: {
+          id: string
+          name: string
+          icon: string
+          default_urgency: 'LOW' | 'MEDIUM' | 'HIGH'
+          hazard_alert_type: 'typhoon' | 'earthquake' | 'flood' | 'fire' | 'landslide' | 'tsunami' | 'volcano' | 'general' | null
+          extra_fields: IncidentExtraFieldJson[]
+          sort_order: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          icon?: string
+          default_urgency?: 'LOW' | 'MEDIUM' | 'HIGH'
+          hazard_alert_type?: 'typhoon' | 'earthquake' | 'flood' | 'fire' | 'landslide' | 'tsunami' | 'volcano' | 'general' | null
+          extra_fields?: IncidentExtraFieldJson[]
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          icon?: string
+          default_urgency?: 'LOW' | 'MEDIUM' | 'HIGH'
+          hazard_alert_type?: 'typhoon' | 'earthquake' | 'flood' | 'fire' | 'landslide' | 'tsunami' | 'volcano' | 'general' | null
+          extra_fields?: IncidentExtraFieldJson[]
+          sort_order?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      incident_notes: {
+        Row: {
+          id: string
+          incident_id: string
+          body: string
+          visibility: 'internal' | 'reporter'
+          attachments: IncidentNoteAttachmentJson[]
+          author_id: string | null
+          author_name: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          incident_id: string
+          body: string
+          visibility?: 'internal' | 'reporter'
+          attachments?: IncidentNoteAttachmentJson[]
+          author_id?: string | null
+          author_name?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          incident_id?: string
+          body?: string
+          visibility?: 'internal' | 'reporter'
+          attachments?: IncidentNoteAttachmentJson[]
+          author_id?: string | null
+          author_name?: string | null
+          created_at?: string
+        }
+      }
+      incident_submission_log: {
+        Row: {
+          id: string
+          incident_id: string | null
+          outcome: 'accepted' | 'rejected'
+          reason: 'honeypot' | 'proof_of_work' | 'validation' | 'rate_limit_ip' | 'rate_limit_phone' | null
+          ip_address: string | null
+          contact_number: string | null
+          user_agent: string | null
+          details: Record<string, unknown>
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          incident_id?: string | null
+          outcome: 'accepted' | 'rejected'
+          reason?: 'honeypot' | 'proof_of_work' | 'validation' | 'rate_limit_ip' | 'rate_limit_phone' | null
+          ip_address?: string | null
+          contact_number?: string | null
+          user_agent?: string | null
+          details?: Record<string, unknown>
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          incident_id?: string | null
+          outcome?: 'accepted' | 'rejected'
+          reason?: 'honeypot' | 'proof_of_work' | 'validation' | 'rate_limit_ip' | 'rate_limit_phone' | null
+          ip_address?: string | null
+          contact_number?: string | null
+          user_agent?: string | null
+          details?: Record<string, unknown>
+          created_at?: string
+        }
+      }
+      alert_contacts: {
+        Row: {
+          id: string
+          name: string
+          email: string | null
+          phone: string | null
+          barangay: string | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          email?: string | null
+          phone?: string | null
+          barangay?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          email?: string | null
+          phone?: string | null
+          barangay?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      alert_templates: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          type: 'typhoon' | 'earthquake' | 'flood' | 'fire' | 'landslide' | 'tsunami' | 'volcano' | 'general'
+          severity: 'low' | 'medium' | 'high' | 'critical'
+          title: string
+          message: string
+          channels: string[]
+          translations: Partial<Record<'fil' | 'bcl', { title: string; message: string }>>
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          type?: 'typhoon' | 'earthquake' | 'flood' | 'fire' | 'landslide' | 'tsunami' | 'volcano' | 'general'
+          severity?: 'low' | 'medium' | 'high' | 'critical'
+          title: string
+          message: string
+          channels?: string[]
+          translations?: Partial<Record<'fil' | 'bcl', { title: string; message: string }>>
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          type?: 'typhoon' | 'earthquake' | 'flood' | 'fire' | 'landslide' | 'tsunami' | 'volcano' | 'general'
+          severity?: 'low' | 'medium' | 'high' | 'critical'
+          title?: string
+          message?: string
+          channels?: string[]
+          translations?: Partial<Record<'fil' | 'bcl', { title: string; message: string }>>
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      alert_deliveries: {
+        Row: {
+          id: string
+          alert_id: string
+          alert_revision: number
+          channel: 'web-push' | 'email' | 'sms' | 'social-media'
+          recipient: string
+          status: 'pending' | 'sent' | 'failed' | 'skipped'
+          attempts: number
+          last_error: string | null
+          provider_message_id: string | null
+          sent_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          alert_id: string
+          alert_revision?: number
+          channel: 'web-push' | 'email' | 'sms' | 'social-media'
+          recipient: string
+          status?: 'pending' | 'sent' | 'failed' | 'skipped'
+          attempts?: number
+          last_error?: string | null
+          provider_message_id?: string | null
+          sent_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          alert_id?: string
+          alert_revision?: number
+          channel?: 'web-push' | 'email' | 'sms' | 'social-media'
+          recipient?: string
+          status?: 'pending' | 'sent' | 'failed' | 'skipped'
+          attempts?: number
+          last_error?: string | null
+          provider_message_id?: string | null
+          sent_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      alert_approvals: {
+        Row: {
+          id: string
+          alert_id: string
+          decision: 'requested' | 'approved' | 'rejected'
+          reason: string | null
+          actor_id: string | null
+          actor_name: string | null
+          alert_snapshot: Record<string, unknown>
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          alert_id: string
+          decision: 'requested' | 'approved' | 'rejected'
+          reason?: string | null
+          actor_id?: string | null
+          actor_name?: string | null
+          alert_snapshot: Record<string, unknown>
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          alert_id?: string
+          decision?: 'requested' | 'approved' | 'rejected'
+          reason?: string | null
+          actor_id?: string | null
+          actor_name?: string | null
+          alert_snapshot?: Record<string, unknown>
+          created_at?: string
+        }
+      }
+      alert_acknowledgements: {
+        Row: {
+          id: string
+          alert_id: string
+          barangay: string
+          token: string
+          acknowledged_at: string | null
+          acknowledged_by_name: string | null
+          acknowledged_contact_id: string | null
+          recorded_by: string | null
+          recorded_by_name: string | null
+          reminder_count: number
+          last_reminded_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          alert_id: string
+          barangay: string
+          token?: string
+          acknowledged_at?: string | null
+          acknowledged_by_name?: string | null
+          acknowledged_contact_id?: string | null
+          recorded_by?: string | null
+          recorded_by_name?: string | null
+          reminder_count?: number
+          last_reminded_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          alert_id?: string
+          barangay?: string
+          token?: string
+          acknowledged_at?: string | null
+          acknowledged_by_name?: string | null
+          acknowledged_contact_id?: string | null
+          recorded_by?: string | null
+          recorded_by_name?: string | null
+          reminder_count?: number
+          last_reminded_at?: string | null
+          created_at?: string
+        }
+      }
+      tropical_cyclones: {
+        Row: {
+          id: string
+          name: string
+          international_name: string | null
+          status: 'active' | 'ended'
+          alert_id: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+          ended_at: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          international_name?: string | null
+          status?: 'active' | 'ended'
+          alert_id?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          ended_at?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          international_name?: string | null
+          status?: 'active' | 'ended'
+          alert_id?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          ended_at?: string | null
+        }
+      }
+      cyclone_bulletins: {
+        Row: {
+          id: string
+          cyclone_id: string
+          bulletin_number: number
+          issued_at: string
+          category: 'TD' | 'TS' | 'STS' | 'TY' | 'STY'
+          center_lat: number | null
+          center_lng: number | null
+          center_description: string | null
+          max_winds_kph: number | null
+          gusts_kph: number | null
+          movement: string | null
+          signals: Record<string, number>
+          forecast_track: { forecast_at: string; lat: number; lng: number }[]
+          summary: string | null
+          next_bulletin_at: string | null
+          alert_id: string | null
+          created_by: string | null
+          created_by_name: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          cyclone_id: string
+          bulletin_number: number
+          issued_at?: string
+          category: 'TD' | 'TS' | 'STS' | 'TY' | 'STY'
+          center_lat?: number | null
+          center_lng?: number | null
+          center_description?: string | null
+          max_winds_kph?: number | null
+          gusts_kph?: number | null
+          movement?: string | null
+          signals?: Record<string, number>
+          forecast_track?: { forecast_at: string; lat: number; lng: number }[]
+          summary?: string | null
+          next_bulletin_at?: string | null
+          alert_id?: string | null
+          created_by?: string | null
+          created_by_name?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          cyclone_id?: string
+          bulletin_number?: number
+          issued_at?: string
+          category?: 'TD' | 'TS' | 'STS' | 'TY' | 'STY'
+          center_lat?: number | null
+          center_lng?: number | null
+          center_description?: string | null
+          max_winds_kph?: number | null
+          gusts_kph?: number | null
+          movement?: string | null
+          signals?: Record<string, number>
+          forecast_track?: { forecast_at: string; lat: number; lng: number }[]
+          summary?: string | null
+          next_bulletin_at?: string | null
+          alert_id?: string | null
+          created_by?: string | null
+          created_by_name?: string | null
+          created_at?: string
+        }
+      }
+      volcano_bulletins: {
+        Row: {
+          id: string
+          alert_level: number
+          issued_at: string
+          volcanic_earthquakes: number | null
+          rockfall_events: number | null
+          pdc_events: number | null
+          so2_flux_tonnes: number | null
+          plume_height_m: number | null
+          plume_drift: string | null
+          observations: string | null
+          recommendations: string | null
+          alert_id: string | null
+          created_by: string | null
+          created_by_name: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          alert_level: number
+          issued_at?: string
+          volcanic_earthquakes?: number | null
+          rockfall_events?: number | null
+          pdc_events?: number | null
+          so2_flux_tonnes?: number | null
+          plume_height_m?: number | null
+          plume_drift?: string | null
+          observations?: string | null
+          recommendations?: string | null
+          alert_id?: string | null
+          created_by?: string | null
+          created_by_name?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          alert_level?: number
+          issued_at?: string
+          volcanic_earthquakes?: number | null
+          rockfall_events?: number | null
+          pdc_events?: number | null
+          so2_flux_tonnes?: number | null
+          plume_height_m?: number | null
+          plume_drift?: string | null
+          observations?: string | null
+          recommendations?: string | null
+          alert_id?: string | null
+          created_by?: string | null
+          created_by_name?: string | null
+          created_at?: string
+        }
+      }
+      volcano_danger_zones: {
+        Row: {
+          barangay: string
+          zone: 'permanent' | 'extended'
+          notes: string | null
+          updated_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          barangay: string
+          zone: 'permanent' | 'extended'
+          notes?: string | null
+          updated_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          barangay?: string
+          zone?: 'permanent' | 'extended'
+          notes?: string | null
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
+      earthquake_events: {
+        Row: {
+          id: string
+          source_id: string
+          magnitude: number
+          magnitude_type: string | null
+          depth_km: number | null
+          latitude: number
+          longitude: number
+          place: string | null
+          occurred_at: string
+          distance_km: number
+          intensity_reports: { place: string; intensity: number }[]
+          max_intensity: number | null
+          is_nearby: boolean
+          url: string | null
+          alert_id: string | null
+          drafted_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          source_id: string
+          magnitude: number
+          magnitude_type?: string | null
+          depth_km?: number | null
+          latitude: number
+          longitude: number
+          place?: string | null
+          occurred_at: string
+          distance_km: number
+          intensity_reports?: { place: string; intensity: number }[]
+          max_intensity?: number | null
+          is_nearby?: boolean
+          url?: string | null
+          alert_id?: string | null
+          drafted_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          source_id?: string
+          magnitude?: number
+          magnitude_type?: string | null
+          depth_km?: number | null
+          latitude?: number
+          longitude?: number
+          place?: string | null
+          occurred_at?: string
+          distance_km?: number
+          intensity_reports?: { place: string; intensity: number }[]
+          max_intensity?: number | null
+          is_nearby?: boolean
+          url?: string | null
+          alert_id?: string | null
+          drafted_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      incident_escalations: {
+        Row: {
+          id: string
+          incident_id: string
+          breach_type: 'acknowledge' | 'resolve'
+          urgency: 'LOW' | 'MEDIUM' | 'HIGH'
+          due_at: string
+          created_at: string
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          acknowledged_by_name: string | null
+        }
+        Insert: {
+          id?: string
+          incident_id: string
+          breach_type: 'acknowledge' | 'resolve'
+          urgency: 'LOW' | 'MEDIUM' | 'HIGH'
+          due_at: string
+          created_at?: string
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          acknowledged_by_name?: string | null
+        }
+        Update: {
+          id?: string
+          incident_id?: string
+          breach_type?: 'acknowledge' | 'resolve'
+          urgency?: 'LOW' | 'MEDIUM' | 'HIGH'
+          due_at?: string
+          created_at?: string
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          acknowledged_by_name?: string | null
+        }
+      }
+      response_teams: {
+        Row: {
+          id: string
+          name: string
+          unit_type: 'rescue' | 'medical' | 'fire' | 'police' | 'maritime' | 'engineering' | 'other'
+          contact_number: string | null
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          unit_type?: 'rescue' | 'medical' | 'fire' | 'police' | 'maritime' | 'engineering' | 'other'
+          contact_number?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          unit_type?: 'rescue' | 'medical' | 'fire' | 'police' | 'maritime' | 'engineering' | 'other'
+          contact_number?: string | null
+          is_active?: boolean
+          created_at?: string
           updated_at?: string
         }
       }
@@ -4,11 +4,18 @@ import { HelmetProvider } from 'react-helmet-async';
 import App from './App.tsx';
 import './index.css';
 import { initializeModernAnimations } from './utils/modernAnimations';
+import { production } from './utils/production';
 
 // Initialize modern animations
 document.addEventListener('DOMContentLoaded', () => {
   initializeModernAnimations();
 });
+
+// Offline caching and Background Sync for queued incident reports
+if (import.meta.env.PROD) {
+  production.registerServiceWorker();
+}
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <HelmetProvider>
@@ -7,6 +7,8 @@ import { useAuth } from '../../contexts/AuthContext';
 import Analytics from '../../components/Analytics';
 import SocialMediaFeed from '../../components/SocialMediaFeed';
 import SystemStatus from '../../components/SystemStatus';
+import { IncidentStatusIcon } from '../../components/incidents/IncidentStatusBadge';
+import IncidentEscalationsPanel from '../../components/incidents/IncidentEscalationsPanel';
 import { 
   Newspaper, 
   Shield, 
@@ -14,7 +16,6 @@ import {
   Users, 
   TrendingUp,
   Clock,
-  CheckCircle,
   XCircle,
   FileText,
   Download,
@@ -50,8 +51,8 @@ const Dashboard: React.FC = () => {
       change: '+15%'
     },
     {
-      title: 'Pending Reports',
-      value: incidents.filter(i => i.status === 'pending').length,
+      title: 'New Reports',
+      value: incidents.filter(i => i.status === 'received').length,
       icon: Clock,
       color: 'bg-yellow-500',
       change: '-3%'
@@ -91,6 +92,9 @@ const Dashboard: React.FC = () => {
         ))}
       </div>
 
+      {/* SLA Escalations */}
+      <IncidentEscalationsPanel />
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Weather Widget */}
         {/*<WeatherWidget />*/}
@@ -121,9 +125,7 @@ const Dashboard: React.FC = () => {
                       }`}>
                         {incident.urgency}
                       </span>
-                      {incident.status === 'pending' && <Clock className="h-4 w-4 text-yellow-500" />}
-                      {incident.status === 'resolved' && <CheckCircle className="h-4 w-4 text-green-500" />}
-                      {incident.status === 'in-progress' && <AlertTriangle className="h-4 w-4 text-blue-500" />}
+                      <IncidentStatusIcon status={incident.status} />
                     </div>
                   </div>
                 ))}
@@ -217,7 +219,7 @@ const Dashboard: React.FC = () => {
       {/* Quick Actions */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h2>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           <Link to="/admin/pages" className="p-4 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-left block">
             <FileText className="h-8 w-8 text-purple-500 mb-2" />
             <h3 className="font-medium text-gray-900">Create New Page</h3>
@@ -233,6 +235,11 @@ const Dashboard: React.FC = () => {
             <h3 className="font-medium text-gray-900">Review Reports</h3>
             <p className="text-sm text-gray-600">Check incident reports</p>
           </Link>
+          <Link to="/admin/incidents/analytics" className="p-4 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-left block">
+            <BarChart3 className="h-8 w-8 text-blue-500 mb-2" />
+            <h3 className="font-medium text-gray-900">Incident Analytics</h3>
+            <p className="text-sm text-gray-600">Trends by type, barangay and time</p>
+          </Link>
         </div>
       </div>
 
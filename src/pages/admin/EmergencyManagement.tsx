@@ -1,5 +1,41 @@
 import React, { useState } from 'react';
-import { supabase } from '../../lib/supabase';
+import { supabase, type Database } from '../../lib/supabase';
+import { databaseManager } from '../../lib/database';
+import { useAuth } from '../../contexts/AuthContext';
+import { RealtimeManager } from '../../utils/realtime';
+import { getAlertState, getCapFeedUrl, getNextAlertTransition } from '../../utils/emergencyAlerts';
+import AlertAreaPicker from '../../components/alerts/AlertAreaPicker';
+import AlertDeliveryLog from '../../components/alerts/AlertDeliveryLog';
+import AlertContactsManager from '../../components/alerts/AlertContactsManager';
+import AlertTemplateManager from '../../components/alerts/AlertTemplateManager';
+import AlertApprovalRecord from '../../components/alerts/AlertApprovalRecord';
+import AlertAcknowledgementBoard from '../../components/alerts/AlertAcknowledgementBoard';
+import AlertWordingFields from '../../components/alerts/AlertWordingFields';
+import TropicalCycloneManager from '../../components/cyclones/TropicalCycloneManager';
+import VolcanoMonitor from '../../components/volcano/VolcanoMonitor';
+import { ALERT_CHANNELS, dispatchAlert } from '../../utils/alertDispatch';
+import {
+  extractTemplateVariables,
+  fillTemplate,
+  getAutomaticTemplateValues,
+  getMissingVariables,
+  getTemplateVariable
+} from '../../utils/alertTemplates';
+import {
+  ALERT_APPROVAL_SETTING_KEY,
+  describeAlertApprovalRule,
+  notifyAlertApproval,
+  parseAlertApprovalRule,
+  requiresAlertApproval
+} from '../../utils/alertApproval';
+import {
+  ALERT_LANGUAGES,
+  cleanTranslations,
+  getAllAlertTexts,
+  getTranslationStatus,
+  hasIncompleteTranslation
+} from '../../utils/alertLanguages';
+import type { AlertTranslations, EmergencyAlertChanges } from '../../types';
 import { 
   AlertTriangle, 
   Zap, 
@@ -11,44 +47,175 @@ import {
   Users,
   TrendingUp,
   Plus,
-  X
+  X,
+  CalendarClock,
+  History,
+  Edit,
+  Rss,
+  FileText,
+  ShieldCheck,
+  CheckCircle,
+  XCircle,
+  Undo2,
+  ClipboardCheck,
+  Wind,
+  Mountain,
+  Trash2
 } from 'lucide-react';
 
 interface EmergencyAlert {
   id: string;
-  type: 'typhoon' | 'earthquake' | 'flood' | 'fire' | 'landslide' | 'tsunami' | 'general';
+  type: 'typhoon' | 'earthquake' | 'flood' | 'fire' | 'landslide' | 'tsunami' | 'volcano' | 'general';
   severity: 'low' | 'medium' | 'high' | 'critical';
   title: string;
   message: string;
   location: string;
   issued_at: string;
-  status: 'draft' | 'active' | 'expired' | 'cancelled';
+  issues_at: string | null;
+  expires_at: string | null;
+  status: 'draft' | 'pending_approval' | 'rejected' | 'scheduled' | 'active' | 'expired' | 'cancelled';
   channels: string[];
   priority: 1 | 2 | 3 | 4 | 5;
   show_on_frontend: boolean;
+  revision: number;
+  target_barangays: string[];
+  translations: AlertTranslations;
+  approval_requested_by: string | null;
+  approval_requested_by_name: string | null;
+  approval_requested_at: string | null;
+  approved_by_name: string | null;
+  approved_at: string | null;
+  rejection_reason: string | null;
+  pending_changes: EmergencyAlertChanges | null;
 }
 
+type EmergencyAlertRow = Omit<EmergencyAlert, 'location'> & { location: string | null };
+
+type AlertTemplate = Database['public']['Tables']['alert_templates']['Row'];
+
+const transformAlert = (alert: EmergencyAlertRow): EmergencyAlert => ({
+  id: alert.id,
+  type: alert.type,
+  severity: alert.severity,
+  title: alert.title,
+  message: alert.message,
+  location: alert.location || 'Municipality-wide',
+  issued_at: alert.issued_at,
+  issues_at: alert.issues_at,
+  expires_at: alert.expires_at,
+  status: alert.status,
+  channels: alert.channels || ['social-media'],
+  priority: alert.priority || 3,
+  show_on_frontend: alert.show_on_frontend !== false,
+  revision: alert.revision || 1,
+  target_barangays: alert.target_barangays || [],
+  translations: alert.translations || {},
+  approval_requested_by: alert.approval_requested_by ?? null,
+  approval_requested_by_name: alert.approval_requested_by_name ?? null,
+  approval_requested_at: alert.approval_requested_at ?? null,
+  approved_by_name: alert.approved_by_name ?? null,
+  approved_at: alert.approved_at ?? null,
+  rejection_reason: alert.rejection_reason ?? null,
+  pending_changes: alert.pending_changes ?? null
+});
+
+const EMPTY_ALERT: Partial<EmergencyAlert> = {
+  type: 'general',
+  severity: 'medium',
+  title: '',
+  message: '',
+  location: '',
+  channels: ['social-media'],
+  priority: 3,
+  show_on_frontend: true,
+  issues_at: '',
+  expires_at: '',
+  target_barangays: [],
+  translations: {}
+};
+
+// datetime-local inputs hold local time without a zone
+const toIsoOrNull = (value?: string | null) => (value ? new Date(value).toISOString() : null);
+
+const toLocalInputValue = (value?: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const APPROVAL_STATUS_LABELS: Partial<Record<EmergencyAlert['status'], { label: string; color: string }>> = {
+  pending_approval: { label: 'Awaiting Approval', color: 'bg-yellow-100 text-yellow-800' },
+  rejected: { label: 'Rejected', color: 'bg-red-100 text-red-800' },
+  draft: { label: 'Withdrawn', color: 'bg-gray-100 text-gray-700' }
+};
+
+const PENDING_CHANGES_LABEL = { label: 'Changes Awaiting Approval', color: 'bg-yellow-100 text-yellow-800' };
+
+const isAwaitingReview = (alert: EmergencyAlert) => alert.status === 'pending_approval' || alert.pending_changes !== null;
+
+// What the alert will say once its pending changes are approved
+const withPendingChanges = (alert: EmergencyAlert): EmergencyAlert => ({ ...alert, ...alert.pending_changes } as EmergencyAlert);
+
 const EmergencyManagement: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'alerts' | 'create' | 'history' | 'settings'>('alerts');
+  const { user } = useAuth();
+  const [activeTab, setActiveTab] = useState<'alerts' | 'history' | 'contacts' | 'templates' | 'cyclones' | 'volcano'>('alerts');
   const [alerts, setAlerts] = useState<EmergencyAlert[]>([]);
   const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
   
   const [isCreating, setIsCreating] = useState(false);
-  const [newAlert, setNewAlert] = useState<Partial<EmergencyAlert>>({
-    type: 'general',
-    severity: 'medium',
-    title: '',
-    message: '',
-    location: '',
-    channels: ['social-media'],
-    priority: 3,
-    show_on_frontend: true
-  });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deliveryLogAlert, setDeliveryLogAlert] = useState<EmergencyAlert | null>(null);
+  const [approvalRecordAlert, setApprovalRecordAlert] = useState<EmergencyAlert | null>(null);
+  const [acknowledgementAlert, setAcknowledgementAlert] = useState<EmergencyAlert | null>(null);
+  const [approvalRule, setApprovalRule] = useState(() => parseAlertApprovalRule(null));
+  const [newAlert, setNewAlert] = useState<Partial<EmergencyAlert>>(EMPTY_ALERT);
+  const [templates, setTemplates] = useState<AlertTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
 
   React.useEffect(() => {
     fetchAlerts();
+
+    // The alert scheduler and other admins change alerts while this page is open
+    const subscription = RealtimeManager.subscribe('emergency_alerts', (payload) => {
+      if (payload.eventType === 'DELETE') {
+        setAlerts(prev => prev.filter(a => a.id !== payload.old.id));
+        return;
+      }
+      const updated = transformAlert(payload.new as EmergencyAlertRow);
+      setAlerts(prev => prev.some(a => a.id === updated.id)
+        ? prev.map(a => a.id === updated.id ? updated : a)
+        : [updated, ...prev]);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  React.useEffect(() => {
+    databaseManager.getSetting(ALERT_APPROVAL_SETTING_KEY)
+      .then(setting => {
+        if (setting) setApprovalRule(parseAlertApprovalRule(setting.setting_value));
+      })
+      .catch(error => console.error('Error loading alert approval rule:', error));
   }, []);
 
+  // Templates may have been edited in the Templates tab since the last time
+  React.useEffect(() => {
+    if (!isCreating || editingId) return;
+    databaseManager.getAlertTemplates()
+      .then(data => setTemplates(data.filter(template => template.is_active)))
+      .catch(error => console.error('Error fetching alert templates:', error));
+  }, [isCreating, editingId]);
+
+  // Re-evaluate scheduled and expiring alerts when their time comes
+  React.useEffect(() => {
+    const delay = getNextAlertTransition(alerts, now);
+    if (delay === null) return;
+    const timer = setTimeout(() => setNow(Date.now()), delay + 1000);
+    return () => clearTimeout(timer);
+  }, [alerts, now]);
+
   const fetchAlerts = async () => {
     try {
       const { data, error } = await supabase
@@ -60,29 +227,30 @@ const EmergencyManagement: React.FC = () => {
         throw error;
       }
       
-      const transformedData = (data || []).map(alert => ({
-        id: alert.id,
-        type: alert.type,
-        severity: alert.severity,
-        title: alert.title,
-        message: alert.message,
-        location: alert.location || 'Municipality-wide',
-        issued_at: alert.issued_at,
-        status: alert.status,
-        channels: alert.channels || ['social-media'],
-        priority: alert.priority || 3,
-        show_on_frontend: alert.show_on_frontend !== false
-      }));
-      
-      setAlerts(transformedData);
+      setAlerts((data || []).map(transformAlert));
+      setNow(Date.now());
     } catch (error) {
       console.error('Error fetching emergency alerts:', error);
     } finally {
       setLoading(false);
     }
   };
+  const alertsWithState = alerts.map(a => ({ ...a, status: getAlertState(a, now) }));
+  const activeAlerts = alertsWithState.filter(a => a.status === 'active');
+  const scheduledAlerts = alertsWithState
+    .filter(a => a.status === 'scheduled')
+    .sort((a, b) => new Date(a.issues_at || 0).getTime() - new Date(b.issues_at || 0).getTime());
+  const pastAlerts = alertsWithState.filter(a => a.status === 'expired' || a.status === 'cancelled');
+  // Drafted automatically (e.g. by the earthquake feed) and never submitted;
+  // withdrawn alerts are drafts too but keep their approval request
+  const draftsToReview = alertsWithState.filter(a => a.status === 'draft' && !a.approval_requested_at);
+  const approvalQueue = alertsWithState
+    .filter(a => a.status === 'pending_approval' || a.status === 'rejected' || (a.status === 'draft' && a.approval_requested_at) ||
+      (a.status === 'active' && a.pending_changes))
+    .sort((a, b) => new Date(b.approval_requested_at || b.issued_at).getTime() - new Date(a.approval_requested_at || a.issued_at).getTime());
+
   const emergencyStats = {
-    activeAlerts: alerts.filter(a => a.status === 'active').length,
+    activeAlerts: activeAlerts.length,
     totalSent: 156,
     avgResponseTime: '3.2 min',
     reachRate: '94.8%'
@@ -95,6 +263,7 @@ const EmergencyManagement: React.FC = () => {
     { id: 'fire', name: 'Fire', icon: '🔥', color: 'bg-orange-600' },
     { id: 'landslide', name: 'Landslide', icon: '⛰️', color: 'bg-amber-600' },
     { id: 'tsunami', name: 'Tsunami', icon: '🌊', color: 'bg-blue-800' },
+    { id: 'volcano', name: 'Volcano', icon: '🌋', color: 'bg-stone-600' },
     { id: 'general', name: 'General Alert', icon: '⚠️', color: 'bg-gray-600' }
   ];
 
@@ -105,70 +274,282 @@ const EmergencyManagement: React.FC = () => {
     { id: 'critical', name: 'Emergency', color: 'bg-red-600 border-4 border-yello-500' }
   ];
 
+  const editingAlert = editingId ? alerts.find(a => a.id === editingId) : undefined;
+  // Once an alert is live its go-live time is fixed; edits go out as CAP Updates
+  const isEditingIssuedAlert = editingAlert !== undefined && editingAlert.status === 'active';
+  // An approved scheduled alert goes back for approval when it changes
+  const needsApproval = requiresAlertApproval(approvalRule, newAlert) ||
+    (editingAlert?.status === 'scheduled' && requiresAlertApproval(approvalRule, editingAlert));
+  // Changes to a live alert that needs approval, before or after them, wait for
+  // a second admin while the alert stays up as it is
+  const needsChangeApproval = isEditingIssuedAlert && (needsApproval || requiresAlertApproval(approvalRule, editingAlert));
+
+  // Typed-in values win over the ones taken from the target area and schedule
+  const automaticValues = getAutomaticTemplateValues(newAlert);
+  const variableValues = {
+    ...Object.fromEntries(Object.entries(automaticValues).filter(([, value]) => value)),
+    ...Object.fromEntries(Object.entries(templateValues).filter(([, value]) => value.trim()))
+  };
+  const templateVariables = extractTemplateVariables(...getAllAlertTexts(newAlert));
+  const missingVariables = getMissingVariables(variableValues, ...getAllAlertTexts(newAlert));
+
+  const resetForm = () => {
+    setNewAlert(EMPTY_ALERT);
+    setEditingId(null);
+    setIsCreating(false);
+    setTemplateId('');
+    setTemplateValues({});
+  };
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find(t => t.id === id);
+    if (!template) return;
+
+    setNewAlert({
+      ...newAlert,
+      type: template.type,
+      severity: template.severity,
+      channels: template.channels,
+      title: template.title,
+      message: template.message,
+      translations: template.translations || {}
+    });
+    setTemplateValues({});
+  };
+
+  const handleEditAlert = (alert: EmergencyAlert) => {
+    // Pending changes to a live alert are edited in place of its current content
+    const content = withPendingChanges(alert);
+    // Descriptions generated from the target area are rebuilt on save
+    const isGeneratedLocation = content.location === 'Municipality-wide' ||
+      content.location === content.target_barangays.join(', ');
+    setNewAlert({
+      ...content,
+      location: isGeneratedLocation ? '' : content.location,
+      issues_at: toLocalInputValue(content.issues_at),
+      expires_at: toLocalInputValue(content.expires_at)
+    });
+    setEditingId(alert.id);
+    setIsCreating(true);
+  };
+
   const handleCreateAlert = () => {
     if (!newAlert.title || !newAlert.message) {
       alert('Please fill in all required fields');
       return;
     }
 
+    if (hasIncompleteTranslation(newAlert.translations)) {
+      alert('Each translation needs both a title and a message, or neither');
+      return;
+    }
+
+    if (missingVariables.length > 0) {
+      alert(`Fill in the template variables: ${missingVariables.map(name => getTemplateVariable(name).label).join(', ')}`);
+      return;
+    }
+
+    const targetBarangays = newAlert.target_barangays || [];
+
+    const issuesAt = isEditingIssuedAlert ? null : toIsoOrNull(newAlert.issues_at);
+    const expiresAt = toIsoOrNull(newAlert.expires_at);
+    const isScheduled = issuesAt !== null && new Date(issuesAt).getTime() > Date.now();
+
+    if (expiresAt && new Date(expiresAt).getTime() <= Math.max(Date.now(), issuesAt ? new Date(issuesAt).getTime() : 0)) {
+      alert('The expiry time must be after the alert goes live');
+      return;
+    }
+
+    const alertData = {
+      type: newAlert.type,
+      severity: newAlert.severity,
+      title: fillTemplate(newAlert.title, variableValues),
+      message: fillTemplate(newAlert.message, variableValues),
+      translations: cleanTranslations(Object.fromEntries(Object.entries(newAlert.translations || {}).map(([language, translation]) => [
+        language,
+        { title: fillTemplate(translation?.title || '', variableValues), message: fillTemplate(translation?.message || '', variableValues) }
+      ]))),
+      location: newAlert.location || (targetBarangays.length > 0 ? targetBarangays.join(', ') : 'Municipality-wide'),
+      target_barangays: targetBarangays,
+      expires_at: expiresAt,
+      channels: newAlert.channels || [],
+      priority: newAlert.priority || 3,
+      show_on_frontend: newAlert.show_on_frontend !== false,
+      ...(isEditingIssuedAlert ? {} : {
+        status: needsApproval ? 'pending_approval' : isScheduled ? 'scheduled' : 'active',
+        issues_at: isScheduled ? issuesAt : null
+      })
+    };
+
     const createAlert = async () => {
       try {
-        const { data, error } = await supabase
-          .from('emergency_alerts')
-          .insert([{
-            type: newAlert.type,
-            severity: newAlert.severity,
-            title: newAlert.title,
-            message: newAlert.message,
-            location: newAlert.location || 'Municipality-wide',
-            status: 'active',
-            channels: newAlert.channels || ['social-media'],
-            priority: newAlert.priority || 3,
-            show_on_frontend: newAlert.show_on_frontend !== false
-          }])
-          .select()
-          .single();
+        const { show_on_frontend, ...changes } = alertData;
+        const query = !editingId
+          ? supabase.from('emergency_alerts').insert([alertData])
+          : needsChangeApproval
+          ? supabase.from('emergency_alerts').update({ show_on_frontend, pending_changes: changes }).eq('id', editingId)
+          : supabase.from('emergency_alerts').update(isEditingIssuedAlert ? { ...alertData, pending_changes: null } : alertData).eq('id', editingId);
+        const { data, error } = await query.select().single();
 
         if (error) throw error;
         
-        const transformedAlert = {
-          id: data.id,
-          type: data.type,
-          severity: data.severity,
-          title: data.title,
-          message: data.message,
-          location: data.location,
-          issued_at: data.issued_at,
-          status: data.status,
-          channels: data.channels,
-          priority: data.priority,
-          show_on_frontend: data.show_on_frontend
-        };
-
-        setAlerts(prev => [transformedAlert, ...prev]);
-        setNewAlert({
-          type: 'general',
-          severity: 'medium',
-          title: '',
-          message: '',
-          location: '',
-          channels: ['social-media'],
-          priority: 3,
-          show_on_frontend: true
-        });
-        setIsCreating(false);
-        alert('Emergency alert created successfully!');
+        const transformedAlert = transformAlert(data);
+
+        setAlerts(prev => prev.some(a => a.id === transformedAlert.id)
+          ? prev.map(a => a.id === transformedAlert.id ? transformedAlert : a)
+          : [transformedAlert, ...prev]);
+        resetForm();
+
+        if (isAwaitingReview(transformedAlert)) {
+          const isChange = transformedAlert.status === 'active';
+          // Saving without content changes keeps the original request
+          if (transformedAlert.approval_requested_at === editingAlert?.approval_requested_at) {
+            alert(isChange ? 'Changes saved. They are still waiting for approval.' : 'Alert saved. It is still waiting for approval.');
+            return;
+          }
+          const submitted = isChange
+            ? 'Changes submitted for approval; the alert stays live as it was until they are approved.'
+            : 'Alert submitted for approval.';
+          const result = await notifyAlertApproval({ alertId: transformedAlert.id, event: 'requested' });
+          alert(result.success
+            ? `${submitted} ${result.notified ?? 0} admin${result.notified === 1 ? '' : 's'} notified by email.`
+            : `${submitted} The approvers could not be emailed: ${result.error}`);
+        } else if (transformedAlert.status === 'active') {
+          // Live alerts go out now; scheduled ones are sent by the alert scheduler
+          await sendAlert(transformedAlert.id, editingId ? 'Alert updated and sent to subscribers.' : 'Emergency alert created and sent successfully!');
+        } else {
+          alert(isScheduled ? 'Emergency alert scheduled successfully!' : 'Emergency alert updated successfully!');
+        }
       } catch (error) {
-        console.error('Error creating alert:', error);
-        alert('Error creating alert. Please try again.');
+        console.error('Error saving alert:', error);
+        alert('Error saving alert. Please try again.');
       }
     };
 
     createAlert();
   };
 
+  const sendAlert = async (alertId: string, successMessage: string) => {
+    const result = await dispatchAlert(alertId);
+    const failed = Object.values(result.summary || {}).reduce((total, counts) => total + (counts?.failed || 0), 0);
+    if (!result.success) {
+      alert(`Alert saved, but it could not be sent: ${result.error}`);
+    } else if (failed > 0) {
+      alert(`Alert saved. ${failed} deliver${failed === 1 ? 'y' : 'ies'} failed; see the delivery log to retry.`);
+    } else {
+      alert(successMessage);
+    }
+  };
+
+  const canReview = (alert: EmergencyAlert) =>
+    user?.role === 'admin' && alert.approval_requested_by !== user.id;
+
+  const handleReviewAlert = async (alertToReview: EmergencyAlert, approve: boolean) => {
+    const isChange = alertToReview.pending_changes !== null;
+    let reason: string | undefined;
+    if (approve) {
+      const goesLiveLater = alertToReview.issues_at !== null && new Date(alertToReview.issues_at).getTime() > Date.now();
+      const confirmation = isChange
+        ? 'Approve these changes? The live alert is updated and the update sent to subscribers immediately.'
+        : goesLiveLater
+        ? `Approve this alert? It goes live ${formatDateTime(alertToReview.issues_at as string)}.`
+        : 'Approve this alert? It is issued and sent to subscribers immediately.';
+      if (!window.confirm(confirmation)) return;
+    } else {
+      const input = window.prompt('Why is this alert being rejected? The requester sees this reason.');
+      if (input === null) return;
+      if (!input.trim()) {
+        alert('Give a reason for rejecting the alert');
+        return;
+      }
+      reason = input.trim();
+    }
+
+    try {
+      const reviewed = transformAlert(await databaseManager.reviewEmergencyAlert(alertToReview.id, approve, reason));
+      setAlerts(prev => prev.map(a => a.id === reviewed.id ? reviewed : a));
+
+      notifyAlertApproval({ alertId: reviewed.id, event: 'reviewed' })
+        .then(result => {
+          if (!result.success) console.error('Error notifying the alert requester:', result.error);
+        })
+        .catch(error => console.error('Error notifying the alert requester:', error));
+
+      if (approve && reviewed.status === 'active') {
+        await sendAlert(reviewed.id, isChange ? 'Changes approved and the alert update sent to subscribers.' : 'Alert approved and sent to subscribers.');
+      } else {
+        alert(approve
+          ? 'Alert approved and scheduled.'
+          : isChange
+          ? 'Changes rejected. The alert stays live as it was and the requester has been notified.'
+          : 'Alert rejected. The requester has been notified.');
+      }
+    } catch (error) {
+      console.error('Error reviewing alert:', error);
+      alert((error as { message?: string }).message || 'Error reviewing alert. Please try again.');
+    }
+  };
+
+  // Withdrawn alerts stay as drafts: the approval record refers to them
+  const handleWithdrawAlert = async (alertId: string) => {
+    if (!window.confirm('Withdraw this alert? It is kept as a draft that can be edited and resubmitted.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('emergency_alerts')
+        .update({ status: 'draft' })
+        .eq('id', alertId);
+
+      if (error) throw error;
+
+      setAlerts(prev => prev.map(a => a.id === alertId ? { ...a, status: 'draft' } : a));
+    } catch (error) {
+      console.error('Error withdrawing alert:', error);
+      alert('Error withdrawing alert. Please try again.');
+    }
+  };
+
+  // The live alert stays as it is
+  const handleWithdrawChanges = async (alertId: string) => {
+    if (!window.confirm('Withdraw these changes? The live alert stays as it is.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('emergency_alerts')
+        .update({ pending_changes: null })
+        .eq('id', alertId);
+
+      if (error) throw error;
+
+      setAlerts(prev => prev.map(a => a.id === alertId ? { ...a, pending_changes: null } : a));
+    } catch (error) {
+      console.error('Error withdrawing alert changes:', error);
+      alert('Error withdrawing the changes. Please try again.');
+    }
+  };
+
+  // Never-issued drafts are deleted rather than cancelled, so they stay out of the CAP feed
+  const handleDiscardDraft = async (alertId: string) => {
+    if (!window.confirm('Discard this draft alert? It has not been sent to anyone.')) return;
+
+    try {
+      const { error } = await supabase
+        .from('emergency_alerts')
+        .delete()
+        .eq('id', alertId);
+
+      if (error) throw error;
+
+      setAlerts(prev => prev.filter(a => a.id !== alertId));
+    } catch (error) {
+      console.error('Error discarding draft alert:', error);
+      alert('Error discarding draft alert. Please try again.');
+    }
+  };
+
   const handleCancelAlert = async (alertId: string) => {
-    if (window.confirm('Are you sure you want to cancel this alert?')) {
+    if (window.confirm('Are you sure you want to cancel this alert? A cancellation notice is sent to CAP feed subscribers.')) {
       try {
         const { error } = await supabase
           .from('emergency_alerts')
@@ -199,7 +580,7 @@ const EmergencyManagement: React.FC = () => {
     return `${Math.floor(diffInMinutes / 1440)}d ago`;
   };
 
-  const activeAlerts = alerts.filter(a => a.status === 'active');
+  const formatDateTime = (timestamp: string) => new Date(timestamp).toLocaleString();
 
   return (
     <div className="space-y-6">
@@ -209,13 +590,25 @@ const EmergencyManagement: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900">Emergency Management</h1>
           <p className="text-gray-600">Emergency alert system and monitoring</p>
         </div>
-        <button
-          onClick={() => setIsCreating(true)}
-          className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2"
-        >
-          <Plus size={20} />
-          <span>New Alert</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          <a
+            href={getCapFeedUrl()}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+            title="CAP 1.2 feed for provincial systems and alerting apps"
+          >
+            <Rss size={20} />
+            <span>CAP Feed</span>
+          </a>
+          <button
+            onClick={() => setIsCreating(true)}
+            className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2"
+          >
+            <Plus size={20} />
+            <span>New Alert</span>
+          </button>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -269,86 +662,533 @@ const EmergencyManagement: React.FC = () => {
         </div>
       </div>
 
-      {/* Active Alerts */}
-      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
-        <div className="p-6 border-b border-gray-200">
-          <h3 className="text-lg font-semibold text-gray-900">Active Emergency Alerts</h3>
+      {/* Tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="flex space-x-6">
+          {[
+            { id: 'alerts' as const, label: 'Current Alerts', icon: Bell },
+            { id: 'history' as const, label: `History (${pastAlerts.length})`, icon: History },
+            { id: 'contacts' as const, label: 'Alert Contacts', icon: Users },
+            { id: 'templates' as const, label: 'Templates', icon: FileText },
+            { id: 'cyclones' as const, label: 'Cyclones', icon: Wind },
+            { id: 'volcano' as const, label: 'Mayon', icon: Mountain }
+          ].map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`flex items-center space-x-2 py-3 border-b-2 text-sm font-medium transition-colors ${
+                activeTab === tab.id
+                  ? 'border-red-600 text-red-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <tab.icon size={16} />
+              <span>{tab.label}</span>
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {/* Drafts to Review */}
+      {activeTab === 'alerts' && draftsToReview.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-blue-300">
+          <div className="p-6 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Drafts to Review</h3>
+            <p className="text-sm text-gray-500">
+              Drafted automatically and not sent to anyone. Edit and issue them, or discard them.
+            </p>
+          </div>
+          <div className="divide-y divide-gray-200">
+            {draftsToReview.map((alert) => {
+              const typeConfig = alertTypes.find(t => t.id === alert.type);
+              const severityConfig = severityLevels.find(s => s.id === alert.severity);
+
+              return (
+                <div key={alert.id} className="p-6 flex items-start justify-between">
+                  <div className="flex items-start space-x-3">
+                    <div className={`${typeConfig?.color} text-white p-2 rounded-lg text-lg`}>
+                      {typeConfig?.icon}
+                    </div>
+                    <div>
+                      <div className="flex items-center space-x-2 mb-1">
+                        <h4 className="font-semibold text-gray-900">{alert.title}</h4>
+                        <span className={`${severityConfig?.color} text-white text-xs px-2 py-1 rounded-full font-medium`}>
+                          {severityConfig?.name}
+                        </span>
+                      </div>
+                      <div className="flex items-center space-x-4 text-sm text-gray-600">
+                        <span>Drafted {formatTimeAgo(alert.issued_at)}</span>
+                        <span>Priority: {alert.priority}/5</span>
+                      </div>
+                      <p className="text-gray-700 mt-2 whitespace-pre-line">{alert.message}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={() => handleEditAlert(alert)}
+                      className="text-blue-600 hover:text-blue-800"
+                      title="Edit and Issue"
+                    >
+                      <Edit size={18} />
+                    </button>
+                    <button
+                      onClick={() => handleDiscardDraft(alert.id)}
+                      className="text-red-600 hover:text-red-800"
+                      title="Discard Draft"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
         </div>
-        <div className="p-6">
-          {activeAlerts.length === 0 ? (
-            <div className="text-center py-12">
-              <Bell className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-              <h3 className="text-lg font-medium text-gray-900 mb-2">No Active Alerts</h3>
-              <p className="text-gray-500">All clear! No emergency alerts are currently active.</p>
-            </div>
-          ) : (
-            <div className="space-y-4">
-              {activeAlerts.map((alert) => {
-                const typeConfig = alertTypes.find(t => t.id === alert.type);
-                const severityConfig = severityLevels.find(s => s.id === alert.severity);
+      )}
+
+      {/* Approval Queue */}
+      {activeTab === 'alerts' && approvalQueue.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-yellow-300">
+          <div className="p-6 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Awaiting Approval</h3>
+            <p className="text-sm text-gray-500">
+              Needs a second admin: {describeAlertApprovalRule(approvalRule)}
+            </p>
+          </div>
+          <div className="divide-y divide-gray-200">
+            {approvalQueue.map((alert) => {
+              const proposed = withPendingChanges(alert);
+              const typeConfig = alertTypes.find(t => t.id === proposed.type);
+              const severityConfig = severityLevels.find(s => s.id === proposed.severity);
+              const statusConfig = alert.pending_changes ? PENDING_CHANGES_LABEL : APPROVAL_STATUS_LABELS[alert.status];
+
+              return (
+                <div key={alert.id} className="p-6 flex items-start justify-between">
+                  <div className="flex items-start space-x-3">
+                    <div className={`${typeConfig?.color} text-white p-2 rounded-lg text-lg`}>
+                      {typeConfig?.icon}
+                    </div>
+                    <div>
+                      <div className="flex items-center space-x-2 mb-1">
+                        <h4 className="font-semibold text-gray-900">{proposed.title}</h4>
+                        <span className={`${severityConfig?.color} text-white text-xs px-2 py-1 rounded-full font-medium`}>
+                          {severityConfig?.name}
+                        </span>
+                        <span className={`${statusConfig?.color} text-xs px-2 py-1 rounded-full font-medium`}>
+                          {statusConfig?.label}
+                        </span>
+                      </div>
+                      <div className="flex items-center space-x-4 text-sm text-gray-600">
+                        {alert.approval_requested_at && (
+                          <span>
+                            Submitted by {alert.approval_requested_by_name || 'a deleted user'} {formatTimeAgo(alert.approval_requested_at)}
+                          </span>
+                        )}
+                        <span>Priority: {proposed.priority}/5</span>
+                        {alert.issues_at && (
+                          <span className="flex items-center">
+                            <CalendarClock size={14} className="mr-1" />
+                            Goes live {formatDateTime(alert.issues_at)}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-gray-700 mt-2">{proposed.message}</p>
+                      {alert.pending_changes && (
+                        <p className="text-sm text-gray-500 mt-2">Live now as "{alert.title}" until these changes are approved.</p>
+                      )}
+                      {alert.status === 'rejected' && alert.rejection_reason && (
+                        <p className="text-sm text-red-700 mt-2">Rejected: {alert.rejection_reason}</p>
+                      )}
+                      {isAwaitingReview(alert) && !canReview(alert) && (
+                        <p className="text-sm text-gray-500 mt-2">
+                          {alert.approval_requested_by === user?.id
+                            ? 'Waiting for another admin to review your alert.'
+                            : 'Waiting for an admin to review this alert.'}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    {isAwaitingReview(alert) && canReview(alert) && (
+                      <>
+                        <button
+                          onClick={() => handleReviewAlert(alert, true)}
+                          className="text-green-600 hover:text-green-800"
+                          title="Approve Alert"
+                        >
+                          <CheckCircle size={20} />
+                        </button>
+                        <button
+                          onClick={() => handleReviewAlert(alert, false)}
+                          className="text-red-600 hover:text-red-800"
+                          title="Reject Alert"
+                        >
+                          <XCircle size={20} />
+                        </button>
+                      </>
+                    )}
+                    <button
+                      onClick={() => setApprovalRecordAlert(alert)}
+                      className="text-gray-500 hover:text-gray-700"
+                      title="Approval Record"
+                    >
+                      <ShieldCheck size={18} />
+                    </button>
+                    <button
+                      onClick={() => handleEditAlert(alert)}
+                      className="text-blue-600 hover:text-blue-800"
+                      title={isAwaitingReview(alert) ? 'Edit Alert' : 'Edit and Resubmit'}
+                    >
+                      <Edit size={18} />
+                    </button>
+                    {alert.status !== 'draft' && (
+                      <button
+                        onClick={() => alert.pending_changes ? handleWithdrawChanges(alert.id) : handleWithdrawAlert(alert.id)}
+                        className="text-gray-500 hover:text-gray-700"
+                        title={alert.pending_changes ? 'Withdraw Changes' : 'Withdraw Alert'}
+                      >
+                        <Undo2 size={18} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Active Alerts */}
+      {activeTab === 'alerts' && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Active Emergency Alerts</h3>
+          </div>
+          <div className="p-6">
+            {activeAlerts.length === 0 ? (
+              <div className="text-center py-12">
+                <Bell className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">No Active Alerts</h3>
+                <p className="text-gray-500">All clear! No emergency alerts are currently active.</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {activeAlerts.map((alert) => {
+                  const typeConfig = alertTypes.find(t => t.id === alert.type);
+                  const severityConfig = severityLevels.find(s => s.id === alert.severity);
                 
-                return (
-                  <div key={alert.id} className="border border-red-200 rounded-lg p-6 bg-red-50">
-                    <div className="flex items-start justify-between mb-4">
-                      <div className="flex items-center space-x-3">
-                        <div className={`${typeConfig?.color} text-white p-2 rounded-lg text-lg`}>
-                          {typeConfig?.icon}
-                        </div>
-                        <div>
-                          <div className="flex items-center space-x-2 mb-1">
-                            <h4 className="font-semibold text-gray-900">{alert.title}</h4>
-                            <span className={`${severityConfig?.color} text-white text-xs px-2 py-1 rounded-full font-medium`}>
-                              {severityConfig?.name}
-                            </span>
-                            {alert.show_on_frontend && (
-                              <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
-                                Public
+                  return (
+                    <div key={alert.id} className="border border-red-200 rounded-lg p-6 bg-red-50">
+                      <div className="flex items-start justify-between mb-4">
+                        <div className="flex items-center space-x-3">
+                          <div className={`${typeConfig?.color} text-white p-2 rounded-lg text-lg`}>
+                            {typeConfig?.icon}
+                          </div>
+                          <div>
+                            <div className="flex items-center space-x-2 mb-1">
+                              <h4 className="font-semibold text-gray-900">{alert.title}</h4>
+                              <span className={`${severityConfig?.color} text-white text-xs px-2 py-1 rounded-full font-medium`}>
+                                {severityConfig?.name}
                               </span>
+                              {alert.show_on_frontend && (
+                                <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
+                                  Public
+                                </span>
+                              )}
+                              {alert.revision > 1 && (
+                                <span className="bg-gray-100 text-gray-700 text-xs px-2 py-1 rounded-full">
+                                  Updated ({alert.revision - 1}x)
+                                </span>
+                              )}
+                              {alert.approved_by_name && (
+                                <span className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded-full">
+                                  Approved by {alert.approved_by_name}
+                                </span>
+                              )}
+                              {alert.pending_changes && (
+                                <span className="bg-yellow-100 text-yellow-800 text-xs px-2 py-1 rounded-full">
+                                  Changes awaiting approval
+                                </span>
+                              )}
+                            </div>
+                            {!alert.pending_changes && alert.rejection_reason && (
+                              <p className="text-sm text-red-700 mb-1">Changes rejected: {alert.rejection_reason}</p>
                             )}
-                          </div>
-                          <div className="flex items-center space-x-4 text-sm text-gray-600">
-                            <span>{alert.location}</span>
-                            <span>{formatTimeAgo(alert.issued_at)}</span>
-                            <span>Priority: {alert.priority}/5</span>
+                            <div className="flex items-center space-x-4 text-sm text-gray-600">
+                              <span>{alert.location}</span>
+                              <span>{formatTimeAgo(alert.issued_at)}</span>
+                              <span>Priority: {alert.priority}/5</span>
+                              {alert.expires_at && <span>Expires {formatDateTime(alert.expires_at)}</span>}
+                            </div>
                           </div>
                         </div>
+                        <div className="flex items-center space-x-3">
+                          {alert.show_on_frontend && (
+                            <a
+                              href={getCapFeedUrl(alert.id)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-gray-500 hover:text-gray-700"
+                              title="View CAP Message"
+                            >
+                              <Rss size={18} />
+                            </a>
+                          )}
+                          <button
+                            onClick={() => setDeliveryLogAlert(alert)}
+                            className="text-gray-500 hover:text-gray-700"
+                            title="Delivery Log"
+                          >
+                            <Send size={18} />
+                          </button>
+                          <button
+                            onClick={() => setAcknowledgementAlert(alert)}
+                            className="text-gray-500 hover:text-gray-700"
+                            title="Barangay Acknowledgements"
+                          >
+                            <ClipboardCheck size={18} />
+                          </button>
+                          {alert.approval_requested_at && (
+                            <button
+                              onClick={() => setApprovalRecordAlert(alert)}
+                              className="text-gray-500 hover:text-gray-700"
+                              title="Approval Record"
+                            >
+                              <ShieldCheck size={18} />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleEditAlert(alert)}
+                            className="text-blue-600 hover:text-blue-800"
+                            title="Edit Alert"
+                          >
+                            <Edit size={18} />
+                          </button>
+                          <button
+                            onClick={() => handleCancelAlert(alert.id)}
+                            className="text-red-600 hover:text-red-800"
+                            title="Cancel Alert"
+                          >
+                            <X size={20} />
+                          </button>
+                        </div>
                       </div>
-                      <button
-                        onClick={() => handleCancelAlert(alert.id)}
-                        className="text-red-600 hover:text-red-800"
-                        title="Cancel Alert"
-                      >
-                        <X size={20} />
-                      </button>
-                    </div>
                     
-                    <p className="text-gray-700 mb-4">{alert.message}</p>
+                      <p className="text-gray-700 mb-4">{alert.message}</p>
                     
-                    <div className="flex items-center space-x-2">
-                      <span className="text-sm font-medium text-gray-700">Channels:</span>
-                      {alert.channels.map((channel, index) => (
-                        <span key={index} className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
-                          {channel}
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm font-medium text-gray-700">Channels:</span>
+                        {alert.channels.map((channel, index) => (
+                          <span key={index} className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded-full">
+                            {ALERT_CHANNELS.find(c => c.id === channel)?.name || channel}
+                          </span>
+                        ))}
+                        <span className="text-sm font-medium text-gray-700 pl-4">Languages:</span>
+                        {ALERT_LANGUAGES.map(language => {
+                          const isAvailable = language.id === 'en' ||
+                            getTranslationStatus(alert.translations[language.id]) === 'complete';
+                          return (
+                            <span
+                              key={language.id}
+                              className={`text-xs px-2 py-1 rounded-full ${isAvailable ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-400 line-through'}`}
+                              title={isAvailable ? language.name : `No ${language.name} translation`}
+                            >
+                              {language.shortName}
+                            </span>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Scheduled Alerts */}
+      {activeTab === 'alerts' && scheduledAlerts.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200">
+            <h3 className="text-lg font-semibold text-gray-900">Scheduled Alerts</h3>
+          </div>
+          <div className="divide-y divide-gray-200">
+            {scheduledAlerts.map((alert) => {
+              const typeConfig = alertTypes.find(t => t.id === alert.type);
+              const severityConfig = severityLevels.find(s => s.id === alert.severity);
+
+              return (
+                <div key={alert.id} className="p-6 flex items-start justify-between">
+                  <div className="flex items-start space-x-3">
+                    <div className={`${typeConfig?.color} text-white p-2 rounded-lg text-lg`}>
+                      {typeConfig?.icon}
+                    </div>
+                    <div>
+                      <div className="flex items-center space-x-2 mb-1">
+                        <h4 className="font-semibold text-gray-900">{alert.title}</h4>
+                        <span className={`${severityConfig?.color} text-white text-xs px-2 py-1 rounded-full font-medium`}>
+                          {severityConfig?.name}
+                        </span>
+                      </div>
+                      <div className="flex items-center space-x-4 text-sm text-gray-600">
+                        <span className="flex items-center">
+                          <CalendarClock size={14} className="mr-1" />
+                          Goes live {alert.issues_at ? formatDateTime(alert.issues_at) : 'on the next scheduler run'}
                         </span>
-                      ))}
+                        {alert.expires_at && <span>Expires {formatDateTime(alert.expires_at)}</span>}
+                        {alert.approved_by_name && <span>Approved by {alert.approved_by_name}</span>}
+                      </div>
+                      <p className="text-gray-700 mt-2">{alert.message}</p>
                     </div>
                   </div>
-                );
-              })}
+                  <div className="flex items-center space-x-3">
+                    {alert.approval_requested_at && (
+                      <button
+                        onClick={() => setApprovalRecordAlert(alert)}
+                        className="text-gray-500 hover:text-gray-700"
+                        title="Approval Record"
+                      >
+                        <ShieldCheck size={18} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleEditAlert(alert)}
+                      className="text-blue-600 hover:text-blue-800"
+                      title="Edit Scheduled Alert"
+                    >
+                      <Edit size={18} />
+                    </button>
+                    <button
+                      onClick={() => handleCancelAlert(alert.id)}
+                      className="text-red-600 hover:text-red-800"
+                      title="Cancel Scheduled Alert"
+                    >
+                      <X size={20} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Alert History */}
+      {activeTab === 'history' && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          {loading ? (
+            <div className="p-12 text-center text-gray-500">Loading alerts...</div>
+          ) : pastAlerts.length === 0 ? (
+            <div className="text-center py-12">
+              <History className="mx-auto h-12 w-12 text-gray-400 mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No Past Alerts</h3>
+              <p className="text-gray-500">Expired and cancelled alerts will appear here.</p>
             </div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Alert</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Severity</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issued</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expires</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Deliveries</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {pastAlerts.map((alert) => {
+                  const typeConfig = alertTypes.find(t => t.id === alert.type);
+                  const severityConfig = severityLevels.find(s => s.id === alert.severity);
+
+                  return (
+                    <tr key={alert.id}>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center space-x-2">
+                          <span>{typeConfig?.icon}</span>
+                          <span className="font-medium text-gray-900">{alert.title}</span>
+                        </div>
+                        <div className="text-sm text-gray-500">{alert.location}</div>
+                        {alert.approved_by_name && (
+                          <button
+                            onClick={() => setApprovalRecordAlert(alert)}
+                            className="text-xs text-green-700 hover:text-green-900"
+                          >
+                            Approved by {alert.approved_by_name}
+                          </button>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">{severityConfig?.name}</td>
+                      <td className="px-6 py-4 text-sm text-gray-700">{formatDateTime(alert.issued_at)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-700">{alert.expires_at ? formatDateTime(alert.expires_at) : '—'}</td>
+                      <td className="px-6 py-4">
+                        <span className={`text-xs px-2 py-1 rounded-full font-medium ${
+                          alert.status === 'expired' ? 'bg-gray-100 text-gray-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {alert.status === 'expired' ? 'Expired' : 'Cancelled'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={() => setDeliveryLogAlert(alert)}
+                          className="text-blue-600 hover:text-blue-800 text-sm"
+                        >
+                          View log
+                        </button>
+                        <button
+                          onClick={() => setAcknowledgementAlert(alert)}
+                          className="text-blue-600 hover:text-blue-800 text-sm ml-4"
+                        >
+                          Acknowledgements
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
           )}
         </div>
-      </div>
+      )}
+
+      {activeTab === 'contacts' && <AlertContactsManager />}
+
+      {activeTab === 'templates' && <AlertTemplateManager />}
+
+      {activeTab === 'cyclones' && <TropicalCycloneManager />}
+
+      {activeTab === 'volcano' && <VolcanoMonitor />}
+
+      {deliveryLogAlert && (
+        <AlertDeliveryLog
+          alert={alertsWithState.find(a => a.id === deliveryLogAlert.id) || deliveryLogAlert}
+          onClose={() => setDeliveryLogAlert(null)}
+        />
+      )}
+
+      {approvalRecordAlert && (
+        <AlertApprovalRecord alert={approvalRecordAlert} onClose={() => setApprovalRecordAlert(null)} />
+      )}
+
+      {acknowledgementAlert && (
+        <AlertAcknowledgementBoard
+          alert={alertsWithState.find(a => a.id === acknowledgementAlert.id) || acknowledgementAlert}
+          onClose={() => setAcknowledgementAlert(null)}
+        />
+      )}
 
       {/* Create Alert Modal */}
       {isCreating && (
         <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
-          <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+          <div className="bg-white rounded-lg max-w-5xl w-full max-h-[90vh] overflow-y-auto">
             <div className="p-6 border-b border-gray-200">
               <div className="flex justify-between items-center">
-                <h3 className="text-xl font-semibold text-gray-900">Create Emergency Alert</h3>
+                <h3 className="text-xl font-semibold text-gray-900">
+                  {editingId ? 'Edit Emergency Alert' : 'Create Emergency Alert'}
+                </h3>
                 <button
-                  onClick={() => setIsCreating(false)}
+                  onClick={resetForm}
                   className="text-gray-400 hover:text-gray-600"
                 >
                   <X size={24} />
@@ -357,6 +1197,26 @@ const EmergencyManagement: React.FC = () => {
             </div>
             
             <div className="p-6 space-y-6">
+              {/* Template */}
+              {!editingId && templates.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Start from Template</label>
+                  <select
+                    value={templateId}
+                    onChange={(e) => handleTemplateChange(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  >
+                    <option value="">Blank alert</option>
+                    {templates.map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                  {templates.find(t => t.id === templateId)?.description && (
+                    <p className="text-xs text-gray-500 mt-1">{templates.find(t => t.id === templateId)?.description}</p>
+                  )}
+                </div>
+              )}
+
               {/* Alert Type */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Alert Type</label>
@@ -401,42 +1261,147 @@ const EmergencyManagement: React.FC = () => {
                 </div>
               </div>
 
-              {/* Title */}
+              {/* Priority */}
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Alert Title</label>
-                <input
-                  type="text"
-                  value={newAlert.title || ''}
-                  onChange={(e) => setNewAlert({ ...newAlert, title: e.target.value })}
+                <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+                <select
+                  value={newAlert.priority || 3}
+                  onChange={(e) => setNewAlert({ ...newAlert, priority: Number(e.target.value) as EmergencyAlert['priority'] })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
-                  placeholder="Brief, clear title for the alert"
+                >
+                  {[1, 2, 3, 4, 5].map(priority => (
+                    <option key={priority} value={priority}>{priority}{priority === 5 ? ' (highest)' : priority === 1 ? ' (lowest)' : ''}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Title and Message */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Alert Wording</label>
+                <AlertWordingFields
+                  value={{ title: newAlert.title || '', message: newAlert.message || '', translations: newAlert.translations || {} }}
+                  onChange={(wording) => setNewAlert({ ...newAlert, ...wording })}
                 />
+                <p className="text-xs text-gray-500 mt-1">
+                  SMS, email, push and the CAP feed's main entry use English. Visitors see the banner and alert pages in their chosen language.
+                </p>
               </div>
 
-              {/* Message */}
+              {/* Template Variables */}
+              {templateVariables.length > 0 && (
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {templateVariables.map(name => {
+                      const variable = getTemplateVariable(name);
+                      return (
+                        <div key={name}>
+                          <label className="block text-xs font-medium text-gray-700 mb-1">
+                            {variable.label}
+                            {variable.automatic && <span className="text-gray-400 font-normal"> (from the alert)</span>}
+                          </label>
+                          <input
+                            type="text"
+                            value={templateValues[name] || ''}
+                            onChange={(e) => setTemplateValues({ ...templateValues, [name]: e.target.value })}
+                            placeholder={automaticValues[name] || (name === 'valid_until' ? 'Set Expires At or type a time' : variable.placeholder)}
+                            className={`w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-red-500 ${
+                              missingVariables.includes(name) ? 'border-red-300' : 'border-gray-300'
+                            }`}
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 uppercase mb-1">Preview</p>
+                    <p className="font-semibold text-gray-900">{fillTemplate(newAlert.title || '', variableValues)}</p>
+                    <p className="text-sm text-gray-700 whitespace-pre-line mt-1">{fillTemplate(newAlert.message || '', variableValues)}</p>
+                  </div>
+
+                  {missingVariables.length > 0 && (
+                    <p className="text-sm text-red-600">
+                      Missing: {missingVariables.map(name => getTemplateVariable(name).label).join(', ')}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Target Area */}
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Alert Message</label>
-                <textarea
-                  value={newAlert.message || ''}
-                  onChange={(e) => setNewAlert({ ...newAlert, message: e.target.value })}
-                  rows={4}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
-                  placeholder="Detailed information about the emergency"
+                <label className="block text-sm font-medium text-gray-700 mb-2">Target Area</label>
+                <AlertAreaPicker
+                  value={{ targetBarangays: newAlert.target_barangays || [] }}
+                  onChange={(area) => setNewAlert({ ...newAlert, target_barangays: area.targetBarangays })}
                 />
               </div>
 
               {/* Location */}
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Affected Area</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Area Description</label>
                 <input
                   type="text"
                   value={newAlert.location || ''}
                   onChange={(e) => setNewAlert({ ...newAlert, location: e.target.value })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
-                  placeholder="Specific location or 'Municipality-wide'"
+                  placeholder="Leave empty to use the target area, e.g. 'Coastal barangays'"
                 />
               </div>
 
+              {/* Schedule */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {isEditingIssuedAlert ? (
+                  <p className="text-sm text-gray-600 self-center">
+                    This alert is already live. Saving changes publishes an update to the public banner and CAP feed subscribers.
+                  </p>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Go Live At (Optional)</label>
+                    <input
+                      type="datetime-local"
+                      value={newAlert.issues_at || ''}
+                      onChange={(e) => setNewAlert({ ...newAlert, issues_at: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Leave empty to issue the alert now</p>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Expires At (Optional)</label>
+                  <input
+                    type="datetime-local"
+                    value={newAlert.expires_at || ''}
+                    onChange={(e) => setNewAlert({ ...newAlert, expires_at: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">The alert is taken down automatically at this time</p>
+                </div>
+              </div>
+
+              {/* Channels */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Send Through</label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {ALERT_CHANNELS.map(channel => (
+                    <label key={channel.id} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={(newAlert.channels || []).includes(channel.id)}
+                        onChange={(e) => setNewAlert({
+                          ...newAlert,
+                          channels: e.target.checked
+                            ? [...(newAlert.channels || []), channel.id]
+                            : (newAlert.channels || []).filter(c => c !== channel.id)
+                        })}
+                        className="rounded border-gray-300 text-red-600 focus:ring-red-500 mr-2"
+                      />
+                      {channel.name}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Email and SMS go to the alert contacts for the target area</p>
+              </div>
+
               {/* Show on Frontend */}
               <div>
                 <label className="flex items-center">
@@ -451,11 +1416,30 @@ const EmergencyManagement: React.FC = () => {
                 <p className="text-xs text-gray-500 ml-6">Display this alert on the public website</p>
               </div>
 
+              {/* Approval */}
+              {needsChangeApproval ? (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start space-x-2 text-sm text-yellow-800">
+                  <ShieldCheck size={18} className="flex-shrink-0" />
+                  <span>
+                    Changes to this alert need a second admin's approval ({describeAlertApprovalRule(approvalRule)}).
+                    It stays live as it is until they are approved, and the update is sent then.
+                  </span>
+                </div>
+              ) : needsApproval && !isEditingIssuedAlert && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 flex items-start space-x-2 text-sm text-yellow-800">
+                  <ShieldCheck size={18} className="flex-shrink-0" />
+                  <span>
+                    Alerts at this level need a second admin's approval ({describeAlertApprovalRule(approvalRule)}).
+                    It is issued once approved{newAlert.issues_at ? ', at the go-live time if that is still ahead' : ''}.
+                  </span>
+                </div>
+              )}
+
               {/* Actions */}
               <div className="flex justify-end space-x-3 pt-6 border-t">
                 <button
                   type="button"
-                  onClick={() => setIsCreating(false)}
+                  onClick={resetForm}
                   className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
                 >
                   Cancel
@@ -466,7 +1450,15 @@ const EmergencyManagement: React.FC = () => {
                   className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2"
                 >
                   <AlertTriangle size={16} />
-                  <span>Create Alert</span>
+                  <span>
+                    {needsChangeApproval
+                      ? 'Submit Changes for Approval'
+                      : needsApproval && !isEditingIssuedAlert
+                      ? 'Submit for Approval'
+                      : editingId
+                      ? 'Save Changes'
+                      : newAlert.issues_at && new Date(newAlert.issues_at).getTime() > Date.now() ? 'Schedule Alert' : 'Create Alert'}
+                  </span>
                 </button>
               </div>
             </div>
@@ -0,0 +1,201 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, BarChart3 } from 'lucide-react';
+import { useData } from '../../contexts/DataContext';
+import ChartCard from '../../components/charts/ChartCard';
+import LineChart from '../../components/charts/LineChart';
+import BarChart from '../../components/charts/BarChart';
+import { INCIDENT_TYPE_CHART_COLORS, CHART_PALETTE } from '../../utils/constants';
+import { formatDuration } from '../../utils/incidentMetrics';
+import {
+  ANALYTICS_RANGES,
+  WEEKDAY_LABELS,
+  RESOLUTION_PERCENTILES,
+  filterIncidentsByRange,
+  getTypeTrends,
+  getBarangayTypeMatrix,
+  getHourOfDayDistribution,
+  getDayOfWeekDistribution,
+  getResolutionPercentiles,
+  type AnalyticsRangeId
+} from '../../utils/incidentAnalytics';
+
+const HOUR_LABELS = Array.from({ length: 24 }, (_, hour) => String(hour).padStart(2, '0'));
+
+const getTypeColor = (type: string, index: number) =>
+  INCIDENT_TYPE_CHART_COLORS[type] || CHART_PALETTE[index % CHART_PALETTE.length];
+
+// Cell shading for the barangay × type matrix
+const getMatrixCellColor = (count: number, max: number) => {
+  if (count === 0 || max === 0) return undefined;
+  const alpha = 0.15 + 0.75 * (count / max);
+  return `rgba(220, 38, 38, ${alpha.toFixed(2)})`;
+};
+
+const IncidentAnalytics: React.FC = () => {
+  const { incidents } = useData();
+  const [rangeId, setRangeId] = useState<AnalyticsRangeId>('30d');
+
+  const range = ANALYTICS_RANGES.find(r => r.id === rangeId) || ANALYTICS_RANGES[1];
+  const inRange = useMemo(() => filterIncidentsByRange(incidents, range.days), [incidents, range.days]);
+
+  const trends = useMemo(() => getTypeTrends(incidents, rangeId), [incidents, rangeId]);
+  const matrix = useMemo(() => getBarangayTypeMatrix(inRange), [inRange]);
+  const hourly = useMemo(() => getHourOfDayDistribution(inRange), [inRange]);
+  const weekday = useMemo(() => getDayOfWeekDistribution(inRange), [inRange]);
+  const percentiles = useMemo(() => getResolutionPercentiles(inRange), [inRange]);
+
+  const matrixRows = matrix.rows.filter(row => row.total > 0);
+  const resolvedCount = percentiles[0].count;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+        <div>
+          <Link to="/admin/incidents" className="text-sm text-blue-600 hover:text-blue-800 flex items-center mb-1">
+            <ArrowLeft size={14} className="mr-1" />
+            Incident Reports
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <BarChart3 className="mr-2 text-blue-600" size={28} />
+            Incident Analytics
+          </h1>
+          <p className="text-gray-600">
+            {inRange.length} report(s) in the {range.label.toLowerCase()}, {resolvedCount} resolved
+          </p>
+        </div>
+        <select
+          value={rangeId}
+          onChange={(e) => setRangeId(e.target.value as AnalyticsRangeId)}
+          className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          aria-label="Time range"
+        >
+          {ANALYTICS_RANGES.map(r => (
+            <option key={r.id} value={r.id}>{r.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <ChartCard
+        title="Incidents by Type"
+        description={`Reports per ${range.bucket} for each incident type`}
+        csvRows={() => [
+          ['Period', ...trends.series.map(s => s.type)],
+          ...trends.labels.map((label, index) => [label, ...trends.series.map(s => s.counts[index])])
+        ]}
+      >
+        <LineChart
+          labels={trends.labels}
+          series={trends.series.map((s, index) => ({ name: s.type, values: s.counts, color: getTypeColor(s.type, index) }))}
+        />
+      </ChartCard>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <ChartCard
+          title="Time of Day"
+          description="Reports by hour received"
+          csvRows={() => [['Hour', 'Reports'], ...HOUR_LABELS.map((label, hour) => [`${label}:00`, hourly[hour]])]}
+        >
+          <BarChart labels={HOUR_LABELS} values={hourly} />
+        </ChartCard>
+
+        <ChartCard
+          title="Day of Week"
+          description="Reports by weekday received"
+          csvRows={() => [['Day', 'Reports'], ...WEEKDAY_LABELS.map((label, day) => [label, weekday[day]])]}
+        >
+          <BarChart labels={WEEKDAY_LABELS} values={weekday} color="#7c3aed" />
+        </ChartCard>
+      </div>
+
+      <ChartCard
+        title="Resolution Time Percentiles"
+        description="Time from report to resolution; unresolved reports are excluded"
+        csvRows={() => [
+          ['Group', 'Resolved reports', ...RESOLUTION_PERCENTILES.map(p => `P${p} (minutes)`)],
+          ...percentiles.map(row => [
+            row.label,
+            row.count,
+            ...row.values.map(value => value === null ? null : Math.round(value / 60000))
+          ])
+        ]}
+      >
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Group</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Resolved</th>
+                {RESOLUTION_PERCENTILES.map(p => (
+                  <th key={p} className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">P{p}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {percentiles.map(row => (
+                <tr key={row.label}>
+                  <td className="px-4 py-3 text-sm font-medium text-gray-900">{row.label}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{row.count}</td>
+                  {row.values.map((value, index) => (
+                    <td key={RESOLUTION_PERCENTILES[index]} className="px-4 py-3 text-sm text-gray-900">
+                      {formatDuration(value)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </ChartCard>
+
+      <ChartCard
+        title="Barangay × Incident Type"
+        description="Reports per barangay and type; barangays without reports are hidden here but included in the CSV"
+        csvRows={() => [
+          ['Barangay', ...matrix.types, 'Total'],
+          ...matrix.rows.map(row => [row.barangay, ...row.counts, row.total])
+        ]}
+      >
+        {matrixRows.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Barangay</th>
+                  {matrix.types.map(type => (
+                    <th key={type} className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {type}
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {matrixRows.map(row => (
+                  <tr key={row.barangay} className="border-t border-gray-100">
+                    <td className="px-3 py-2 font-medium text-gray-900 whitespace-nowrap">{row.barangay}</td>
+                    {row.counts.map((count, index) => (
+                      <td
+                        key={matrix.types[index]}
+                        className="px-3 py-2 text-center text-gray-900"
+                        style={{ backgroundColor: getMatrixCellColor(count, matrix.max) }}
+                      >
+                        {count || ''}
+                      </td>
+                    ))}
+                    <td className="px-3 py-2 text-center font-semibold text-gray-900">{row.total}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-gray-500 text-center py-8">No incidents in this period</p>
+        )}
+      </ChartCard>
+    </div>
+  );
+};
+
+export default IncidentAnalytics;
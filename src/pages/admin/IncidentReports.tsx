@@ -1,14 +1,60 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useData } from '../../contexts/DataContext';
-import { Search, Filter, Eye, Trash2, Clock, CheckCircle, AlertTriangle } from 'lucide-react';
+import { databaseManager } from '../../lib/database';
+import { INCIDENT_STATUSES } from '../../utils/constants';
+import { getTimeToDispatch, getTimeToResolve, averageDuration, formatDuration } from '../../utils/incidentMetrics';
+import { flagLikelyDuplicates, findDuplicateCandidates } from '../../utils/incidentDuplicates';
+import IncidentStatusBadge from '../../components/incidents/IncidentStatusBadge';
+import IncidentTimeline from '../../components/incidents/IncidentTimeline';
+import IncidentWorkflowPanel from '../../components/incidents/IncidentWorkflowPanel';
+import ResponseTeamsModal from '../../components/incidents/ResponseTeamsModal';
+import IncidentBarangayView from '../../components/incidents/IncidentBarangayView';
+import IncidentDuplicatesPanel from '../../components/incidents/IncidentDuplicatesPanel';
+import LinkedReportsList from '../../components/incidents/LinkedReportsList';
+import IncidentAttachmentGallery from '../../components/incidents/IncidentAttachmentGallery';
+import IncidentSlaBadge from '../../components/incidents/IncidentSlaBadge';
+import IncidentNotesThread from '../../components/incidents/IncidentNotesThread';
+import VerifiedContactBadge from '../../components/incidents/VerifiedContactBadge';
+import { useIncidentSla } from '../../hooks/useIncidentSla';
+import { useIncidentTypes } from '../../hooks/useIncidentTypes';
+import { compareIncidentPriority } from '../../utils/incidentPriority';
+import type { IncidentAttachment, IncidentStatus, IncidentStatusUpdate, ResponseTeam } from '../../types';
+import type { Database } from '../../lib/supabase';
+import { Search, Eye, Trash2, Clock, CheckCircle, AlertTriangle, Truck, Users, Timer, List, LayoutGrid, Copy, ShieldAlert } from 'lucide-react';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
 
 const IncidentReports: React.FC = () => {
-  const { incidents, updateIncident, deleteIncident } = useData();
+  const { incidents, transitionIncident, mergeIncidents, deleteIncident } = useData();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [urgencyFilter, setUrgencyFilter] = useState('all');
-  const [selectedIncident, setSelectedIncident] = useState<any>(null);
+  const [sortOrder, setSortOrder] = useState<'priority' | 'newest'>('priority');
+  const [selectedIncident, setSelectedIncident] = useState<IncidentReport | null>(null);
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
+  const [statusHistory, setStatusHistory] = useState<IncidentStatusUpdate[]>([]);
+  const [attachments, setAttachments] = useState<IncidentAttachment[]>([]);
+  const [teams, setTeams] = useState<ResponseTeam[]>([]);
+  const [isTeamsModalOpen, setIsTeamsModalOpen] = useState(false);
+  const [viewMode, setViewMode] = useState<'list' | 'barangays'>('list');
+  const { sla, now } = useIncidentSla();
+  const { incidentTypes } = useIncidentTypes({ includeInactive: true });
+
+  useEffect(() => {
+    fetchTeams();
+  }, []);
+
+  const duplicateFlags = useMemo(() => flagLikelyDuplicates(incidents), [incidents]);
+
+  const fetchTeams = async () => {
+    try {
+      const data = await databaseManager.getResponseTeams();
+      setTeams(data);
+    } catch (error) {
+      console.error('Error fetching response teams:', error);
+    }
+  };
 
   const filteredIncidents = incidents.filter(incident => {
     const matchesSearch = 
@@ -23,13 +69,34 @@ const IncidentReports: React.FC = () => {
     return matchesSearch && matchesStatus && matchesUrgency;
   });
 
-  const handleStatusChange = async (id: string, newStatus: string) => {
-    try {
-      await updateIncident(id, { status: newStatus as 'pending' | 'in-progress' | 'resolved' });
-    } catch (error) {
-      console.error('Error updating incident status:', error);
-      alert('Error updating incident status. Please try again.');
-    }
+  if (sortOrder === 'priority') {
+    filteredIncidents.sort(compareIncidentPriority);
+  }
+
+  const avgTimeToDispatch = averageDuration(incidents.map(getTimeToDispatch));
+  const avgTimeToResolve = averageDuration(incidents.map(getTimeToResolve));
+
+  const countByStatus = (statuses: IncidentStatus[]) =>
+    incidents.filter(i => statuses.includes(i.status)).length;
+
+  const getTeamName = (teamId?: string | null) =>
+    teams.find(t => t.id === teamId)?.name || 'Unassigned';
+
+  const handleMerge = async (childIds: string[]) => {
+    if (!selectedIncident) return;
+    await mergeIncidents(selectedIncident.id, childIds);
+  };
+
+  const handleTransition = async (status: IncidentStatus, note: string, teamId: string | null) => {
+    if (!selectedIncident) return;
+
+    await transitionIncident(selectedIncident.id, status, note, teamId);
+    setSelectedIncident(prev => prev && {
+      ...prev,
+      status,
+      assigned_team_id: teamId || prev.assigned_team_id
+    });
+    await fetchStatusHistory(selectedIncident.id);
   };
 
   const handleDelete = async (id: string) => {
@@ -43,24 +110,44 @@ const IncidentReports: React.FC = () => {
     }
   };
 
-  const handleView = (incident: any) => {
+  const handleView = (incident: IncidentReport) => {
     setSelectedIncident(incident);
     setIsViewModalOpen(true);
+    fetchStatusHistory(incident.id);
+    fetchAttachments(incident.id);
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return <Clock className="h-4 w-4 text-yellow-500" />;
-      case 'in-progress':
-        return <AlertTriangle className="h-4 w-4 text-blue-500" />;
-      case 'resolved':
-        return <CheckCircle className="h-4 w-4 text-green-500" />;
-      default:
-        return null;
+  const fetchAttachments = async (incidentId: string) => {
+    setAttachments([]);
+    try {
+      setAttachments(await databaseManager.getIncidentAttachments(incidentId));
+    } catch (error) {
+      console.error('Error fetching incident attachments:', error);
     }
   };
 
+  const fetchStatusHistory = async (incidentId: string) => {
+    try {
+      const history = await databaseManager.getIncidentStatusHistory(incidentId);
+      setStatusHistory(history);
+    } catch (error) {
+      console.error('Error fetching status history:', error);
+      setStatusHistory([]);
+    }
+  };
+
+  // Answers to the type-specific questions, labelled from the type catalog
+  const getExtraDetailRows = (incident: Pick<IncidentReport, 'incident_type' | 'extra_details'>): { label: string; value: string }[] => {
+    const details = incident.extra_details || {};
+    const fields = incidentTypes.find(type => type.name === incident.incident_type)?.extra_fields || [];
+    return Object.entries(details)
+      .filter(([, value]) => value !== null && value !== '')
+      .map(([key, value]) => ({
+        label: fields.find(field => field.key === key)?.label || key.replace(/_/g, ' '),
+        value: typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value)
+      }));
+  };
+
   const getUrgencyColor = (urgency: string) => {
     switch (urgency) {
       case 'HIGH':
@@ -74,25 +161,30 @@ const IncidentReports: React.FC = () => {
     }
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'in-progress':
-        return 'bg-blue-100 text-blue-800';
-      case 'resolved':
-        return 'bg-green-100 text-green-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
-
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900">Incident Reports</h1>
-        <p className="text-gray-600">Manage and track incident reports from the community</p>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Incident Reports</h1>
+          <p className="text-gray-600">Manage and track incident reports from the community</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Link
+            to="/admin/incidents/rejected"
+            className="border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center space-x-2"
+          >
+            <ShieldAlert size={20} />
+            <span>Rejected Submissions</span>
+          </Link>
+          <button
+            onClick={() => setIsTeamsModalOpen(true)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+          >
+            <Users size={20} />
+            <span>Response Teams</span>
+          </button>
+        </div>
       </div>
 
       {/* Stats */}
@@ -112,9 +204,9 @@ const IncidentReports: React.FC = () => {
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-600">Pending</p>
+              <p className="text-sm font-medium text-gray-600">Awaiting Action</p>
               <p className="text-3xl font-bold text-yellow-600">
-                {incidents.filter(i => i.status === 'pending').length}
+                {countByStatus(['received', 'verified'])}
               </p>
             </div>
             <div className="bg-yellow-100 p-3 rounded-lg">
@@ -126,13 +218,13 @@ const IncidentReports: React.FC = () => {
         <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm font-medium text-gray-600">In Progress</p>
+              <p className="text-sm font-medium text-gray-600">Active Response</p>
               <p className="text-3xl font-bold text-blue-600">
-                {incidents.filter(i => i.status === 'in-progress').length}
+                {countByStatus(['dispatched', 'on-scene'])}
               </p>
             </div>
             <div className="bg-blue-100 p-3 rounded-lg">
-              <AlertTriangle className="h-6 w-6 text-blue-600" />
+              <Truck className="h-6 w-6 text-blue-600" />
             </div>
           </div>
         </div>
@@ -142,7 +234,7 @@ const IncidentReports: React.FC = () => {
             <div>
               <p className="text-sm font-medium text-gray-600">Resolved</p>
               <p className="text-3xl font-bold text-green-600">
-                {incidents.filter(i => i.status === 'resolved').length}
+                {countByStatus(['resolved', 'closed'])}
               </p>
             </div>
             <div className="bg-green-100 p-3 rounded-lg">
@@ -152,9 +244,27 @@ const IncidentReports: React.FC = () => {
         </div>
       </div>
 
+      {/* Response Times */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600">Average Time to Dispatch</p>
+            <p className="text-2xl font-bold text-gray-900">{formatDuration(avgTimeToDispatch)}</p>
+          </div>
+          <Timer className="h-6 w-6 text-blue-600" />
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium text-gray-600">Average Time to Resolve</p>
+            <p className="text-2xl font-bold text-gray-900">{formatDuration(avgTimeToResolve)}</p>
+          </div>
+          <Clock className="h-6 w-6 text-green-600" />
+        </div>
+      </div>
+
       {/* Filters */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
             <input
@@ -172,9 +282,9 @@ const IncidentReports: React.FC = () => {
             className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
           >
             <option value="all">All Status</option>
-            <option value="pending">Pending</option>
-            <option value="in-progress">In Progress</option>
-            <option value="resolved">Resolved</option>
+            {INCIDENT_STATUSES.map(status => (
+              <option key={status.id} value={status.id}>{status.name}</option>
+            ))}
           </select>
 
           <select
@@ -188,104 +298,146 @@ const IncidentReports: React.FC = () => {
             <option value="LOW">Low</option>
           </select>
 
-          <div className="text-sm text-gray-600 flex items-center">
-            Total: {filteredIncidents.length} incidents
+          <select
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value as 'priority' | 'newest')}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            title="Priority puts open, urgent and verified-contact reports first"
+          >
+            <option value="priority">Sort: Priority</option>
+            <option value="newest">Sort: Newest</option>
+          </select>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-600">Total: {filteredIncidents.length} incidents</span>
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+              <button
+                onClick={() => setViewMode('list')}
+                className={`p-2 ${viewMode === 'list' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                title="List view"
+              >
+                <List size={16} />
+              </button>
+              <button
+                onClick={() => setViewMode('barangays')}
+                className={`p-2 ${viewMode === 'barangays' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                title="Barangay view"
+              >
+                <LayoutGrid size={16} />
+              </button>
+            </div>
           </div>
         </div>
       </div>
 
+      {/* Incidents by Barangay */}
+      {viewMode === 'barangays' && (
+        <IncidentBarangayView incidents={filteredIncidents} onSelectIncident={handleView} />
+      )}
+
       {/* Incidents Table */}
-      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead className="bg-gray-50 border-b border-gray-200">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Reference
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Reporter
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Incident
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Location
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Urgency
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Status
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Date
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Actions
-                </th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-gray-200">
-              {filteredIncidents.map((incident) => (
-                <tr key={incident.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 text-sm font-medium text-gray-900">
-                    {incident.reference_number || 'N/A'}
-                  </td>
-                  <td className="px-6 py-4">
-                    <div>
-                      <div className="text-sm font-medium text-gray-900">{incident.reporter_name || 'Unknown'}</div>
-                      <div className="text-sm text-gray-500">{incident.contact_number || 'No contact'}</div>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-900">{incident.incident_type || 'Not specified'}</td>
-                  <td className="px-6 py-4 text-sm text-gray-900">{incident.location || 'Not specified'}</td>
-                  <td className="px-6 py-4">
-                    <span className={`px-2 py-1 text-xs rounded-full ${getUrgencyColor(incident.urgency)}`}>
-                      {incident.urgency}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="flex items-center space-x-2">
-                      {getStatusIcon(incident.status)}
-                      <select
-                        value={incident.status}
-                        onChange={(e) => handleStatusChange(incident.id, e.target.value)}
-                        className={`text-xs rounded-full px-2 py-1 border-0 ${getStatusColor(incident.status)}`}
-                      >
-                        <option value="pending">Pending</option>
-                        <option value="in-progress">In Progress</option>
-                        <option value="resolved">Resolved</option>
-                      </select>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 text-sm text-gray-900">
-                    {incident.date_reported ? new Date(incident.date_reported).toLocaleDateString() : 'No date'}
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => handleView(incident)}
-                        className="text-blue-600 hover:text-blue-800"
-                        title="View Details"
-                      >
-                        <Eye size={16} />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(incident.id)}
-                        className="text-red-600 hover:text-red-800"
-                        title="Delete"
-                      >
-                        <Trash2 size={16} />
-                      </button>
-                    </div>
-                  </td>
+      {viewMode === 'list' && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reference
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reporter
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Incident
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Location
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Urgency
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    SLA
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Team
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
                 </tr>
-              ))}
-            </tbody>
-          </table>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredIncidents.map((incident) => (
+                  <tr key={incident.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                      {incident.reference_number || 'N/A'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">{incident.reporter_name || 'Unknown'}</div>
+                        <div className="text-sm text-gray-500">{incident.contact_number || 'No contact'}</div>
+                        {incident.contact_verified_at && <VerifiedContactBadge verifiedAt={incident.contact_verified_at} />}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{incident.incident_type || 'Not specified'}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{incident.location || 'Not specified'}</td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 text-xs rounded-full ${getUrgencyColor(incident.urgency)}`}>
+                        {incident.urgency}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4">
+                      <IncidentStatusBadge status={incident.status} showIcon />
+                      {duplicateFlags[incident.id] && (
+                        <span
+                          className="mt-1 flex items-center text-xs text-orange-700"
+                          title="Same type, place and time as other reports"
+                        >
+                          <Copy size={12} className="mr-1" />
+                          {duplicateFlags[incident.id].length} possible duplicate(s)
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <IncidentSlaBadge incident={incident} sla={sla} now={now} />
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{getTeamName(incident.assigned_team_id)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {incident.date_reported ? new Date(incident.date_reported).toLocaleDateString() : 'No date'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => handleView(incident)}
+                          className="text-blue-600 hover:text-blue-800"
+                          title="View Details"
+                        >
+                          <Eye size={16} />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(incident.id)}
+                          className="text-red-600 hover:text-red-800"
+                          title="Delete"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* View Modal */}
       {isViewModalOpen && selectedIncident && (
@@ -326,7 +478,10 @@ const IncidentReports: React.FC = () => {
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Contact Number</label>
-                  <p className="text-sm text-gray-900">{selectedIncident.contact_number || 'No contact'}</p>
+                  <p className="text-sm text-gray-900 flex items-center gap-2">
+                    {selectedIncident.contact_number || 'No contact'}
+                    {selectedIncident.contact_verified_at && <VerifiedContactBadge verifiedAt={selectedIncident.contact_verified_at} />}
+                  </p>
                 </div>
               </div>
 
@@ -338,6 +493,12 @@ const IncidentReports: React.FC = () => {
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Location</label>
                   <p className="text-sm text-gray-900">{selectedIncident.location || 'Not specified'}</p>
+                  {selectedIncident.latitude != null && selectedIncident.longitude != null && (
+                    <p className="text-xs text-gray-500">
+                      {selectedIncident.latitude.toFixed(6)}, {selectedIncident.longitude.toFixed(6)}
+                      {selectedIncident.location_accuracy != null && ` (±${Math.round(selectedIncident.location_accuracy)} m)`}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -350,9 +511,25 @@ const IncidentReports: React.FC = () => {
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Status</label>
-                  <span className={`inline-block px-2 py-1 text-xs rounded-full ${getStatusColor(selectedIncident.status)}`}>
-                    {selectedIncident.status}
-                  </span>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <IncidentStatusBadge status={selectedIncident.status} showIcon />
+                    <IncidentSlaBadge incident={selectedIncident} sla={sla} now={now} />
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Assigned Team</label>
+                  <p className="text-sm text-gray-900">{getTeamName(selectedIncident.assigned_team_id)}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Time to Dispatch</label>
+                  <p className="text-sm text-gray-900">{formatDuration(getTimeToDispatch(selectedIncident))}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Time to Resolve</label>
+                  <p className="text-sm text-gray-900">{formatDuration(getTimeToResolve(selectedIncident))}</p>
                 </div>
               </div>
 
@@ -363,26 +540,102 @@ const IncidentReports: React.FC = () => {
                 </p>
               </div>
 
-              {selectedIncident.image_url && (
+              {getExtraDetailRows(selectedIncident).length > 0 && (
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Uploaded Image</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Additional Details</label>
+                  <dl className="grid grid-cols-1 sm:grid-cols-2 gap-2 p-3 bg-gray-50 rounded-lg text-sm">
+                    {getExtraDetailRows(selectedIncident).map(row => (
+                      <div key={row.label}>
+                        <dt className="text-gray-500">{row.label}</dt>
+                        <dd className="font-medium text-gray-900">{row.value}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+              )}
+
+              {(attachments.length > 0 || selectedIncident.image_url) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Photos &amp; Videos {attachments.length > 0 && `(${attachments.length})`}
+                  </label>
                   <div className="bg-gray-50 rounded-lg p-4">
-                    <img
-                      src={selectedIncident.image_url}
-                      alt="Incident evidence"
-                      className="w-full max-w-md h-auto rounded-lg shadow-sm"
-                      onError={(e) => {
-                        const target = e.target as HTMLImageElement;
-                        target.style.display = 'none';
-                      }}
+                    <IncidentAttachmentGallery
+                      attachments={attachments}
+                      fallbackImageUrl={selectedIncident.image_url}
                     />
                   </div>
                 </div>
               )}
+
+              {selectedIncident.parent_incident_id && (
+                <div className="bg-orange-50 border-l-4 border-orange-500 p-3 text-sm text-gray-700">
+                  Merged into{' '}
+                  <button
+                    onClick={() => {
+                      const parent = incidents.find(i => i.id === selectedIncident.parent_incident_id);
+                      if (parent) handleView(parent);
+                    }}
+                    className="font-medium text-blue-600 hover:text-blue-800"
+                  >
+                    {incidents.find(i => i.id === selectedIncident.parent_incident_id)?.reference_number || 'parent incident'}
+                  </button>
+                </div>
+              )}
+
+              {!selectedIncident.parent_incident_id && !['duplicate', 'rejected'].includes(selectedIncident.status) && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Possible Duplicates</label>
+                    <IncidentDuplicatesPanel
+                      key={selectedIncident.id}
+                      candidates={findDuplicateCandidates(selectedIncident, incidents)}
+                      onMerge={handleMerge}
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Linked Reports</label>
+                    <LinkedReportsList
+                      reports={incidents.filter(i => i.parent_incident_id === selectedIncident.id)}
+                      onSelect={handleView}
+                    />
+                  </div>
+                </>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Dispatch Workflow</label>
+                <div className="bg-gray-50 rounded-lg p-4">
+                  <IncidentWorkflowPanel
+                    key={`${selectedIncident.id}-${selectedIncident.status}`}
+                    incident={selectedIncident}
+                    teams={teams}
+                    onTransition={handleTransition}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Status Timeline</label>
+                <IncidentTimeline history={statusHistory} teams={teams} />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Notes &amp; Messages</label>
+                <IncidentNotesThread incidentId={selectedIncident.id} />
+              </div>
             </div>
           </div>
         </div>
       )}
+
+      <ResponseTeamsModal
+        isOpen={isTeamsModalOpen}
+        teams={teams}
+        onClose={() => setIsTeamsModalOpen(false)}
+        onTeamsChange={setTeams}
+      />
     </div>
   );
 };
@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ShieldAlert, Trash2, RefreshCw } from 'lucide-react';
+import { databaseManager } from '../../lib/database';
+import { INCIDENT_REJECTION_REASONS } from '../../utils/constants';
+import type { Database } from '../../lib/supabase';
+
+type SubmissionLogEntry = Database['public']['Tables']['incident_submission_log']['Row'];
+
+const getReason = (id: string | null) => INCIDENT_REJECTION_REASONS.find(reason => reason.id === id);
+
+const IncidentSubmissionLog: React.FC = () => {
+  const [entries, setEntries] = useState<SubmissionLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reasonFilter, setReasonFilter] = useState('all');
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    try {
+      setEntries(await databaseManager.getRejectedIncidentSubmissions());
+    } catch (error) {
+      console.error('Error fetching rejected submissions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEntries();
+  }, []);
+
+  const filteredEntries = useMemo(
+    () => reasonFilter === 'all' ? entries : entries.filter(entry => entry.reason === reasonFilter),
+    [entries, reasonFilter]
+  );
+
+  const handleClear = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    if (!window.confirm(`Remove ${ids.length} log entr${ids.length === 1 ? 'y' : 'ies'}?`)) return;
+
+    try {
+      await databaseManager.deleteIncidentSubmissionLogEntries(ids);
+      setEntries(prev => prev.filter(entry => !ids.includes(entry.id)));
+    } catch (error) {
+      console.error('Error clearing submission log:', error);
+      alert('Error clearing log entries. Please try again.');
+    }
+  };
+
+  const formatDetails = (entry: SubmissionLogEntry) => {
+    const details = entry.details || {};
+    const errors = details.errors as Record<string, string> | undefined;
+    return [
+      details.reporter_name ? `Name: ${details.reporter_name}` : null,
+      details.incident_type ? `Type: ${details.incident_type}` : null,
+      errors ? Object.values(errors).join('; ') : null
+    ].filter(Boolean).join(' · ');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+        <div>
+          <Link to="/admin/incidents" className="text-sm text-blue-600 hover:text-blue-800 flex items-center mb-1">
+            <ArrowLeft size={14} className="mr-1" />
+            Incident Reports
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+            <ShieldAlert className="mr-2 text-red-600" size={28} />
+            Rejected Submissions
+          </h1>
+          <p className="text-gray-600">Public reports refused by the server's rate limits and spam checks</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={reasonFilter}
+            onChange={(e) => setReasonFilter(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            aria-label="Reason"
+          >
+            <option value="all">All reasons</option>
+            {INCIDENT_REJECTION_REASONS.map(reason => (
+              <option key={reason.id} value={reason.id}>{reason.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={fetchEntries}
+            className="p-2 text-gray-600 hover:text-gray-900 border border-gray-300 rounded-lg"
+            title="Refresh"
+          >
+            <RefreshCw size={20} />
+          </button>
+          <button
+            onClick={() => handleClear(filteredEntries.map(entry => entry.id))}
+            disabled={filteredEntries.length === 0}
+            className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors flex items-center space-x-2 disabled:opacity-50"
+          >
+            <Trash2 size={16} />
+            <span>Clear shown</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {INCIDENT_REJECTION_REASONS.map(reason => (
+          <button
+            key={reason.id}
+            onClick={() => setReasonFilter(reasonFilter === reason.id ? 'all' : reason.id)}
+            className={`bg-white p-4 rounded-lg shadow-sm border text-left ${
+              reasonFilter === reason.id ? 'border-blue-500' : 'border-gray-200'
+            }`}
+          >
+            <p className="text-sm font-medium text-gray-600">{reason.name}</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {entries.filter(entry => entry.reason === reason.id).length}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="p-12 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+            <p className="text-gray-600 mt-4">Loading rejected submissions...</p>
+          </div>
+        ) : filteredEntries.length === 0 ? (
+          <p className="text-gray-500 text-center py-12">No rejected submissions</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">IP Address</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contact</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredEntries.map(entry => {
+                  const reason = getReason(entry.reason);
+                  return (
+                    <tr key={entry.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm text-gray-900 whitespace-nowrap">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`text-xs px-2 py-1 rounded-full ${reason?.color || 'bg-gray-100 text-gray-800'}`}>
+                          {reason?.name || entry.reason}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm font-mono text-gray-700">{entry.ip_address || '—'}</td>
+                      <td className="px-4 py-3 text-sm font-mono text-gray-700">{entry.contact_number || '—'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-600 max-w-md">
+                        <p className="truncate" title={entry.user_agent || undefined}>{formatDetails(entry) || '—'}</p>
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <button
+                          onClick={() => handleClear([entry.id])}
+                          className="text-red-600 hover:text-red-800"
+                          title="Remove entry"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IncidentSubmissionLog;
@@ -0,0 +1,521 @@
+import React, { useState } from 'react';
+import { Plus, Edit, Trash2, Save, X, Tags, ListChecks } from 'lucide-react';
+import { databaseManager } from '../../lib/database';
+import { useIncidentTypes } from '../../hooks/useIncidentTypes';
+import IncidentTypeIcon from '../../components/incidents/IncidentTypeIcon';
+import { ALERT_TYPES, INCIDENT_EXTRA_FIELD_TYPES, INCIDENT_TYPE_ICONS, URGENCY_LEVELS } from '../../utils/constants';
+import type { IncidentExtraField, IncidentTypeDefinition } from '../../types';
+
+// Select options are edited as a comma-separated string
+type ExtraFieldDraft = Omit<IncidentExtraField, 'options' | 'min'> & { options: string; min: string };
+
+const emptyForm = {
+  name: '',
+  icon: 'AlertTriangle',
+  default_urgency: 'MEDIUM' as IncidentTypeDefinition['default_urgency'],
+  hazard_alert_type: '' as IncidentTypeDefinition['hazard_alert_type'] | '',
+  sort_order: 1,
+  is_active: true
+};
+
+const emptyField: ExtraFieldDraft = { key: '', label: '', type: 'number', required: false, options: '', min: '' };
+
+const toFieldKey = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const toDraft = (field: IncidentExtraField): ExtraFieldDraft => ({
+  ...field,
+  options: (field.options || []).join(', '),
+  min: field.min === undefined ? '' : String(field.min)
+});
+
+const fromDraft = (draft: ExtraFieldDraft): IncidentExtraField => {
+  const field: IncidentExtraField = {
+    key: draft.key || toFieldKey(draft.label),
+    label: draft.label.trim(),
+    type: draft.type,
+    required: draft.required
+  };
+  if (draft.type === 'select') {
+    field.options = draft.options.split(',').map(option => option.trim()).filter(Boolean);
+  }
+  if (draft.type === 'number' && draft.min !== '') {
+    field.min = Number(draft.min);
+  }
+  return field;
+};
+
+const IncidentTypesManagement: React.FC = () => {
+  const { incidentTypes, setIncidentTypes, loading } = useIncidentTypes({ includeInactive: true });
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [fields, setFields] = useState<ExtraFieldDraft[]>([]);
+
+  const updateField = (index: number, updates: Partial<ExtraFieldDraft>) => {
+    setFields(prev => prev.map((field, i) => i === index ? { ...field, ...updates } : field));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const extraFields = fields.filter(field => field.label.trim()).map(fromDraft);
+    const keys = extraFields.map(field => field.key);
+    if (new Set(keys).size !== keys.length) {
+      alert('Each extra question needs a unique key.');
+      return;
+    }
+    if (extraFields.some(field => field.type === 'select' && !field.options?.length)) {
+      alert('Choice list questions need at least one option.');
+      return;
+    }
+
+    const payload = {
+      ...formData,
+      name: formData.name.trim(),
+      hazard_alert_type: formData.hazard_alert_type || null,
+      extra_fields: extraFields
+    };
+
+    try {
+      if (editingId) {
+        const data = await databaseManager.updateIncidentType(editingId, payload);
+        setIncidentTypes(prev => prev.map(type => type.id === editingId ? data : type));
+        alert('Incident type updated successfully!');
+      } else {
+        const data = await databaseManager.createIncidentType(payload);
+        setIncidentTypes(prev => [...prev, data]);
+        alert('Incident type created successfully!');
+      }
+
+      resetForm();
+    } catch (error) {
+      console.error('Error saving incident type:', error);
+      alert(`Error saving incident type: ${(error as Error).message || 'Please try again.'}`);
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setFields([]);
+    setEditingId(null);
+    setIsModalOpen(false);
+  };
+
+  const handleAdd = () => {
+    setFormData({
+      ...emptyForm,
+      sort_order: Math.max(0, ...incidentTypes.map(type => type.sort_order)) + 1
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (type: IncidentTypeDefinition) => {
+    setFormData({
+      name: type.name,
+      icon: type.icon,
+      default_urgency: type.default_urgency,
+      hazard_alert_type: type.hazard_alert_type || '',
+      sort_order: type.sort_order,
+      is_active: type.is_active
+    });
+    setFields(type.extra_fields.map(toDraft));
+    setEditingId(type.id);
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = async (type: IncidentTypeDefinition) => {
+    if (!window.confirm(`Delete "${type.name}"? Existing reports keep their type name. Consider deactivating it instead.`)) {
+      return;
+    }
+
+    try {
+      await databaseManager.deleteIncidentType(type.id);
+      setIncidentTypes(prev => prev.filter(t => t.id !== type.id));
+    } catch (error) {
+      console.error('Error deleting incident type:', error);
+      alert('Error deleting incident type. Please try again.');
+    }
+  };
+
+  const toggleActive = async (type: IncidentTypeDefinition) => {
+    try {
+      const data = await databaseManager.updateIncidentType(type.id, { is_active: !type.is_active });
+      setIncidentTypes(prev => prev.map(t => t.id === type.id ? data : t));
+    } catch (error) {
+      console.error('Error toggling incident type status:', error);
+      alert('Error updating incident type status. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Incident Types</h1>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="text-gray-600 mt-4">Loading incident types...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Incident Types</h1>
+          <p className="text-gray-600">Categories offered on the report form and the extra questions asked for each</p>
+        </div>
+        <button
+          onClick={handleAdd}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+        >
+          <Plus size={20} />
+          <span>Add Type</span>
+        </button>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Total Types</p>
+              <p className="text-3xl font-bold text-gray-900">{incidentTypes.length}</p>
+            </div>
+            <div className="bg-blue-100 p-3 rounded-lg">
+              <Tags className="h-6 w-6 text-blue-600" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Active</p>
+              <p className="text-3xl font-bold text-green-600">
+                {incidentTypes.filter(type => type.is_active).length}
+              </p>
+            </div>
+            <div className="bg-green-100 p-3 rounded-lg">
+              <Tags className="h-6 w-6 text-green-600" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Extra Questions</p>
+              <p className="text-3xl font-bold text-purple-600">
+                {incidentTypes.reduce((sum, type) => sum + type.extra_fields.length, 0)}
+              </p>
+            </div>
+            <div className="bg-purple-100 p-3 rounded-lg">
+              <ListChecks className="h-6 w-6 text-purple-600" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Types Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {incidentTypes.map((type) => {
+          const alertType = ALERT_TYPES.find(t => t.id === type.hazard_alert_type);
+
+          return (
+            <div key={type.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <div className="flex items-start justify-between mb-4">
+                <div className="flex items-center space-x-3">
+                  <div className="bg-red-50 p-3 rounded-lg">
+                    <IncidentTypeIcon name={type.icon} size={24} className="text-red-600" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-gray-900">{type.name}</h3>
+                    <p className="text-sm text-gray-600">Default urgency: {type.default_urgency}</p>
+                    {alertType && (
+                      <p className="text-xs text-gray-500">Hazard: {alertType.icon} {alertType.name}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => handleEdit(type)}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    <Edit size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(type)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+
+              {type.extra_fields.length > 0 && (
+                <ul className="text-sm text-gray-600 mb-4 space-y-1">
+                  {type.extra_fields.map(field => (
+                    <li key={field.key}>
+                      • {field.label}
+                      {field.required && <span className="text-red-500"> *</span>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex items-center justify-between">
+                <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded">
+                  Order: {type.sort_order}
+                </span>
+                <button
+                  onClick={() => toggleActive(type)}
+                  className={`text-xs px-3 py-1 rounded-full transition-colors ${
+                    type.is_active
+                      ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {type.is_active ? 'Active' : 'Inactive'}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold text-gray-900">
+                  {editingId ? 'Edit Incident Type' : 'Add Incident Type'}
+                </h2>
+                <button
+                  onClick={resetForm}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X size={24} />
+                </button>
+              </div>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Icon
+                  </label>
+                  <div className="flex items-center space-x-2">
+                    <select
+                      value={formData.icon}
+                      onChange={(e) => setFormData({ ...formData, icon: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      {INCIDENT_TYPE_ICONS.map(icon => (
+                        <option key={icon} value={icon}>{icon}</option>
+                      ))}
+                    </select>
+                    <IncidentTypeIcon name={formData.icon} size={24} className="text-red-600 flex-shrink-0" />
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Default Urgency
+                  </label>
+                  <select
+                    value={formData.default_urgency}
+                    onChange={(e) => setFormData({ ...formData, default_urgency: e.target.value as IncidentTypeDefinition['default_urgency'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {URGENCY_LEVELS.map(level => (
+                      <option key={level} value={level}>{level}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Hazard Alert Type
+                  </label>
+                  <select
+                    value={formData.hazard_alert_type || ''}
+                    onChange={(e) => setFormData({ ...formData, hazard_alert_type: e.target.value as IncidentTypeDefinition['hazard_alert_type'] | '' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">None</option>
+                    {ALERT_TYPES.map(type => (
+                      <option key={type.id} value={type.id}>{type.icon} {type.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Display Order
+                  </label>
+                  <input
+                    type="number"
+                    value={formData.sort_order}
+                    onChange={(e) => setFormData({ ...formData, sort_order: parseInt(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    min="0"
+                    required
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm font-medium text-gray-700">Show on the report form</span>
+              </label>
+
+              {/* Extra questions */}
+              <div className="border-t border-gray-200 pt-4">
+                <div className="flex justify-between items-center mb-2">
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-900">Extra Questions</h3>
+                    <p className="text-xs text-gray-500">Asked on the report form when this type is selected</p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setFields(prev => [...prev, { ...emptyField }])}
+                    className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+                  >
+                    <Plus size={16} className="mr-1" />
+                    Add question
+                  </button>
+                </div>
+
+                {fields.length === 0 ? (
+                  <p className="text-sm text-gray-500">No extra questions</p>
+                ) : (
+                  <div className="space-y-3">
+                    {fields.map((field, index) => (
+                      <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                        <div className="flex items-start space-x-2">
+                          <div className="flex-1">
+                            <input
+                              type="text"
+                              value={field.label}
+                              onChange={(e) => updateField(index, { label: e.target.value })}
+                              placeholder="Question, e.g. Number of persons trapped"
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                              required
+                            />
+                            <p className="text-xs text-gray-500 mt-1">
+                              Key: {field.key || toFieldKey(field.label) || '—'}
+                            </p>
+                          </div>
+                          <select
+                            value={field.type}
+                            onChange={(e) => updateField(index, { type: e.target.value as IncidentExtraField['type'] })}
+                            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                          >
+                            {INCIDENT_EXTRA_FIELD_TYPES.map(type => (
+                              <option key={type.id} value={type.id}>{type.name}</option>
+                            ))}
+                          </select>
+                          <button
+                            type="button"
+                            onClick={() => setFields(prev => prev.filter((_, i) => i !== index))}
+                            className="text-red-600 hover:text-red-800 p-2"
+                            aria-label="Remove question"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-4">
+                          <label className="flex items-center text-sm">
+                            <input
+                              type="checkbox"
+                              checked={field.required}
+                              onChange={(e) => updateField(index, { required: e.target.checked })}
+                              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                            />
+                            <span className="ml-2 text-gray-700">Required</span>
+                          </label>
+
+                          {field.type === 'select' && (
+                            <input
+                              type="text"
+                              value={field.options}
+                              onChange={(e) => updateField(index, { options: e.target.value })}
+                              placeholder="Options, separated by commas"
+                              className="flex-1 px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                            />
+                          )}
+
+                          {field.type === 'number' && (
+                            <label className="flex items-center text-sm text-gray-700">
+                              Minimum
+                              <input
+                                type="number"
+                                value={field.min}
+                                onChange={(e) => updateField(index, { min: e.target.value })}
+                                className="ml-2 w-20 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                              />
+                            </label>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4">
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
+                >
+                  <Save size={16} />
+                  <span>{editingId ? 'Update' : 'Create'}</span>
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IncidentTypesManagement;
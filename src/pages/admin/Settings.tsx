@@ -1,6 +1,11 @@
 import React, { useState } from 'react';
-import { Save, Upload, Globe, Bell, Shield, Database } from 'lucide-react';
+import { Save, Upload, Globe, Bell, Shield, Database, Timer, ShieldCheck, Activity } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { URGENCY_LEVELS, SEVERITY_LEVELS } from '../../utils/constants';
+import { parseIncidentSlaSettings, INCIDENT_SLA_SETTING_KEY } from '../../utils/incidentSla';
+import { parseAlertApprovalRule, describeAlertApprovalRule, ALERT_APPROVAL_SETTING_KEY } from '../../utils/alertApproval';
+import { parseEarthquakeFeedSettings, EARTHQUAKE_FEED_SETTING_KEY, type EarthquakeFeedSettings } from '../../utils/earthquakes';
+import type { AlertApprovalRule, IncidentSlaSettings, IncidentSlaTarget } from '../../types';
 
 const Settings: React.FC = () => {
   const [settings, setSettings] = useState({
@@ -16,6 +21,9 @@ const Settings: React.FC = () => {
     backupFrequency: 'daily'
   });
 
+  const [slaSettings, setSlaSettings] = useState<IncidentSlaSettings>(() => parseIncidentSlaSettings(null));
+  const [approvalRule, setApprovalRule] = useState<AlertApprovalRule>(() => parseAlertApprovalRule(null));
+  const [earthquakeFeed, setEarthquakeFeed] = useState<EarthquakeFeedSettings>(() => parseEarthquakeFeedSettings(null));
   const [activeTab, setActiveTab] = useState('general');
 
   React.useEffect(() => {
@@ -36,6 +44,18 @@ const Settings: React.FC = () => {
         const settingsObj: any = {};
         data.forEach(setting => {
           const value = setting.setting_value;
+          if (setting.setting_key === INCIDENT_SLA_SETTING_KEY) {
+            setSlaSettings(parseIncidentSlaSettings(value));
+            return;
+          }
+          if (setting.setting_key === ALERT_APPROVAL_SETTING_KEY) {
+            setApprovalRule(parseAlertApprovalRule(value));
+            return;
+          }
+          if (setting.setting_key === EARTHQUAKE_FEED_SETTING_KEY) {
+            setEarthquakeFeed(parseEarthquakeFeedSettings(value));
+            return;
+          }
           settingsObj[setting.setting_key] = typeof value === 'string' ? 
             JSON.parse(value) : value;
         });
@@ -60,7 +80,10 @@ const Settings: React.FC = () => {
         { key: 'enablePublicReporting', value: settings.enablePublicReporting, type: 'boolean', public: false },
         { key: 'maintenanceMode', value: settings.maintenanceMode, type: 'boolean', public: false },
         { key: 'autoBackup', value: settings.autoBackup, type: 'boolean', public: false },
-        { key: 'backupFrequency', value: settings.backupFrequency, type: 'string', public: false }
+        { key: 'backupFrequency', value: settings.backupFrequency, type: 'string', public: false },
+        { key: INCIDENT_SLA_SETTING_KEY, value: slaSettings, type: 'json', public: false },
+        { key: ALERT_APPROVAL_SETTING_KEY, value: approvalRule, type: 'json', public: false },
+        { key: EARTHQUAKE_FEED_SETTING_KEY, value: parseEarthquakeFeedSettings(earthquakeFeed), type: 'json', public: false }
       ];
 
       for (const setting of settingsToSave) {
@@ -87,9 +110,20 @@ const Settings: React.FC = () => {
     }
   };
 
+  const updateSlaTarget = (level: keyof IncidentSlaSettings, field: keyof IncidentSlaTarget, value: string) => {
+    const minutes = parseInt(value, 10);
+    setSlaSettings(prev => ({
+      ...prev,
+      [level]: { ...prev[level], [field]: Number.isFinite(minutes) && minutes > 0 ? minutes : 1 }
+    }));
+  };
+
   const tabs = [
     { id: 'general', label: 'General', icon: Globe },
     { id: 'notifications', label: 'Notifications', icon: Bell },
+    { id: 'sla', label: 'Incident SLAs', icon: Timer },
+    { id: 'approval', label: 'Alert Approval', icon: ShieldCheck },
+    { id: 'earthquakes', label: 'Earthquake Feed', icon: Activity },
     { id: 'security', label: 'Security', icon: Shield },
     { id: 'backup', label: 'Backup', icon: Database }
   ];
@@ -242,6 +276,167 @@ const Settings: React.FC = () => {
             </div>
           )}
 
+          {activeTab === 'sla' && (
+            <div className="space-y-6">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">Incident SLA Targets</h3>
+                <p className="text-sm text-gray-500">
+                  Minutes from the time a report is received. Breaches raise a persistent alert in the admin panel
+                  and are listed on the Dashboard until acknowledged.
+                </p>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Urgency</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Acknowledge within (min)</th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Resolve within (min)</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {[...URGENCY_LEVELS].reverse().map(level => (
+                      <tr key={level}>
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">{level}</td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="number"
+                            min={1}
+                            value={slaSettings[level].acknowledge_minutes}
+                            onChange={(e) => updateSlaTarget(level, 'acknowledge_minutes', e.target.value)}
+                            className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <input
+                            type="number"
+                            min={1}
+                            value={slaSettings[level].resolve_minutes}
+                            onChange={(e) => updateSlaTarget(level, 'resolve_minutes', e.target.value)}
+                            className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'approval' && (
+            <div className="space-y-6">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">Alert Approval</h3>
+                <p className="text-sm text-gray-500">
+                  Emergency alerts at or above either threshold are held until a second admin approves them.
+                  The person who submitted an alert can't approve it.
+                </p>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900">Require Two-Person Approval</h4>
+                  <p className="text-sm text-gray-500">Currently: {describeAlertApprovalRule(approvalRule)}</p>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={approvalRule.enabled}
+                    onChange={(e) => setApprovalRule({ ...approvalRule, enabled: e.target.checked })}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                </label>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Minimum Severity</label>
+                  <select
+                    value={approvalRule.min_severity ?? ''}
+                    onChange={(e) => setApprovalRule({
+                      ...approvalRule,
+                      min_severity: (e.target.value || null) as AlertApprovalRule['min_severity']
+                    })}
+                    disabled={!approvalRule.enabled}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                  >
+                    <option value="">No severity threshold</option>
+                    {SEVERITY_LEVELS.map(level => (
+                      <option key={level.id} value={level.id}>{level.name} or higher</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Minimum Priority</label>
+                  <select
+                    value={approvalRule.min_priority ?? ''}
+                    onChange={(e) => setApprovalRule({
+                      ...approvalRule,
+                      min_priority: (e.target.value ? Number(e.target.value) : null) as AlertApprovalRule['min_priority']
+                    })}
+                    disabled={!approvalRule.enabled}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+                  >
+                    <option value="">No priority threshold</option>
+                    {[1, 2, 3, 4, 5].map(priority => (
+                      <option key={priority} value={priority}>{priority} or higher</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'earthquakes' && (
+            <div className="space-y-6">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">Earthquake Feed</h3>
+                <p className="text-sm text-gray-500">
+                  Earthquakes are read from this feed every few minutes. Quakes within the radius and at or above the
+                  magnitude are shown on the public site, and new ones get a draft alert in Emergency Management for review.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Feed URL</label>
+                <input
+                  type="url"
+                  value={earthquakeFeed.feed_url}
+                  onChange={(e) => setEarthquakeFeed({ ...earthquakeFeed, feed_url: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">A GeoJSON feed in the USGS summary format</p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Radius from Pio Duran (km)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={earthquakeFeed.radius_km}
+                    onChange={(e) => setEarthquakeFeed({ ...earthquakeFeed, radius_km: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Minimum Magnitude</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={earthquakeFeed.min_magnitude}
+                    onChange={(e) => setEarthquakeFeed({ ...earthquakeFeed, min_magnitude: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+
           {activeTab === 'security' && (
             <div className="space-y-6">
               <h3 className="text-lg font-medium text-gray-900">Security Settings</h3>
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { CheckCircle, AlertTriangle, ClipboardCheck } from 'lucide-react';
+import SEOHead from '../../components/SEOHead';
+import { databaseManager } from '../../lib/database';
+import { getLocalizedAlert } from '../../utils/alertLanguages';
+import { useVisitorLanguage } from '../../hooks/useVisitorLanguage';
+import { sanitizeInput } from '../../utils/validation';
+import type { AlertAcknowledgementLink } from '../../types';
+
+// Opened from the link in the email or SMS a barangay focal person receives
+// with an alert. The token identifies the barangay, the contact parameter
+// the focal person.
+const AcknowledgeAlert: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [searchParams] = useSearchParams();
+  const contactId = searchParams.get('contact');
+  const [language] = useVisitorLanguage();
+  const [link, setLink] = useState<AlertAcknowledgementLink | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    databaseManager.getAlertAcknowledgementLink(token)
+      .then(data => {
+        if (!cancelled) setLink(data);
+      })
+      .catch(fetchError => console.error('Error loading acknowledgement link:', fetchError))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleAcknowledge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !contactId) return;
+
+    setIsSubmitting(true);
+    setError('');
+    try {
+      setLink(await databaseManager.acknowledgeAlert(token, contactId, name));
+    } catch (acknowledgeError) {
+      console.error('Error acknowledging alert:', acknowledgeError);
+      setError((acknowledgeError as { message?: string }).message || 'Unable to record your acknowledgement. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const text = link ? getLocalizedAlert(link.alert, language) : null;
+
+  return (
+    <>
+      <SEOHead
+        title="Acknowledge Emergency Alert"
+        description="Barangay focal persons confirm receipt of MDRRMO Pio Duran emergency alerts here."
+      />
+
+      <div className="bg-white min-h-screen pt-20">
+        <div className="container mx-auto px-4 py-12">
+          <div className="max-w-2xl mx-auto">
+            <div className="text-center mb-8">
+              <div className="inline-flex items-center justify-center w-16 h-16 bg-yellow-500 rounded-full mb-6">
+                <ClipboardCheck className="text-blue-950" size={32} />
+              </div>
+              <h1 className="text-3xl md:text-4xl font-bold text-blue-950 mb-4">Acknowledge Alert</h1>
+              <div className="w-24 h-1 bg-gradient-to-r from-yellow-400 to-yellow-600 mx-auto rounded-full"></div>
+            </div>
+
+            {loading ? (
+              <p className="text-center text-gray-500 py-8">Loading alert...</p>
+            ) : !link || !contactId ? (
+              <div className="bg-red-50 border-l-4 border-red-500 p-4 flex items-start">
+                <AlertTriangle className="text-red-500 mr-3 mt-1" size={20} />
+                <p className="text-sm text-gray-700">
+                  This acknowledgement link is not valid. Use the link from the latest message you received, or
+                  confirm by radio or call the MDRRMO hotline.
+                </p>
+              </div>
+            ) : (
+              <div className="bg-gray-50 rounded-2xl p-6 md:p-8 shadow-lg border border-gray-200 space-y-6">
+                <div>
+                  <p className="text-sm text-gray-500">For {link.barangay}</p>
+                  <h2 lang={text!.language} className="text-xl font-bold text-blue-950 mt-1">{text!.title}</h2>
+                  <p lang={text!.language} className="text-gray-700 whitespace-pre-line mt-2">{text!.message}</p>
+                  <p className="text-xs text-gray-500 mt-3">Issued {new Date(link.alert.issued_at).toLocaleString()}</p>
+                </div>
+
+                {link.acknowledged_at ? (
+                  <div className="bg-green-50 border-l-4 border-green-500 p-4 flex items-start">
+                    <CheckCircle className="text-green-600 mr-3 mt-0.5" size={20} />
+                    <p className="text-sm text-gray-700">
+                      {link.barangay} acknowledged this alert
+                      {link.acknowledged_by_name && <> through {link.acknowledged_by_name}</>} on{' '}
+                      {new Date(link.acknowledged_at).toLocaleString()}. Thank you.
+                    </p>
+                  </div>
+                ) : (
+                  <form onSubmit={handleAcknowledge} className="space-y-4">
+                    <div>
+                      <label className="block text-gray-700 font-medium mb-2">Your Name</label>
+                      <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(sanitizeInput(e.target.value))}
+                        placeholder="Leave blank to use the name on file"
+                        className="w-full px-4 py-3 border border-gray-300 rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent"
+                      />
+                    </div>
+
+                    {error && <p className="text-red-600 text-sm">{error}</p>}
+
+                    <button
+                      type="submit"
+                      disabled={isSubmitting}
+                      className="w-full bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-400 hover:to-yellow-500 text-blue-950 font-bold py-3 px-6 rounded-lg transition-all duration-300 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <CheckCircle size={20} />
+                      <span>{isSubmitting ? 'Recording...' : `Confirm ${link.barangay} Received This Alert`}</span>
+                    </button>
+                  </form>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AcknowledgeAlert;
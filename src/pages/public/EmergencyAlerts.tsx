@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { AlertTriangle, Clock, Languages, MapPin, Rss, Wind } from 'lucide-react';
+import SEOHead from '../../components/SEOHead';
+import AlertNotificationSettings from '../../components/alerts/AlertNotificationSettings';
+import { supabase } from '../../lib/supabase';
+import { ALERT_TYPES, SEVERITY_LEVELS } from '../../utils/constants';
+import { getAlertState, getCapFeedUrl } from '../../utils/emergencyAlerts';
+import { ALERT_LANGUAGES, getLocalizedAlert } from '../../utils/alertLanguages';
+import { useVisitorLanguage } from '../../hooks/useVisitorLanguage';
+import type { AlertLanguage, EmergencyAlert } from '../../types';
+
+type PublicAlert = Pick<
+  EmergencyAlert,
+  'id' | 'type' | 'severity' | 'title' | 'message' | 'location' | 'issued_at' | 'expires_at' | 'status' | 'target_barangays' | 'translations'
+>;
+
+const ALERT_COLUMNS = 'id, type, severity, title, message, location, issued_at, expires_at, status, target_barangays, translations';
+
+const SEVERITY_STYLES: Record<PublicAlert['severity'], string> = {
+  critical: 'border-red-600 bg-red-50',
+  high: 'border-orange-500 bg-orange-50',
+  medium: 'border-yellow-500 bg-yellow-50',
+  low: 'border-blue-600 bg-blue-50'
+};
+
+// Live alerts, and the one a notification links to at /alerts/:id
+const EmergencyAlerts: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [alerts, setAlerts] = useState<PublicAlert[]>([]);
+  const [linkedAlert, setLinkedAlert] = useState<PublicAlert | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [language, setLanguage] = useVisitorLanguage();
+
+  useEffect(() => {
+    const fetchAlerts = async () => {
+      setLoading(true);
+      try {
+        const [liveResult, linkedResult] = await Promise.all([
+          supabase
+            .from('emergency_alerts')
+            .select(ALERT_COLUMNS)
+            .eq('status', 'active')
+            .eq('show_on_frontend', true)
+            .order('issued_at', { ascending: false }),
+          id
+            ? supabase.from('emergency_alerts').select(ALERT_COLUMNS).eq('id', id).maybeSingle()
+            : Promise.resolve({ data: null, error: null })
+        ]);
+        if (liveResult.error) throw liveResult.error;
+        if (linkedResult.error) throw linkedResult.error;
+
+        setAlerts((liveResult.data || []) as PublicAlert[]);
+        setLinkedAlert(linkedResult.data as PublicAlert | null);
+      } catch (error) {
+        console.error('Error fetching emergency alerts:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAlerts();
+  }, [id]);
+
+  const renderAlert = (alert: PublicAlert, isLinked = false) => {
+    const state = getAlertState(alert);
+    const type = ALERT_TYPES.find(t => t.id === alert.type);
+    const severity = SEVERITY_LEVELS.find(s => s.id === alert.severity);
+    const text = getLocalizedAlert(alert, language);
+
+    return (
+      <article
+        key={alert.id}
+        className={`rounded-2xl border-l-8 p-6 shadow-lg ${SEVERITY_STYLES[alert.severity]} ${isLinked ? 'ring-2 ring-yellow-500' : ''}`}
+      >
+        <div className="flex flex-wrap items-center gap-2 mb-2">
+          <span className={`${severity?.color || 'bg-gray-600'} text-white text-xs font-bold px-2 py-1 rounded-full uppercase`}>
+            {severity?.name || alert.severity}
+          </span>
+          <span className="text-sm text-gray-700">{type?.icon} {type?.name || alert.type}</span>
+          {state !== 'active' && (
+            <span className="bg-gray-200 text-gray-700 text-xs font-medium px-2 py-1 rounded-full">
+              {state === 'expired' ? 'No longer in effect' : 'Cancelled'}
+            </span>
+          )}
+        </div>
+        <h2 lang={text.language} className="text-xl font-bold text-blue-950 mb-2">{text.title}</h2>
+        <p lang={text.language} className="text-gray-800 whitespace-pre-line mb-4">{text.message}</p>
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600">
+          <span className="flex items-center">
+            <MapPin size={14} className="mr-1" />
+            {alert.target_barangays?.length ? alert.target_barangays.join(', ') : alert.location || 'Municipality-wide'}
+          </span>
+          <span className="flex items-center">
+            <Clock size={14} className="mr-1" />
+            Issued {new Date(alert.issued_at).toLocaleString()}
+            {alert.expires_at && ` · until ${new Date(alert.expires_at).toLocaleString()}`}
+          </span>
+        </div>
+      </article>
+    );
+  };
+
+  const otherAlerts = alerts.filter(alert => alert.id !== linkedAlert?.id);
+
+  return (
+    <>
+      <SEOHead
+        title={linkedAlert ? getLocalizedAlert(linkedAlert, language).title : 'Emergency Alerts'}
+        description="Current emergency alerts from MDRRMO Pio Duran and alert notification settings."
+      />
+
+      <div className="bg-white min-h-screen pt-20">
+        <div className="container mx-auto px-4 py-12">
+          <div className="max-w-3xl mx-auto space-y-8">
+            <div className="text-center">
+              <div className="inline-flex items-center justify-center w-16 h-16 bg-yellow-500 rounded-full mb-6">
+                <AlertTriangle className="text-blue-950" size={32} />
+              </div>
+              <h1 className="text-3xl md:text-4xl font-bold text-blue-950 mb-6">Emergency Alerts</h1>
+              <div className="w-24 h-1 bg-gradient-to-r from-yellow-400 to-yellow-600 mx-auto rounded-full mb-6"></div>
+              <div className="flex items-center justify-center gap-6">
+                <a
+                  href={getCapFeedUrl()}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center text-sm text-gray-600 hover:text-blue-950"
+                >
+                  <Rss size={14} className="mr-1" />
+                  CAP alert feed
+                </a>
+                <Link to="/tropical-cyclone" className="inline-flex items-center text-sm text-gray-600 hover:text-blue-950">
+                  <Wind size={14} className="mr-1" />
+                  Cyclone tracker
+                </Link>
+                <label className="inline-flex items-center text-sm text-gray-600">
+                  <Languages size={14} className="mr-1" />
+                  <select
+                    value={language}
+                    onChange={(e) => setLanguage(e.target.value as AlertLanguage)}
+                    className="bg-transparent focus:outline-none cursor-pointer"
+                    aria-label="Alert language"
+                  >
+                    {ALERT_LANGUAGES.map(option => (
+                      <option key={option.id} value={option.id}>{option.name}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+
+            {loading ? (
+              <p className="text-center text-gray-500">Loading alerts...</p>
+            ) : (
+              <>
+                {id && !linkedAlert && (
+                  <p className="bg-gray-50 border-l-4 border-gray-400 p-4 text-sm text-gray-700">
+                    This alert is no longer available. Current alerts are listed below.
+                  </p>
+                )}
+                {linkedAlert && renderAlert(linkedAlert, true)}
+
+                {otherAlerts.length > 0 ? (
+                  <div className="space-y-4">
+                    {linkedAlert && <h2 className="text-lg font-semibold text-blue-950">Other Current Alerts</h2>}
+                    {otherAlerts.map(alert => renderAlert(alert))}
+                  </div>
+                ) : !linkedAlert && (
+                  <p className="text-center text-gray-600">
+                    There are no emergency alerts in effect. <Link to="/" className="text-blue-700 hover:underline">Back to home</Link>
+                  </p>
+                )}
+              </>
+            )}
+
+            <AlertNotificationSettings />
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default EmergencyAlerts;
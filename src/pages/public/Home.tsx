@@ -16,26 +16,31 @@ import HotlineModal from '../../components/modals/HotlineModal';
 import SuccessModal from '../../components/modals/SuccessModal';
 import { useData } from '../../contexts/DataContext';
 import { validateIncidentForm } from '../../utils/validation';
+import { IncidentSubmissionError } from '../../utils/incidentSubmission';
 
 const Home: React.FC = () => {
   const [isIncidentModalOpen, setIsIncidentModalOpen] = useState(false);
   const [isHotlineModalOpen, setIsHotlineModalOpen] = useState(false);
   const [isSuccessModalOpen, setIsSuccessModalOpen] = useState(false);
   const [referenceNumber, setReferenceNumber] = useState('');
+  const [isQueued, setIsQueued] = useState(false);
   
   const { addIncident } = useData();
 
   const handleIncidentSubmit = (formData: any) => {
     // Add incident to data context
     addIncident(formData)
-      .then((refNum) => {
-        setReferenceNumber(refNum || `RD-${new Date().getFullYear()}-${String(Math.floor(Math.random() * 9999) + 1).padStart(4, '0')}`);
+      .then((result) => {
+        setReferenceNumber(result.referenceNumber);
+        setIsQueued(result.status === 'queued');
         setIsIncidentModalOpen(false);
         setIsSuccessModalOpen(true);
       })
       .catch((error) => {
         console.error('Error submitting incident:', error);
-        alert('Error submitting incident report. Please try again.');
+        alert(error instanceof IncidentSubmissionError
+          ? error.message
+          : 'Error submitting incident report. Please try again.');
       });
   };
 
@@ -74,6 +79,7 @@ const Home: React.FC = () => {
         isOpen={isSuccessModalOpen}
         onClose={() => setIsSuccessModalOpen(false)}
         referenceNumber={referenceNumber}
+        isQueued={isQueued}
       />
     </>
   );
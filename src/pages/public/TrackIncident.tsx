@@ -0,0 +1,239 @@
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Search, AlertTriangle, MapPin } from 'lucide-react';
+import SEOHead from '../../components/SEOHead';
+import { databaseManager } from '../../lib/database';
+import IncidentStatusBadge, { IncidentStatusIcon } from '../../components/incidents/IncidentStatusBadge';
+import { validateRequired, validatePhone, sanitizeInput } from '../../utils/validation';
+import type { IncidentTrackingResult } from '../../types';
+
+const TrackIncident: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [formData, setFormData] = useState({
+    referenceNumber: searchParams.get('ref') || '',
+    contactNumber: ''
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSearching, setIsSearching] = useState(false);
+  const [result, setResult] = useState<IncidentTrackingResult | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: sanitizeInput(value) }));
+
+    if (errors[name]) {
+      setErrors(prev => ({ ...prev, [name]: '' }));
+    }
+  };
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!validateRequired(formData.referenceNumber)) {
+      newErrors.referenceNumber = 'Reference number is required';
+    }
+
+    if (!validateRequired(formData.contactNumber)) {
+      newErrors.contactNumber = 'Contact number is required';
+    } else if (!validatePhone(formData.contactNumber)) {
+      newErrors.contactNumber = 'Please enter a valid phone number';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateForm()) return;
+
+    setIsSearching(true);
+    setNotFound(false);
+    setResult(null);
+
+    try {
+      const data = await databaseManager.trackIncident(formData.referenceNumber, formData.contactNumber);
+      if (data) {
+        setResult(data);
+      } else {
+        setNotFound(true);
+      }
+    } catch (error) {
+      console.error('Error tracking incident:', error);
+      setErrors({ form: 'Unable to look up your report right now. Please try again later.' });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <>
+      <SEOHead
+        title="Track Your Incident Report"
+        description="Check the status of an incident report submitted to MDRRMO Pio Duran using your reference number."
+      />
+
+      <div className="bg-white min-h-screen pt-20">
+        <div className="container mx-auto px-4 py-12">
+          <div className="max-w-3xl mx-auto">
+            {/* Header Section */}
+            <div className="text-center mb-12">
+              <div className="inline-flex items-center justify-center w-16 h-16 bg-yellow-500 rounded-full mb-6">
+                <Search className="text-blue-950" size={32} />
+              </div>
+              <h1 className="text-3xl md:text-4xl font-bold text-blue-950 mb-6">Track Your Report</h1>
+              <div className="w-24 h-1 bg-gradient-to-r from-yellow-400 to-yellow-600 mx-auto rounded-full mb-6"></div>
+              <p className="text-lg text-gray-600 max-w-2xl mx-auto leading-relaxed">
+                Enter the reference number you received and the contact number you used when reporting.
+              </p>
+            </div>
+
+            {/* Lookup Form */}
+            <form onSubmit={handleSubmit} className="bg-gray-50 rounded-2xl p-6 md:p-8 shadow-lg border border-gray-200 space-y-6">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-gray-700 font-medium mb-2">Reference Number</label>
+                  <input
+                    type="text"
+                    name="referenceNumber"
+                    value={formData.referenceNumber}
+                    onChange={handleInputChange}
+                    placeholder="RD-2025-0001"
+                    className={`w-full px-4 py-3 border rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent ${
+                      errors.referenceNumber ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.referenceNumber && (
+                    <p className="text-red-500 text-sm mt-1">{errors.referenceNumber}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-gray-700 font-medium mb-2">Contact Number</label>
+                  <input
+                    type="tel"
+                    name="contactNumber"
+                    value={formData.contactNumber}
+                    onChange={handleInputChange}
+                    placeholder="09XX XXX XXXX"
+                    className={`w-full px-4 py-3 border rounded-lg text-gray-700 focus:outline-none focus:ring-2 focus:ring-yellow-500 focus:border-transparent ${
+                      errors.contactNumber ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  />
+                  {errors.contactNumber && (
+                    <p className="text-red-500 text-sm mt-1">{errors.contactNumber}</p>
+                  )}
+                </div>
+              </div>
+
+              {errors.form && (
+                <p className="text-red-600 text-sm">{errors.form}</p>
+              )}
+
+              <button
+                type="submit"
+                disabled={isSearching}
+                className="w-full bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-400 hover:to-yellow-500 text-blue-950 font-bold py-3 px-6 rounded-lg transition-all duration-300 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Search size={20} />
+                <span>{isSearching ? 'Searching...' : 'Check Status'}</span>
+              </button>
+            </form>
+
+            {notFound && (
+              <div className="mt-8 bg-red-50 border-l-4 border-red-500 p-4 flex items-start">
+                <AlertTriangle className="text-red-500 mr-3 mt-1" size={20} />
+                <p className="text-sm text-gray-700">
+                  We couldn't find a report matching these details. Please check your reference and contact
+                  number, or call the MDRRMO hotline at 911 for assistance.
+                </p>
+              </div>
+            )}
+
+            {/* Result */}
+            {result && (
+              <div className="mt-8 bg-white rounded-2xl shadow-lg border border-gray-200">
+                <div className="p-6 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div>
+                    <p className="text-sm text-gray-500">Reference Number</p>
+                    <p className="text-xl font-bold text-blue-950">{result.reference_number}</p>
+                  </div>
+                  <IncidentStatusBadge status={result.status} showIcon />
+                </div>
+
+                <div className="p-6 grid md:grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-500">Incident Type</p>
+                    <p className="font-medium text-gray-900">{result.incident_type || 'Not specified'}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Location</p>
+                    <p className="font-medium text-gray-900 flex items-center">
+                      <MapPin className="mr-1 text-gray-400" size={14} />
+                      {result.location || 'Not specified'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Last Updated</p>
+                    <p className="font-medium text-gray-900">{new Date(result.updated_at).toLocaleString()}</p>
+                  </div>
+                </div>
+
+                <div className="p-6 border-t border-gray-200">
+                  <h2 className="text-lg font-semibold text-blue-950 mb-4">Status History</h2>
+                  <ol className="relative border-l-2 border-gray-200 ml-2 space-y-6">
+                    {result.history.map((entry, index) => (
+                      <li key={index} className="ml-6">
+                        <span className="absolute -left-3 flex items-center justify-center w-6 h-6 bg-white rounded-full">
+                          <IncidentStatusIcon status={entry.status} size={20} />
+                        </span>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <IncidentStatusBadge status={entry.status} />
+                          <span className="text-xs text-gray-500">{new Date(entry.created_at).toLocaleString()}</span>
+                        </div>
+                        {entry.public_note && (
+                          <p className="mt-2 text-sm text-gray-700 bg-gray-50 rounded-lg p-3">{entry.public_note}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+
+                {result.messages && result.messages.length > 0 && (
+                  <div className="p-6 border-t border-gray-200">
+                    <h2 className="text-lg font-semibold text-blue-950 mb-4">Messages from MDRRMO</h2>
+                    <ul className="space-y-3">
+                      {result.messages.map((message, index) => (
+                        <li key={index} className="bg-blue-50 rounded-lg p-3">
+                          <p className="text-xs text-gray-500 mb-1">{new Date(message.created_at).toLocaleString()}</p>
+                          <p className="text-sm text-gray-800 whitespace-pre-wrap">{message.body}</p>
+                          {message.attachments.length > 0 && (
+                            <div className="flex flex-wrap gap-2 mt-2">
+                              {message.attachments.map(attachment => (
+                                <a
+                                  key={attachment.path}
+                                  href={attachment.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-xs text-blue-700 hover:text-blue-900 underline"
+                                >
+                                  {attachment.name}
+                                </a>
+                              ))}
+                            </div>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default TrackIncident;
@@ -0,0 +1,260 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Wind, MapPin, Clock, Navigation } from 'lucide-react';
+import SEOHead from '../../components/SEOHead';
+import BarangayGrid from '../../components/incidents/BarangayGrid';
+import CycloneTrackMap from '../../components/cyclones/CycloneTrackMap';
+import { databaseManager } from '../../lib/database';
+import { RealtimeManager } from '../../utils/realtime';
+import { BARANGAYS } from '../../utils/constants';
+import { getVisitorBarangay, setVisitorBarangay } from '../../utils/emergencyAlerts';
+import {
+  WIND_SIGNALS,
+  getBarangaySignal,
+  getCategoryName,
+  getCycloneDisplayName,
+  getHighestSignal,
+  getWindSignal,
+  groupBarangaysBySignal
+} from '../../utils/tropicalCyclones';
+import type { LngLat } from '../../utils/geo';
+import type { CycloneBulletin, TropicalCyclone as Cyclone } from '../../types';
+
+// Public tracker for the cyclone currently affecting Pio Duran, or the one
+// a shared link points to
+const TropicalCyclone: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const [barangay, setBarangay] = useState(() => getVisitorBarangay() || '');
+  const [cyclones, setCyclones] = useState<Cyclone[]>([]);
+  const [bulletins, setBulletins] = useState<CycloneBulletin[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const cyclone = id
+    ? cyclones.find(item => item.id === id) || null
+    : cyclones.find(item => item.status === 'active') || null;
+
+  const fetchCyclones = useCallback(() => {
+    databaseManager.getTropicalCyclones()
+      .then(setCyclones)
+      .catch(error => console.error('Error fetching tropical cyclones:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    fetchCyclones();
+    const subscription = RealtimeManager.subscribe('tropical_cyclones', fetchCyclones);
+    return () => subscription.unsubscribe();
+  }, [fetchCyclones]);
+
+  const cycloneId = cyclone?.id;
+
+  useEffect(() => {
+    if (!cycloneId) {
+      setBulletins([]);
+      return;
+    }
+
+    const fetchBulletins = () => {
+      databaseManager.getCycloneBulletins(cycloneId)
+        .then(data => setBulletins(data as unknown as CycloneBulletin[]))
+        .catch(error => console.error('Error fetching cyclone bulletins:', error));
+    };
+
+    fetchBulletins();
+    const subscription = RealtimeManager.subscribe('cyclone_bulletins', fetchBulletins, { column: 'cyclone_id', value: cycloneId });
+    return () => subscription.unsubscribe();
+  }, [cycloneId]);
+
+  const latest = bulletins[bulletins.length - 1];
+  const signals = latest?.signals ?? {};
+  const signal = getWindSignal(barangay ? getBarangaySignal(signals, barangay) : getHighestSignal(signals));
+  const positions = bulletins
+    .filter(bulletin => bulletin.center_lat !== null && bulletin.center_lng !== null)
+    .map(bulletin => [Number(bulletin.center_lng), Number(bulletin.center_lat)] as LngLat);
+  const fills = Object.fromEntries(BARANGAYS.map(name => [name, getWindSignal(getBarangaySignal(signals, name)).fill]));
+  const pastCyclones = cyclones.filter(item => item.status === 'ended').slice(0, 5);
+
+  return (
+    <>
+      <SEOHead
+        title={cyclone ? `${getCycloneDisplayName(cyclone, latest?.category)} - Wind Signals` : 'Tropical Cyclone Tracker'}
+        description="Tropical Cyclone Wind Signals for each barangay of Pio Duran, with the cyclone track from PAGASA bulletins."
+      />
+
+      <div className="bg-white min-h-screen pt-20">
+        <div className="container mx-auto px-4 py-12">
+          <div className="max-w-5xl mx-auto space-y-8">
+            <div className="text-center">
+              <div className="inline-flex items-center justify-center w-16 h-16 bg-yellow-500 rounded-full mb-6">
+                <Wind className="text-blue-950" size={32} />
+              </div>
+              <h1 className="text-3xl md:text-4xl font-bold text-blue-950 mb-6">Tropical Cyclone Tracker</h1>
+              <div className="w-24 h-1 bg-gradient-to-r from-yellow-400 to-yellow-600 mx-auto rounded-full"></div>
+            </div>
+
+            {loading ? (
+              <p className="text-center text-gray-500">Loading cyclone information...</p>
+            ) : !cyclone ? (
+              <div className="text-center space-y-6">
+                <p className="text-gray-600">
+                  {id
+                    ? 'This cyclone is no longer available.'
+                    : 'No tropical cyclone is affecting Pio Duran right now.'}{' '}
+                  <Link to="/alerts" className="text-blue-700 hover:underline">See current alerts</Link>
+                </p>
+                {pastCyclones.length > 0 && (
+                  <div>
+                    <h2 className="text-lg font-semibold text-blue-950 mb-3">Recent Cyclones</h2>
+                    <ul className="space-y-2">
+                      {pastCyclones.map(item => (
+                        <li key={item.id}>
+                          <Link to={`/tropical-cyclone/${item.id}`} className="text-blue-700 hover:underline">
+                            {getCycloneDisplayName(item)}
+                          </Link>
+                          <span className="text-sm text-gray-500"> · {new Date(item.created_at).toLocaleDateString()}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="text-center">
+                  <h2 className="text-2xl font-bold text-blue-950">{getCycloneDisplayName(cyclone, latest?.category)}</h2>
+                  {cyclone.status === 'ended' && (
+                    <p className="text-sm text-gray-500 mt-1">
+                      No longer tracked since {new Date(cyclone.ended_at || cyclone.updated_at).toLocaleString()}
+                    </p>
+                  )}
+                </div>
+
+                {!latest ? (
+                  <p className="text-center text-gray-600">Waiting for the first PAGASA bulletin on this cyclone.</p>
+                ) : (
+                  <>
+                    <div className={`rounded-2xl p-6 shadow-lg ${signal.className}`}>
+                      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                        <div>
+                          <p className="text-sm font-medium uppercase tracking-wide">
+                            {barangay ? barangay : 'Highest in Pio Duran'}
+                          </p>
+                          <p className="text-4xl font-bold mt-1">
+                            {signal.level > 0 ? `Signal No. ${signal.level}` : 'No Wind Signal'}
+                          </p>
+                          {signal.level > 0 && (
+                            <>
+                              <p className="mt-2">{signal.winds}</p>
+                              <p>{signal.threat}</p>
+                              <p className="text-sm mt-1">Expected within {signal.leadTime} of the signal being raised</p>
+                            </>
+                          )}
+                        </div>
+                        <label className="text-sm">
+                          <span className="block mb-1 font-medium">Your barangay</span>
+                          <select
+                            value={barangay}
+                            onChange={(e) => {
+                              setBarangay(e.target.value);
+                              setVisitorBarangay(e.target.value || null);
+                            }}
+                            className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-gray-900"
+                          >
+                            <option value="">All of Pio Duran</option>
+                            {BARANGAYS.map(name => (
+                              <option key={name} value={name}>{name}</option>
+                            ))}
+                          </select>
+                        </label>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                      <div>
+                        <h3 className="text-lg font-semibold text-blue-950 mb-3">Wind Signals by Barangay</h3>
+                        <BarangayGrid fills={fills} selectedBarangay={barangay || undefined} />
+                        <div className="flex flex-wrap gap-2 mt-3 text-xs">
+                          {WIND_SIGNALS.map(item => (
+                            <span key={item.level} className={`px-2 py-0.5 rounded-full ${item.className}`}>
+                              {item.level > 0 ? `Signal No. ${item.level}` : 'No signal'}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                      <div>
+                        <h3 className="text-lg font-semibold text-blue-950 mb-3">Track</h3>
+                        <CycloneTrackMap positions={positions} forecast={latest.forecast_track} height={360} />
+                        <p className="text-xs text-gray-500 mt-3">
+                          Solid line: past positions. Dashed line: PAGASA forecast.
+                        </p>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div className="bg-gray-50 rounded-lg p-5 space-y-2 text-sm text-gray-700">
+                        <h3 className="text-lg font-semibold text-blue-950">Latest Bulletin</h3>
+                        <p className="flex items-center">
+                          <Clock size={14} className="mr-2" />
+                          Bulletin No. {latest.bulletin_number}, issued {new Date(latest.issued_at).toLocaleString()}
+                        </p>
+                        {latest.center_description && (
+                          <p className="flex items-center"><MapPin size={14} className="mr-2" />{latest.center_description}</p>
+                        )}
+                        {latest.movement && (
+                          <p className="flex items-center"><Navigation size={14} className="mr-2" />Moving {latest.movement}</p>
+                        )}
+                        <p>
+                          {getCategoryName(latest.category)}
+                          {latest.max_winds_kph && `, maximum sustained winds ${latest.max_winds_kph} km/h`}
+                          {latest.gusts_kph && `, gusts up to ${latest.gusts_kph} km/h`}
+                        </p>
+                        {latest.next_bulletin_at && (
+                          <p className="font-medium">Next bulletin: {new Date(latest.next_bulletin_at).toLocaleString()}</p>
+                        )}
+                        {latest.summary && <p className="whitespace-pre-line pt-2">{latest.summary}</p>}
+                      </div>
+                      <div className="space-y-3">
+                        <h3 className="text-lg font-semibold text-blue-950">Barangays Under a Signal</h3>
+                        {groupBarangaysBySignal(signals).length === 0 ? (
+                          <p className="text-sm text-gray-600">No wind signal is raised in Pio Duran.</p>
+                        ) : groupBarangaysBySignal(signals).map(group => (
+                          <div key={group.level}>
+                            <span className={`text-xs px-2 py-0.5 rounded-full font-medium ${group.className}`}>
+                              Signal No. {group.level}
+                            </span>
+                            <p className="text-sm text-gray-700 mt-1">{group.barangays.join(', ')}</p>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    {bulletins.length > 1 && (
+                      <div>
+                        <h3 className="text-lg font-semibold text-blue-950 mb-3">Bulletin History</h3>
+                        <ol className="border-l-2 border-gray-200 pl-4 space-y-3">
+                          {[...bulletins].reverse().map(bulletin => {
+                            const highest = getWindSignal(getHighestSignal(bulletin.signals));
+                            return (
+                              <li key={bulletin.id} className="text-sm text-gray-700">
+                                <span className="font-medium">Bulletin No. {bulletin.bulletin_number}</span>
+                                {' · '}{new Date(bulletin.issued_at).toLocaleString()}
+                                {' · '}{getCategoryName(bulletin.category)}
+                                {' · '}{highest.level > 0 ? `up to Signal No. ${highest.level}` : 'no signal in Pio Duran'}
+                              </li>
+                            );
+                          })}
+                        </ol>
+                      </div>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default TropicalCyclone;
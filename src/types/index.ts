@@ -22,6 +22,16 @@ export interface Service {
   updated_at: string;
 }
 
+export type IncidentStatus =
+  | 'received'
+  | 'verified'
+  | 'dispatched'
+  | 'on-scene'
+  | 'resolved'
+  | 'closed'
+  | 'rejected'
+  | 'duplicate';
+
 export interface IncidentReport {
   id: string;
   reference_number: string;
@@ -31,10 +41,136 @@ export interface IncidentReport {
   incident_type: string;
   description: string;
   urgency: 'LOW' | 'MEDIUM' | 'HIGH';
-  status: 'pending' | 'in-progress' | 'resolved';
+  status: IncidentStatus;
   date_reported: string;
   image_url?: string | null;
+  assigned_team_id?: string | null;
+  verified_at?: string | null;
+  dispatched_at?: string | null;
+  on_scene_at?: string | null;
+  resolved_at?: string | null;
+  closed_at?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  location_accuracy?: number | null;
+  parent_incident_id?: string | null;
+  extra_details?: IncidentExtraDetails;
+  contact_verified_at?: string | null;
+  updated_at: string;
+}
+
+export type IncidentExtraDetails = Record<string, string | number | boolean | null>;
+
+export interface IncidentExtraField {
+  key: string;
+  label: string;
+  type: 'number' | 'text' | 'select' | 'boolean';
+  required: boolean;
+  options?: string[];
+  min?: number;
+}
+
+export interface IncidentTypeDefinition {
+  id: string;
+  name: string;
+  icon: string;
+  default_urgency: IncidentReport['urgency'];
+  hazard_alert_type: EmergencyAlert['type'] | null;
+  extra_fields: IncidentExtraField[];
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface IncidentAttachment {
+  id: string;
+  incident_id: string;
+  media_type: 'image' | 'video';
+  mime_type?: string | null;
+  file_path?: string | null;
+  file_url: string;
+  thumbnail_url?: string | null;
+  file_size?: number | null;
+  width?: number | null;
+  height?: number | null;
+  duration_seconds?: number | null;
+  created_at: string;
+}
+
+export interface ResponseTeam {
+  id: string;
+  name: string;
+  unit_type: 'rescue' | 'medical' | 'fire' | 'police' | 'maritime' | 'engineering' | 'other';
+  contact_number?: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface IncidentStatusUpdate {
+  id: string;
+  incident_id: string;
+  status: IncidentStatus;
+  from_status?: IncidentStatus | null;
+  note?: string | null;
+  public_note?: string | null;
+  changed_by?: string | null;
+  changed_by_name?: string | null;
+  assigned_team_id?: string | null;
+  created_at: string;
+}
+
+export type IncidentUrgency = IncidentReport['urgency'];
+
+export interface IncidentSlaTarget {
+  acknowledge_minutes: number;
+  resolve_minutes: number;
+}
+
+export type IncidentSlaSettings = Record<IncidentUrgency, IncidentSlaTarget>;
+
+export interface IncidentEscalation {
+  id: string;
+  incident_id: string;
+  breach_type: 'acknowledge' | 'resolve';
+  urgency: IncidentUrgency;
+  due_at: string;
+  created_at: string;
+  acknowledged_at?: string | null;
+  acknowledged_by?: string | null;
+  acknowledged_by_name?: string | null;
+}
+
+export interface IncidentNoteAttachment {
+  name: string;
+  url: string;
+  path: string;
+  mime_type: string | null;
+  size: number;
+}
+
+export interface IncidentNote {
+  id: string;
+  incident_id: string;
+  body: string;
+  visibility: 'internal' | 'reporter';
+  attachments: IncidentNoteAttachment[];
+  author_id?: string | null;
+  author_name?: string | null;
+  created_at: string;
+}
+
+export interface IncidentTrackingResult {
+  reference_number: string;
+  incident_type: string | null;
+  location: string | null;
+  urgency: IncidentReport['urgency'];
+  status: IncidentStatus;
+  date_reported: string;
   updated_at: string;
+  history: Pick<IncidentStatusUpdate, 'status' | 'public_note' | 'created_at'>[];
+  messages?: Pick<IncidentNote, 'body' | 'attachments' | 'created_at'>[];
 }
 
 export interface GalleryItem {
@@ -101,19 +237,195 @@ export interface Resource {
   updated_at: string;
 }
 
+export type AlertLanguage = 'en' | 'fil' | 'bcl';
+
+export interface AlertTranslation {
+  title: string;
+  message: string;
+}
+
+export type AlertTranslations = Partial<Record<Exclude<AlertLanguage, 'en'>, AlertTranslation>>;
+
 export interface EmergencyAlert {
   id: string;
-  type: 'typhoon' | 'earthquake' | 'flood' | 'fire' | 'landslide' | 'tsunami' | 'general';
+  type: 'typhoon' | 'earthquake' | 'flood' | 'fire' | 'landslide' | 'tsunami' | 'volcano' | 'general';
   severity: 'low' | 'medium' | 'high' | 'critical';
   title: string;
   message: string;
   location: string;
   coordinates?: { lat: number; lng: number };
   issued_at: string;
-  expires_at?: string;
-  status: 'draft' | 'active' | 'expired' | 'cancelled';
+  issues_at?: string | null;
+  expires_at?: string | null;
+  status: 'draft' | 'pending_approval' | 'rejected' | 'scheduled' | 'active' | 'expired' | 'cancelled';
+  // Empty means municipality-wide
+  target_barangays: string[];
+  // title and message above are English; other languages are optional
+  translations?: AlertTranslations;
   channels: string[];
   priority: 1 | 2 | 3 | 4 | 5;
+  approval_requested_by?: string | null;
+  approval_requested_by_name?: string | null;
+  approval_requested_at?: string | null;
+  approved_by?: string | null;
+  approved_by_name?: string | null;
+  approved_at?: string | null;
+  rejection_reason?: string | null;
+  // New content for a live alert, waiting for a second admin's approval
+  pending_changes?: EmergencyAlertChanges | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type EmergencyAlertChanges = Partial<Pick<
+  EmergencyAlert,
+  'type' | 'severity' | 'priority' | 'title' | 'message' | 'location' | 'target_barangays' | 'expires_at' | 'channels' | 'translations'
+>>;
+
+export interface AlertApprovalRule {
+  enabled: boolean;
+  // Alerts at or above either threshold need a second admin; null turns a threshold off
+  min_severity: EmergencyAlert['severity'] | null;
+  min_priority: EmergencyAlert['priority'] | null;
+}
+
+export interface AlertApproval {
+  id: string;
+  alert_id: string;
+  decision: 'requested' | 'approved' | 'rejected';
+  reason: string | null;
+  actor_id: string | null;
+  actor_name: string | null;
+  alert_snapshot: Pick<EmergencyAlert, 'type' | 'severity' | 'priority' | 'title' | 'message' | 'location' | 'target_barangays'> & {
+    issues_at: string | null;
+    expires_at: string | null;
+    translations?: AlertTranslations;
+  };
+  created_at: string;
+}
+
+export interface AlertAcknowledgement {
+  id: string;
+  alert_id: string;
+  barangay: string;
+  acknowledged_at: string | null;
+  acknowledged_by_name: string | null;
+  acknowledged_contact_id: string | null;
+  // Set when staff marked it acknowledged for the barangay
+  recorded_by: string | null;
+  recorded_by_name: string | null;
+  reminder_count: number;
+  last_reminded_at: string | null;
+  created_at: string;
+}
+
+// What the public acknowledge page shows for a link; no contact details
+export interface AlertAcknowledgementLink {
+  barangay: string;
+  acknowledged_at: string | null;
+  acknowledged_by_name: string | null;
+  alert: Pick<EmergencyAlert, 'title' | 'message' | 'severity' | 'status' | 'issued_at' | 'translations'> & {
+    expires_at: string | null;
+  };
+}
+
+export type CycloneCategory = 'TD' | 'TS' | 'STS' | 'TY' | 'STY';
+
+// PAGASA Tropical Cyclone Wind Signal; 0 means no signal raised
+export type WindSignalLevel = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface CycloneForecastPoint {
+  forecast_at: string;
+  lat: number;
+  lng: number;
+}
+
+export interface TropicalCyclone {
+  id: string;
+  name: string;
+  international_name: string | null;
+  status: 'active' | 'ended';
+  alert_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  ended_at: string | null;
+}
+
+export interface CycloneBulletin {
+  id: string;
+  cyclone_id: string;
+  bulletin_number: number;
+  issued_at: string;
+  category: CycloneCategory;
+  center_lat: number | null;
+  center_lng: number | null;
+  center_description: string | null;
+  max_winds_kph: number | null;
+  gusts_kph: number | null;
+  movement: string | null;
+  // Barangays without a signal are left out
+  signals: Partial<Record<string, WindSignalLevel>>;
+  forecast_track: CycloneForecastPoint[];
+  summary: string | null;
+  next_bulletin_at: string | null;
+  alert_id: string | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+// PHIVOLCS Volcano Alert Level; 0 is normal
+export type VolcanoAlertLevel = 0 | 1 | 2 | 3 | 4 | 5;
+
+export type VolcanoDangerZone = 'permanent' | 'extended';
+
+export interface VolcanoBulletin {
+  id: string;
+  alert_level: VolcanoAlertLevel;
+  issued_at: string;
+  volcanic_earthquakes: number | null;
+  rockfall_events: number | null;
+  pdc_events: number | null;
+  so2_flux_tonnes: number | null;
+  plume_height_m: number | null;
+  plume_drift: string | null;
+  observations: string | null;
+  recommendations: string | null;
+  alert_id: string | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+export interface VolcanoDangerZoneBarangay {
+  barangay: string;
+  zone: VolcanoDangerZone;
+  notes: string | null;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+// Ingested from the earthquake feed by the earthquake-feed edge function
+export interface EarthquakeEvent {
+  id: string;
+  source_id: string;
+  magnitude: number;
+  magnitude_type: string | null;
+  depth_km: number | null;
+  latitude: number;
+  longitude: number;
+  place: string | null;
+  occurred_at: string;
+  distance_km: number;
+  // PHIVOLCS Earthquake Intensity Scale I-X
+  intensity_reports: { place: string; intensity: number }[];
+  max_intensity: number | null;
+  is_nearby: boolean;
+  url: string | null;
+  alert_id: string | null;
+  // Set once a draft alert was created, even if staff later discarded it
+  drafted_at: string | null;
   created_at: string;
   updated_at: string;
 }
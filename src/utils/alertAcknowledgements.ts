@@ -0,0 +1,32 @@
+// Barangay acknowledgements for issued alerts. Focal persons are asked when an
+// alert is first dispatched (see supabase/functions/_shared/acknowledgementRequests.ts);
+// staff can remind the barangays still pending from the acknowledgement board.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type { EmergencyAlert } from '../types';
+import { BARANGAYS } from './constants';
+import type {
+  RemindAlertAcknowledgementsRequest,
+  RemindAlertAcknowledgementsResponse
+} from '../../supabase/functions/_shared/alertAcknowledgements';
+
+/** Barangays expected to acknowledge: the targeted ones, or all of them for municipality-wide alerts */
+export const getAcknowledgementArea = (alert: Pick<EmergencyAlert, 'target_barangays'>) =>
+  alert.target_barangays?.length ? alert.target_barangays : BARANGAYS;
+
+export const remindAlertAcknowledgements = async (
+  request: RemindAlertAcknowledgementsRequest
+): Promise<RemindAlertAcknowledgementsResponse> => {
+  const { data, error } = await supabase.functions.invoke<RemindAlertAcknowledgementsResponse>('remind-alert-acknowledgements', {
+    body: request
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const body: RemindAlertAcknowledgementsResponse = await (error.context as Response).json().catch(() => ({ success: false }));
+    return { ...body, success: false, error: body.error || 'Unable to send reminders' };
+  }
+  if (error) throw error;
+
+  return data ?? { success: false, error: 'No response from the reminder service' };
+};
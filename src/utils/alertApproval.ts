@@ -0,0 +1,71 @@
+// Two-person rule for emergency alerts. emergency_alert_requires_approval()
+// in the database applies the same rule and blocks alerts that skip approval.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type { AlertApprovalRule, EmergencyAlert } from '../types';
+import { DEFAULT_ALERT_APPROVAL_RULE, SEVERITY_LEVELS } from './constants';
+import type {
+  AlertApprovalNotifyRequest,
+  AlertApprovalNotifyResponse
+} from '../../supabase/functions/_shared/alertApproval';
+
+export const ALERT_APPROVAL_SETTING_KEY = 'alert_approval';
+
+const SEVERITY_ORDER = SEVERITY_LEVELS.map(level => level.id);
+
+/** Accepts the JSON string databaseManager.updateSetting stores as well as the seeded object */
+export const parseAlertApprovalRule = (value: unknown): AlertApprovalRule => {
+  let parsed = value as Partial<AlertApprovalRule> | null;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      parsed = null;
+    }
+  }
+  if (!parsed) return { ...DEFAULT_ALERT_APPROVAL_RULE };
+
+  const priority = Number(parsed.min_priority);
+  return {
+    enabled: parsed.enabled === true,
+    min_severity: parsed.min_severity && SEVERITY_ORDER.includes(parsed.min_severity) ? parsed.min_severity : null,
+    min_priority: priority >= 1 && priority <= 5 ? priority as AlertApprovalRule['min_priority'] : null
+  };
+};
+
+export const requiresAlertApproval = (
+  rule: AlertApprovalRule,
+  alert: Partial<Pick<EmergencyAlert, 'severity' | 'priority'>>
+) => {
+  if (!rule.enabled) return false;
+
+  const meetsSeverity = rule.min_severity !== null && alert.severity !== undefined &&
+    SEVERITY_ORDER.indexOf(alert.severity) >= SEVERITY_ORDER.indexOf(rule.min_severity);
+  const meetsPriority = rule.min_priority !== null && (alert.priority ?? 3) >= rule.min_priority;
+  return meetsSeverity || meetsPriority;
+};
+
+export const describeAlertApprovalRule = (rule: AlertApprovalRule) => {
+  if (!rule.enabled) return 'Off';
+  const parts = [
+    rule.min_severity && `${SEVERITY_LEVELS.find(level => level.id === rule.min_severity)?.name} severity or higher`,
+    rule.min_priority && `priority ${rule.min_priority} or higher`
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', or ') : 'No thresholds set';
+};
+
+/** Emails the other admins about a pending alert, or the requester about the decision */
+export const notifyAlertApproval = async (request: AlertApprovalNotifyRequest): Promise<AlertApprovalNotifyResponse> => {
+  const { data, error } = await supabase.functions.invoke<AlertApprovalNotifyResponse>('alert-approval-notify', {
+    body: request
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const body: AlertApprovalNotifyResponse = await (error.context as Response).json().catch(() => ({ success: false }));
+    return { ...body, success: false, error: body.error || 'Unable to send approval notifications' };
+  }
+  if (error) throw error;
+
+  return data ?? { success: false, error: 'No response from the notification service' };
+};
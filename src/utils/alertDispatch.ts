@@ -0,0 +1,23 @@
+// Client for the dispatch-alert edge function, which sends an active
+// emergency alert over its channels and records each delivery
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type { DispatchAlertResponse } from '../../supabase/functions/_shared/alertChannels';
+
+export { ALERT_CHANNELS } from '../../supabase/functions/_shared/alertChannels';
+export type { AlertChannel, AlertDeliveryStatus } from '../../supabase/functions/_shared/alertChannels';
+
+export const dispatchAlert = async (alertId: string): Promise<DispatchAlertResponse> => {
+  const { data, error } = await supabase.functions.invoke<DispatchAlertResponse>('dispatch-alert', {
+    body: { alertId }
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const body: DispatchAlertResponse = await (error.context as Response).json().catch(() => ({ success: false }));
+    return { ...body, success: false, error: body.error || 'Dispatch failed. Please try again.' };
+  }
+  if (error) throw error;
+
+  return data ?? { success: false, error: 'No response from the dispatch service' };
+};
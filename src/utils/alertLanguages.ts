@@ -0,0 +1,83 @@
+// Languages emergency alerts are written in. English is the title and message
+// every channel uses; Filipino and Bikol are optional translations shown to
+// visitors who prefer them. The ids are BCP 47 codes, also used for CAP <info>.
+
+import type { AlertLanguage, AlertTranslation, AlertTranslations } from '../types';
+
+export const ALERT_LANGUAGES: { id: AlertLanguage; name: string; shortName: string }[] = [
+  { id: 'en', name: 'English', shortName: 'EN' },
+  { id: 'fil', name: 'Filipino', shortName: 'FIL' },
+  { id: 'bcl', name: 'Bikol', shortName: 'BCL' }
+];
+
+export const TRANSLATION_LANGUAGES = ALERT_LANGUAGES.filter(
+  (language): language is { id: Exclude<AlertLanguage, 'en'>; name: string; shortName: string } => language.id !== 'en'
+);
+
+export const getAlertLanguageName = (id: AlertLanguage) =>
+  ALERT_LANGUAGES.find(language => language.id === id)?.name || id;
+
+export type TranslationStatus = 'complete' | 'incomplete' | 'missing';
+
+export const getTranslationStatus = (translation?: Partial<AlertTranslation>): TranslationStatus => {
+  const hasTitle = Boolean(translation?.title?.trim());
+  const hasMessage = Boolean(translation?.message?.trim());
+  if (hasTitle && hasMessage) return 'complete';
+  return hasTitle || hasMessage ? 'incomplete' : 'missing';
+};
+
+/** Trimmed translations, leaving out languages with nothing filled in */
+export const cleanTranslations = (translations: AlertTranslations = {}): AlertTranslations =>
+  Object.fromEntries(TRANSLATION_LANGUAGES
+    .map(({ id }) => [id, translations[id]] as const)
+    .filter(([, translation]) => getTranslationStatus(translation) !== 'missing')
+    .map(([id, translation]) => [id, {
+      title: translation?.title?.trim() || '',
+      message: translation?.message?.trim() || ''
+    }]));
+
+/** The alert text in the visitor's language, or English when it has not been translated */
+export const getLocalizedAlert = (
+  alert: { title: string; message: string; translations?: AlertTranslations | null },
+  language: AlertLanguage
+): AlertTranslation & { language: AlertLanguage } => {
+  const translation = language === 'en' ? undefined : alert.translations?.[language];
+  return translation && getTranslationStatus(translation) === 'complete'
+    ? { title: translation.title, message: translation.message, language }
+    : { title: alert.title, message: alert.message, language: 'en' };
+};
+
+const VISITOR_LANGUAGE_KEY = 'visitor_language';
+export const VISITOR_LANGUAGE_EVENT = 'visitor-language-change';
+
+const isAlertLanguage = (value: string | null): value is AlertLanguage =>
+  ALERT_LANGUAGES.some(language => language.id === value);
+
+/** The saved choice, else the first browser language we have alerts in */
+export const getVisitorLanguage = (): AlertLanguage => {
+  const saved = localStorage.getItem(VISITOR_LANGUAGE_KEY);
+  if (isAlertLanguage(saved)) return saved;
+
+  for (const browserLanguage of navigator.languages || [navigator.language]) {
+    const code = browserLanguage.toLowerCase().split('-')[0];
+    if (code === 'fil' || code === 'tl') return 'fil';
+    if (code === 'bcl' || code === 'bik') return 'bcl';
+    if (code === 'en') return 'en';
+  }
+  return 'en';
+};
+
+export const setVisitorLanguage = (language: AlertLanguage) => {
+  localStorage.setItem(VISITOR_LANGUAGE_KEY, language);
+  window.dispatchEvent(new Event(VISITOR_LANGUAGE_EVENT));
+};
+
+/** English and translated titles and messages, e.g. to find template placeholders in all of them */
+export const getAllAlertTexts = (wording: { title?: string; message?: string; translations?: AlertTranslations }) => [
+  wording.title || '',
+  wording.message || '',
+  ...Object.values(wording.translations || {}).flatMap(translation => [translation?.title || '', translation?.message || ''])
+];
+
+export const hasIncompleteTranslation = (translations: AlertTranslations = {}) =>
+  TRANSLATION_LANGUAGES.some(({ id }) => getTranslationStatus(translations[id]) === 'incomplete');
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractTemplateVariables,
+  fillTemplate,
+  getAutomaticTemplateValues,
+  getMissingVariables,
+  getTemplateVariable
+} from './alertTemplates';
+
+const TITLE = 'Signal No. {{signal_level}} raised for {{ storm_name }}';
+const MESSAGE = '{{Storm_Name}} may affect {{barangays}} until {{valid_until}}.';
+
+describe('template variables', () => {
+  it('lists each placeholder once, in order of first use and case-insensitively', () => {
+    expect(extractTemplateVariables(TITLE, MESSAGE)).toEqual(['signal_level', 'storm_name', 'barangays', 'valid_until']);
+    expect(extractTemplateVariables('No placeholders, {single} or {{ }}')).toEqual([]);
+  });
+
+  it('labels known variables and derives a label for the others', () => {
+    expect(getTemplateVariable('storm_name')).toMatchObject({ label: 'Storm Name', placeholder: 'Typhoon Kristine' });
+    expect(getTemplateVariable('road_name')).toEqual({ name: 'road_name', label: 'Road Name' });
+  });
+});
+
+describe('fillTemplate', () => {
+  it('fills placeholders that have a value and leaves the rest in place', () => {
+    expect(fillTemplate(MESSAGE, { storm_name: 'Typhoon Kristine', barangays: '  ', valid_until: '' }))
+      .toBe('Typhoon Kristine may affect {{barangays}} until {{valid_until}}.');
+  });
+
+  it('reports the variables still blank across all texts', () => {
+    expect(getMissingVariables({ signal_level: '2', storm_name: ' ' }, TITLE, MESSAGE))
+      .toEqual(['storm_name', 'barangays', 'valid_until']);
+  });
+});
+
+describe('getAutomaticTemplateValues', () => {
+  it('fills the area, expiry and date from the alert', () => {
+    const values = getAutomaticTemplateValues({
+      target_barangays: ['Agol', 'Buyo'],
+      issues_at: '2026-10-18T00:00:00.000Z',
+      expires_at: '2026-10-18T10:00:00.000Z'
+    });
+
+    expect(values.barangays).toBe('Agol, Buyo');
+    expect(values.valid_until).toContain('2026');
+    expect(values.date).toContain('2026');
+  });
+
+  it('covers the whole municipality and leaves the expiry blank when unset', () => {
+    expect(getAutomaticTemplateValues({ target_barangays: [], expires_at: null })).toMatchObject({
+      barangays: 'all barangays of Pio Duran',
+      valid_until: ''
+    });
+  });
+});
@@ -0,0 +1,57 @@
+// {{placeholder}} substitution for alert templates. Some variables are filled
+// from the composer (target area, expiry); the rest are typed in per alert.
+
+export interface TemplateVariable {
+  name: string;
+  label: string;
+  placeholder?: string;
+  // Filled from the alert being composed rather than typed in
+  automatic?: boolean;
+}
+
+export const ALERT_TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { name: 'barangays', label: 'Barangays', automatic: true },
+  { name: 'valid_until', label: 'Valid Until', automatic: true },
+  { name: 'date', label: 'Date', automatic: true },
+  { name: 'signal_level', label: 'Wind Signal No.', placeholder: '2' },
+  { name: 'storm_name', label: 'Storm Name', placeholder: 'Typhoon Kristine' },
+  { name: 'warning_level', label: 'Warning Level', placeholder: 'Orange' },
+  { name: 'cause', label: 'Cause', placeholder: 'continuous heavy rainfall' },
+  { name: 'levels', label: 'Levels', placeholder: 'all levels' },
+  { name: 'reason', label: 'Reason', placeholder: 'Tropical Cyclone Wind Signal No. 2' },
+  { name: 'hazard', label: 'Hazard', placeholder: 'the approaching typhoon' },
+  { name: 'evacuation_center', label: 'Evacuation Center', placeholder: 'the nearest evacuation center' }
+];
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z0-9_]+)\s*\}\}/gi;
+
+/** Placeholder names used in the texts, in order of first use */
+export const extractTemplateVariables = (...texts: string[]): string[] => {
+  const names = texts.flatMap(text => Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1].toLowerCase()));
+  return Array.from(new Set(names));
+};
+
+export const getTemplateVariable = (name: string): TemplateVariable =>
+  ALERT_TEMPLATE_VARIABLES.find(variable => variable.name === name) ||
+  { name, label: name.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase()) };
+
+/** Replaces the placeholders that have a value; the others are left in place */
+export const fillTemplate = (text: string, values: Record<string, string>) =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name.toLowerCase()]?.trim() || placeholder);
+
+export const getMissingVariables = (values: Record<string, string>, ...texts: string[]) =>
+  extractTemplateVariables(...texts).filter(name => !values[name]?.trim());
+
+const formatAdvisoryDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-PH', { dateStyle: 'long', timeStyle: 'short' });
+
+/** Values for the automatic variables from the alert being composed */
+export const getAutomaticTemplateValues = (alert: {
+  target_barangays?: string[];
+  issues_at?: string | null;
+  expires_at?: string | null;
+}): Record<string, string> => ({
+  barangays: alert.target_barangays?.length ? alert.target_barangays.join(', ') : 'all barangays of Pio Duran',
+  valid_until: alert.expires_at ? formatAdvisoryDateTime(alert.expires_at) : '',
+  date: new Date(alert.issues_at || Date.now()).toLocaleDateString('en-PH', { dateStyle: 'long' })
+});
@@ -0,0 +1,41 @@
+// Attention tone for new critical alerts, generated with Web Audio so there is
+// no audio file to download or cache. Alternates the 853 Hz and 960 Hz
+// frequencies of the broadcast emergency attention signal.
+
+let audioContext: AudioContext | null = null;
+
+const TONE_STEP_SECONDS = 0.5;
+
+/** Plays the tone; resolves false when the browser does not allow audio yet */
+export const playAlertTone = async (durationSeconds = 3): Promise<boolean> => {
+  const AudioContextClass = window.AudioContext ||
+    (window as typeof window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return false;
+
+  // Autoplay rules keep audio suspended until the visitor has interacted with the page
+  if (navigator.userActivation && !navigator.userActivation.hasBeenActive) return false;
+
+  try {
+    audioContext ??= new AudioContextClass();
+    if (audioContext.state === 'suspended') await audioContext.resume();
+    if (audioContext.state !== 'running') return false;
+
+    const start = audioContext.currentTime;
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+
+    for (let step = 0; step * TONE_STEP_SECONDS < durationSeconds; step++) {
+      oscillator.frequency.setValueAtTime(step % 2 === 0 ? 853 : 960, start + step * TONE_STEP_SECONDS);
+    }
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.linearRampToValueAtTime(0, start + durationSeconds);
+
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start(start);
+    oscillator.stop(start + durationSeconds);
+    return true;
+  } catch (error) {
+    console.error('Error playing alert tone:', error);
+    return false;
+  }
+};
@@ -0,0 +1,38 @@
+// CSV and PNG export for analytics charts
+
+type CsvCell = string | number | null | undefined;
+
+const escapeCsvCell = (cell: CsvCell): string => {
+  if (cell === null || cell === undefined) return '';
+  const text = String(cell);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvCell[][]): string =>
+  rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+const triggerDownload = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadCsv = (filename: string, rows: CsvCell[][]) => {
+  // The BOM makes Excel read the file as UTF-8
+  const blob = new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  triggerDownload(url, filename.endsWith('.csv') ? filename : `${filename}.csv`);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadElementAsPng = async (element: HTMLElement, filename: string) => {
+  const { default: html2canvas } = await import('html2canvas');
+  const canvas = await html2canvas(element, { backgroundColor: '#ffffff', scale: 2 });
+  triggerDownload(canvas.toDataURL('image/png'), filename.endsWith('.png') ? filename : `${filename}.png`);
+};
+
+export const toExportFilename = (title: string) =>
+  `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}-${new Date().toISOString().slice(0, 10)}`;
@@ -38,13 +38,106 @@ export const BARANGAYS = [
   'Panganiran', 'Rawis', 'Salvacion', 'Sto. Cristo', 'Sukip', 'Tibabo'
 ];
 
+// Managed in the incident_types table; this list is the fallback when it cannot be loaded
 export const INCIDENT_TYPES = [
   'Fire', 'Flood', 'Landslide', 'Vehicular Accident', 'Medical Emergency', 'Others'
 ];
 
+// Icons available for incident types; rendered by IncidentTypeIcon
+export const INCIDENT_TYPE_ICONS = [
+  'AlertTriangle', 'Flame', 'Waves', 'Mountain', 'Car', 'HeartPulse', 'Wind', 'Zap',
+  'Droplets', 'Building', 'Anchor', 'TreePine', 'Biohazard', 'ShieldAlert', 'Users'
+];
+
+export const INCIDENT_EXTRA_FIELD_TYPES = [
+  { id: 'number', name: 'Number' },
+  { id: 'text', name: 'Short text' },
+  { id: 'select', name: 'Choice list' },
+  { id: 'boolean', name: 'Yes / No' }
+] as const;
+
+// Why the submit-incident edge function refused a public report
+export const INCIDENT_REJECTION_REASONS = [
+  { id: 'rate_limit_ip', name: 'Too many from IP', color: 'bg-orange-100 text-orange-800' },
+  { id: 'rate_limit_phone', name: 'Too many from number', color: 'bg-yellow-100 text-yellow-800' },
+  { id: 'validation', name: 'Invalid details', color: 'bg-blue-100 text-blue-800' },
+  { id: 'proof_of_work', name: 'Failed challenge', color: 'bg-purple-100 text-purple-800' },
+  { id: 'honeypot', name: 'Bot trap', color: 'bg-red-100 text-red-800' }
+] as const;
+
 export const URGENCY_LEVELS = ['LOW', 'MEDIUM', 'HIGH'] as const;
 
-export const STATUS_OPTIONS = ['pending', 'in-progress', 'resolved'] as const;
+// Hex values for urgency markers and barangay tile fills
+export const URGENCY_MAP_COLORS: Record<typeof URGENCY_LEVELS[number], { marker: string; fill: string }> = {
+  HIGH: { marker: '#dc2626', fill: '#fee2e2' },
+  MEDIUM: { marker: '#d97706', fill: '#fef3c7' },
+  LOW: { marker: '#16a34a', fill: '#dcfce7' }
+};
+
+// Chart colors for incident types; types added later cycle through CHART_PALETTE
+export const INCIDENT_TYPE_CHART_COLORS: Record<string, string> = {
+  Fire: '#dc2626',
+  Flood: '#2563eb',
+  Landslide: '#92400e',
+  'Vehicular Accident': '#d97706',
+  'Medical Emergency': '#16a34a',
+  Others: '#6b7280'
+};
+
+export const CHART_PALETTE = ['#7c3aed', '#0891b2', '#db2777', '#65a30d', '#ea580c', '#4f46e5'];
+
+// Fallback when the `incident_sla` system setting is missing; minutes from report time
+export const DEFAULT_INCIDENT_SLA: Record<typeof URGENCY_LEVELS[number], { acknowledge_minutes: number; resolve_minutes: number }> = {
+  HIGH: { acknowledge_minutes: 5, resolve_minutes: 120 },
+  MEDIUM: { acknowledge_minutes: 15, resolve_minutes: 480 },
+  LOW: { acknowledge_minutes: 60, resolve_minutes: 1440 }
+};
+
+// Fallback when the `alert_approval` system setting is missing
+export const DEFAULT_ALERT_APPROVAL_RULE = {
+  enabled: true,
+  min_severity: 'critical',
+  min_priority: null
+} as const;
+
+export const STATUS_OPTIONS = [
+  'received', 'verified', 'dispatched', 'on-scene', 'resolved', 'closed', 'rejected', 'duplicate'
+] as const;
+
+export const INCIDENT_STATUSES = [
+  { id: 'received', name: 'Received', color: 'bg-yellow-100 text-yellow-800' },
+  { id: 'verified', name: 'Verified', color: 'bg-indigo-100 text-indigo-800' },
+  { id: 'dispatched', name: 'Dispatched', color: 'bg-blue-100 text-blue-800' },
+  { id: 'on-scene', name: 'On Scene', color: 'bg-purple-100 text-purple-800' },
+  { id: 'resolved', name: 'Resolved', color: 'bg-green-100 text-green-800' },
+  { id: 'closed', name: 'Closed', color: 'bg-gray-200 text-gray-800' },
+  { id: 'rejected', name: 'Rejected', color: 'bg-red-100 text-red-800' },
+  { id: 'duplicate', name: 'Duplicate', color: 'bg-orange-100 text-orange-800' }
+];
+
+// Keep in sync with transition_incident_status() in the dispatch workflow migration
+export const INCIDENT_STATUS_TRANSITIONS: Record<typeof STATUS_OPTIONS[number], typeof STATUS_OPTIONS[number][]> = {
+  received: ['verified', 'rejected', 'duplicate'],
+  verified: ['dispatched', 'rejected', 'duplicate'],
+  dispatched: ['on-scene', 'resolved'],
+  'on-scene': ['resolved'],
+  resolved: ['closed', 'dispatched'],
+  closed: [],
+  rejected: ['received'],
+  duplicate: ['received']
+};
+
+export const OPEN_INCIDENT_STATUSES: typeof STATUS_OPTIONS[number][] = ['received', 'verified', 'dispatched', 'on-scene'];
+
+export const RESPONSE_UNIT_TYPES = [
+  { id: 'rescue', name: 'Search & Rescue' },
+  { id: 'medical', name: 'Medical' },
+  { id: 'fire', name: 'Fire' },
+  { id: 'police', name: 'Police' },
+  { id: 'maritime', name: 'Maritime' },
+  { id: 'engineering', name: 'Engineering' },
+  { id: 'other', name: 'Other' }
+];
 
 export const SOCIAL_PLATFORMS = [
   { id: 'facebook', name: 'Facebook', color: 'text-blue-600' },
@@ -73,6 +166,7 @@ export const ALERT_TYPES = [
   { id: 'fire', name: 'Fire', icon: '🔥', color: 'bg-orange-600' },
   { id: 'landslide', name: 'Landslide', icon: '⛰️', color: 'bg-amber-600' },
   { id: 'tsunami', name: 'Tsunami', icon: '🌊', color: 'bg-blue-800' },
+  { id: 'volcano', name: 'Volcano', icon: '🌋', color: 'bg-stone-600' },
   { id: 'general', name: 'General Alert', icon: '⚠️', color: 'bg-gray-600' }
 ];
 
@@ -0,0 +1,22 @@
+// Earthquakes near Pio Duran from the earthquake feed. The settings, distance
+// and draft alert wording live in the shared module the edge function uses.
+
+import { databaseManager } from '../lib/database';
+import type { EarthquakeEvent } from '../types';
+
+export {
+  DEFAULT_EARTHQUAKE_FEED_SETTINGS,
+  EARTHQUAKE_FEED_SETTING_KEY,
+  formatIntensity,
+  getDirectionFromPioDuran,
+  parseEarthquakeFeedSettings
+} from '../../supabase/functions/_shared/earthquakeFeed';
+export type { EarthquakeFeedSettings } from '../../supabase/functions/_shared/earthquakeFeed';
+
+// How long a nearby quake stays on the public widget
+export const RECENT_EARTHQUAKE_DAYS = 7;
+
+export const getRecentNearbyEarthquakes = async (): Promise<EarthquakeEvent[]> => {
+  const since = new Date(Date.now() - RECENT_EARTHQUAKE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  return databaseManager.getEarthquakeEvents({ nearbyOnly: true, since }) as Promise<EarthquakeEvent[]>;
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getAlertState, getNextAlertTransition, isAlertForBarangay } from './emergencyAlerts';
+
+const NOW = Date.parse('2026-10-18T08:00:00.000Z');
+const HOUR = 60 * 60 * 1000;
+const at = (offset: number) => new Date(NOW + offset).toISOString();
+
+describe('alert schedule', () => {
+  it('goes live at issues_at and ends at expires_at', () => {
+    const alert = { status: 'scheduled' as const, issues_at: at(HOUR), expires_at: at(3 * HOUR) };
+
+    expect(getAlertState(alert, NOW)).toBe('scheduled');
+    expect(getAlertState(alert, NOW + HOUR)).toBe('active');
+    expect(getAlertState(alert, NOW + 3 * HOUR)).toBe('expired');
+    expect(getAlertState({ ...alert, status: 'cancelled' }, NOW + HOUR)).toBe('cancelled');
+  });
+
+  it('finds the next time any alert changes state', () => {
+    expect(getNextAlertTransition([
+      { status: 'scheduled', issues_at: at(2 * HOUR), expires_at: null },
+      { status: 'active', issues_at: null, expires_at: at(HOUR) },
+      { status: 'expired', issues_at: null, expires_at: at(-HOUR) }
+    ], NOW)).toBe(HOUR);
+    expect(getNextAlertTransition([{ status: 'active', issues_at: null, expires_at: null }], NOW)).toBeNull();
+  });
+});
+
+describe('isAlertForBarangay', () => {
+  it('shows municipality-wide alerts everywhere and targeted ones in their barangays', () => {
+    expect(isAlertForBarangay({ target_barangays: [] }, 'Agol')).toBe(true);
+    expect(isAlertForBarangay({ target_barangays: ['Agol'] }, 'Agol')).toBe(true);
+    expect(isAlertForBarangay({ target_barangays: ['Agol'] }, 'Basag')).toBe(false);
+    expect(isAlertForBarangay({ target_barangays: ['Agol'] }, null)).toBe(true);
+  });
+});
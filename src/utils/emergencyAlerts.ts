@@ -0,0 +1,59 @@
+// Scheduling rules for emergency alerts. apply_emergency_alert_schedule() in
+// the database applies the same rules; the client uses them so an alert
+// leaves the banner on time even between scheduler runs.
+
+import type { EmergencyAlert } from '../types';
+
+type ScheduleFields = Pick<EmergencyAlert, 'status' | 'issues_at' | 'expires_at'>;
+
+const toTime = (value?: string | null) => (value ? new Date(value).getTime() : null);
+
+/** The status the alert has, or will have on the scheduler's next run, at `now` */
+export const getAlertState = (alert: ScheduleFields, now = Date.now()): EmergencyAlert['status'] => {
+  const issuesAt = toTime(alert.issues_at);
+  const expiresAt = toTime(alert.expires_at);
+
+  if (alert.status !== 'scheduled' && alert.status !== 'active') return alert.status;
+  if (expiresAt !== null && expiresAt <= now) return 'expired';
+  if (alert.status === 'scheduled' && (issuesAt === null || issuesAt > now)) return 'scheduled';
+  return 'active';
+};
+
+export const isAlertLive = (alert: ScheduleFields, now = Date.now()) =>
+  getAlertState(alert, now) === 'active';
+
+/** Milliseconds until the next scheduled change among the alerts, or null */
+export const getNextAlertTransition = (alerts: ScheduleFields[], now = Date.now()): number | null => {
+  const upcoming = alerts
+    .flatMap(alert => [
+      alert.status === 'scheduled' ? toTime(alert.issues_at) : null,
+      alert.status === 'scheduled' || alert.status === 'active' ? toTime(alert.expires_at) : null
+    ])
+    .filter((time): time is number => time !== null && time > now);
+
+  return upcoming.length > 0 ? Math.min(...upcoming) - now : null;
+};
+
+/** Public CAP 1.2 feed served by the cap-feed edge function */
+export const getCapFeedUrl = (alertId?: string) => {
+  const feedUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/cap-feed`;
+  return alertId ? `${feedUrl}?id=${encodeURIComponent(alertId)}` : feedUrl;
+};
+
+/** Municipality-wide alerts are for everyone; targeted ones only for their barangays */
+export const isAlertForBarangay = (
+  alert: Pick<EmergencyAlert, 'target_barangays'>,
+  barangay: string | null
+) => !barangay || !alert.target_barangays?.length || alert.target_barangays.includes(barangay);
+
+const VISITOR_BARANGAY_KEY = 'visitor_barangay';
+
+export const getVisitorBarangay = (): string | null => localStorage.getItem(VISITOR_BARANGAY_KEY);
+
+export const setVisitorBarangay = (barangay: string | null) => {
+  if (barangay) {
+    localStorage.setItem(VISITOR_BARANGAY_KEY, barangay);
+  } else {
+    localStorage.removeItem(VISITOR_BARANGAY_KEY);
+  }
+};
@@ -0,0 +1,39 @@
+// Coordinate helpers for plotting positions without an online tile service
+
+export type LngLat = [number, number];
+
+export interface MapBounds {
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+}
+
+/**
+ * Equirectangular projection fitted to the given bounds. Good enough at
+ * municipal scale, where the distortion is well under a pixel.
+ */
+export const createProjection = (bounds: MapBounds, width: number, height: number, padding = 10) => {
+  const lngScale = Math.cos(((bounds.minLat + bounds.maxLat) / 2) * Math.PI / 180);
+  const spanX = (bounds.maxLng - bounds.minLng) * lngScale;
+  const spanY = bounds.maxLat - bounds.minLat;
+  const scale = Math.min((width - padding * 2) / spanX, (height - padding * 2) / spanY);
+  const offsetX = (width - spanX * scale) / 2;
+  const offsetY = (height - spanY * scale) / 2;
+
+  return {
+    project: ([lng, lat]: LngLat): [number, number] => [
+      offsetX + (lng - bounds.minLng) * lngScale * scale,
+      offsetY + (bounds.maxLat - lat) * scale
+    ]
+  };
+};
+
+export const getDistanceKm = ([lng1, lat1]: LngLat, [lng2, lat2]: LngLat): number => {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
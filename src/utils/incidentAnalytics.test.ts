@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { BARANGAYS } from './constants';
+import {
+  UNSPECIFIED_BARANGAY,
+  filterIncidentsByRange,
+  getBarangayTypeMatrix,
+  getDayOfWeekDistribution,
+  getHourOfDayDistribution,
+  getIncidentTypes,
+  getPercentile,
+  getResolutionPercentiles,
+  getTypeTrends
+} from './incidentAnalytics';
+import type { Database } from '../lib/supabase';
+
+type IncidentRow = Database['public']['Tables']['incident_reports']['Row'];
+
+// Local time, like the page's day buckets and hour-of-day counts
+const NOW = new Date(2026, 9, 18, 15, 0).getTime();
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const incident = (overrides: Partial<IncidentRow> = {}): IncidentRow => ({
+  id: crypto.randomUUID(),
+  reference_number: 'INC-1',
+  reporter_name: 'Juan Dela Cruz',
+  contact_number: '09171234567',
+  location: 'Agol',
+  incident_type: 'Flood',
+  description: null,
+  urgency: 'MEDIUM',
+  status: 'received',
+  date_reported: new Date(NOW).toISOString(),
+  image_url: null,
+  assigned_team_id: null,
+  verified_at: null,
+  dispatched_at: null,
+  on_scene_at: null,
+  resolved_at: null,
+  closed_at: null,
+  latitude: null,
+  longitude: null,
+  location_accuracy: null,
+  parent_incident_id: null,
+  extra_details: {},
+  contact_verified_at: null,
+  updated_at: new Date(NOW).toISOString(),
+  ...overrides
+});
+
+const reportedAgo = (ms: number) => new Date(NOW - ms).toISOString();
+
+describe('filterIncidentsByRange', () => {
+  it('keeps reports from the start of the first day in the range', () => {
+    const startOfFirstDay = new Date(2026, 9, 12).getTime();
+    const kept = incident({ date_reported: new Date(startOfFirstDay).toISOString() });
+    const dropped = incident({ date_reported: new Date(startOfFirstDay - 1).toISOString() });
+
+    expect(filterIncidentsByRange([kept, dropped], 7, NOW)).toEqual([kept]);
+  });
+});
+
+describe('getIncidentTypes', () => {
+  it('lists known types in order, then other types alphabetically', () => {
+    expect(getIncidentTypes([
+      incident({ incident_type: 'Storm Surge' }),
+      incident({ incident_type: 'Flood' }),
+      incident({ incident_type: null }),
+      incident({ incident_type: 'Fire' }),
+      incident({ incident_type: 'Earthquake' })
+    ])).toEqual(['Fire', 'Flood', 'Others', 'Earthquake', 'Storm Surge']);
+  });
+});
+
+describe('getTypeTrends', () => {
+  it('counts each type per day over the last week', () => {
+    const trend = getTypeTrends([
+      incident({ date_reported: reportedAgo(HOUR) }),
+      incident({ date_reported: reportedAgo(2 * HOUR) }),
+      incident({ incident_type: 'Fire', date_reported: reportedAgo(2 * DAY) }),
+      incident({ date_reported: reportedAgo(30 * DAY) })
+    ], '7d', NOW);
+
+    expect(trend.labels).toHaveLength(7);
+    expect(trend.series).toEqual([
+      { type: 'Fire', counts: [0, 0, 0, 0, 1, 0, 0] },
+      { type: 'Flood', counts: [0, 0, 0, 0, 0, 0, 2] }
+    ]);
+  });
+
+  it('groups the last twelve months by calendar month', () => {
+    const trend = getTypeTrends([
+      incident({ date_reported: new Date(2026, 9, 1).toISOString() }),
+      incident({ date_reported: new Date(2025, 9, 20).toISOString() })
+    ], '365d', NOW);
+
+    expect(trend.labels).toHaveLength(13);
+    expect(trend.series[0].counts[0]).toBe(1);
+    expect(trend.series[0].counts[12]).toBe(1);
+  });
+});
+
+describe('getBarangayTypeMatrix', () => {
+  it('counts types per barangay and collects unknown locations under Unspecified', () => {
+    const matrix = getBarangayTypeMatrix([
+      incident(),
+      incident(),
+      incident({ incident_type: 'Fire' }),
+      incident({ location: 'Somewhere else' }),
+      incident({ location: null })
+    ]);
+
+    expect(matrix.types).toEqual(['Fire', 'Flood']);
+    expect(matrix.rows).toHaveLength(BARANGAYS.length + 1);
+    expect(matrix.rows.find(row => row.barangay === 'Agol')).toEqual({ barangay: 'Agol', counts: [1, 2], total: 3 });
+    expect(matrix.rows[matrix.rows.length - 1]).toEqual({ barangay: UNSPECIFIED_BARANGAY, counts: [0, 2], total: 2 });
+    expect(matrix.max).toBe(2);
+  });
+});
+
+describe('time-of-day patterns', () => {
+  it('counts reports by local hour and weekday', () => {
+    const reports = [
+      incident(),
+      incident({ date_reported: reportedAgo(DAY) }),
+      incident({ date_reported: reportedAgo(3 * HOUR) })
+    ];
+
+    const hours = getHourOfDayDistribution(reports);
+    expect(hours[15]).toBe(2);
+    expect(hours[12]).toBe(1);
+
+    // 18 October 2026 is a Sunday
+    expect(getDayOfWeekDistribution(reports)).toEqual([2, 0, 0, 0, 0, 0, 1]);
+  });
+});
+
+describe('resolution percentiles', () => {
+  it('interpolates between the closest ranks', () => {
+    expect(getPercentile([10, 20, 30, 40], 50)).toBe(25);
+    expect(getPercentile([10, 20, 30, 40], 90)).toBe(37);
+    expect(getPercentile([], 50)).toBeNull();
+  });
+
+  it('reports overall and per-urgency times, leaving out unresolved reports', () => {
+    const resolvedAfter = (hours: number, urgency: IncidentRow['urgency']) => incident({
+      urgency,
+      date_reported: reportedAgo(DAY),
+      resolved_at: reportedAgo(DAY - hours * HOUR)
+    });
+
+    const rows = getResolutionPercentiles([
+      resolvedAfter(1, 'HIGH'),
+      resolvedAfter(3, 'HIGH'),
+      resolvedAfter(8, 'LOW'),
+      incident({ urgency: 'HIGH' })
+    ]);
+
+    expect(rows.map(row => [row.label, row.count, row.values[0]])).toEqual([
+      ['All incidents', 3, 3 * HOUR],
+      ['HIGH', 2, 2 * HOUR],
+      ['MEDIUM', 0, null],
+      ['LOW', 1, 8 * HOUR]
+    ]);
+  });
+});
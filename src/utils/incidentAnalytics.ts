@@ -0,0 +1,191 @@
+// Aggregations behind the incident analytics page
+
+import type { Database } from '../lib/supabase';
+import { BARANGAYS, INCIDENT_TYPES } from './constants';
+import { getTimeToResolve } from './incidentMetrics';
+
+type IncidentRow = Database['public']['Tables']['incident_reports']['Row'];
+
+export type AnalyticsRangeId = '7d' | '30d' | '90d' | '365d';
+
+export const ANALYTICS_RANGES: { id: AnalyticsRangeId; label: string; days: number; bucket: 'day' | 'week' | 'month' }[] = [
+  { id: '7d', label: 'Last 7 days', days: 7, bucket: 'day' },
+  { id: '30d', label: 'Last 30 days', days: 30, bucket: 'day' },
+  { id: '90d', label: 'Last 90 days', days: 90, bucket: 'week' },
+  { id: '365d', label: 'Last 12 months', days: 365, bucket: 'month' }
+];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+export const RESOLUTION_PERCENTILES = [50, 75, 90, 95];
+
+// Rows for reports whose location is not one of the official barangays
+export const UNSPECIFIED_BARANGAY = 'Unspecified';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+export const getIncidentTypeLabel = (incident: Pick<IncidentRow, 'incident_type'>) =>
+  incident.incident_type || 'Others';
+
+export const filterIncidentsByRange = (incidents: IncidentRow[], days: number, now: number = Date.now()) => {
+  const since = startOfDay(now - (days - 1) * DAY_MS).getTime();
+  return incidents.filter(incident => new Date(incident.date_reported).getTime() >= since);
+};
+
+/**
+ * Known incident types first, in their usual order, followed by any other
+ * types that appear in the data.
+ */
+export const getIncidentTypes = (incidents: IncidentRow[]): string[] => {
+  const present = new Set(incidents.map(getIncidentTypeLabel));
+  const extra = [...present].filter(type => !INCIDENT_TYPES.includes(type)).sort();
+  return [...INCIDENT_TYPES.filter(type => present.has(type)), ...extra];
+};
+
+interface TimeBucket {
+  label: string;
+  start: number;
+  end: number;
+}
+
+const getTimeBuckets = (days: number, bucket: 'day' | 'week' | 'month', now: number): TimeBucket[] => {
+  const buckets: TimeBucket[] = [];
+  const rangeStart = startOfDay(now - (days - 1) * DAY_MS);
+  const rangeEnd = startOfDay(now).getTime() + DAY_MS;
+
+  if (bucket === 'month') {
+    const cursor = new Date(rangeStart.getFullYear(), rangeStart.getMonth(), 1);
+    while (cursor.getTime() < rangeEnd) {
+      const next = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1);
+      buckets.push({
+        label: cursor.toLocaleDateString(undefined, { month: 'short', year: '2-digit' }),
+        start: Math.max(cursor.getTime(), rangeStart.getTime()),
+        end: Math.min(next.getTime(), rangeEnd)
+      });
+      cursor.setMonth(cursor.getMonth() + 1);
+    }
+    return buckets;
+  }
+
+  const step = bucket === 'week' ? 7 : 1;
+  for (let start = rangeStart.getTime(); start < rangeEnd; start += step * DAY_MS) {
+    buckets.push({
+      label: new Date(start).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      start,
+      end: Math.min(start + step * DAY_MS, rangeEnd)
+    });
+  }
+  return buckets;
+};
+
+export interface TypeTrend {
+  labels: string[];
+  series: { type: string; counts: number[] }[];
+}
+
+export const getTypeTrends = (
+  incidents: IncidentRow[],
+  rangeId: AnalyticsRangeId,
+  now: number = Date.now()
+): TypeTrend => {
+  const range = ANALYTICS_RANGES.find(r => r.id === rangeId) || ANALYTICS_RANGES[1];
+  const buckets = getTimeBuckets(range.days, range.bucket, now);
+  const inRange = filterIncidentsByRange(incidents, range.days, now);
+
+  const series = getIncidentTypes(inRange).map(type => ({
+    type,
+    counts: buckets.map(bucket => inRange.filter(incident => {
+      const time = new Date(incident.date_reported).getTime();
+      return getIncidentTypeLabel(incident) === type && time >= bucket.start && time < bucket.end;
+    }).length)
+  }));
+
+  return { labels: buckets.map(bucket => bucket.label), series };
+};
+
+export interface BarangayTypeMatrix {
+  types: string[];
+  rows: { barangay: string; counts: number[]; total: number }[];
+  max: number;
+}
+
+export const getBarangayTypeMatrix = (incidents: IncidentRow[]): BarangayTypeMatrix => {
+  const types = getIncidentTypes(incidents);
+  const barangays = [...BARANGAYS];
+  if (incidents.some(incident => !incident.location || !BARANGAYS.includes(incident.location))) {
+    barangays.push(UNSPECIFIED_BARANGAY);
+  }
+
+  const rows = barangays.map(barangay => {
+    const matches = incidents.filter(incident =>
+      barangay === UNSPECIFIED_BARANGAY
+        ? !incident.location || !BARANGAYS.includes(incident.location)
+        : incident.location === barangay
+    );
+    const counts = types.map(type => matches.filter(incident => getIncidentTypeLabel(incident) === type).length);
+    return { barangay, counts, total: matches.length };
+  });
+
+  return { types, rows, max: Math.max(0, ...rows.flatMap(row => row.counts)) };
+};
+
+export const getHourOfDayDistribution = (incidents: IncidentRow[]): number[] => {
+  const counts = new Array(24).fill(0);
+  incidents.forEach(incident => {
+    counts[new Date(incident.date_reported).getHours()]++;
+  });
+  return counts;
+};
+
+export const getDayOfWeekDistribution = (incidents: IncidentRow[]): number[] => {
+  const counts = new Array(7).fill(0);
+  incidents.forEach(incident => {
+    counts[new Date(incident.date_reported).getDay()]++;
+  });
+  return counts;
+};
+
+// Linear interpolation between closest ranks
+export const getPercentile = (sortedValues: number[], percentile: number): number | null => {
+  if (sortedValues.length === 0) return null;
+  const rank = (percentile / 100) * (sortedValues.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (rank - lower);
+};
+
+export interface ResolutionPercentileRow {
+  label: string;
+  count: number;
+  values: (number | null)[];
+}
+
+/**
+ * Time from report to resolution at each of RESOLUTION_PERCENTILES, overall
+ * and per urgency. Reports that were never resolved are left out.
+ */
+export const getResolutionPercentiles = (incidents: IncidentRow[]): ResolutionPercentileRow[] => {
+  const build = (label: string, subset: IncidentRow[]): ResolutionPercentileRow => {
+    const durations = subset
+      .map(getTimeToResolve)
+      .filter((d): d is number => d !== null)
+      .sort((a, b) => a - b);
+    return {
+      label,
+      count: durations.length,
+      values: RESOLUTION_PERCENTILES.map(p => getPercentile(durations, p))
+    };
+  };
+
+  return [
+    build('All incidents', incidents),
+    ...(['HIGH', 'MEDIUM', 'LOW'] as const).map(urgency =>
+      build(urgency, incidents.filter(incident => incident.urgency === urgency))
+    )
+  ];
+};
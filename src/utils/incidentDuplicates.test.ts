@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findDuplicateCandidates,
+  flagLikelyDuplicates,
+  getTextSimilarity,
+  scoreDuplicate
+} from './incidentDuplicates';
+import type { Database } from '../lib/supabase';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+
+const NOW = Date.parse('2026-10-18T08:00:00.000Z');
+const MINUTE = 60 * 1000;
+
+const report = (id: string, overrides: Partial<IncidentReport> = {}): IncidentReport => ({
+  id,
+  reference_number: `INC-${id}`,
+  reporter_name: 'Juan Dela Cruz',
+  contact_number: '09171234567',
+  location: 'Agol',
+  incident_type: 'Flood',
+  description: 'River overflowing near the chapel',
+  urgency: 'HIGH',
+  status: 'received',
+  date_reported: new Date(NOW).toISOString(),
+  image_url: null,
+  assigned_team_id: null,
+  verified_at: null,
+  dispatched_at: null,
+  on_scene_at: null,
+  resolved_at: null,
+  closed_at: null,
+  latitude: null,
+  longitude: null,
+  location_accuracy: null,
+  parent_incident_id: null,
+  extra_details: {},
+  contact_verified_at: null,
+  updated_at: new Date(NOW).toISOString(),
+  ...overrides
+});
+
+const minutesLater = (minutes: number) => new Date(NOW + minutes * MINUTE).toISOString();
+
+describe('getTextSimilarity', () => {
+  it('compares meaningful words, ignoring case, punctuation and stop words', () => {
+    expect(getTextSimilarity('The river is overflowing!', 'river OVERFLOWING sa mga bahay')).toBeCloseTo(2 / 3);
+    expect(getTextSimilarity('ang mga the', 'ang mga the')).toBe(0);
+    expect(getTextSimilarity(null, 'River')).toBe(0);
+  });
+});
+
+describe('scoreDuplicate', () => {
+  it('matches reports of the same type in the same barangay within the time window', () => {
+    const match = scoreDuplicate(report('a'), report('b', { date_reported: minutesLater(30) }));
+
+    expect(match?.score).toBeCloseTo(0.35 + (1 - 0.5 / 6) * 0.3 + 0.35);
+    expect(match?.reasons).toEqual([
+      'Same type (Flood)',
+      'Same barangay (Agol)',
+      '30 min apart',
+      '100% similar description'
+    ]);
+  });
+
+  it('matches pinned reports within a kilometre across barangays', () => {
+    const match = scoreDuplicate(
+      report('a', { latitude: 13.03, longitude: 123.45 }),
+      report('b', { location: 'Basag', latitude: 13.033, longitude: 123.45 })
+    );
+
+    expect(match?.reasons[1]).toBe('0.3 km apart');
+  });
+
+  it('ignores other types, other barangays and reports outside the time window', () => {
+    expect(scoreDuplicate(report('a'), report('b', { incident_type: 'Fire' }))).toBeNull();
+    expect(scoreDuplicate(report('a'), report('b', { location: 'Basag' }))).toBeNull();
+    expect(scoreDuplicate(report('a'), report('b', { date_reported: minutesLater(7 * 60) }))).toBeNull();
+    expect(scoreDuplicate(
+      report('a', { latitude: 13.03, longitude: 123.45 }),
+      report('b', { location: 'Basag', latitude: 13.05, longitude: 123.45 })
+    )).toBeNull();
+  });
+});
+
+describe('findDuplicateCandidates', () => {
+  it('only offers reports that may still be merged away, best match first', () => {
+    const incident = report('a');
+    const candidates = findDuplicateCandidates(incident, [
+      incident,
+      report('later', { date_reported: minutesLater(90) }),
+      report('sooner', { date_reported: minutesLater(10) }),
+      report('dispatched', { status: 'dispatched' }),
+      report('merged', { status: 'duplicate', parent_incident_id: 'x' }),
+      report('unrelated', { date_reported: minutesLater(5 * 60), description: 'Tree fell on the road' })
+    ]);
+
+    expect(candidates.map(candidate => candidate.incident.id)).toEqual(['sooner', 'later']);
+  });
+});
+
+describe('flagLikelyDuplicates', () => {
+  it('flags reports both ways and leaves dispatched ones as merge targets only', () => {
+    expect(flagLikelyDuplicates([
+      report('a'),
+      report('b', { date_reported: minutesLater(20) }),
+      report('c', { status: 'dispatched', date_reported: minutesLater(40) }),
+      report('d', { incident_type: 'Fire' })
+    ])).toEqual({ a: ['b'], b: ['a'], c: ['b', 'a'] });
+  });
+});
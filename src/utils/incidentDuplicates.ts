@@ -0,0 +1,139 @@
+// Likely-duplicate detection for incident reports
+
+import { getDistanceKm } from './geo';
+import { INCIDENT_STATUS_TRANSITIONS } from './constants';
+import type { Database } from '../lib/supabase';
+
+type IncidentReport = Database['public']['Tables']['incident_reports']['Row'];
+
+export const DUPLICATE_TIME_WINDOW_HOURS = 6;
+export const DUPLICATE_NEARBY_KM = 1;
+export const DUPLICATE_SCORE_THRESHOLD = 0.55;
+
+// Common English, Filipino and Bikol words that carry no meaning for matching
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'this', 'that', 'there', 'are', 'was', 'were', 'has', 'have',
+  'near', 'our', 'please', 'ang', 'mga', 'may', 'para', 'dito', 'doon', 'kami', 'kay', 'nasa',
+  'sana', 'yung', 'iyong', 'sin', 'kan', 'igdi', 'duman', 'asin', 'niya'
+]);
+
+export interface DuplicateCandidate {
+  incident: IncidentReport;
+  score: number;
+  reasons: string[];
+}
+
+const tokenize = (text?: string | null): Set<string> => {
+  return new Set(
+    (text || '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(token => token.length > 2 && !STOP_WORDS.has(token))
+  );
+};
+
+export const getTextSimilarity = (a?: string | null, b?: string | null): number => {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+  return shared / (tokensA.size + tokensB.size - shared);
+};
+
+const getLocationMatch = (a: IncidentReport, b: IncidentReport): { weight: number; reason: string } | null => {
+  if (a.latitude != null && a.longitude != null && b.latitude != null && b.longitude != null) {
+    const km = getDistanceKm([a.longitude, a.latitude], [b.longitude, b.latitude]);
+    if (km <= DUPLICATE_NEARBY_KM) {
+      return { weight: 1, reason: `${km < 0.1 ? '< 0.1' : km.toFixed(1)} km apart` };
+    }
+  }
+
+  if (a.location && a.location === b.location) {
+    return { weight: 1, reason: `Same barangay (${a.location})` };
+  }
+
+  return null;
+};
+
+/**
+ * Scores how likely `candidate` reports the same event as `incident`.
+ * Returns null unless the type matches, both are in the same barangay or
+ * within DUPLICATE_NEARBY_KM, and both were reported within the time window.
+ */
+export const scoreDuplicate = (
+  incident: IncidentReport,
+  candidate: IncidentReport
+): DuplicateCandidate | null => {
+  if (!incident.incident_type || incident.incident_type !== candidate.incident_type) return null;
+
+  const hoursApart = Math.abs(
+    new Date(incident.date_reported).getTime() - new Date(candidate.date_reported).getTime()
+  ) / 3600000;
+  if (!Number.isFinite(hoursApart) || hoursApart > DUPLICATE_TIME_WINDOW_HOURS) return null;
+
+  const location = getLocationMatch(incident, candidate);
+  if (!location) return null;
+
+  const textSimilarity = getTextSimilarity(incident.description, candidate.description);
+  const timeCloseness = 1 - hoursApart / DUPLICATE_TIME_WINDOW_HOURS;
+  const score = location.weight * 0.35 + timeCloseness * 0.3 + textSimilarity * 0.35;
+
+  const reasons = [
+    `Same type (${incident.incident_type})`,
+    location.reason,
+    hoursApart < 1 ? `${Math.round(hoursApart * 60)} min apart` : `${hoursApart.toFixed(1)} h apart`
+  ];
+  if (textSimilarity > 0) {
+    reasons.push(`${Math.round(textSimilarity * 100)}% similar description`);
+  }
+
+  return { incident: candidate, score, reasons };
+};
+
+const isMergeable = (incident: IncidentReport) =>
+  !incident.parent_incident_id && !['duplicate', 'rejected'].includes(incident.status);
+
+// merge_incident_reports() only marks reports that may still move to 'duplicate'
+const canMergeAway = (incident: IncidentReport) =>
+  isMergeable(incident) && INCIDENT_STATUS_TRANSITIONS[incident.status].includes('duplicate');
+
+export const findDuplicateCandidates = (
+  incident: IncidentReport,
+  incidents: IncidentReport[]
+): DuplicateCandidate[] => {
+  return incidents
+    .filter(other => other.id !== incident.id && canMergeAway(other))
+    .map(other => scoreDuplicate(incident, other))
+    .filter((match): match is DuplicateCandidate => match !== null && match.score >= DUPLICATE_SCORE_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Maps each mergeable incident id to the ids of its likely duplicates.
+ * Incidents are bucketed by type first to keep this cheap on large lists.
+ */
+export const flagLikelyDuplicates = (incidents: IncidentReport[]): Record<string, string[]> => {
+  const flags: Record<string, string[]> = {};
+  const byType: Record<string, IncidentReport[]> = {};
+
+  incidents.filter(isMergeable).forEach(incident => {
+    const type = incident.incident_type || '';
+    (byType[type] = byType[type] || []).push(incident);
+  });
+
+  Object.values(byType).forEach(group => {
+    group.forEach(incident => {
+      const matches = findDuplicateCandidates(incident, group);
+      if (matches.length > 0) {
+        flags[incident.id] = matches.map(match => match.incident.id);
+      }
+    });
+  });
+
+  return flags;
+};
@@ -0,0 +1,41 @@
+// Response-time metrics for incident reports
+
+import type { IncidentReport } from '../types';
+
+type IncidentTimestamps = Pick<IncidentReport, 'date_reported' | 'dispatched_at' | 'resolved_at'>;
+
+const durationBetween = (start?: string | null, end?: string | null): number | null => {
+  if (!start || !end) return null;
+  const ms = new Date(end).getTime() - new Date(start).getTime();
+  return Number.isFinite(ms) && ms >= 0 ? ms : null;
+};
+
+export const getTimeToDispatch = (incident: IncidentTimestamps): number | null => {
+  return durationBetween(incident.date_reported, incident.dispatched_at);
+};
+
+export const getTimeToResolve = (incident: IncidentTimestamps): number | null => {
+  return durationBetween(incident.date_reported, incident.resolved_at);
+};
+
+export const averageDuration = (durations: (number | null)[]): number | null => {
+  const values = durations.filter((d): d is number => d !== null);
+  if (values.length === 0) return null;
+  return values.reduce((sum, d) => sum + d, 0) / values.length;
+};
+
+export const formatDuration = (ms: number | null): string => {
+  if (ms === null) return '—';
+
+  const totalMinutes = Math.round(ms / 60000);
+  if (totalMinutes < 1) return '< 1m';
+  if (totalMinutes < 60) return `${totalMinutes}m`;
+
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours < 24) return minutes ? `${hours}h ${minutes}m` : `${hours}h`;
+
+  const days = Math.floor(hours / 24);
+  const remainingHours = hours % 24;
+  return remainingHours ? `${days}d ${remainingHours}h` : `${days}d`;
+};
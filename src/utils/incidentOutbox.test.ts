@@ -0,0 +1,115 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { flushIncidentOutbox, getOutboxEntries, saveOutboxEntry, type OutboxEntry } from './incidentOutbox';
+import { IncidentSubmissionError } from './incidentSubmission';
+
+// The real client needs the Vite environment; the outbox is handed `send` instead
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+const createEntry = (id: string, overrides: Partial<OutboxEntry> = {}): OutboxEntry => ({
+  id,
+  row: {
+    id: `incident-${id}`,
+    reference_number: `RD-2026-${id}`,
+    reporter_name: 'Juan Dela Cruz',
+    contact_number: '+639171234567',
+    description: 'Flooding along the national road'
+  },
+  attachments: [],
+  status: 'queued',
+  attempts: 0,
+  lastError: null,
+  createdAt: `2026-10-18T00:00:0${id}.000Z`,
+  sentAt: null,
+  ...overrides
+});
+
+describe('flushIncidentOutbox', () => {
+  beforeEach(() => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('window', new EventTarget());
+    vi.stubGlobal('navigator', { onLine: true });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends queued entries in order and keeps them with the final reference', async () => {
+    await saveOutboxEntry(createEntry('2'));
+    await saveOutboxEntry(createEntry('1'));
+    await saveOutboxEntry(createEntry('3', { status: 'sent' }));
+    const send = vi.fn(async (entry: OutboxEntry) => `RD-2026-10${entry.id}`);
+
+    expect(await flushIncidentOutbox(send)).toBe(2);
+
+    expect(send.mock.calls.map(([entry]) => entry.id)).toEqual(['1', '2']);
+    expect((await getOutboxEntries()).map(entry => [entry.id, entry.status, entry.row.reference_number])).toEqual([
+      ['1', 'sent', 'RD-2026-101'],
+      ['2', 'sent', 'RD-2026-102'],
+      ['3', 'sent', 'RD-2026-3']
+    ]);
+  });
+
+  it('marks reports the server refuses for good as rejected and sends the rest', async () => {
+    await saveOutboxEntry(createEntry('1'));
+    await saveOutboxEntry(createEntry('2'));
+    const send = vi.fn(async (entry: OutboxEntry) => {
+      if (entry.id === '1') {
+        throw new IncidentSubmissionError('The report is incomplete.', 'validation', {
+          description: 'Description is required'
+        }, true);
+      }
+      return 'RD-2026-0002';
+    });
+
+    expect(await flushIncidentOutbox(send)).toBe(1);
+
+    const [rejected, sent] = await getOutboxEntries();
+    expect(rejected).toMatchObject({
+      status: 'rejected',
+      attempts: 1,
+      lastError: 'The report is incomplete. Description is required'
+    });
+    expect(sent.status).toBe('sent');
+  });
+
+  it('keeps entries queued when the refusal is not final', async () => {
+    await saveOutboxEntry(createEntry('1'));
+    await saveOutboxEntry(createEntry('2'));
+    const send = vi.fn(async (): Promise<string> => {
+      throw new IncidentSubmissionError('Too many reports from this number.', 'rate_limit_phone');
+    });
+
+    expect(await flushIncidentOutbox(send)).toBe(0);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect((await getOutboxEntries()).map(entry => [entry.status, entry.attempts, entry.lastError])).toEqual([
+      ['queued', 1, 'Too many reports from this number.'],
+      ['queued', 1, 'Too many reports from this number.']
+    ]);
+  });
+
+  it('stops at a network failure and leaves the rest untouched', async () => {
+    await saveOutboxEntry(createEntry('1'));
+    await saveOutboxEntry(createEntry('2'));
+    const send = vi.fn(async (): Promise<string> => {
+      throw new TypeError('Failed to fetch');
+    });
+
+    expect(await flushIncidentOutbox(send)).toBe(0);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect((await getOutboxEntries()).map(entry => entry.attempts)).toEqual([1, 0]);
+  });
+
+  it('shares one run between overlapping calls', async () => {
+    await saveOutboxEntry(createEntry('1'));
+    const send = vi.fn(async () => 'RD-2026-0001');
+
+    const [first, second] = await Promise.all([flushIncidentOutbox(send), flushIncidentOutbox(send)]);
+
+    expect([first, second]).toEqual([1, 1]);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,226 @@
+// Persistent IndexedDB outbox for incident reports submitted while offline.
+// public/sw.js reads the same database during Background Sync, so the
+// database name, store names and entry shape must stay in sync with it.
+
+import type { Database } from '../lib/supabase';
+import { IncidentSubmissionError } from './incidentSubmission';
+import type { ProcessedAttachment } from './mediaProcessing';
+
+type IncidentInsert = Database['public']['Tables']['incident_reports']['Insert'];
+
+export const OUTBOX_DB_NAME = 'mdrrmo-outbox';
+export const OUTBOX_DB_VERSION = 1;
+export const OUTBOX_STORE = 'incidents';
+export const OUTBOX_META_STORE = 'meta';
+export const OUTBOX_SYNC_TAG = 'incident-outbox';
+export const OUTBOX_CHANGE_EVENT = 'incident-outbox-change';
+
+// Location read from EXIF is never persisted with the queued file
+export type OutboxAttachment = Omit<ProcessedAttachment, 'gps'>;
+
+export interface OutboxEntry {
+  id: string; // provisional local reference shown to the reporter
+  row: IncidentInsert & { id: string; reference_number: string };
+  attachments: OutboxAttachment[];
+  verificationId?: string | null; // confirmed phone-verification for the contact number
+  // rejected: the server refused the report for good; lastError says why
+  status: 'queued' | 'sent' | 'rejected';
+  attempts: number;
+  lastError?: string | null;
+  createdAt: string;
+  sentAt?: string | null;
+}
+
+export interface IncidentSubmissionResult {
+  status: 'sent' | 'queued';
+  referenceNumber: string;
+}
+
+const openOutbox = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_META_STORE)) {
+        db.createObjectStore(OUTBOX_META_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const runTransaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openOutbox();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = action(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const notifyChange = () => {
+  window.dispatchEvent(new CustomEvent(OUTBOX_CHANGE_EVENT));
+};
+
+export const isOutboxSupported = (): boolean => typeof indexedDB !== 'undefined';
+
+export const generateReferenceNumber = (): string =>
+  `RD-${new Date().getFullYear()}-${String(Math.floor(Math.random() * 9999) + 1).padStart(4, '0')}`;
+
+export const generateProvisionalReference = (): string =>
+  `Q-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+
+// A fetch that never reached the server, as opposed to an error response from it
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+  const message = (error as { message?: string })?.message || '';
+  return /Failed to fetch|NetworkError|Load failed|network/i.test(message);
+};
+
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+  const entries = await runTransaction<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+  return (entries || []).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const saveOutboxEntry = async (entry: OutboxEntry): Promise<void> => {
+  await runTransaction(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+  notifyChange();
+};
+
+export const removeOutboxEntry = async (id: string): Promise<void> => {
+  await runTransaction(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+  notifyChange();
+};
+
+/**
+ * The service worker has no access to the app's environment variables, so the
+ * public Supabase URL and anon key are stored alongside the outbox.
+ */
+export const saveOutboxSyncConfig = async (supabaseUrl: string, anonKey: string): Promise<void> => {
+  await runTransaction(OUTBOX_META_STORE, 'readwrite', store => store.put({ supabaseUrl, anonKey }, 'config'));
+};
+
+export const requestOutboxSync = async (): Promise<boolean> => {
+  if (!('serviceWorker' in navigator)) return false;
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const syncManager = (registration as ServiceWorkerRegistration & {
+      sync?: { register: (tag: string) => Promise<void> };
+    }).sync;
+    if (!syncManager) return false;
+
+    await syncManager.register(OUTBOX_SYNC_TAG);
+    return true;
+  } catch (error) {
+    console.warn('Background Sync unavailable, will retry on reconnect:', error);
+    return false;
+  }
+};
+
+export const queueIncident = async (
+  row: OutboxEntry['row'],
+  attachments: ProcessedAttachment[] = [],
+  verificationId: string | null = null
+): Promise<OutboxEntry> => {
+  const entry: OutboxEntry = {
+    id: generateProvisionalReference(),
+    row,
+    attachments: attachments.map(attachment => ({
+      id: attachment.id,
+      name: attachment.name,
+      mediaType: attachment.mediaType,
+      mimeType: attachment.mimeType,
+      blob: attachment.blob,
+      thumbnail: attachment.thumbnail,
+      width: attachment.width,
+      height: attachment.height,
+      durationSeconds: attachment.durationSeconds
+    })),
+    verificationId,
+    status: 'queued',
+    attempts: 0,
+    lastError: null,
+    createdAt: new Date().toISOString(),
+    sentAt: null
+  };
+
+  await saveOutboxEntry(entry);
+  await requestOutboxSync();
+  return entry;
+};
+
+let flushInProgress: Promise<number> | null = null;
+
+// What the reporter is shown for a report the server will not accept
+export const describeRejection = (error: IncidentSubmissionError): string =>
+  [error.message, ...Object.values(error.errors)].join(' ');
+
+/**
+ * Sends every queued entry with `send`, which must resolve with the final
+ * reference number. Other failures leave the entry queued for the next
+ * attempt, and a network failure stops the run. Entries the server refuses
+ * for good are marked rejected instead. Sent and rejected entries are kept
+ * so the reporter can see the final reference or the reason.
+ */
+export const flushIncidentOutbox = (send: (entry: OutboxEntry) => Promise<string>): Promise<number> => {
+  if (flushInProgress) return flushInProgress;
+
+  flushInProgress = (async () => {
+    let sentCount = 0;
+    const entries = await getOutboxEntries();
+
+    for (const entry of entries.filter(e => e.status === 'queued')) {
+      try {
+        const referenceNumber = await send(entry);
+        await saveOutboxEntry({
+          ...entry,
+          row: { ...entry.row, reference_number: referenceNumber },
+          attachments: [],
+          status: 'sent',
+          sentAt: new Date().toISOString()
+        });
+        sentCount++;
+      } catch (error) {
+        if (error instanceof IncidentSubmissionError && error.final) {
+          await saveOutboxEntry({
+            ...entry,
+            attachments: [],
+            status: 'rejected',
+            attempts: entry.attempts + 1,
+            lastError: describeRejection(error)
+          });
+          continue;
+        }
+
+        await saveOutboxEntry({
+          ...entry,
+          attempts: entry.attempts + 1,
+          lastError: (error as Error)?.message || 'Unknown error'
+        });
+        if (isNetworkError(error)) break;
+      }
+    }
+
+    return sentCount;
+  })().finally(() => {
+    flushInProgress = null;
+  });
+
+  return flushInProgress;
+};
@@ -0,0 +1,26 @@
+// Ordering for the incident queue: open reports first, then by urgency.
+// A confirmed contact number moves a report ahead of unverified reports of
+// the same urgency, but never above a more urgent one.
+
+import type { IncidentReport, IncidentStatus } from '../types';
+
+type PriorityFields = Pick<IncidentReport, 'urgency' | 'status' | 'date_reported' | 'contact_verified_at'>;
+
+const OPEN_STATUSES: IncidentStatus[] = ['received', 'verified', 'dispatched', 'on-scene'];
+
+const URGENCY_SCORE: Record<IncidentReport['urgency'], number> = { HIGH: 300, MEDIUM: 200, LOW: 100 };
+
+export const VERIFIED_CONTACT_BOOST = 50;
+
+export const isContactVerified = (incident: Pick<IncidentReport, 'contact_verified_at'>) =>
+  Boolean(incident.contact_verified_at);
+
+export const getIncidentPriority = (incident: PriorityFields): number =>
+  (OPEN_STATUSES.includes(incident.status) ? 1000 : 0) +
+  (URGENCY_SCORE[incident.urgency] || 0) +
+  (isContactVerified(incident) ? VERIFIED_CONTACT_BOOST : 0);
+
+// Highest priority first; newest first within the same priority
+export const compareIncidentPriority = (a: PriorityFields, b: PriorityFields): number =>
+  getIncidentPriority(b) - getIncidentPriority(a) ||
+  new Date(b.date_reported).getTime() - new Date(a.date_reported).getTime();
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_INCIDENT_SLA } from './constants';
+import { formatSlaCountdown, getIncidentSlaState, parseIncidentSlaSettings } from './incidentSla';
+
+const NOW = Date.parse('2026-10-18T08:00:00.000Z');
+const MINUTE = 60 * 1000;
+const reportedAgo = (minutes: number) => new Date(NOW - minutes * MINUTE).toISOString();
+
+describe('parseIncidentSlaSettings', () => {
+  it('reads saved JSON strings and seeded objects', () => {
+    const targets = { HIGH: { acknowledge_minutes: 10, resolve_minutes: 90 } };
+
+    expect(parseIncidentSlaSettings(JSON.stringify(targets)).HIGH).toEqual(targets.HIGH);
+    expect(parseIncidentSlaSettings(targets)).toEqual({ ...DEFAULT_INCIDENT_SLA, HIGH: targets.HIGH });
+  });
+
+  it('falls back to the defaults for missing, invalid and non-positive targets', () => {
+    expect(parseIncidentSlaSettings(null)).toEqual(DEFAULT_INCIDENT_SLA);
+    expect(parseIncidentSlaSettings('{not json')).toEqual(DEFAULT_INCIDENT_SLA);
+    expect(parseIncidentSlaSettings({
+      HIGH: { acknowledge_minutes: 'soon', resolve_minutes: 2.5 },
+      MEDIUM: { acknowledge_minutes: -1 },
+      LOW: []
+    })).toEqual({
+      ...DEFAULT_INCIDENT_SLA,
+      HIGH: { acknowledge_minutes: DEFAULT_INCIDENT_SLA.HIGH.acknowledge_minutes, resolve_minutes: 2.5 }
+    });
+  });
+});
+
+describe('getIncidentSlaState', () => {
+  const sla = DEFAULT_INCIDENT_SLA;
+
+  it('counts towards acknowledgement while received, then resolution', () => {
+    expect(getIncidentSlaState({ status: 'received', urgency: 'HIGH', date_reported: reportedAgo(3) }, sla, NOW))
+      .toEqual({ phase: 'acknowledge', dueAt: NOW + 2 * MINUTE, remainingMs: 2 * MINUTE, breached: false });
+    expect(getIncidentSlaState({ status: 'dispatched', urgency: 'HIGH', date_reported: reportedAgo(120) }, sla, NOW))
+      .toMatchObject({ phase: 'resolve', remainingMs: 0, breached: true });
+  });
+
+  it('stops once the incident is resolved or set aside', () => {
+    ['resolved', 'closed', 'rejected', 'duplicate'].forEach(status => {
+      expect(getIncidentSlaState({
+        status: status as 'resolved',
+        urgency: 'LOW',
+        date_reported: reportedAgo(5000)
+      }, sla, NOW)).toBeNull();
+    });
+  });
+});
+
+describe('formatSlaCountdown', () => {
+  it('shows seconds in the last minute and how long a target is overdue', () => {
+    expect(formatSlaCountdown({ phase: 'acknowledge', dueAt: NOW, remainingMs: 42 * 1000, breached: false })).toBe('42s left');
+    expect(formatSlaCountdown({ phase: 'resolve', dueAt: NOW, remainingMs: -5 * MINUTE, breached: true })).toBe('5m overdue');
+  });
+});
@@ -0,0 +1,83 @@
+// Acknowledgement and resolution targets for incident reports.
+// record_incident_sla_breaches() in the database applies the same rules.
+
+import type { Database } from '../lib/supabase';
+import type { IncidentSlaSettings, IncidentSlaTarget } from '../types';
+import { DEFAULT_INCIDENT_SLA, URGENCY_LEVELS } from './constants';
+import { formatDuration } from './incidentMetrics';
+
+type IncidentRow = Database['public']['Tables']['incident_reports']['Row'];
+
+export const INCIDENT_SLA_SETTING_KEY = 'incident_sla';
+
+export interface IncidentSlaState {
+  phase: 'acknowledge' | 'resolve';
+  dueAt: number;
+  remainingMs: number;
+  breached: boolean;
+}
+
+const ACKNOWLEDGE_STATUSES: IncidentRow['status'][] = ['received'];
+const RESOLVE_STATUSES: IncidentRow['status'][] = ['received', 'verified', 'dispatched', 'on-scene'];
+
+/**
+ * Settings saved through databaseManager.updateSetting are stored as JSON
+ * strings, seeded ones as objects; both are accepted and gaps use the defaults.
+ */
+export const parseIncidentSlaSettings = (value: unknown): IncidentSlaSettings => {
+  let parsed = value as Partial<Record<string, Partial<IncidentSlaTarget>>> | null;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      parsed = null;
+    }
+  }
+
+  const settings = { ...DEFAULT_INCIDENT_SLA };
+  URGENCY_LEVELS.forEach(level => {
+    const target = parsed?.[level];
+    const acknowledge = Number(target?.acknowledge_minutes);
+    const resolve = Number(target?.resolve_minutes);
+    settings[level] = {
+      acknowledge_minutes: acknowledge > 0 ? acknowledge : DEFAULT_INCIDENT_SLA[level].acknowledge_minutes,
+      resolve_minutes: resolve > 0 ? resolve : DEFAULT_INCIDENT_SLA[level].resolve_minutes
+    };
+  });
+  return settings;
+};
+
+/**
+ * The target an open incident is currently working towards: acknowledgement
+ * while it is still `received`, resolution afterwards. Null once resolved.
+ */
+export const getIncidentSlaState = (
+  incident: Pick<IncidentRow, 'status' | 'urgency' | 'date_reported'>,
+  sla: IncidentSlaSettings,
+  now: number = Date.now()
+): IncidentSlaState | null => {
+  const target = sla[incident.urgency];
+  if (!target) return null;
+
+  let phase: IncidentSlaState['phase'];
+  let minutes: number;
+  if (ACKNOWLEDGE_STATUSES.includes(incident.status)) {
+    phase = 'acknowledge';
+    minutes = target.acknowledge_minutes;
+  } else if (RESOLVE_STATUSES.includes(incident.status)) {
+    phase = 'resolve';
+    minutes = target.resolve_minutes;
+  } else {
+    return null;
+  }
+
+  const dueAt = new Date(incident.date_reported).getTime() + minutes * 60000;
+  const remainingMs = dueAt - now;
+  return { phase, dueAt, remainingMs, breached: remainingMs <= 0 };
+};
+
+export const formatSlaCountdown = (state: IncidentSlaState): string => {
+  if (state.breached) return `${formatDuration(-state.remainingMs)} overdue`;
+  if (state.remainingMs < 60000) return `${Math.ceil(state.remainingMs / 1000)}s left`;
+  return `${formatDuration(state.remainingMs)} left`;
+};
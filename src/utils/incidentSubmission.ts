@@ -0,0 +1,67 @@
+// Client side of the submit-incident edge function. Public reports can no
+// longer be inserted directly; the function checks rate limits, the
+// proof-of-work stamp and the same validation rules as the report form.
+
+import { FunctionsFetchError, FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import {
+  INCIDENT_REJECTED_CODE,
+  solveProofOfWork,
+  type IncidentSubmissionAttachment,
+  type IncidentSubmissionPayload,
+  type IncidentSubmissionRejection
+} from '../../supabase/functions/_shared/incidentSubmission';
+
+export type { IncidentSubmissionAttachment, IncidentSubmissionRejection };
+
+export const SUBMIT_INCIDENT_FUNCTION = 'submit-incident';
+
+// The server refused the report. When `final`, sending it again will not
+// help; otherwise (rate limits) it may be accepted later.
+export class IncidentSubmissionError extends Error {
+  constructor(
+    message: string,
+    public reason: IncidentSubmissionRejection | 'unknown',
+    public errors: Record<string, string> = {},
+    public final = false
+  ) {
+    super(message);
+    this.name = 'IncidentSubmissionError';
+  }
+}
+
+export const submitIncidentReport = async (
+  row: IncidentSubmissionPayload['row'],
+  attachments: IncidentSubmissionAttachment[],
+  { honeypot = '', verificationId = null }: { honeypot?: string; verificationId?: string | null } = {}
+): Promise<string> => {
+  const proof = await solveProofOfWork(row.id);
+  const payload: IncidentSubmissionPayload = { row, attachments, proof, website: honeypot, verificationId };
+
+  const { data, error } = await supabase.functions.invoke<{ referenceNumber: string }>(SUBMIT_INCIDENT_FUNCTION, {
+    body: payload
+  });
+
+  if (error instanceof FunctionsFetchError) {
+    // Surface the underlying TypeError so callers treat it as offline
+    throw error.context instanceof Error ? error.context : new TypeError('Failed to fetch');
+  }
+
+  if (error instanceof FunctionsHttpError) {
+    const body = await (error.context as Response).json().catch(() => ({}));
+    if (body.reason) {
+      throw new IncidentSubmissionError(
+        body.error || 'Your report was not accepted.',
+        body.reason,
+        body.errors,
+        body.code === INCIDENT_REJECTED_CODE
+      );
+    }
+    throw new Error(body.error || error.message);
+  }
+
+  if (error) throw error;
+  if (!data?.referenceNumber) throw new Error('No reference number returned');
+
+  return data.referenceNumber;
+};
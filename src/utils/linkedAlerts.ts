@@ -0,0 +1,103 @@
+// Emergency alerts kept up to date from hazard bulletins (tropical cyclones,
+// Mayon Volcano): each new bulletin updates the hazard's alert while it is
+// live, or issues a new one
+
+import { supabase } from '../lib/supabase';
+import type { AlertApprovalRule, EmergencyAlert } from '../types';
+import { notifyAlertApproval, requiresAlertApproval } from './alertApproval';
+import { dispatchAlert } from './alertDispatch';
+
+export type LinkedAlert = Pick<EmergencyAlert, 'id' | 'status' | 'severity' | 'priority' | 'channels' | 'title' | 'pending_changes'>;
+
+export type LinkedAlertContent = Pick<
+  EmergencyAlert,
+  'type' | 'severity' | 'priority' | 'title' | 'message' | 'location' | 'target_barangays' | 'channels'
+>;
+
+const LINKED_ALERT_COLUMNS = 'id, status, severity, priority, channels, title, pending_changes';
+
+const LINKED_ALERT_STATUS_LABELS: Partial<Record<EmergencyAlert['status'], string>> = {
+  active: 'Live',
+  pending_approval: 'Waiting for approval',
+  rejected: 'Rejected',
+  expired: 'Expired',
+  cancelled: 'Cancelled',
+  draft: 'Withdrawn'
+};
+
+export const getLinkedAlertStatusLabel = (alert: LinkedAlert) =>
+  alert.status === 'active' && alert.pending_changes
+    ? 'Live, update waiting for approval'
+    : LINKED_ALERT_STATUS_LABELS[alert.status] || alert.status;
+
+export const getLinkedAlert = async (id: string): Promise<LinkedAlert | null> => {
+  const { data, error } = await supabase
+    .from('emergency_alerts')
+    .select(LINKED_ALERT_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as LinkedAlert | null;
+};
+
+/**
+ * Saves the alert for a new bulletin and sends it, or asks for approval, and
+ * returns the saved alert with a message for the admin. An update to a live
+ * alert that needs approval, before or after the update, waits as pending
+ * changes and the alert stays up as it is until they are approved.
+ */
+export const publishLinkedAlert = async (
+  current: LinkedAlert | null,
+  content: LinkedAlertContent,
+  approvalRule: AlertApprovalRule
+): Promise<{ alert: LinkedAlert; message: string }> => {
+  const alertData = { ...content, show_on_frontend: true };
+  const needsApproval = requiresAlertApproval(approvalRule, content);
+
+  const isLive = current?.status === 'active';
+  const changesNeedApproval = isLive && (needsApproval || requiresAlertApproval(approvalRule, current));
+  const canUpdatePending = current?.status === 'pending_approval' && needsApproval;
+  const query = changesNeedApproval
+    ? supabase.from('emergency_alerts').update({ pending_changes: content }).eq('id', current!.id)
+    : isLive || canUpdatePending
+    ? supabase.from('emergency_alerts').update(canUpdatePending ? { ...alertData, status: 'pending_approval' } : { ...alertData, pending_changes: null }).eq('id', current!.id)
+    : supabase.from('emergency_alerts').insert([{ ...alertData, status: needsApproval ? 'pending_approval' : 'active' }]);
+  const { data, error } = await query.select(LINKED_ALERT_COLUMNS).single();
+  if (error) throw error;
+
+  const alert = data as LinkedAlert;
+
+  if (alert.status === 'pending_approval' || changesNeedApproval) {
+    const result = await notifyAlertApproval({ alertId: alert.id, event: 'requested' });
+    return {
+      alert,
+      message: [
+        changesNeedApproval
+          ? 'Bulletin posted. The alert update is waiting for a second admin\'s approval; the alert stays live as it was until then.'
+          : 'Bulletin posted. Its alert is waiting for a second admin\'s approval.',
+        result.success ? '' : ` The approvers could not be emailed: ${result.error}`
+      ].join('')
+    };
+  }
+
+  const result = await dispatchAlert(alert.id);
+  const failed = Object.values(result.summary || {}).reduce((total, counts) => total + (counts?.failed || 0), 0);
+  let message = isLive ? 'Bulletin posted and the alert update sent.' : 'Bulletin posted and the alert issued.';
+  if (!result.success) {
+    message = `Bulletin posted, but the alert could not be sent: ${result.error}`;
+  } else if (failed > 0) {
+    message = `Bulletin posted. ${failed} alert deliver${failed === 1 ? 'y' : 'ies'} failed; see the delivery log to retry.`;
+  }
+  return { alert, message };
+};
+
+/** Takes a live linked alert down once its hazard has passed */
+export const expireLinkedAlert = async (id: string) => {
+  const { error } = await supabase
+    .from('emergency_alerts')
+    .update({ status: 'expired', expires_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,132 @@
+// Mayon Volcano monitoring: PHIVOLCS alert levels, the danger zones they
+// evacuate and the evacuation advisory built from each bulletin
+
+import type {
+  EmergencyAlert,
+  VolcanoAlertLevel,
+  VolcanoBulletin,
+  VolcanoDangerZone,
+  VolcanoDangerZoneBarangay
+} from '../types';
+
+export interface VolcanoAlertLevelInfo {
+  level: VolcanoAlertLevel;
+  name: string;
+  description: string;
+  // Danger zones PHIVOLCS recommends evacuating at this level
+  evacuate: VolcanoDangerZone[];
+  // Tailwind classes for the status widget and badges
+  className: string;
+  severity: EmergencyAlert['severity'];
+  priority: EmergencyAlert['priority'];
+}
+
+// PHIVOLCS Volcano Alert Level scheme for Mayon
+export const VOLCANO_ALERT_LEVELS: VolcanoAlertLevelInfo[] = [
+  {
+    level: 0,
+    name: 'Normal',
+    description: 'Quiet. No eruption expected in the foreseeable future.',
+    evacuate: [],
+    className: 'bg-green-600 text-white',
+    severity: 'low',
+    priority: 1
+  },
+  {
+    level: 1,
+    name: 'Low-level Unrest',
+    description: 'Slight increase in volcanic earthquakes and steaming. No eruption imminent.',
+    evacuate: [],
+    className: 'bg-yellow-300 text-gray-900',
+    severity: 'low',
+    priority: 2
+  },
+  {
+    level: 2,
+    name: 'Increasing Unrest',
+    description: 'Moderate unrest from shallow magma that could eventually lead to a hazardous eruption.',
+    evacuate: [],
+    className: 'bg-amber-500 text-gray-900',
+    severity: 'medium',
+    priority: 3
+  },
+  {
+    level: 3,
+    name: 'Increased Tendency Towards Hazardous Eruption',
+    description: 'Magma is at the crater. A hazardous eruption is possible within weeks.',
+    evacuate: ['permanent'],
+    className: 'bg-orange-600 text-white',
+    severity: 'high',
+    priority: 4
+  },
+  {
+    level: 4,
+    name: 'Hazardous Eruption Imminent',
+    description: 'Intense unrest. A hazardous eruption is possible within days.',
+    evacuate: ['permanent', 'extended'],
+    className: 'bg-red-600 text-white',
+    severity: 'critical',
+    priority: 5
+  },
+  {
+    level: 5,
+    name: 'Hazardous Eruption in Progress',
+    description: 'A hazardous eruption is under way and may affect areas beyond the danger zones.',
+    evacuate: ['permanent', 'extended'],
+    className: 'bg-red-900 text-white',
+    severity: 'critical',
+    priority: 5
+  }
+];
+
+export const VOLCANO_DANGER_ZONES: { id: VolcanoDangerZone; name: string; radius: string }[] = [
+  { id: 'permanent', name: 'Permanent Danger Zone', radius: '6 km' },
+  { id: 'extended', name: 'Extended Danger Zone', radius: '7-8 km' }
+];
+
+export const getVolcanoAlertLevel = (level: VolcanoAlertLevel) => VOLCANO_ALERT_LEVELS[level];
+
+export const getDangerZoneName = (zone: VolcanoDangerZone) =>
+  VOLCANO_DANGER_ZONES.find(item => item.id === zone)?.name || zone;
+
+/** Danger zone barangays to evacuate at an alert level */
+export const getEvacuationBarangays = (level: VolcanoAlertLevel, zones: VolcanoDangerZoneBarangay[]) => {
+  const evacuate = getVolcanoAlertLevel(level).evacuate;
+  return zones.filter(zone => evacuate.includes(zone.zone));
+};
+
+const formatManilaTime = (value: string) =>
+  new Date(value).toLocaleString('en-PH', { timeZone: 'Asia/Manila', dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * The evacuation advisory a bulletin issues or updates for the danger zone
+ * barangays its alert level evacuates. Only meaningful when
+ * getEvacuationBarangays() returns some.
+ */
+export const buildVolcanoAdvisory = (
+  bulletin: Pick<VolcanoBulletin, 'alert_level' | 'issued_at' | 'observations' | 'recommendations'>,
+  zones: VolcanoDangerZoneBarangay[]
+): Pick<EmergencyAlert, 'type' | 'severity' | 'priority' | 'title' | 'message' | 'location' | 'target_barangays'> => {
+  const level = getVolcanoAlertLevel(bulletin.alert_level);
+  const evacuating = getEvacuationBarangays(bulletin.alert_level, zones);
+  const zoneNames = level.evacuate.map(getDangerZoneName).join(' and ');
+
+  const message = [
+    `PHIVOLCS has Mayon Volcano under Alert Level ${level.level} (${level.name}). ${level.description}`,
+    `Residents inside the ${zoneNames} must evacuate now to their designated evacuation centers:`,
+    evacuating.map(zone => `- ${zone.barangay}${zone.notes ? ` (${zone.notes})` : ''}`).join('\n'),
+    bulletin.observations?.trim(),
+    bulletin.recommendations?.trim(),
+    `PHIVOLCS Mayon Volcano bulletin issued ${formatManilaTime(bulletin.issued_at)}.`
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    type: 'volcano',
+    severity: level.severity,
+    priority: level.priority,
+    title: `Mayon Volcano Alert Level ${level.level}: Evacuate the ${zoneNames}`,
+    message,
+    location: evacuating.map(zone => zone.barangay).join(', '),
+    target_barangays: evacuating.map(zone => zone.barangay)
+  };
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { scrubVideoLocation } from './mediaProcessing';
+
+// Minimal MP4/MOV files laid out the way the phones write them. Real
+// recordings are too large to keep in the repository; these carry the same
+// atoms on the path from the file root to the location metadata.
+
+const latin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+const concat = (...parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((offset, part) => {
+    bytes.set(part, offset);
+    return offset + part.length;
+  }, 0);
+  return bytes;
+};
+
+const u32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+const atom = (type: string | number, ...children: Uint8Array[]) => {
+  const body = concat(...children);
+  return concat(u32(body.length + 8), typeof type === 'number' ? u32(type) : latin1(type), body);
+};
+
+// An atom with a 64-bit size, as large media data is written
+const largeAtom = (type: string, body: Uint8Array) => {
+  const header = new Uint8Array(16);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 1);
+  header.set(latin1(type), 4);
+  view.setBigUint64(8, BigInt(body.length + 16));
+  return concat(header, body);
+};
+
+const FULL_ATOM_FLAGS = new Uint8Array(4);
+const dataAtom = (value: string) => atom('data', u32(1), u32(0), latin1(value));
+// QuickTime user data text: 16-bit length and language code, then the text
+const userDataText = (value: string) => concat(new Uint8Array([0, value.length, 0x15, 0xc7]), latin1(value));
+
+const LOCATION = '+13.0293+123.4620+005.000/';
+const APPLE_KEY = 'com.apple.quicktime.location.ISO6709';
+// Media data that happens to contain what looks like a location atom
+const MEDIA = concat(latin1('frame'), atom('©xyz', userDataText(LOCATION)), latin1('frame'));
+
+const iphoneMov = () => concat(
+  atom('ftyp', latin1('qt  '), u32(0), latin1('qt  ')),
+  atom('wide'),
+  atom('mdat', MEDIA),
+  atom('moov',
+    atom('mvhd', new Uint8Array(100)),
+    atom('trak', atom('tkhd', new Uint8Array(84))),
+    atom('meta',
+      atom('hdlr', FULL_ATOM_FLAGS, u32(0), latin1('mdta'), new Uint8Array(13)),
+      atom('keys', FULL_ATOM_FLAGS, u32(3),
+        atom('mdta', latin1('com.apple.quicktime.make')),
+        atom('mdta', latin1(APPLE_KEY)),
+        atom('mdta', latin1('com.apple.quicktime.software'))),
+      atom('ilst',
+        atom(1, dataAtom('Apple')),
+        atom(2, dataAtom(LOCATION)),
+        atom(3, dataAtom('17.0')))))
+);
+
+const androidMp4 = () => concat(
+  atom('ftyp', latin1('isom'), u32(0), latin1('isommp42')),
+  atom('moov',
+    atom('mvhd', new Uint8Array(100)),
+    atom('udta',
+      atom('©xyz', userDataText(LOCATION)),
+      atom('meta', FULL_ATOM_FLAGS,
+        atom('hdlr', FULL_ATOM_FLAGS, u32(0), latin1('mdir'), new Uint8Array(13)),
+        atom('ilst', atom('©xyz', dataAtom(LOCATION)), atom('©too', dataAtom('Lavf'))))),
+    atom('trak', atom('tkhd', new Uint8Array(84)), atom('udta', atom('loci', FULL_ATOM_FLAGS, latin1('Pio Duran'))))),
+  largeAtom('mdat', MEDIA)
+);
+
+const scrub = async (bytes: Uint8Array<ArrayBuffer>) =>
+  new Uint8Array(await (await scrubVideoLocation(new Blob([bytes], { type: 'video/mp4' }))).arrayBuffer());
+
+const countOf = (bytes: Uint8Array, text: string) => String.fromCharCode(...bytes).split(text).length - 1;
+
+const indexOf = (bytes: Uint8Array, part: Uint8Array) =>
+  String.fromCharCode(...bytes).indexOf(String.fromCharCode(...part));
+
+describe('scrubVideoLocation', () => {
+  it('blanks the iPhone location key and keeps the other metadata and the media', async () => {
+    const original = iphoneMov();
+    const scrubbed = await scrub(original);
+
+    expect(scrubbed.length).toBe(original.length);
+    // The only copy left is the decoy in the media data
+    expect(countOf(original, LOCATION)).toBe(2);
+    expect(countOf(scrubbed, LOCATION)).toBe(1);
+    expect(countOf(scrubbed, 'Apple')).toBe(1);
+    expect(countOf(scrubbed, APPLE_KEY)).toBe(1);
+    expect(countOf(scrubbed, '17.0')).toBe(1);
+
+    const mediaStart = indexOf(original, MEDIA);
+    expect(scrubbed.subarray(mediaStart, mediaStart + MEDIA.length)).toEqual(MEDIA);
+  });
+
+  it('blanks the Android ©xyz and loci atoms but not media data that looks like one', async () => {
+    const original = androidMp4();
+    const scrubbed = await scrub(original);
+
+    expect(scrubbed.length).toBe(original.length);
+    expect(countOf(original, LOCATION)).toBe(3);
+    expect(countOf(scrubbed, LOCATION)).toBe(1);
+    expect(countOf(scrubbed, 'Pio Duran')).toBe(0);
+    expect(countOf(scrubbed, 'Lavf')).toBe(1);
+    expect(scrubbed.subarray(original.length - MEDIA.length)).toEqual(MEDIA);
+  });
+
+  it('leaves files it cannot parse unchanged', async () => {
+    const original = concat(u32(4096), latin1('moov'), atom('©xyz', userDataText(LOCATION)));
+
+    expect(await scrub(original)).toEqual(original);
+  });
+});
@@ -0,0 +1,380 @@
+// Client-side processing of incident photos and video clips before upload
+
+export const ATTACHMENT_LIMITS = {
+  maxFiles: 5,
+  maxImageInputSize: 20 * 1024 * 1024,
+  maxVideoSize: 20 * 1024 * 1024,
+  maxVideoDurationSeconds: 30,
+  imageMaxDimension: 1600,
+  thumbnailMaxDimension: 320,
+  jpegQuality: 0.82
+};
+
+export interface GpsCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ProcessedAttachment {
+  id: string;
+  name: string;
+  mediaType: 'image' | 'video';
+  mimeType: string;
+  blob: Blob;
+  thumbnail: Blob | null;
+  width: number | null;
+  height: number | null;
+  durationSeconds: number | null;
+  // Read from the original file's EXIF; only applied to the report with consent
+  gps: GpsCoordinates | null;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/jpeg', quality = ATTACHMENT_LIMITS.jpegQuality): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Unable to encode image')), type, quality);
+  });
+};
+
+const fitWithin = (width: number, height: number, max: number) => {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number, max: number): HTMLCanvasElement => {
+  const size = fitWithin(width, height, max);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, size.width, size.height);
+  context.drawImage(source, 0, 0, size.width, size.height);
+  return canvas;
+};
+
+const loadImage = async (file: File): Promise<{ source: CanvasImageSource; width: number; height: number }> => {
+  if ('createImageBitmap' in window) {
+    try {
+      // Applies the EXIF orientation so pixels are upright once the metadata is gone
+      const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+      return { source: bitmap, width: bitmap.width, height: bitmap.height };
+    } catch {
+      // Fall through to <img> decoding
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return { source: image, width: image.naturalWidth, height: image.naturalHeight };
+  } catch {
+    throw new Error(`${file.name} is not a supported image format`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Reads GPS coordinates from a JPEG's EXIF block. Returns null for other
+ * formats or when the photo carries no location.
+ */
+export const readExifGps = async (file: Blob): Promise<GpsCoordinates | null> => {
+  const view = new DataView(await file.slice(0, 256 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      return parseTiffGps(view, offset + 10);
+    }
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) break;
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const parseTiffGps = (view: DataView, tiffStart: number): GpsCoordinates | null => {
+  if (tiffStart + 8 > view.byteLength) return null;
+  const littleEndian = view.getUint16(tiffStart) === 0x4949;
+  const readU16 = (at: number) => view.getUint16(at, littleEndian);
+  const readU32 = (at: number) => view.getUint32(at, littleEndian);
+
+  const findTag = (ifdOffset: number, tag: number): number | null => {
+    const ifd = tiffStart + ifdOffset;
+    if (ifd + 2 > view.byteLength) return null;
+    const count = readU16(ifd);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (entry + 12 > view.byteLength) return null;
+      if (readU16(entry) === tag) return entry;
+    }
+    return null;
+  };
+
+  const gpsPointer = findTag(readU32(tiffStart + 4), 0x8825);
+  if (gpsPointer === null) return null;
+  const gpsIfd = readU32(gpsPointer + 8);
+
+  const readRef = (tag: number) => {
+    const entry = findTag(gpsIfd, tag);
+    return entry === null ? null : String.fromCharCode(view.getUint8(entry + 8));
+  };
+
+  const readDegrees = (tag: number) => {
+    const entry = findTag(gpsIfd, tag);
+    if (entry === null) return null;
+    const valueOffset = tiffStart + readU32(entry + 8);
+    if (valueOffset + 24 > view.byteLength) return null;
+    const parts = [0, 1, 2].map(i => {
+      const denominator = readU32(valueOffset + i * 8 + 4);
+      return denominator ? readU32(valueOffset + i * 8) / denominator : 0;
+    });
+    return parts[0] + parts[1] / 60 + parts[2] / 3600;
+  };
+
+  const latitude = readDegrees(2);
+  const longitude = readDegrees(4);
+  if (latitude === null || longitude === null || (latitude === 0 && longitude === 0)) return null;
+
+  return {
+    latitude: readRef(1) === 'S' ? -latitude : latitude,
+    longitude: readRef(3) === 'W' ? -longitude : longitude
+  };
+};
+
+/**
+ * Downscales and re-encodes a photo as JPEG. Re-encoding through a canvas
+ * drops every EXIF field, including GPS, camera model and timestamps.
+ */
+export const processImage = async (file: File) => {
+  if (file.size > ATTACHMENT_LIMITS.maxImageInputSize) {
+    throw new Error(`${file.name} is larger than 20MB`);
+  }
+
+  const { source, width, height } = await loadImage(file);
+  const fullCanvas = drawScaled(source, width, height, ATTACHMENT_LIMITS.imageMaxDimension);
+  const thumbCanvas = drawScaled(source, width, height, ATTACHMENT_LIMITS.thumbnailMaxDimension);
+  if ('close' in source && typeof source.close === 'function') source.close();
+
+  return {
+    blob: await canvasToBlob(fullCanvas),
+    thumbnail: await canvasToBlob(thumbCanvas, 'image/jpeg', 0.7),
+    width: fullCanvas.width,
+    height: fullCanvas.height
+  };
+};
+
+interface Atom {
+  type: string;
+  start: number;
+  // Where the atom's contents begin, after the size and type header
+  body: number;
+  end: number;
+}
+
+// Atoms that hold location metadata: QuickTime/iTunes `©xyz` and 3GPP `loci`
+const LOCATION_ATOMS = ['\u00a9xyz', 'loci'];
+// The metadata key iPhones store their location under in `moov/meta`
+const APPLE_LOCATION_KEY = 'com.apple.quicktime.location.ISO6709';
+
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const readType = (bytes: Uint8Array, at: number) => String.fromCharCode(...bytes.subarray(at, at + 4));
+
+/**
+ * The atoms laid out between `from` and `to`. A 64-bit size follows the type
+ * when the 32-bit size is 1, and a size of 0 runs to the end of the parent.
+ * Stops at the first atom that does not fit, so a damaged file is left alone
+ * from there on.
+ */
+const readAtoms = (bytes: Uint8Array, from: number, to: number): Atom[] => {
+  const view = viewOf(bytes);
+  const atoms: Atom[] = [];
+  let offset = from;
+
+  while (offset + 8 <= to) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > to) break;
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = to - offset;
+    }
+    if (size < header || offset + size > to) break;
+
+    atoms.push({ type: readType(bytes, offset + 4), start: offset, body: offset + header, end: offset + size });
+    offset += size;
+  }
+  return atoms;
+};
+
+// ISO `meta` is a full atom with 4 bytes of version and flags before its
+// children; QuickTime's is a plain atom that starts straight with `hdlr`
+const getMetaChildrenStart = (bytes: Uint8Array, meta: Atom) =>
+  readType(bytes, meta.body + 4) === 'hdlr' ? meta.body : meta.body + 4;
+
+// 1-based indexes of the location entries in a `keys` atom; `ilst` items
+// are typed by these indexes
+const readLocationKeyIndexes = (bytes: Uint8Array, keys: Atom) => {
+  const view = viewOf(bytes);
+  const indexes = new Set<number>();
+  let offset = keys.body + 8;
+
+  for (let index = 1; offset + 8 <= keys.end; index++) {
+    const size = view.getUint32(offset);
+    if (size < 8 || offset + size > keys.end) break;
+    if (size - 8 === APPLE_LOCATION_KEY.length && readType(bytes, offset + 4) === 'mdta' &&
+        String.fromCharCode(...bytes.subarray(offset + 8, offset + size)) === APPLE_LOCATION_KEY) {
+      indexes.add(index);
+    }
+    offset += size;
+  }
+  return indexes;
+};
+
+// Blanks the values in an `ilst` item's `data` atoms, keeping their type and
+// locale so players still read the item as an empty value
+const blankListItem = (bytes: Uint8Array, item: Atom) => {
+  const values = readAtoms(bytes, item.body, item.end).filter(atom => atom.type === 'data');
+  if (values.length === 0) {
+    bytes.fill(0, item.body, item.end);
+  }
+  values.forEach(value => bytes.fill(0, Math.min(value.body + 8, value.end), value.end));
+};
+
+const scrubAtoms = (bytes: Uint8Array, from: number, to: number) => {
+  readAtoms(bytes, from, to).forEach(atom => {
+    if (LOCATION_ATOMS.includes(atom.type)) {
+      bytes.fill(0, atom.body, atom.end);
+    } else if (atom.type === 'meta') {
+      const children = readAtoms(bytes, getMetaChildrenStart(bytes, atom), atom.end);
+      const keys = children.find(child => child.type === 'keys');
+      const locationKeys = keys ? readLocationKeyIndexes(bytes, keys) : new Set<number>();
+
+      children.forEach(child => {
+        if (child.type !== 'ilst') return;
+        readAtoms(bytes, child.body, child.end).forEach(item => {
+          const keyIndex = viewOf(bytes).getUint32(item.start + 4);
+          if (LOCATION_ATOMS.includes(item.type) || locationKeys.has(keyIndex)) {
+            blankListItem(bytes, item);
+          }
+        });
+      });
+    } else if (atom.type === 'moov' || atom.type === 'trak' || atom.type === 'udta') {
+      scrubAtoms(bytes, atom.body, atom.end);
+    }
+  });
+};
+
+/**
+ * Blanks the location metadata that phones write into MP4/MOV files: `©xyz`
+ * and 3GPP `loci` atoms, and the iPhone's ISO 6709 location key. Only the
+ * metadata containers under `moov` are walked, so the media data is never
+ * touched, and the file size and structure are unchanged.
+ */
+export const scrubVideoLocation = async (file: Blob): Promise<Blob> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  scrubAtoms(bytes, 0, bytes.length);
+  return new Blob([bytes], { type: file.type });
+};
+
+const captureVideoFrame = (file: File): Promise<{ thumbnail: Blob; width: number; height: number; duration: number }> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    const timeout = window.setTimeout(() => finish(new Error(`Could not read ${file.name}`)), 15000);
+
+    const finish = (error: Error | null, result?: { thumbnail: Blob; width: number; height: number; duration: number }) => {
+      window.clearTimeout(timeout);
+      URL.revokeObjectURL(url);
+      if (error || !result) reject(error);
+      else resolve(result);
+    };
+
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(0.5, video.duration / 2);
+    };
+    video.onseeked = async () => {
+      try {
+        const canvas = drawScaled(video, video.videoWidth, video.videoHeight, ATTACHMENT_LIMITS.thumbnailMaxDimension);
+        finish(null, {
+          thumbnail: await canvasToBlob(canvas, 'image/jpeg', 0.7),
+          width: video.videoWidth,
+          height: video.videoHeight,
+          duration: video.duration
+        });
+      } catch (error) {
+        finish(error as Error);
+      }
+    };
+    video.onerror = () => finish(new Error(`${file.name} is not a supported video format`));
+    video.src = url;
+  });
+};
+
+export const processVideo = async (file: File) => {
+  if (file.size > ATTACHMENT_LIMITS.maxVideoSize) {
+    throw new Error(`${file.name} is larger than 20MB`);
+  }
+
+  const frame = await captureVideoFrame(file);
+  if (frame.duration > ATTACHMENT_LIMITS.maxVideoDurationSeconds) {
+    throw new Error(`${file.name} is longer than ${ATTACHMENT_LIMITS.maxVideoDurationSeconds} seconds`);
+  }
+
+  return {
+    blob: await scrubVideoLocation(file),
+    thumbnail: frame.thumbnail,
+    width: frame.width,
+    height: frame.height,
+    durationSeconds: Math.round(frame.duration * 100) / 100
+  };
+};
+
+export const processAttachment = async (file: File): Promise<ProcessedAttachment> => {
+  const id = crypto.randomUUID();
+
+  if (file.type.startsWith('video/')) {
+    const video = await processVideo(file);
+    return {
+      id,
+      name: file.name,
+      mediaType: 'video',
+      mimeType: file.type,
+      blob: video.blob,
+      thumbnail: video.thumbnail,
+      width: video.width,
+      height: video.height,
+      durationSeconds: video.durationSeconds,
+      gps: null
+    };
+  }
+
+  if (file.type.startsWith('image/')) {
+    const [image, gps] = await Promise.all([processImage(file), readExifGps(file).catch(() => null)]);
+    return {
+      id,
+      name: file.name.replace(/\.[^.]+$/, '') + '.jpg',
+      mediaType: 'image',
+      mimeType: 'image/jpeg',
+      blob: image.blob,
+      thumbnail: image.thumbnail,
+      width: image.width,
+      height: image.height,
+      durationSeconds: null,
+      gps
+    };
+  }
+
+  throw new Error(`${file.name} is not a photo or video`);
+};
@@ -0,0 +1,34 @@
+// Client for the phone-verification edge function, which texts a one-time
+// code to a reporter's contact number and confirms it
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type {
+  PhoneVerificationRequest,
+  PhoneVerificationResponse
+} from '../../supabase/functions/_shared/phoneVerification';
+
+export {
+  VERIFICATION_CODE_LENGTH,
+  VERIFICATION_RESEND_COOLDOWN_MS
+} from '../../supabase/functions/_shared/phoneVerification';
+
+const invokePhoneVerification = async (request: PhoneVerificationRequest): Promise<PhoneVerificationResponse> => {
+  const { data, error } = await supabase.functions.invoke<PhoneVerificationResponse>('phone-verification', {
+    body: request
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const body: PhoneVerificationResponse = await (error.context as Response).json().catch(() => ({ success: false }));
+    return { ...body, success: false, error: body.error || 'Verification failed. Please try again.' };
+  }
+  if (error) throw error;
+
+  return data ?? { success: false, error: 'No response from the verification service' };
+};
+
+export const requestVerificationCode = (phone: string) =>
+  invokePhoneVerification({ action: 'send', phone });
+
+export const confirmVerificationCode = (verificationId: string, code: string) =>
+  invokePhoneVerification({ action: 'verify', verificationId, code });
@@ -3,6 +3,8 @@
 import { supabase } from '../lib/supabase';
 import { RealtimeChannel } from '@supabase/supabase-js';
 
+export type RealtimeStatus = 'SUBSCRIBED' | 'TIMED_OUT' | 'CLOSED' | 'CHANNEL_ERROR';
+
 export interface RealtimeSubscription {
   channel: RealtimeChannel;
   unsubscribe: () => void;
@@ -14,7 +16,9 @@ export class RealtimeManager {
   static subscribe(
     table: string,
     callback: (payload: any) => void,
-    filter?: { column: string; value: any }
+    filter?: { column: string; value: any },
+    // Lets callers fall back to polling while the channel is not connected
+    onStatusChange?: (status: RealtimeStatus) => void
   ): RealtimeSubscription {
     const channelName = `${table}_${Date.now()}`;
     
@@ -39,7 +43,7 @@ export class RealtimeManager {
       );
     }
     
-    channel.subscribe();
+    channel.subscribe(status => onStatusChange?.(status as RealtimeStatus));
 
     const subscription: RealtimeSubscription = {
       channel,
@@ -0,0 +1,181 @@
+// Tropical cyclone tracking: PAGASA categories and wind signals, and the
+// emergency alert wording built from each bulletin
+
+import type {
+  CycloneBulletin,
+  CycloneCategory,
+  EmergencyAlert,
+  TropicalCyclone,
+  WindSignalLevel
+} from '../types';
+import { BARANGAYS } from './constants';
+import type { LngLat } from './geo';
+
+// Town center, for placing Pio Duran on the cyclone track
+export const PIO_DURAN_LOCATION: LngLat = [123.445, 13.0293];
+
+export const CYCLONE_CATEGORIES: { id: CycloneCategory; name: string }[] = [
+  { id: 'TD', name: 'Tropical Depression' },
+  { id: 'TS', name: 'Tropical Storm' },
+  { id: 'STS', name: 'Severe Tropical Storm' },
+  { id: 'TY', name: 'Typhoon' },
+  { id: 'STY', name: 'Super Typhoon' }
+];
+
+export interface WindSignal {
+  level: WindSignalLevel;
+  winds: string;
+  threat: string;
+  leadTime: string;
+  // Tailwind classes for badges and the fill for the barangay grid
+  className: string;
+  fill: string;
+  severity: EmergencyAlert['severity'];
+  priority: EmergencyAlert['priority'];
+}
+
+// PAGASA's five-level Tropical Cyclone Wind Signal system
+export const WIND_SIGNALS: WindSignal[] = [
+  {
+    level: 0,
+    winds: 'No wind signal',
+    threat: 'No tropical cyclone winds expected',
+    leadTime: '',
+    className: 'bg-gray-100 text-gray-700',
+    fill: '#f9fafb',
+    severity: 'low',
+    priority: 2
+  },
+  {
+    level: 1,
+    winds: 'Strong winds, 39-61 km/h (Beaufort 6-7)',
+    threat: 'Minimal to minor threat to life and property',
+    leadTime: '36 hours',
+    className: 'bg-blue-100 text-blue-800',
+    fill: '#93c5fd',
+    severity: 'medium',
+    priority: 3
+  },
+  {
+    level: 2,
+    winds: 'Gale-force winds, 62-88 km/h (Beaufort 8-9)',
+    threat: 'Minor to moderate threat to life and property',
+    leadTime: '24 hours',
+    className: 'bg-yellow-100 text-yellow-800',
+    fill: '#fde047',
+    severity: 'high',
+    priority: 4
+  },
+  {
+    level: 3,
+    winds: 'Storm-force winds, 89-117 km/h (Beaufort 10-11)',
+    threat: 'Moderate to significant threat to life and property',
+    leadTime: '18 hours',
+    className: 'bg-orange-100 text-orange-800',
+    fill: '#fb923c',
+    severity: 'high',
+    priority: 4
+  },
+  {
+    level: 4,
+    winds: 'Typhoon-force winds, 118-184 km/h (Beaufort 12)',
+    threat: 'Significant to severe threat to life and property',
+    leadTime: '12 hours',
+    className: 'bg-red-100 text-red-800',
+    fill: '#ef4444',
+    severity: 'critical',
+    priority: 5
+  },
+  {
+    level: 5,
+    winds: 'Typhoon-force winds, 185 km/h or higher',
+    threat: 'Extreme threat to life and property',
+    leadTime: '12 hours',
+    className: 'bg-purple-100 text-purple-800',
+    fill: '#a855f7',
+    severity: 'critical',
+    priority: 5
+  }
+];
+
+export const getWindSignal = (level: WindSignalLevel) => WIND_SIGNALS[level];
+
+export const getCategoryName = (category: CycloneCategory) =>
+  CYCLONE_CATEGORIES.find(item => item.id === category)?.name || category;
+
+/** e.g. Typhoon "Kristine" (Trami) */
+export const getCycloneDisplayName = (
+  cyclone: Pick<TropicalCyclone, 'name' | 'international_name'>,
+  category?: CycloneCategory
+) =>
+  `${category ? `${getCategoryName(category)} ` : ''}"${cyclone.name}"${cyclone.international_name ? ` (${cyclone.international_name})` : ''}`;
+
+export const getBarangaySignal = (signals: CycloneBulletin['signals'], barangay: string): WindSignalLevel =>
+  signals[barangay] ?? 0;
+
+export const getHighestSignal = (signals: CycloneBulletin['signals']): WindSignalLevel =>
+  Math.max(0, ...Object.values(signals).map(level => level ?? 0)) as WindSignalLevel;
+
+/** Barangays under each raised signal, highest first */
+export const groupBarangaysBySignal = (signals: CycloneBulletin['signals']) =>
+  WIND_SIGNALS
+    .filter(signal => signal.level > 0)
+    .reverse()
+    .map(signal => ({ ...signal, barangays: BARANGAYS.filter(barangay => getBarangaySignal(signals, barangay) === signal.level) }))
+    .filter(group => group.barangays.length > 0);
+
+/** Drops unraised signals and names that are not Pio Duran barangays */
+export const cleanSignals = (signals: Partial<Record<string, number>>): Record<string, WindSignalLevel> =>
+  Object.fromEntries(
+    Object.entries(signals)
+      .filter((entry): entry is [string, number] => BARANGAYS.includes(entry[0]) && entry[1] !== undefined && entry[1] >= 1 && entry[1] <= 5)
+      .map(([barangay, level]) => [barangay, level as WindSignalLevel])
+  );
+
+const formatManilaTime = (value: string) =>
+  new Date(value).toLocaleString('en-PH', { timeZone: 'Asia/Manila', dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * The emergency alert a bulletin creates or updates: severity and priority
+ * follow the highest signal in Pio Duran, and the target area is the
+ * barangays under a signal (municipality-wide when all of them are).
+ */
+export const buildCycloneAlert = (
+  cyclone: Pick<TropicalCyclone, 'name' | 'international_name'>,
+  bulletin: Pick<CycloneBulletin, 'bulletin_number' | 'issued_at' | 'category' | 'center_description' | 'max_winds_kph' | 'gusts_kph' | 'movement' | 'signals' | 'summary' | 'next_bulletin_at'>
+): Pick<EmergencyAlert, 'type' | 'severity' | 'priority' | 'title' | 'message' | 'location' | 'target_barangays'> => {
+  const highest = getWindSignal(getHighestSignal(bulletin.signals));
+  const groups = groupBarangaysBySignal(bulletin.signals);
+  const signalled = groups.flatMap(group => group.barangays);
+  const isMunicipalityWide = signalled.length === BARANGAYS.length;
+  const name = getCycloneDisplayName(cyclone, bulletin.category);
+
+  const title = highest.level > 0
+    ? `Wind Signal No. ${highest.level} - ${name}`
+    : `${name}: no wind signal in Pio Duran`;
+
+  const message = [
+    bulletin.summary?.trim(),
+    groups.map(group => `Signal No. ${group.level} (${group.winds}): ${
+      isMunicipalityWide && groups.length === 1 ? 'all of Pio Duran' : group.barangays.join(', ')
+    }`).join('\n'),
+    [
+      bulletin.center_description && `Center: ${bulletin.center_description}`,
+      bulletin.max_winds_kph && `Maximum sustained winds ${bulletin.max_winds_kph} km/h${bulletin.gusts_kph ? `, gusts up to ${bulletin.gusts_kph} km/h` : ''}`,
+      bulletin.movement && `Moving ${bulletin.movement}`
+    ].filter(Boolean).join('. '),
+    `PAGASA Bulletin No. ${bulletin.bulletin_number}, issued ${formatManilaTime(bulletin.issued_at)}.${
+      bulletin.next_bulletin_at ? ` Next bulletin ${formatManilaTime(bulletin.next_bulletin_at)}.` : ''
+    }`
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    type: 'typhoon',
+    severity: highest.severity,
+    priority: highest.priority,
+    title,
+    message,
+    location: signalled.length === 0 || isMunicipalityWide ? 'Municipality-wide' : signalled.join(', '),
+    target_barangays: isMunicipalityWide ? [] : signalled
+  };
+};
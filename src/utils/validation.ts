@@ -1,3 +1,5 @@
+import { validateIncidentSubmission } from '../../supabase/functions/_shared/incidentSubmission';
+
 export const validateEmail = (email: string): boolean => {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
   return emailRegex.test(email);
@@ -55,32 +57,9 @@ export const truncateText = (text: string, maxLength: number): string => {
   return text.substring(0, maxLength).trim() + '...';
 };
 
-export const validateIncidentForm = (formData: any): { isValid: boolean; errors: Record<string, string> } => {
-  const errors: Record<string, string> = {};
-
-  if (!validateRequired(formData.contactNumber || formData.contact_number)) {
-    errors.contactNumber = 'Contact number is required';
-  } else if (!validatePhone(formData.contactNumber || formData.contact_number)) {
-    errors.contactNumber = 'Please enter a valid phone number';
-  }
-  
-  if (!validateRequired(formData.reporterName || formData.reporter_name)) {
-    errors.reporterName = 'Name is required';
-  }
-  
-  if (!validateRequired(formData.incidentType || formData.incident_type)) {
-    errors.incidentType = 'Incident type is required';
-  }
-  
-  if (!validateRequired(formData.description)) {
-    errors.description = 'Description is required';
-  }
-  
-  return {
-    isValid: Object.keys(errors).length === 0,
-    errors
-  };
-};
+// The submit-incident edge function applies the same rules server-side
+export const validateIncidentForm = (formData: any): { isValid: boolean; errors: Record<string, string> } =>
+  validateIncidentSubmission(formData);
 
 export const validateUserForm = (formData: any, isEditing: boolean = false): { isValid: boolean; errors: Record<string, string> } => {
   const errors: Record<string, string> = {};
@@ -0,0 +1,109 @@
+// Opting this browser in and out of emergency alert notifications. The
+// subscription and preferences are saved server-side by the push-subscription
+// edge function; the dispatch-alert function sends to them.
+
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type {
+  PushPreferences,
+  PushSubscriptionRequest,
+  PushSubscriptionResponse
+} from '../../supabase/functions/_shared/pushSubscriptions';
+
+export { PUSH_ALERT_SEVERITIES } from '../../supabase/functions/_shared/pushSubscriptions';
+export type { PushPreferences } from '../../supabase/functions/_shared/pushSubscriptions';
+
+const PREFERENCES_KEY = 'alert_push_preferences';
+
+const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+export const isWebPushSupported = () =>
+  !!vapidPublicKey && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+const base64UrlToBytes = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// The worker is only registered in production builds, see main.tsx
+const getRegistration = async () =>
+  (await navigator.serviceWorker.getRegistration()) ?? navigator.serviceWorker.register('/sw.js');
+
+const invokePushSubscription = async (request: PushSubscriptionRequest): Promise<PushSubscriptionResponse> => {
+  const { data, error } = await supabase.functions.invoke<PushSubscriptionResponse>('push-subscription', {
+    body: request
+  });
+
+  if (error instanceof FunctionsHttpError) {
+    const body: PushSubscriptionResponse = await (error.context as Response).json().catch(() => ({ success: false }));
+    return { ...body, success: false, error: body.error || 'Unable to update notifications. Please try again.' };
+  }
+  if (error) throw error;
+
+  return data ?? { success: false, error: 'No response from the notification service' };
+};
+
+export const getPushSubscription = async (): Promise<PushSubscription | null> => {
+  if (!isWebPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+export const getSavedPushPreferences = (): PushPreferences | null => {
+  try {
+    const saved = localStorage.getItem(PREFERENCES_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Asks for notification permission if needed, then saves the subscription with these preferences */
+export const subscribeToAlerts = async (preferences: PushPreferences): Promise<PushSubscriptionResponse> => {
+  if (!isWebPushSupported()) {
+    return { success: false, error: 'Notifications are not supported in this browser' };
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    return { success: false, error: 'Notifications are blocked. Allow them in your browser settings to receive alerts.' };
+  }
+
+  const registration = await getRegistration();
+  await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription() ??
+    await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToBytes(vapidPublicKey as string)
+    });
+
+  const result = await invokePushSubscription({
+    action: 'subscribe',
+    subscription: subscription.toJSON() as PushSubscriptionRequest['subscription'],
+    preferences
+  });
+  if (result.success) {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  }
+  return result;
+};
+
+export const unsubscribeFromAlerts = async (): Promise<PushSubscriptionResponse> => {
+  const subscription = await getPushSubscription();
+  if (!subscription) {
+    localStorage.removeItem(PREFERENCES_KEY);
+    return { success: true };
+  }
+
+  const result = await invokePushSubscription({
+    action: 'unsubscribe',
+    endpoint: subscription.endpoint,
+    auth: subscription.toJSON().keys?.auth
+  });
+  if (result.success) {
+    await subscription.unsubscribe();
+    localStorage.removeItem(PREFERENCES_KEY);
+  }
+  return result;
+};
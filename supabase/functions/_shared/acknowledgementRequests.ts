@@ -0,0 +1,147 @@
+// Asks barangay focal persons (alert_contacts with a barangay) to confirm they
+// received an issued alert. Each barangay gets one alert_acknowledgements row
+// and each of its focal persons an email and SMS with their own link; the
+// first focal person to open it acknowledges for the barangay.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { getEmailProvider } from './email.ts'
+import { getSmsProvider } from './sms.ts'
+import { formatAlertText, getAlertHeadline, type AlertMessageFields } from './alertChannels.ts'
+import { getAcknowledgementPath, type RemindAlertAcknowledgementsResponse } from './alertAcknowledgements.ts'
+
+interface FocalPerson {
+  id: string
+  name: string
+  email: string | null
+  phone: string | null
+  barangay: string
+}
+
+interface AcknowledgementRow {
+  id: string
+  barangay: string
+  token: string
+  acknowledged_at: string | null
+  reminder_count: number
+}
+
+export interface AcknowledgementRequestOptions {
+  // false sends only to barangays that have not been asked yet
+  remind: boolean
+  barangays?: string[]
+}
+
+const getFocalPersons = async (client: SupabaseClient) => {
+  const { data, error } = await client
+    .from('alert_contacts')
+    .select('id, name, email, phone, barangay')
+    .eq('is_active', true)
+    .not('barangay', 'is', null)
+  if (error) throw error
+
+  const byBarangay = new Map<string, FocalPerson[]>()
+  for (const contact of data as FocalPerson[]) {
+    byBarangay.set(contact.barangay, [...(byBarangay.get(contact.barangay) ?? []), contact])
+  }
+  return byBarangay
+}
+
+export const requestAlertAcknowledgements = async (
+  client: SupabaseClient,
+  alert: AlertMessageFields & { id: string },
+  options: AcknowledgementRequestOptions
+): Promise<RemindAlertAcknowledgementsResponse> => {
+  const focalPersons = await getFocalPersons(client)
+
+  // Municipality-wide alerts go to every barangay that has a focal person
+  const area = alert.target_barangays?.length ? alert.target_barangays : Array.from(focalPersons.keys())
+  const scope = options.barangays ? area.filter(barangay => options.barangays!.includes(barangay)) : area
+  const withoutContacts = scope.filter(barangay => !focalPersons.has(barangay))
+
+  const { data: existing, error: existingError } = await client
+    .from('alert_acknowledgements')
+    .select('id, barangay, token, acknowledged_at, reminder_count')
+    .eq('alert_id', alert.id)
+  if (existingError) throw existingError
+
+  const existingRows = existing as AcknowledgementRow[]
+  const asked = new Set(existingRows.map(row => row.barangay))
+  const newBarangays = scope.filter(barangay => !asked.has(barangay) && focalPersons.has(barangay))
+
+  let newRows: AcknowledgementRow[] = []
+  if (newBarangays.length > 0) {
+    const { data: inserted, error: insertError } = await client
+      .from('alert_acknowledgements')
+      .upsert(
+        newBarangays.map(barangay => ({ alert_id: alert.id, barangay })),
+        { onConflict: 'alert_id,barangay', ignoreDuplicates: true }
+      )
+      .select('id, barangay, token, acknowledged_at, reminder_count')
+    if (insertError) throw insertError
+    newRows = inserted as AcknowledgementRow[]
+  }
+
+  const reminderRows = options.remind
+    ? existingRows.filter(row => !row.acknowledged_at && scope.includes(row.barangay) && focalPersons.has(row.barangay))
+    : []
+
+  const siteUrl = Deno.env.get('PUBLIC_SITE_URL') ?? ''
+  const email = getEmailProvider()
+  const sms = getSmsProvider()
+  const headline = getAlertHeadline(alert)
+
+  const sendToBarangay = async (row: AcknowledgementRow, isReminder: boolean) => {
+    const sends: Promise<unknown>[] = []
+    for (const contact of focalPersons.get(row.barangay) ?? []) {
+      const link = `${siteUrl}${getAcknowledgementPath(row.token, contact.id)}`
+      const prefix = isReminder ? 'REMINDER: ' : ''
+      if (contact.email) {
+        sends.push(email.send({
+          to: contact.email,
+          subject: `[${isReminder ? 'Reminder - ' : ''}Please acknowledge] ${headline}`,
+          text: [
+            `${prefix}${contact.name}, please confirm that ${row.barangay} has received this alert.`,
+            '',
+            formatAlertText(alert),
+            '',
+            `Acknowledge it at ${link}`
+          ].join('\n')
+        }))
+      }
+      if (contact.phone) {
+        sends.push(sms.send(
+          contact.phone,
+          `MDRRMO Pio Duran ${prefix}Please confirm ${row.barangay} received "${headline}": ${link}`
+        ))
+      }
+    }
+
+    const results = await Promise.allSettled(sends)
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        console.error(`Error asking ${row.barangay} to acknowledge alert ${alert.id}:`, result.reason)
+      }
+    })
+
+    if (isReminder) {
+      const { error: updateError } = await client
+        .from('alert_acknowledgements')
+        .update({ reminder_count: row.reminder_count + 1, last_reminded_at: new Date().toISOString() })
+        .eq('id', row.id)
+      if (updateError) console.error(`Error counting the reminder to ${row.barangay}:`, updateError)
+    }
+
+    return results.some(result => result.status === 'fulfilled') ? row.barangay : null
+  }
+
+  const sent = await Promise.all([
+    ...newRows.map(row => sendToBarangay(row, false)),
+    ...reminderRows.map(row => sendToBarangay(row, true))
+  ])
+
+  return {
+    success: true,
+    reminded: sent.filter((barangay): barangay is string => barangay !== null),
+    withoutContacts
+  }
+}
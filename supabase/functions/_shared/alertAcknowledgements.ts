@@ -0,0 +1,21 @@
+// Request and response shapes for the remind-alert-acknowledgements edge
+// function, shared with src/utils/alertAcknowledgements.ts. Must not import anything.
+
+export interface RemindAlertAcknowledgementsRequest {
+  alertId: string;
+  // Defaults to every barangay that has not acknowledged yet
+  barangays?: string[];
+}
+
+export interface RemindAlertAcknowledgementsResponse {
+  success: boolean;
+  error?: string;
+  // Barangays at least one focal person was emailed or texted
+  reminded?: string[];
+  // Pending barangays with no active focal person to send to
+  withoutContacts?: string[];
+}
+
+// Each focal person gets their own link so the board shows who confirmed
+export const getAcknowledgementPath = (token: string, contactId: string) =>
+  `/acknowledge/${token}?contact=${contactId}`;
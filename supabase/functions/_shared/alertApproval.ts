@@ -0,0 +1,16 @@
+// Request and response shapes for the alert-approval-notify edge function,
+// shared with src/utils/alertApproval.ts. Must not import anything.
+
+export type AlertApprovalEvent = 'requested' | 'reviewed';
+
+export interface AlertApprovalNotifyRequest {
+  alertId: string;
+  // requested: tell the admins who can approve; reviewed: tell the requester the decision
+  event: AlertApprovalEvent;
+}
+
+export interface AlertApprovalNotifyResponse {
+  success: boolean;
+  error?: string;
+  notified?: number;
+}
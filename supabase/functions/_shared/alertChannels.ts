@@ -0,0 +1,74 @@
+// Emergency alert dispatch channels, shared by the composer in
+// EmergencyManagement and the dispatch-alert edge function.
+// It runs in both the browser and Deno, so it must not import anything.
+
+export const ALERT_CHANNELS = [
+  { id: 'web-push', name: 'Web Push' },
+  { id: 'email', name: 'Email' },
+  { id: 'sms', name: 'SMS' },
+  { id: 'social-media', name: 'Social Media Draft' }
+] as const;
+
+export type AlertChannel = typeof ALERT_CHANNELS[number]['id'];
+
+export type AlertDeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+// Tries per delivery in one dispatch run; a manual retry starts another run
+export const DELIVERY_ATTEMPTS_PER_RUN = 3;
+
+// Recipients of one channel sent to at the same time
+export const DELIVERY_CONCURRENCY = 25;
+
+// Longer texts are split by the gateway and cost more per recipient
+export const SMS_ALERT_MAX_LENGTH = 320;
+
+// Dispatching again only sends what has not gone out for the current revision
+export interface DispatchAlertRequest {
+  alertId: string;
+}
+
+export interface DispatchAlertResponse {
+  success: boolean;
+  error?: string;
+  revision?: number;
+  summary?: Partial<Record<AlertChannel, Partial<Record<AlertDeliveryStatus, number>>>>;
+}
+
+export interface AlertMessageFields {
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  title: string;
+  message: string;
+  location: string | null;
+  target_barangays: string[] | null;
+  expires_at: string | null;
+  revision: number;
+}
+
+const SEVERITY_LABELS: Record<AlertMessageFields['severity'], string> = {
+  low: 'ADVISORY',
+  medium: 'WATCH',
+  high: 'WARNING',
+  critical: 'EMERGENCY'
+};
+
+export const getAlertAreaText = (alert: Pick<AlertMessageFields, 'location' | 'target_barangays'>) =>
+  alert.target_barangays?.length ? alert.target_barangays.join(', ') : alert.location || 'Municipality-wide';
+
+export const getAlertHeadline = (alert: AlertMessageFields) =>
+  `${alert.revision > 1 ? 'UPDATE: ' : ''}${SEVERITY_LABELS[alert.severity]} - ${alert.title}`;
+
+export const formatAlertSms = (alert: AlertMessageFields) => {
+  const text = `MDRRMO Pio Duran ${getAlertHeadline(alert)}. ${alert.message} Area: ${getAlertAreaText(alert)}`;
+  return text.length > SMS_ALERT_MAX_LENGTH ? `${text.slice(0, SMS_ALERT_MAX_LENGTH - 3)}...` : text;
+};
+
+export const formatAlertText = (alert: AlertMessageFields, link?: string) =>
+  [
+    getAlertHeadline(alert),
+    '',
+    alert.message,
+    '',
+    `Affected area: ${getAlertAreaText(alert)}`,
+    alert.expires_at ? `Valid until: ${new Date(alert.expires_at).toLocaleString('en-PH', { timeZone: 'Asia/Manila' })}` : '',
+    link ? `More information: ${link}` : ''
+  ].filter((line, index, lines) => line !== '' || lines[index - 1] !== '').join('\n').trim();
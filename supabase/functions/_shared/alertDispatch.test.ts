@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { dispatchAlert } from './alertDispatch.ts'
+import { DELIVERY_CONCURRENCY } from './alertChannels.ts'
+
+type Row = Record<string, unknown>
+
+// Column defaults the migrations give inserted rows
+const TABLE_DEFAULTS: Record<string, Row> = {
+  alert_deliveries: { status: 'pending', attempts: 0 }
+}
+
+/**
+ * In-memory stand-in for the few PostgREST calls the dispatcher makes:
+ * select/update/delete filtered by eq and "not is null", insert, and upsert
+ * on a conflict target.
+ */
+const createFakeClient = (tables: Record<string, Row[]>) => {
+  let nextId = 1
+
+  const from = (table: string) => {
+    const rows = tables[table] = tables[table] ?? []
+    const filters: ((row: Row) => boolean)[] = []
+    let write: (() => Row[]) | null = null
+    let remove = false
+    let single = false
+
+    const insertRow = (value: Row) => {
+      const row = { id: `${table}-${nextId++}`, ...TABLE_DEFAULTS[table], ...value }
+      rows.push(row)
+      return row
+    }
+
+    const run = () => {
+      let data: Row[] | null
+      if (write) {
+        data = write()
+      } else {
+        const matches = rows.filter(row => filters.every(filter => filter(row)))
+        if (remove) matches.forEach(row => rows.splice(rows.indexOf(row), 1))
+        data = remove ? null : matches
+      }
+      const copies = data?.map(row => ({ ...row })) ?? null
+      return { data: single ? copies?.[0] ?? null : copies, error: null }
+    }
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push(row => row[column] === value)
+        return builder
+      },
+      not: (column: string) => {
+        filters.push(row => row[column] != null)
+        return builder
+      },
+      maybeSingle: () => {
+        single = true
+        return builder
+      },
+      single: () => {
+        single = true
+        return builder
+      },
+      insert: (values: Row | Row[]) => {
+        write = () => [values].flat().map(insertRow)
+        return builder
+      },
+      update: (changes: Row) => {
+        write = () => rows
+          .filter(row => filters.every(filter => filter(row)))
+          .map(row => Object.assign(row, changes))
+        return builder
+      },
+      upsert: (values: Row | Row[], options: { onConflict: string; ignoreDuplicates?: boolean }) => {
+        const columns = options.onConflict.split(',')
+        write = () => [values].flat().flatMap(value => {
+          const existing = rows.find(row => columns.every(column => row[column] === value[column]))
+          if (!existing) return [insertRow(value)]
+          return options.ignoreDuplicates ? [] : [Object.assign(existing, value)]
+        })
+        return builder
+      },
+      delete: () => {
+        remove = true
+        return builder
+      },
+      then: (resolve: (result: ReturnType<typeof run>) => unknown, reject: (error: unknown) => unknown) =>
+        Promise.resolve().then(run).then(resolve, reject)
+    }
+    return builder
+  }
+
+  return { from } as unknown as SupabaseClient
+}
+
+const ALERT = {
+  id: 'f3c1a2b4-5d6e-4f70-8a9b-0c1d2e3f4a5b',
+  type: 'flood',
+  severity: 'high',
+  title: 'Flood warning',
+  message: 'Move to higher ground.',
+  location: null,
+  target_barangays: null,
+  expires_at: null,
+  revision: 1,
+  status: 'active',
+  channels: ['sms']
+}
+
+const contacts = (count: number) => Array.from({ length: count }, (_, index) => ({
+  id: `contact-${index}`,
+  name: `Contact ${index}`,
+  phone: `+63917${String(index).padStart(7, '0')}`,
+  email: null,
+  barangay: null,
+  is_active: true
+}))
+
+const ENV: Record<string, string> = {
+  SMS_PROVIDER: 'semaphore',
+  SEMAPHORE_API_KEY: 'test-key'
+}
+
+describe('dispatchAlert', () => {
+  let inFlight = 0
+  let maxInFlight = 0
+  let failOnce: Set<string>
+
+  beforeEach(() => {
+    inFlight = 0
+    maxInFlight = 0
+    failOnce = new Set()
+
+    vi.stubGlobal('Deno', { env: { get: (key: string) => ENV[key] } })
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    // The Semaphore gateway, answering after a short delay
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: { body: URLSearchParams }) => {
+      const number = init.body.get('number') as string
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      inFlight--
+      if (failOnce.delete(number)) return new Response('Gateway busy', { status: 503 })
+      return new Response('[]', { status: 200 })
+    }))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('sends to every recipient in batches of at most DELIVERY_CONCURRENCY', async () => {
+    const tables: Record<string, Row[]> = { emergency_alerts: [{ ...ALERT }], alert_contacts: contacts(60) }
+
+    const result = await dispatchAlert(createFakeClient(tables), ALERT.id)
+
+    expect(result).toEqual({ success: true, revision: 1, summary: { sms: { sent: 60 } } })
+    expect(fetch).toHaveBeenCalledTimes(60)
+    expect(maxInFlight).toBe(DELIVERY_CONCURRENCY)
+    expect(tables.alert_deliveries.every(row => row.status === 'sent' && row.attempts === 1)).toBe(true)
+  })
+
+  it('retries failed sends and does not resend what already went out', async () => {
+    const recipients = contacts(3)
+    const tables: Record<string, Row[]> = {
+      emergency_alerts: [{ ...ALERT }],
+      alert_contacts: recipients,
+      alert_deliveries: [{
+        id: 'earlier-run',
+        alert_id: ALERT.id,
+        alert_revision: 1,
+        channel: 'sms',
+        recipient: recipients[0].phone,
+        status: 'sent',
+        attempts: 1
+      }]
+    }
+    failOnce.add(recipients[1].phone)
+
+    const result = await dispatchAlert(createFakeClient(tables), ALERT.id)
+
+    expect(result.summary).toEqual({ sms: { sent: 3 } })
+    expect(fetch).toHaveBeenCalledTimes(3)
+    expect(tables.alert_deliveries.map(row => [row.recipient, row.status, row.attempts])).toEqual([
+      [recipients[0].phone, 'sent', 1],
+      [recipients[1].phone, 'sent', 2],
+      [recipients[2].phone, 'sent', 1]
+    ])
+  })
+
+  it('records a skipped delivery when nobody is in the alert area', async () => {
+    const tables: Record<string, Row[]> = {
+      emergency_alerts: [{ ...ALERT, target_barangays: ['Agol'] }],
+      alert_contacts: contacts(2).map(contact => ({ ...contact, barangay: 'Basag' }))
+    }
+
+    const result = await dispatchAlert(createFakeClient(tables), ALERT.id)
+
+    expect(result.summary).toEqual({ sms: { skipped: 1 } })
+    expect(fetch).not.toHaveBeenCalled()
+    expect(tables.alert_deliveries).toMatchObject([{ recipient: '*', status: 'skipped' }])
+  })
+
+  it('records email and SMS as skipped while only the console providers are set', async () => {
+    vi.stubGlobal('Deno', { env: { get: (key: string) => ({ ...ENV, SMS_PROVIDER: 'console' } as Record<string, string>)[key] } })
+    const alert = { ...ALERT, channels: ['sms', 'email'] }
+    const tables: Record<string, Row[]> = {
+      emergency_alerts: [alert],
+      alert_contacts: contacts(2).map(contact => ({ ...contact, email: `${contact.id}@example.com` }))
+    }
+
+    const result = await dispatchAlert(createFakeClient(tables), ALERT.id)
+
+    expect(result.summary).toEqual({ sms: { skipped: 1 }, email: { skipped: 1 } })
+    expect(console.log).not.toHaveBeenCalled()
+    expect(tables.alert_deliveries.map(row => [row.channel, row.recipient, row.status, row.last_error])).toEqual([
+      ['sms', '*', 'skipped', 'No SMS provider is configured'],
+      ['email', '*', 'skipped', 'No email provider is configured']
+    ])
+  })
+
+  it('only dispatches active alerts', async () => {
+    const tables: Record<string, Row[]> = { emergency_alerts: [{ ...ALERT, status: 'draft' }] }
+
+    expect(await dispatchAlert(createFakeClient(tables), ALERT.id))
+      .toEqual({ success: false, error: 'Only active alerts can be dispatched' })
+    expect(await dispatchAlert(createFakeClient(tables), 'missing'))
+      .toEqual({ success: false, error: 'Alert not found' })
+  })
+})
@@ -0,0 +1,336 @@
+// Fans an emergency alert out over the channels selected in the composer.
+// Each channel is an adapter that lists its recipients and sends to one of
+// them; every send is recorded in alert_deliveries with its attempts and the
+// last error, so a later run only retries what has not gone out yet.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { getSmsProvider } from './sms.ts'
+import { getEmailProvider } from './email.ts'
+import { requestAlertAcknowledgements } from './acknowledgementRequests.ts'
+import { PushSubscriptionGoneError, getVapidKeys, sendWebPush } from './webPush.ts'
+import {
+  PUSH_TTL_SECONDS,
+  isPushAlertSeverity,
+  matchesPushPreferences,
+  serializePushPayload,
+  type PushNotificationPayload,
+  type PushSubscriptionKeys
+} from './pushSubscriptions.ts'
+import {
+  DELIVERY_ATTEMPTS_PER_RUN,
+  DELIVERY_CONCURRENCY,
+  formatAlertSms,
+  formatAlertText,
+  getAlertAreaText,
+  getAlertHeadline,
+  type AlertChannel,
+  type AlertDeliveryStatus,
+  type AlertMessageFields,
+  type DispatchAlertResponse
+} from './alertChannels.ts'
+
+export interface DispatchableAlert extends AlertMessageFields {
+  id: string
+  type: string
+  status: string
+  channels: string[] | null
+}
+
+export interface DeliveryTarget {
+  recipient: string
+}
+
+export interface ChannelAdapter {
+  channel: AlertChannel
+  getTargets(alert: DispatchableAlert): Promise<DeliveryTarget[]>
+  // Resolves with the provider's message id, if it returns one
+  send(alert: DispatchableAlert, target: DeliveryTarget): Promise<string | undefined>
+  // Errors that retrying cannot fix, such as an expired push subscription
+  isPermanentFailure?(error: unknown): boolean
+  // Set when the channel has no real provider and would only log its messages
+  notConfigured?: string
+}
+
+interface DeliveryRow {
+  id: string
+  channel: AlertChannel
+  recipient: string
+  status: AlertDeliveryStatus
+  attempts: number
+}
+
+const getSiteUrl = () => Deno.env.get('PUBLIC_SITE_URL') ?? undefined
+
+// Contacts without a barangay receive every alert
+const isContactInArea = (barangay: string | null, alert: DispatchableAlert) =>
+  !barangay || !alert.target_barangays?.length || alert.target_barangays.includes(barangay)
+
+const getAlertContacts = async (client: SupabaseClient, alert: DispatchableAlert, column: 'email' | 'phone') => {
+  const { data, error } = await client
+    .from('alert_contacts')
+    .select(`${column}, barangay`)
+    .eq('is_active', true)
+    .not(column, 'is', null)
+  if (error) throw error
+
+  const values = (data as { email?: string; phone?: string; barangay: string | null }[])
+    .filter(contact => isContactInArea(contact.barangay, alert))
+    .map(contact => (contact[column] ?? '').trim())
+    .filter(Boolean)
+
+  return Array.from(new Set(values)).map(recipient => ({ recipient }))
+}
+
+interface PushSubscriptionRow {
+  id: string
+  endpoint: string
+  p256dh: string
+  auth: string
+  hazard_types: string[]
+  barangay: string | null
+}
+
+// Recipients are push_subscriptions ids; only high and critical alerts are pushed
+export const createWebPushAdapter = (client: SupabaseClient): ChannelAdapter => {
+  const vapid = getVapidKeys()
+  const subscriptions = new Map<string, PushSubscriptionKeys>()
+
+  return {
+    channel: 'web-push',
+    getTargets: async alert => {
+      if (!isPushAlertSeverity(alert.severity)) return []
+
+      const { data, error } = await client
+        .from('push_subscriptions')
+        .select('id, endpoint, p256dh, auth, hazard_types, barangay')
+      if (error) throw error
+
+      return (data as PushSubscriptionRow[])
+        .filter(row => matchesPushPreferences({ hazardTypes: row.hazard_types, barangay: row.barangay }, alert))
+        .map(row => {
+          subscriptions.set(row.id, { endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } })
+          return { recipient: row.id }
+        })
+    },
+    send: async (alert, target) => {
+      const subscription = subscriptions.get(target.recipient)
+      if (!subscription) throw new PushSubscriptionGoneError(404, 'Push subscription was removed')
+
+      const payload: PushNotificationPayload = {
+        alertId: alert.id,
+        title: getAlertHeadline(alert),
+        body: `${alert.message} Area: ${getAlertAreaText(alert)}`,
+        severity: alert.severity,
+        url: `/alerts/${alert.id}`
+      }
+
+      try {
+        return await sendWebPush(subscription, serializePushPayload(payload), vapid, {
+          ttl: PUSH_TTL_SECONDS,
+          urgency: alert.severity === 'critical' ? 'high' : 'normal',
+          topic: alert.id.replace(/-/g, '')
+        })
+      } catch (error) {
+        if (error instanceof PushSubscriptionGoneError) {
+          await client.from('push_subscriptions').delete().eq('id', target.recipient)
+        }
+        throw error
+      }
+    },
+    isPermanentFailure: error => error instanceof PushSubscriptionGoneError
+  }
+}
+
+export const createEmailAdapter = (client: SupabaseClient): ChannelAdapter => {
+  const provider = getEmailProvider()
+  return {
+    channel: 'email',
+    notConfigured: provider.name === 'console' ? 'No email provider is configured' : undefined,
+    getTargets: alert => getAlertContacts(client, alert, 'email'),
+    send: (alert, target) => provider.send({
+      to: target.recipient,
+      subject: `[MDRRMO Pio Duran] ${getAlertHeadline(alert)}`,
+      text: formatAlertText(alert, getSiteUrl())
+    })
+  }
+}
+
+export const createSmsAdapter = (client: SupabaseClient): ChannelAdapter => {
+  const provider = getSmsProvider()
+  return {
+    channel: 'sms',
+    notConfigured: provider.name === 'console' ? 'No SMS provider is configured' : undefined,
+    getTargets: alert => getAlertContacts(client, alert, 'phone'),
+    send: async (alert, target) => {
+      await provider.send(target.recipient, formatAlertSms(alert))
+      return undefined
+    }
+  }
+}
+
+// Drafts a post for the social media team to review and publish
+export const createSocialDraftAdapter = (client: SupabaseClient): ChannelAdapter => ({
+  channel: 'social-media',
+  getTargets: async () => [{ recipient: 'facebook' }],
+  send: async (alert, target) => {
+    const { data, error } = await client
+      .from('social_posts')
+      .insert({
+        platform: target.recipient,
+        content: `${formatAlertText(alert)}\n\n#MDRRMO #PioDuran #Alerto`,
+        link: getSiteUrl() ?? null,
+        status: 'draft'
+      })
+      .select('id')
+      .single()
+    if (error) throw error
+    return data.id as string
+  }
+})
+
+const ADAPTER_FACTORIES: Record<AlertChannel, (client: SupabaseClient) => ChannelAdapter> = {
+  'web-push': createWebPushAdapter,
+  email: createEmailAdapter,
+  sms: createSmsAdapter,
+  'social-media': createSocialDraftAdapter
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : typeof error === 'object' && error && 'message' in error
+    ? String((error as { message: unknown }).message)
+    : String(error)
+
+export const dispatchAlert = async (client: SupabaseClient, alertId: string): Promise<DispatchAlertResponse> => {
+  const { data: alert, error } = await client
+    .from('emergency_alerts')
+    .select('*')
+    .eq('id', alertId)
+    .maybeSingle()
+  if (error) throw error
+
+  if (!alert) return { success: false, error: 'Alert not found' }
+  if (alert.status !== 'active') return { success: false, error: 'Only active alerts can be dispatched' }
+
+  const dispatchable = alert as DispatchableAlert
+  const revision = dispatchable.revision || 1
+  const channels = (dispatchable.channels ?? []).filter((channel): channel is AlertChannel => channel in ADAPTER_FACTORIES)
+  const summary: DispatchAlertResponse['summary'] = {}
+
+  const count = (channel: AlertChannel, status: AlertDeliveryStatus) => {
+    const channelSummary = summary[channel] = summary[channel] ?? {}
+    channelSummary[status] = (channelSummary[status] ?? 0) + 1
+  }
+
+  const updateDelivery = async (id: string, changes: Record<string, unknown>) => {
+    const { error: updateError } = await client.from('alert_deliveries').update(changes).eq('id', id)
+    if (updateError) console.error(`Error updating alert delivery ${id}:`, updateError)
+  }
+
+  const dispatchChannel = async (channel: AlertChannel) => {
+    let adapter: ChannelAdapter
+    let targets: DeliveryTarget[]
+    try {
+      adapter = ADAPTER_FACTORIES[channel](client)
+      targets = await adapter.getTargets(dispatchable)
+    } catch (setupError) {
+      // A misconfigured provider fails the channel, not the whole dispatch
+      targets = [{ recipient: '*' }]
+      adapter = {
+        channel,
+        getTargets: async () => targets,
+        send: async () => { throw setupError }
+      }
+    }
+
+    // The console providers only log, so nothing is recorded as sent
+    if (targets.length === 0 || adapter.notConfigured) {
+      await client.from('alert_deliveries').upsert({
+        alert_id: alertId,
+        alert_revision: revision,
+        channel,
+        recipient: '*',
+        status: 'skipped',
+        last_error: adapter.notConfigured ?? 'No recipients for this alert'
+      }, { onConflict: 'alert_id,alert_revision,channel,recipient' })
+      count(channel, 'skipped')
+      return
+    }
+
+    // Recipients already on record keep their status and attempt count
+    const { error: upsertError } = await client
+      .from('alert_deliveries')
+      .upsert(
+        targets.map(target => ({ alert_id: alertId, alert_revision: revision, channel, recipient: target.recipient })),
+        { onConflict: 'alert_id,alert_revision,channel,recipient', ignoreDuplicates: true }
+      )
+    if (upsertError) throw upsertError
+
+    const { data: existing, error: existingError } = await client
+      .from('alert_deliveries')
+      .select('id, channel, recipient, status, attempts')
+      .eq('alert_id', alertId)
+      .eq('alert_revision', revision)
+      .eq('channel', channel)
+    if (existingError) throw existingError
+
+    // Rows from earlier runs for recipients no longer targeted are left as they are
+    const recipients = new Set(targets.map(target => target.recipient))
+    const deliveries = ((existing ?? []) as DeliveryRow[]).filter(delivery => recipients.has(delivery.recipient))
+
+    const deliver = async (delivery: DeliveryRow) => {
+      let attempts = delivery.attempts
+      for (let attempt = 1; attempt <= DELIVERY_ATTEMPTS_PER_RUN; attempt++) {
+        attempts++
+        try {
+          const providerMessageId = await adapter.send(dispatchable, { recipient: delivery.recipient })
+          await updateDelivery(delivery.id, {
+            status: 'sent',
+            attempts,
+            last_error: null,
+            provider_message_id: providerMessageId ?? null,
+            sent_at: new Date().toISOString()
+          })
+          count(channel, 'sent')
+          return
+        } catch (sendError) {
+          const isLastAttempt = attempt === DELIVERY_ATTEMPTS_PER_RUN || !!adapter.isPermanentFailure?.(sendError)
+          await updateDelivery(delivery.id, {
+            status: isLastAttempt ? 'failed' : 'pending',
+            attempts,
+            last_error: errorMessage(sendError)
+          })
+          if (isLastAttempt) {
+            count(channel, 'failed')
+            return
+          }
+          await wait(500 * attempt)
+        }
+      }
+    }
+
+    const toSend = deliveries.filter(delivery => {
+      if (delivery.status !== 'sent' && delivery.status !== 'skipped') return true
+      count(channel, delivery.status)
+      return false
+    })
+
+    // In batches, so a large subscriber list goes out in a few rounds rather
+    // than one recipient at a time
+    for (let start = 0; start < toSend.length; start += DELIVERY_CONCURRENCY) {
+      await Promise.all(toSend.slice(start, start + DELIVERY_CONCURRENCY).map(deliver))
+    }
+  }
+
+  await Promise.all(channels.map(dispatchChannel))
+
+  // Barangays are asked to acknowledge once, on the first dispatch that reaches them
+  try {
+    await requestAlertAcknowledgements(client, dispatchable, { remind: false })
+  } catch (acknowledgementError) {
+    console.error(`Error requesting acknowledgements for alert ${alertId}:`, acknowledgementError)
+  }
+
+  return { success: true, revision, summary }
+}
@@ -0,0 +1,265 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { validateXML } from 'xmllint-wasm';
+import {
+  formatCapDateTime,
+  renderAtomFeed,
+  renderCapXml,
+  toCapAlert,
+  validateCapAlert,
+  type CapAlert,
+  type CapSenderOptions,
+  type CapSourceAlert
+} from './cap';
+
+const CAP_SCHEMA = {
+  fileName: 'CAP-v1.2.xsd',
+  contents: readFileSync(new URL('./testdata/CAP-v1.2.xsd', import.meta.url), 'utf8')
+};
+const ATOM_SCHEMA = {
+  fileName: 'atom.rng',
+  contents: readFileSync(new URL('./testdata/atom.rng', import.meta.url), 'utf8')
+};
+
+const OPTIONS: CapSenderOptions = {
+  sender: 'mdrrmo@pioduran.gov.ph',
+  senderName: 'MDRRMO Pio Duran',
+  identifierPrefix: 'ph.gov.pioduran.mdrrmo',
+  web: 'https://mdrrmo.pioduran.gov.ph/alerts',
+  contact: 'MDRRMO Hotline 0917 000 0000'
+};
+
+const ALERT: CapSourceAlert = {
+  id: '2b8f5c1e-6f3a-4d8e-9c41-7a0d2e5b9f10',
+  type: 'typhoon',
+  severity: 'high',
+  title: 'Typhoon signal no. 3 raised',
+  message: 'Evacuate coastal barangays now.',
+  location: 'Coastal barangays',
+  coordinates: null,
+  issued_at: '2026-10-18T02:30:00.000Z',
+  expires_at: '2026-10-19T02:30:00.000Z',
+  status: 'active',
+  priority: 4,
+  revision: 1,
+  revised_at: null,
+  previous_revisions: null,
+  target_barangays: null,
+  translations: null
+};
+
+const validateCapXml = async (xml: string) => {
+  const result = await validateXML({ xml: { fileName: 'alert.xml', contents: xml }, schema: CAP_SCHEMA });
+  return result.errors.map(error => error.message);
+};
+
+const validateAtomXml = async (xml: string) => {
+  const result = await validateXML({
+    xml: { fileName: 'feed.xml', contents: xml },
+    schema: ATOM_SCHEMA,
+    extension: 'relaxng'
+  });
+  return result.errors.map(error => error.message);
+};
+
+describe('formatCapDateTime', () => {
+  it('writes Philippine Standard Time with an explicit offset', () => {
+    expect(formatCapDateTime('2026-10-18T20:15:30.250Z')).toBe('2026-10-19T04:15:30+08:00');
+  });
+});
+
+describe('toCapAlert', () => {
+  it('maps a new alert to a schema-valid Alert message', async () => {
+    const cap = toCapAlert(ALERT, OPTIONS);
+
+    expect(cap).toMatchObject({
+      identifier: `ph.gov.pioduran.mdrrmo.${ALERT.id}.1`,
+      sent: '2026-10-18T10:30:00+08:00',
+      msgType: 'Alert',
+      references: undefined
+    });
+    expect(cap.info[0]).toMatchObject({
+      category: ['Met'],
+      event: 'Typhoon',
+      urgency: 'Immediate',
+      severity: 'Severe',
+      certainty: 'Likely',
+      expires: '2026-10-19T10:30:00+08:00'
+    });
+    expect(validateCapAlert(cap)).toEqual({ isValid: true, errors: [] });
+    expect(await validateCapXml(renderCapXml(cap))).toEqual([]);
+  });
+
+  it('sends revisions as an Update that references every earlier message', async () => {
+    const cap = toCapAlert({
+      ...ALERT,
+      revision: 3,
+      revised_at: '2026-10-18T06:00:00.000Z',
+      previous_revisions: [
+        { revision: 1, sent: '2026-10-18T02:30:00.000Z' },
+        { revision: 2, sent: '2026-10-18T04:00:00.000Z' }
+      ]
+    }, OPTIONS);
+
+    expect(cap.msgType).toBe('Update');
+    expect(cap.sent).toBe('2026-10-18T14:00:00+08:00');
+    expect(cap.references).toBe([
+      `mdrrmo@pioduran.gov.ph,ph.gov.pioduran.mdrrmo.${ALERT.id}.1,2026-10-18T10:30:00+08:00`,
+      `mdrrmo@pioduran.gov.ph,ph.gov.pioduran.mdrrmo.${ALERT.id}.2,2026-10-18T12:00:00+08:00`
+    ].join(' '));
+    expect(validateCapAlert(cap).errors).toEqual([]);
+    expect(await validateCapXml(renderCapXml(cap))).toEqual([]);
+  });
+
+  it('sends cancelled alerts as a Cancel', async () => {
+    const cap = toCapAlert({
+      ...ALERT,
+      status: 'cancelled',
+      revision: 2,
+      revised_at: '2026-10-18T05:00:00.000Z',
+      previous_revisions: [{ revision: 1, sent: '2026-10-18T02:30:00.000Z' }]
+    }, OPTIONS);
+
+    expect(cap.msgType).toBe('Cancel');
+    expect(validateCapAlert(cap).errors).toEqual([]);
+    expect(await validateCapXml(renderCapXml(cap))).toEqual([]);
+  });
+
+  it('adds an info block per complete translation', async () => {
+    const cap = toCapAlert({
+      ...ALERT,
+      translations: {
+        fil: { title: 'Itinaas ang signal no. 3', message: 'Lumikas na ang mga nasa baybayin.' },
+        bcl: { title: 'Signal no. 3', message: '  ' }
+      }
+    }, OPTIONS);
+
+    expect(cap.info.map(info => info.language)).toEqual(['en-US', 'fil']);
+    expect(cap.info[1]).toMatchObject({
+      headline: 'Itinaas ang signal no. 3',
+      description: 'Lumikas na ang mga nasa baybayin.',
+      event: 'Typhoon'
+    });
+    expect(await validateCapXml(renderCapXml(cap))).toEqual([]);
+  });
+
+  it('describes the target area with barangays and a point', async () => {
+    const cap = toCapAlert({
+      ...ALERT,
+      type: 'earthquake',
+      coordinates: { lat: 13.03, lng: 123.45 },
+      target_barangays: ['Agol', 'Basag']
+    }, OPTIONS);
+
+    expect(cap.info[0].certainty).toBe('Observed');
+    expect(cap.info[0].area).toEqual([{
+      areaDesc: 'Agol, Basag, Pio Duran, Albay',
+      circle: ['13.03,123.45 0']
+    }]);
+    expect(validateCapAlert(cap).errors).toEqual([]);
+    expect(await validateCapXml(renderCapXml(cap))).toEqual([]);
+  });
+});
+
+describe('renderCapXml', () => {
+  it('escapes markup in free text', async () => {
+    const xml = renderCapXml(toCapAlert({
+      ...ALERT,
+      title: 'Flooding at <Rizal> & "Main" St',
+      message: "Don't cross rivers & creeks"
+    }, OPTIONS));
+
+    expect(xml).toContain('<headline>Flooding at &lt;Rizal&gt; &amp; &quot;Main&quot; St</headline>');
+    expect(xml).toContain('<description>Don&apos;t cross rivers &amp; creeks</description>');
+    expect(await validateCapXml(xml)).toEqual([]);
+  });
+
+  it('is rejected by the schema when a required element is invalid', async () => {
+    const cap = toCapAlert(ALERT, OPTIONS);
+    const errors = await validateCapXml(renderCapXml({ ...cap, msgType: 'Notice' }));
+
+    expect(errors).not.toEqual([]);
+  });
+});
+
+describe('renderAtomFeed', () => {
+  const feedOptions = {
+    id: 'https://mdrrmo.pioduran.gov.ph/functions/v1/cap-feed',
+    title: 'MDRRMO Pio Duran alerts',
+    selfUrl: 'https://mdrrmo.pioduran.gov.ph/functions/v1/cap-feed?format=atom&region=albay',
+    authorName: 'MDRRMO Pio Duran',
+    alertUrl: (alertId: string) => `https://mdrrmo.pioduran.gov.ph/functions/v1/cap-feed?alert=${alertId}`
+  };
+
+  it('produces a schema-valid index updated at the latest message', async () => {
+    const alert = toCapAlert(ALERT, OPTIONS);
+    const update = toCapAlert({
+      ...ALERT,
+      id: '9d1a7b2c-3e4f-4a5b-8c6d-0e1f2a3b4c5d',
+      title: 'Flood <warning> & advisory',
+      revision: 2,
+      revised_at: '2026-10-18T08:00:00.000Z',
+      previous_revisions: [{ revision: 1, sent: '2026-10-18T02:30:00.000Z' }]
+    }, OPTIONS);
+
+    const xml = renderAtomFeed([
+      { alertId: ALERT.id, cap: alert },
+      { alertId: '9d1a7b2c-3e4f-4a5b-8c6d-0e1f2a3b4c5d', cap: update }
+    ], feedOptions);
+
+    expect(xml).toContain('  <updated>2026-10-18T16:00:00+08:00</updated>');
+    expect(xml).toContain('<title>Update: Flood &lt;warning&gt; &amp; advisory</title>');
+    expect(xml).toContain('href="https://mdrrmo.pioduran.gov.ph/functions/v1/cap-feed?format=atom&amp;region=albay"');
+    expect(await validateAtomXml(xml)).toEqual([]);
+  });
+
+  it('is valid with no entries', async () => {
+    expect(await validateAtomXml(renderAtomFeed([], feedOptions))).toEqual([]);
+  });
+
+  it('is rejected by the schema when an entry time is not a dateTime', async () => {
+    const cap = toCapAlert(ALERT, OPTIONS);
+    const errors = await validateAtomXml(renderAtomFeed([{ alertId: ALERT.id, cap: { ...cap, sent: 'yesterday' } }], feedOptions));
+
+    expect(errors).not.toEqual([]);
+  });
+});
+
+describe('validateCapAlert', () => {
+  const valid = (): CapAlert => toCapAlert(ALERT, OPTIONS);
+
+  it('requires references on updates and cancellations', () => {
+    expect(validateCapAlert({ ...valid(), msgType: 'Cancel' }).errors)
+      .toEqual(['references is required for Cancel messages']);
+    expect(validateCapAlert({ ...valid(), msgType: 'Update', references: 'sender,id,2026-10-18' }).errors)
+      .toEqual(['reference "sender,id,2026-10-18" must be sender,identifier,sent']);
+  });
+
+  it('rejects restricted characters, UTC times and unknown values', () => {
+    const cap = valid();
+    expect(validateCapAlert({
+      ...cap,
+      identifier: 'alert 1',
+      sent: '2026-10-18T02:30:00Z',
+      info: [{ ...cap.info[0], urgency: 'Soon' }]
+    }).errors).toEqual([
+      'identifier contains restricted characters',
+      'sent must be a CAP dateTime with an offset',
+      'info[0].urgency must be one of Immediate, Expected, Future, Past, Unknown'
+    ]);
+  });
+
+  it('rejects open polygons and circles without a radius', () => {
+    const cap = valid();
+    expect(validateCapAlert({
+      ...cap,
+      info: [{
+        ...cap.info[0],
+        area: [{ areaDesc: 'Pio Duran', polygon: ['13,123.4 13,123.5 13.1,123.5 13.1,123.4'], circle: ['13,123.4'] }]
+      }]
+    }).errors).toEqual([
+      'info[0].area[0].polygon must end where it starts',
+      'info[0].area[0].circle must be "lat,lng radius"'
+    ]);
+  });
+});
@@ -0,0 +1,393 @@
+// Common Alerting Protocol (CAP 1.2) export for emergency_alerts, used by the
+// cap-feed edge function. It has no imports so the admin panel can share it.
+// Spec: https://docs.oasis-open.org/emergency/cap/v1.2/CAP-v1.2-os.html
+
+export const CAP_NAMESPACE = 'urn:oasis:names:tc:emergency:cap:1.2';
+export const CAP_CONTENT_TYPE = 'application/cap+xml; charset=utf-8';
+export const ATOM_CONTENT_TYPE = 'application/atom+xml; charset=utf-8';
+
+// Cancelled alerts stay in the index this long so consumers see the Cancel
+export const CAP_FEED_CANCELLED_RETENTION_HOURS = 24;
+
+const CAP_STATUSES = ['Actual', 'Exercise', 'System', 'Test', 'Draft'];
+const CAP_MSG_TYPES = ['Alert', 'Update', 'Cancel', 'Ack', 'Error'];
+const CAP_SCOPES = ['Public', 'Restricted', 'Private'];
+const CAP_CATEGORIES = ['Geo', 'Met', 'Safety', 'Security', 'Rescue', 'Fire', 'Health', 'Env', 'Transport', 'Infra', 'CBRNE', 'Other'];
+const CAP_URGENCIES = ['Immediate', 'Expected', 'Future', 'Past', 'Unknown'];
+const CAP_SEVERITIES = ['Extreme', 'Severe', 'Moderate', 'Minor', 'Unknown'];
+const CAP_CERTAINTIES = ['Observed', 'Likely', 'Possible', 'Unlikely', 'Unknown'];
+
+export interface CapRevision {
+  revision: number;
+  sent: string;
+}
+
+/** The emergency_alerts columns the export reads */
+export interface CapSourceAlert {
+  id: string;
+  type: 'typhoon' | 'earthquake' | 'flood' | 'fire' | 'landslide' | 'tsunami' | 'volcano' | 'general';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  title: string;
+  message: string;
+  location: string | null;
+  coordinates: { lat: number; lng: number } | null;
+  issued_at: string;
+  expires_at: string | null;
+  status: 'draft' | 'scheduled' | 'active' | 'expired' | 'cancelled';
+  priority: number;
+  revision: number;
+  revised_at: string | null;
+  previous_revisions: CapRevision[] | null;
+  target_barangays: string[] | null;
+  // Keyed by BCP 47 language code; the title and message above are English
+  translations: Record<string, { title?: string; message?: string }> | null;
+}
+
+export interface CapSenderOptions {
+  sender: string;
+  senderName: string;
+  identifierPrefix: string;
+  web?: string;
+  contact?: string;
+}
+
+export interface CapArea {
+  areaDesc: string;
+  polygon?: string[];
+  circle?: string[];
+}
+
+export interface CapInfo {
+  language: string;
+  category: string[];
+  event: string;
+  urgency: string;
+  severity: string;
+  certainty: string;
+  effective?: string;
+  expires?: string;
+  senderName?: string;
+  headline?: string;
+  description?: string;
+  web?: string;
+  contact?: string;
+  parameter?: { valueName: string; value: string }[];
+  area: CapArea[];
+}
+
+export interface CapAlert {
+  identifier: string;
+  sender: string;
+  sent: string;
+  status: string;
+  msgType: string;
+  scope: string;
+  references?: string;
+  info: CapInfo[];
+}
+
+const TYPE_MAPPING: Record<CapSourceAlert['type'], { event: string; category: string }> = {
+  typhoon: { event: 'Typhoon', category: 'Met' },
+  earthquake: { event: 'Earthquake', category: 'Geo' },
+  flood: { event: 'Flood', category: 'Met' },
+  fire: { event: 'Fire', category: 'Fire' },
+  landslide: { event: 'Landslide', category: 'Geo' },
+  tsunami: { event: 'Tsunami', category: 'Geo' },
+  volcano: { event: 'Volcanic Activity', category: 'Geo' },
+  general: { event: 'General Emergency', category: 'Safety' }
+};
+
+const SEVERITY_MAPPING: Record<CapSourceAlert['severity'], string> = {
+  critical: 'Extreme',
+  high: 'Severe',
+  medium: 'Moderate',
+  low: 'Minor'
+};
+
+// Priority runs from 1 (lowest) to 5 (highest)
+const getCapUrgency = (priority: number) => {
+  if (priority >= 4) return 'Immediate';
+  if (priority >= 2) return 'Expected';
+  return 'Future';
+};
+
+// Events that have already happened are observed; forecasts are likely
+const getCapCertainty = (type: CapSourceAlert['type']) =>
+  type === 'earthquake' || type === 'fire' ? 'Observed' : 'Likely';
+
+/**
+ * CAP dateTime values carry an explicit offset and no "Z". Alerts are written
+ * in Philippine Standard Time (+08:00), which has no daylight saving.
+ */
+export const formatCapDateTime = (value: string | Date): string => {
+  const local = new Date(new Date(value).getTime() + 8 * 60 * 60 * 1000);
+  return `${local.toISOString().slice(0, 19)}+08:00`;
+};
+
+export const getCapIdentifier = (options: CapSenderOptions, alertId: string, revision: number) =>
+  `${options.identifierPrefix}.${alertId}.${revision}`;
+
+const getRevisionSent = (alert: CapSourceAlert) =>
+  alert.revision > 1 && alert.revised_at ? alert.revised_at : alert.issued_at;
+
+/**
+ * Maps an issued alert to a CAP message. Each edit of a published alert is a
+ * new revision and is sent as an Update; cancelling it sends a Cancel. Both
+ * reference every earlier message for the alert.
+ */
+export const toCapAlert = (alert: CapSourceAlert, options: CapSenderOptions): CapAlert => {
+  const mapping = TYPE_MAPPING[alert.type] ?? TYPE_MAPPING.general;
+  const previous = alert.previous_revisions ?? [];
+
+  const msgType = alert.status === 'cancelled'
+    ? 'Cancel'
+    : alert.revision > 1 ? 'Update' : 'Alert';
+
+  const barangays = alert.target_barangays ?? [];
+  const area: CapArea = {
+    areaDesc: barangays.length > 0
+      ? `${barangays.join(', ')}, Pio Duran, Albay`
+      : alert.location || 'Municipality of Pio Duran, Albay'
+  };
+  if (alert.coordinates) {
+    // A point is a circle with a zero radius
+    area.circle = [`${alert.coordinates.lat},${alert.coordinates.lng} 0`];
+  }
+
+  const info: CapInfo = {
+    language: 'en-US',
+    category: [mapping.category],
+    event: mapping.event,
+    urgency: getCapUrgency(alert.priority),
+    severity: SEVERITY_MAPPING[alert.severity] ?? 'Unknown',
+    certainty: getCapCertainty(alert.type),
+    effective: formatCapDateTime(alert.issued_at),
+    expires: alert.expires_at ? formatCapDateTime(alert.expires_at) : undefined,
+    senderName: options.senderName,
+    headline: alert.title.slice(0, 160),
+    description: alert.message,
+    web: options.web,
+    contact: options.contact,
+    parameter: [{ valueName: 'priority', value: String(alert.priority) }],
+    area: [area]
+  };
+
+  // One <info> per language; consumers pick the one matching their users
+  const translatedInfo = Object.entries(alert.translations ?? {})
+    .filter(([, translation]) => translation.title?.trim() && translation.message?.trim())
+    .map(([language, translation]): CapInfo => ({
+      ...info,
+      language,
+      headline: (translation.title as string).slice(0, 160),
+      description: translation.message
+    }));
+
+  return {
+    identifier: getCapIdentifier(options, alert.id, alert.revision),
+    sender: options.sender,
+    sent: formatCapDateTime(getRevisionSent(alert)),
+    status: 'Actual',
+    msgType,
+    scope: 'Public',
+    references: previous.length > 0
+      ? previous
+        .map(entry => `${options.sender},${getCapIdentifier(options, alert.id, entry.revision)},${formatCapDateTime(entry.sent)}`)
+        .join(' ')
+      : undefined,
+    info: [info, ...translatedInfo]
+  };
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const element = (name: string, value: string | undefined, indent: string) =>
+  value === undefined ? [] : [`${indent}<${name}>${escapeXml(value)}</${name}>`];
+
+/** Serializes a CAP message in the element order the 1.2 schema requires */
+export const renderCapXml = (cap: CapAlert): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<alert xmlns="${CAP_NAMESPACE}">`,
+    ...element('identifier', cap.identifier, '  '),
+    ...element('sender', cap.sender, '  '),
+    ...element('sent', cap.sent, '  '),
+    ...element('status', cap.status, '  '),
+    ...element('msgType', cap.msgType, '  '),
+    ...element('scope', cap.scope, '  '),
+    ...element('references', cap.references, '  ')
+  ];
+
+  cap.info.forEach(info => {
+    lines.push('  <info>');
+    lines.push(...element('language', info.language, '    '));
+    info.category.forEach(category => lines.push(...element('category', category, '    ')));
+    lines.push(
+      ...element('event', info.event, '    '),
+      ...element('urgency', info.urgency, '    '),
+      ...element('severity', info.severity, '    '),
+      ...element('certainty', info.certainty, '    '),
+      ...element('effective', info.effective, '    '),
+      ...element('expires', info.expires, '    '),
+      ...element('senderName', info.senderName, '    '),
+      ...element('headline', info.headline, '    '),
+      ...element('description', info.description, '    '),
+      ...element('web', info.web, '    '),
+      ...element('contact', info.contact, '    ')
+    );
+    (info.parameter ?? []).forEach(parameter => {
+      lines.push(
+        '    <parameter>',
+        ...element('valueName', parameter.valueName, '      '),
+        ...element('value', parameter.value, '      '),
+        '    </parameter>'
+      );
+    });
+    info.area.forEach(area => {
+      lines.push('    <area>');
+      lines.push(...element('areaDesc', area.areaDesc, '      '));
+      (area.polygon ?? []).forEach(polygon => lines.push(...element('polygon', polygon, '      ')));
+      (area.circle ?? []).forEach(circle => lines.push(...element('circle', circle, '      ')));
+      lines.push('    </area>');
+    });
+    lines.push('  </info>');
+  });
+
+  lines.push('</alert>');
+  return lines.join('\n');
+};
+
+export interface AtomFeedOptions {
+  id: string;
+  title: string;
+  selfUrl: string;
+  authorName: string;
+  alertUrl: (alertId: string) => string;
+}
+
+/** Atom index of CAP messages, one entry per alert linking to its CAP document */
+export const renderAtomFeed = (entries: { alertId: string; cap: CapAlert }[], options: AtomFeedOptions): string => {
+  const updated = entries.reduce(
+    (latest, entry) => (entry.cap.sent > latest ? entry.cap.sent : latest),
+    formatCapDateTime(new Date(0))
+  );
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    ...element('id', options.id, '  '),
+    ...element('title', options.title, '  '),
+    ...element('updated', updated, '  '),
+    `  <link rel="self" href="${escapeXml(options.selfUrl)}"/>`,
+    '  <author>',
+    ...element('name', options.authorName, '    '),
+    '  </author>'
+  ];
+
+  entries.forEach(({ alertId, cap }) => {
+    const info = cap.info[0];
+    lines.push(
+      '  <entry>',
+      // Atom ids must be IRIs; the fragment keeps each revision distinct
+      ...element('id', `${options.alertUrl(alertId)}#${cap.identifier}`, '    '),
+      ...element('title', `${cap.msgType === 'Alert' ? '' : `${cap.msgType}: `}${info?.headline ?? info?.event ?? cap.identifier}`, '    '),
+      ...element('updated', cap.sent, '    '),
+      ...element('summary', info?.description, '    '),
+      `    <link rel="alternate" type="application/cap+xml" href="${escapeXml(options.alertUrl(alertId))}"/>`,
+      '  </entry>'
+    );
+  });
+
+  lines.push('</feed>');
+  return lines.join('\n');
+};
+
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}[-+]\d{2}:\d{2}$/;
+// No spaces, commas or the XML-restricted characters < and &
+const TOKEN_PATTERN = /^[^\s,<&]+$/;
+const POINT = '-?\\d+(\\.\\d+)?,-?\\d+(\\.\\d+)?';
+const POLYGON_PATTERN = new RegExp(`^${POINT}( ${POINT}){3,}$`);
+const CIRCLE_PATTERN = new RegExp(`^${POINT} \\d+(\\.\\d+)?$`);
+
+const isValidPoint = (point: string) => {
+  const [lat, lng] = point.split(',').map(Number);
+  return Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+};
+
+/**
+ * Checks a message against the CAP 1.2 schema rules: required elements,
+ * value lists, dateTime and identifier formats, references for updates and
+ * cancellations, and polygon/circle syntax.
+ */
+export const validateCapAlert = (cap: CapAlert): { isValid: boolean; errors: string[] } => {
+  const errors: string[] = [];
+  const requireValue = (value: string | undefined, name: string) => {
+    if (!value || !value.trim()) errors.push(`${name} is required`);
+  };
+  const requireOneOf = (value: string | undefined, allowed: string[], name: string) => {
+    if (!value || !allowed.includes(value)) errors.push(`${name} must be one of ${allowed.join(', ')}`);
+  };
+  const checkDateTime = (value: string | undefined, name: string) => {
+    if (value !== undefined && !DATE_TIME_PATTERN.test(value)) errors.push(`${name} must be a CAP dateTime with an offset`);
+  };
+
+  requireValue(cap.identifier, 'identifier');
+  if (cap.identifier && !TOKEN_PATTERN.test(cap.identifier)) errors.push('identifier contains restricted characters');
+  requireValue(cap.sender, 'sender');
+  if (cap.sender && !TOKEN_PATTERN.test(cap.sender)) errors.push('sender contains restricted characters');
+  requireValue(cap.sent, 'sent');
+  checkDateTime(cap.sent, 'sent');
+  requireOneOf(cap.status, CAP_STATUSES, 'status');
+  requireOneOf(cap.msgType, CAP_MSG_TYPES, 'msgType');
+  requireOneOf(cap.scope, CAP_SCOPES, 'scope');
+
+  if (cap.msgType !== 'Alert') {
+    const references = (cap.references ?? '').trim().split(/\s+/).filter(Boolean);
+    if (references.length === 0) {
+      errors.push(`references is required for ${cap.msgType} messages`);
+    }
+    references.forEach(reference => {
+      const parts = reference.split(',');
+      if (parts.length !== 3 || !parts[0] || !parts[1] || !DATE_TIME_PATTERN.test(parts[2])) {
+        errors.push(`reference "${reference}" must be sender,identifier,sent`);
+      }
+    });
+  }
+
+  cap.info.forEach((info, index) => {
+    const prefix = `info[${index}]`;
+    if (info.category.length === 0) errors.push(`${prefix}.category is required`);
+    info.category.forEach(category => requireOneOf(category, CAP_CATEGORIES, `${prefix}.category`));
+    requireValue(info.event, `${prefix}.event`);
+    requireOneOf(info.urgency, CAP_URGENCIES, `${prefix}.urgency`);
+    requireOneOf(info.severity, CAP_SEVERITIES, `${prefix}.severity`);
+    requireOneOf(info.certainty, CAP_CERTAINTIES, `${prefix}.certainty`);
+    checkDateTime(info.effective, `${prefix}.effective`);
+    checkDateTime(info.expires, `${prefix}.expires`);
+
+    info.area.forEach((area, areaIndex) => {
+      const areaPrefix = `${prefix}.area[${areaIndex}]`;
+      requireValue(area.areaDesc, `${areaPrefix}.areaDesc`);
+      (area.polygon ?? []).forEach(polygon => {
+        const points = polygon.split(' ');
+        if (!POLYGON_PATTERN.test(polygon) || !points.every(isValidPoint)) {
+          errors.push(`${areaPrefix}.polygon must be at least four lat,lng pairs`);
+        } else if (points[0] !== points[points.length - 1]) {
+          errors.push(`${areaPrefix}.polygon must end where it starts`);
+        }
+      });
+      (area.circle ?? []).forEach(circle => {
+        if (!CIRCLE_PATTERN.test(circle) || !isValidPoint(circle.split(' ')[0])) {
+          errors.push(`${areaPrefix}.circle must be "lat,lng radius"`);
+        }
+      });
+    });
+  });
+
+  return { isValid: errors.length === 0, errors };
+};
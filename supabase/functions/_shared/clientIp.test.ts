@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest'
+import { getClientIp } from './clientIp.ts'
+
+const request = (headers: Record<string, string>) => new Request('https://example.com', { headers })
+
+describe('getClientIp', () => {
+  it('takes the address the proxy appended, not the ones the client sent', () => {
+    expect(getClientIp(request({ 'x-forwarded-for': '203.0.113.9' }))).toBe('203.0.113.9')
+    expect(getClientIp(request({ 'x-forwarded-for': '1.2.3.4, 5.6.7.8 , 203.0.113.9' }))).toBe('203.0.113.9')
+  })
+
+  it('ignores headers the client can set on its own', () => {
+    expect(getClientIp(request({ 'cf-connecting-ip': '1.2.3.4', 'x-real-ip': '5.6.7.8' }))).toBeNull()
+    expect(getClientIp(request({ 'x-forwarded-for': '1.2.3.4,' }))).toBeNull()
+  })
+})
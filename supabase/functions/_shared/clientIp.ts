@@ -0,0 +1,11 @@
+// The caller's IP address as seen by the platform's proxy, for the per-IP
+// rate limits in the public edge functions.
+
+/**
+ * The rightmost x-forwarded-for entry is the address the trusted proxy
+ * appended for the connection it received. Everything to its left, and
+ * headers such as cf-connecting-ip or x-real-ip, can be set by the client.
+ * request_client_ip() in the database applies the same rule.
+ */
+export const getClientIp = (req: Request): string | null =>
+  req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || null
@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { isCronRequest } from './cronAuth.ts'
+
+const request = (headers: Record<string, string>) => new Request('https://example.com', { method: 'POST', headers })
+
+describe('isCronRequest', () => {
+  let env: Record<string, string>
+
+  beforeEach(() => {
+    env = { SUPABASE_SERVICE_ROLE_KEY: 'service-role-key', SUPABASE_ANON_KEY: 'anon-key' }
+    vi.stubGlobal('Deno', { env: { get: (key: string) => env[key] } })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('accepts the service-role key or the cron secret', () => {
+    expect(isCronRequest(request({ Authorization: 'Bearer service-role-key' }))).toBe(true)
+    expect(isCronRequest(request({ 'x-cron-secret': 'cron-secret' }))).toBe(false)
+
+    env.CRON_SECRET = 'cron-secret'
+    expect(isCronRequest(request({ 'x-cron-secret': 'cron-secret' }))).toBe(true)
+  })
+
+  it('refuses the anon key, other tokens and missing headers', () => {
+    expect(isCronRequest(request({ Authorization: 'Bearer anon-key' }))).toBe(false)
+    expect(isCronRequest(request({ Authorization: 'Bearer service-role-ke' }))).toBe(false)
+    expect(isCronRequest(request({}))).toBe(false)
+
+    env.SUPABASE_SERVICE_ROLE_KEY = ''
+    expect(isCronRequest(request({ Authorization: 'Bearer ' }))).toBe(false)
+  })
+})
@@ -0,0 +1,25 @@
+// Caller check for the edge functions pg_cron runs on a schedule. They use
+// the service role, so the anon key that every visitor has is not enough.
+
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  return diff === 0
+}
+
+/**
+ * True when the request carries the service-role key as its bearer token, or
+ * the CRON_SECRET function secret in an x-cron-secret header.
+ */
+export const isCronRequest = (req: Request): boolean => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  const cronSecret = Deno.env.get('CRON_SECRET')
+  const bearer = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? ''
+  const secret = req.headers.get('x-cron-secret') ?? ''
+
+  return Boolean(
+    (serviceRoleKey && safeEqual(bearer, serviceRoleKey)) ||
+    (cronSecret && safeEqual(secret, cronSecret))
+  )
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_EARTHQUAKE_FEED_SETTINGS,
+  PIO_DURAN_CENTER,
+  buildEarthquakeDraftAlert,
+  formatIntensity,
+  getDirectionFromPioDuran,
+  getDistanceKm,
+  getMaxIntensity,
+  isNearbyEarthquake,
+  parseEarthquakeFeedSettings,
+  type EarthquakeDetails
+} from './earthquakeFeed';
+
+const QUAKE: EarthquakeDetails = {
+  magnitude: 5.4,
+  depth_km: 12.6,
+  latitude: 12.6,
+  longitude: 123.445,
+  place: 'Masbate',
+  occurred_at: '2026-10-18T01:05:00.000Z',
+  distance_km: 47.7,
+  intensity_reports: []
+};
+
+describe('parseEarthquakeFeedSettings', () => {
+  it('reads the JSON string the Settings page stores', () => {
+    expect(parseEarthquakeFeedSettings('{"feed_url":" https://example.com/feed.geojson ","radius_km":"150","min_magnitude":4}'))
+      .toEqual({ feed_url: 'https://example.com/feed.geojson', radius_km: 150, min_magnitude: 4 });
+  });
+
+  it('falls back to the defaults for missing or invalid values', () => {
+    expect(parseEarthquakeFeedSettings('not json')).toEqual(DEFAULT_EARTHQUAKE_FEED_SETTINGS);
+    expect(parseEarthquakeFeedSettings(null)).toEqual(DEFAULT_EARTHQUAKE_FEED_SETTINGS);
+    expect(parseEarthquakeFeedSettings({ feed_url: '', radius_km: -5, min_magnitude: 'big' }))
+      .toEqual(DEFAULT_EARTHQUAKE_FEED_SETTINGS);
+  });
+});
+
+describe('distance and direction', () => {
+  it('measures great-circle distance from Pio Duran', () => {
+    expect(getDistanceKm(PIO_DURAN_CENTER, PIO_DURAN_CENTER)).toBe(0);
+    // One degree of latitude is about 111 km
+    expect(getDistanceKm(PIO_DURAN_CENTER, { lat: PIO_DURAN_CENTER.lat + 1, lng: PIO_DURAN_CENTER.lng })).toBeCloseTo(111.2, 0);
+  });
+
+  it('names the compass direction of the epicenter', () => {
+    expect(getDirectionFromPioDuran(14, 123.445)).toBe('north');
+    expect(getDirectionFromPioDuran(12.6, 123.445)).toBe('south');
+    expect(getDirectionFromPioDuran(13.0293, 124.5)).toBe('east');
+    expect(getDirectionFromPioDuran(12.5, 122.9)).toBe('southwest');
+  });
+});
+
+describe('isNearbyEarthquake', () => {
+  it('needs both the radius and the minimum magnitude', () => {
+    expect(isNearbyEarthquake({ magnitude: 4.5, distance_km: 200 }, DEFAULT_EARTHQUAKE_FEED_SETTINGS)).toBe(true);
+    expect(isNearbyEarthquake({ magnitude: 4.4, distance_km: 10 }, DEFAULT_EARTHQUAKE_FEED_SETTINGS)).toBe(false);
+    expect(isNearbyEarthquake({ magnitude: 7, distance_km: 201 }, DEFAULT_EARTHQUAKE_FEED_SETTINGS)).toBe(false);
+  });
+});
+
+describe('intensity', () => {
+  it('formats PEIS intensities as clamped Roman numerals', () => {
+    expect(formatIntensity(5)).toBe('Intensity V');
+    expect(formatIntensity(6.6)).toBe('Intensity VII');
+    expect(formatIntensity(0)).toBe('Intensity I');
+    expect(formatIntensity(12)).toBe('Intensity X');
+  });
+
+  it('finds the strongest reported intensity', () => {
+    expect(getMaxIntensity([])).toBeNull();
+    expect(getMaxIntensity([{ place: 'Legazpi', intensity: 3 }, { place: 'Pio Duran', intensity: 5 }])).toBe(5);
+  });
+});
+
+describe('buildEarthquakeDraftAlert', () => {
+  it('sets severity from the magnitude', () => {
+    expect(buildEarthquakeDraftAlert(QUAKE)).toMatchObject({
+      type: 'earthquake',
+      severity: 'medium',
+      priority: 3,
+      title: 'Magnitude 5.4 Earthquake, 48 km south of Pio Duran',
+      location: 'Municipality-wide',
+      target_barangays: []
+    });
+    expect(buildEarthquakeDraftAlert({ ...QUAKE, magnitude: 4.6 }).severity).toBe('low');
+    expect(buildEarthquakeDraftAlert({ ...QUAKE, magnitude: 7.1 }).severity).toBe('critical');
+  });
+
+  it('raises the severity for a strong reported intensity', () => {
+    const draft = buildEarthquakeDraftAlert({
+      ...QUAKE,
+      magnitude: 4.8,
+      intensity_reports: [{ place: 'Pio Duran', intensity: 6 }]
+    });
+
+    expect(draft).toMatchObject({ severity: 'high', priority: 4 });
+    expect(draft.message).toContain('Reported intensities: Intensity VI in Pio Duran.');
+  });
+
+  it('describes where, when and how deep the quake struck', () => {
+    const [summary] = buildEarthquakeDraftAlert(QUAKE).message.split('\n\n');
+
+    expect(summary).toMatch(/^A magnitude 5\.4 earthquake struck 48 km south of Pio Duran \(Masbate\) at .+, at a depth of 13 km\.$/);
+    expect(buildEarthquakeDraftAlert({ ...QUAKE, depth_km: null, place: null }).message).not.toMatch(/depth|\(/);
+  });
+});
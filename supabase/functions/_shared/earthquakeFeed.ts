@@ -0,0 +1,140 @@
+// Earthquake feed settings, distance from Pio Duran and the draft alert
+// wording, shared by the earthquake-feed edge function and
+// src/utils/earthquakes.ts. Must not import anything.
+
+export const EARTHQUAKE_FEED_SETTING_KEY = 'earthquake_feed';
+
+export interface EarthquakeFeedSettings {
+  // GeoJSON FeatureCollection in the USGS summary feed format
+  feed_url: string;
+  // Quakes at least this strong within this distance of Pio Duran are shown
+  // on the public widget and get a draft alert
+  radius_km: number;
+  min_magnitude: number;
+}
+
+export const DEFAULT_EARTHQUAKE_FEED_SETTINGS: EarthquakeFeedSettings = {
+  feed_url: 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/2.5_day.geojson',
+  radius_km: 200,
+  min_magnitude: 4.5
+};
+
+/** Accepts the JSON string the Settings page stores as well as the seeded object */
+export const parseEarthquakeFeedSettings = (value: unknown): EarthquakeFeedSettings => {
+  let parsed = value as Partial<EarthquakeFeedSettings> | null;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      parsed = null;
+    }
+  }
+  if (!parsed) return { ...DEFAULT_EARTHQUAKE_FEED_SETTINGS };
+
+  const radius = Number(parsed.radius_km);
+  const magnitude = Number(parsed.min_magnitude);
+  return {
+    feed_url: typeof parsed.feed_url === 'string' && parsed.feed_url.trim()
+      ? parsed.feed_url.trim()
+      : DEFAULT_EARTHQUAKE_FEED_SETTINGS.feed_url,
+    radius_km: Number.isFinite(radius) && radius > 0 ? radius : DEFAULT_EARTHQUAKE_FEED_SETTINGS.radius_km,
+    min_magnitude: Number.isFinite(magnitude) && magnitude >= 0 ? magnitude : DEFAULT_EARTHQUAKE_FEED_SETTINGS.min_magnitude
+  };
+};
+
+// Town center, the same point the weather sync uses
+export const PIO_DURAN_CENTER = { lat: 13.0293, lng: 123.445 };
+
+// PHIVOLCS Earthquake Intensity Scale (PEIS) I-X felt at a place
+export interface IntensityReport {
+  place: string;
+  intensity: number;
+}
+
+export interface EarthquakeDetails {
+  magnitude: number;
+  depth_km: number | null;
+  latitude: number;
+  longitude: number;
+  place: string | null;
+  occurred_at: string;
+  distance_km: number;
+  intensity_reports: IntensityReport[];
+}
+
+/** Great-circle distance in kilometres */
+export const getDistanceKm = (from: { lat: number; lng: number }, to: { lat: number; lng: number }) => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const COMPASS_POINTS = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+
+/** Direction of the epicenter as seen from Pio Duran */
+export const getDirectionFromPioDuran = (lat: number, lng: number) => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const y = Math.sin(toRadians(lng - PIO_DURAN_CENTER.lng)) * Math.cos(toRadians(lat));
+  const x = Math.cos(toRadians(PIO_DURAN_CENTER.lat)) * Math.sin(toRadians(lat)) -
+    Math.sin(toRadians(PIO_DURAN_CENTER.lat)) * Math.cos(toRadians(lat)) * Math.cos(toRadians(lng - PIO_DURAN_CENTER.lng));
+  const bearing = (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+  return COMPASS_POINTS[Math.round(bearing / 45) % 8];
+};
+
+export const isNearbyEarthquake = (
+  event: Pick<EarthquakeDetails, 'magnitude' | 'distance_km'>,
+  settings: EarthquakeFeedSettings
+) => event.distance_km <= settings.radius_km && event.magnitude >= settings.min_magnitude;
+
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X'];
+
+export const formatIntensity = (intensity: number) =>
+  `Intensity ${ROMAN_NUMERALS[Math.min(Math.max(Math.round(intensity), 1), 10) - 1]}`;
+
+export const getMaxIntensity = (reports: IntensityReport[]) =>
+  reports.reduce<number | null>((max, report) => max === null || report.intensity > max ? report.intensity : max, null);
+
+/**
+ * Draft alert for staff to review and issue from Emergency Management.
+ * Severity follows the magnitude or the strongest reported intensity,
+ * whichever is higher.
+ */
+export const buildEarthquakeDraftAlert = (event: EarthquakeDetails) => {
+  const intensity = getMaxIntensity(event.intensity_reports) ?? 0;
+  const [severity, priority] =
+    event.magnitude >= 7 || intensity >= 7 ? ['critical', 5] as const :
+    event.magnitude >= 6 || intensity >= 6 ? ['high', 4] as const :
+    event.magnitude >= 5 || intensity >= 5 ? ['medium', 3] as const :
+    ['low', 2] as const;
+
+  const distance = Math.round(event.distance_km);
+  const direction = getDirectionFromPioDuran(event.latitude, event.longitude);
+  const occurredAt = new Date(event.occurred_at).toLocaleString('en-PH', {
+    timeZone: 'Asia/Manila',
+    dateStyle: 'medium',
+    timeStyle: 'short'
+  });
+
+  const message = [
+    `A magnitude ${event.magnitude.toFixed(1)} earthquake struck ${distance} km ${direction} of Pio Duran` +
+      `${event.place ? ` (${event.place})` : ''} at ${occurredAt}` +
+      `${event.depth_km !== null ? `, at a depth of ${Math.round(event.depth_km)} km` : ''}.`,
+    event.intensity_reports.length > 0
+      ? `Reported intensities: ${event.intensity_reports.map(report => `${formatIntensity(report.intensity)} in ${report.place}`).join('; ')}.`
+      : '',
+    'Check your home for damage, stay away from cracked walls, slopes and the shoreline, and expect aftershocks. Report injuries and damage to the MDRRMO.'
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    type: 'earthquake' as const,
+    severity,
+    priority,
+    title: `Magnitude ${event.magnitude.toFixed(1)} Earthquake, ${distance} km ${direction} of Pio Duran`,
+    message,
+    location: 'Municipality-wide',
+    target_barangays: [] as string[]
+  };
+};
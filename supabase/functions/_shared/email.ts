@@ -0,0 +1,65 @@
+// Email providers behind one interface. Pick one with the EMAIL_PROVIDER secret:
+//   console - logs messages instead of sending them (default, for development)
+//   resend  - Resend API; needs RESEND_API_KEY and EMAIL_FROM
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailProvider {
+  name: string;
+  send(message: EmailMessage): Promise<string | undefined>;
+}
+
+export class ConsoleEmailProvider implements EmailProvider {
+  name = 'console'
+
+  async send(message: EmailMessage) {
+    console.log(`[email:console] to ${message.to}: ${message.subject}\n${message.text}`)
+    return undefined
+  }
+}
+
+export class ResendEmailProvider implements EmailProvider {
+  name = 'resend'
+
+  constructor(private apiKey: string, private from: string) {}
+
+  async send(message: EmailMessage) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ from: this.from, to: [message.to], subject: message.subject, text: message.text })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Resend email error: ${response.status} ${await response.text()}`)
+    }
+
+    const result = await response.json() as { id?: string }
+    return result.id
+  }
+}
+
+export const getEmailProvider = (): EmailProvider => {
+  const provider = Deno.env.get('EMAIL_PROVIDER') ?? 'console'
+
+  switch (provider) {
+    case 'resend': {
+      const apiKey = Deno.env.get('RESEND_API_KEY')
+      const from = Deno.env.get('EMAIL_FROM')
+      if (!apiKey) throw new Error('RESEND_API_KEY is not set')
+      if (!from) throw new Error('EMAIL_FROM is not set')
+      return new ResendEmailProvider(apiKey, from)
+    }
+    case 'console':
+      return new ConsoleEmailProvider()
+    default:
+      throw new Error(`Unknown EMAIL_PROVIDER: ${provider}`)
+  }
+}
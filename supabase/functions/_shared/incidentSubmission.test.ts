@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  INCIDENT_FIELD_LIMITS,
+  PROOF_OF_WORK_MAX_AGE_MS,
+  normalizePhoneNumber,
+  solveProofOfWork,
+  validateIncidentSubmission,
+  verifyProofOfWork
+} from './incidentSubmission';
+
+const FORM = {
+  reporterName: 'Juan Dela Cruz',
+  contactNumber: '+63 917 123 4567',
+  incidentType: 'Flood',
+  description: 'Water is knee-deep along the national road.',
+  location: 'Barangay Agol',
+  urgency: 'HIGH'
+};
+
+// Low enough to solve instantly; the real difficulty takes a second or two
+const TEST_DIFFICULTY = 4;
+
+describe('validateIncidentSubmission', () => {
+  it('accepts the form fields and the column names', () => {
+    expect(validateIncidentSubmission(FORM)).toEqual({ isValid: true, errors: {} });
+    expect(validateIncidentSubmission({
+      reporter_name: FORM.reporterName,
+      contact_number: FORM.contactNumber,
+      incident_type: FORM.incidentType,
+      description: FORM.description,
+      latitude: 13.03,
+      longitude: 123.44
+    }).isValid).toBe(true);
+  });
+
+  it('reports missing fields under the form field names', () => {
+    expect(validateIncidentSubmission({ description: '   ' }).errors).toEqual({
+      contactNumber: 'Contact number is required',
+      reporterName: 'Name is required',
+      incidentType: 'Incident type is required',
+      description: 'Description is required'
+    });
+  });
+
+  it('enforces the field limits, urgency values and coordinate ranges', () => {
+    const { errors } = validateIncidentSubmission({
+      ...FORM,
+      contactNumber: 'call me',
+      description: 'x'.repeat(INCIDENT_FIELD_LIMITS.description + 1),
+      urgency: 'URGENT',
+      latitude: 91,
+      longitude: 123.44
+    });
+
+    expect(errors).toEqual({
+      contactNumber: 'Please enter a valid phone number',
+      description: `Description must be at most ${INCIDENT_FIELD_LIMITS.description} characters`,
+      urgency: 'Please choose a valid urgency',
+      location: 'Invalid coordinates'
+    });
+  });
+});
+
+describe('normalizePhoneNumber', () => {
+  it('matches local and international forms of the same number', () => {
+    expect(normalizePhoneNumber('0917 123 4567')).toBe('9171234567');
+    expect(normalizePhoneNumber('+63 917-123-4567')).toBe('9171234567');
+    expect(normalizePhoneNumber('639171234567')).toBe('9171234567');
+  });
+});
+
+describe('proof of work', () => {
+  const incidentId = '6a0b5e9e-0c55-4f0e-9a39-1f1c5e2d7b44';
+
+  it('verifies a solved stamp for the same incident only', async () => {
+    const proof = await solveProofOfWork(incidentId, TEST_DIFFICULTY);
+
+    expect(await verifyProofOfWork(incidentId, proof, proof.issuedAt, TEST_DIFFICULTY)).toBe(true);
+    expect(await verifyProofOfWork('another-incident', proof, proof.issuedAt, 16)).toBe(false);
+  });
+
+  it('rejects missing, stale and future-dated stamps', async () => {
+    const proof = await solveProofOfWork(incidentId, TEST_DIFFICULTY);
+
+    expect(await verifyProofOfWork(incidentId, undefined)).toBe(false);
+    expect(await verifyProofOfWork(incidentId, { issuedAt: proof.issuedAt }, proof.issuedAt, TEST_DIFFICULTY)).toBe(false);
+    expect(await verifyProofOfWork(incidentId, proof, proof.issuedAt + PROOF_OF_WORK_MAX_AGE_MS + 1, TEST_DIFFICULTY)).toBe(false);
+    expect(await verifyProofOfWork(incidentId, proof, proof.issuedAt - 2 * 60 * 1000, TEST_DIFFICULTY)).toBe(false);
+  });
+});
@@ -0,0 +1,161 @@
+// Rules for public incident submissions, shared by the report form
+// (src/utils/validation.ts, DataContext) and the submit-incident edge function.
+// It runs in both the browser and Deno, so it must not import anything.
+
+export const INCIDENT_URGENCIES = ['LOW', 'MEDIUM', 'HIGH'];
+
+export const INCIDENT_FIELD_LIMITS = {
+  reporterName: 100,
+  contactNumber: 20,
+  location: 200,
+  incidentType: 100,
+  description: 2000
+};
+
+export const MAX_INCIDENT_ATTACHMENTS = 5;
+
+// Hidden form field that people never see but form-filling bots do
+export const HONEYPOT_FIELD = 'website';
+
+// Leading zero bits required in SHA-256(incident id:issued at:nonce); about
+// 16k hashes on average, a second or two on a mid-range phone
+export const PROOF_OF_WORK_DIFFICULTY = 14;
+export const PROOF_OF_WORK_MAX_AGE_MS = 10 * 60 * 1000;
+
+export interface ProofOfWork {
+  issuedAt: number;
+  nonce: number;
+}
+
+export type IncidentSubmissionRejection = 'honeypot' | 'proof_of_work' | 'validation' | 'rate_limit_ip' | 'rate_limit_phone';
+
+// Sent as `code` with rejections of the report itself. The same report will
+// be refused again, so offline outboxes must stop retrying it. Rate limits
+// and proof-of-work failures (a fresh stamp is solved each try) are not final.
+export const INCIDENT_REJECTED_CODE = 'incident_rejected';
+export const FINAL_INCIDENT_REJECTIONS: IncidentSubmissionRejection[] = ['honeypot', 'validation'];
+
+// Files are uploaded to the incidents bucket under `${incident id}/` first
+export interface IncidentSubmissionAttachment {
+  id: string;
+  media_type: 'image' | 'video';
+  mime_type?: string | null;
+  file_path: string;
+  thumbnail_path?: string | null;
+  file_size?: number | null;
+  width?: number | null;
+  height?: number | null;
+  duration_seconds?: number | null;
+}
+
+// Request body of the submit-incident edge function
+export interface IncidentSubmissionPayload {
+  row: Record<string, unknown> & { id: string };
+  attachments?: IncidentSubmissionAttachment[];
+  proof?: ProofOfWork;
+  website?: string;
+  // A confirmed phone-verification for the report's contact number
+  verificationId?: string | null;
+}
+
+type IncidentFields = Record<string, unknown>;
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const pick = (fields: IncidentFields, camel: string, snake: string) => text(fields[camel] ?? fields[snake]);
+
+// Same pattern as validatePhone in src/utils/validation.ts
+const isValidPhone = (phone: string) => /^[+]?[1-9][\d]{0,15}$/.test(phone.replace(/[\s\-()]/g, ''));
+
+/**
+ * Accepts either the form's camelCase fields or the incident_reports column
+ * names. Error keys follow the form fields.
+ */
+export const validateIncidentSubmission = (fields: IncidentFields): { isValid: boolean; errors: Record<string, string> } => {
+  const errors: Record<string, string> = {};
+  const contactNumber = pick(fields, 'contactNumber', 'contact_number');
+  const reporterName = pick(fields, 'reporterName', 'reporter_name');
+  const incidentType = pick(fields, 'incidentType', 'incident_type');
+  const description = text(fields.description);
+  const location = text(fields.location);
+
+  if (!contactNumber) {
+    errors.contactNumber = 'Contact number is required';
+  } else if (!isValidPhone(contactNumber) || contactNumber.length > INCIDENT_FIELD_LIMITS.contactNumber) {
+    errors.contactNumber = 'Please enter a valid phone number';
+  }
+
+  if (!reporterName) {
+    errors.reporterName = 'Name is required';
+  } else if (reporterName.length > INCIDENT_FIELD_LIMITS.reporterName) {
+    errors.reporterName = `Name must be at most ${INCIDENT_FIELD_LIMITS.reporterName} characters`;
+  }
+
+  if (!incidentType) {
+    errors.incidentType = 'Incident type is required';
+  } else if (incidentType.length > INCIDENT_FIELD_LIMITS.incidentType) {
+    errors.incidentType = 'Please choose a valid incident type';
+  }
+
+  if (!description) {
+    errors.description = 'Description is required';
+  } else if (description.length > INCIDENT_FIELD_LIMITS.description) {
+    errors.description = `Description must be at most ${INCIDENT_FIELD_LIMITS.description} characters`;
+  }
+
+  if (location.length > INCIDENT_FIELD_LIMITS.location) {
+    errors.location = `Location must be at most ${INCIDENT_FIELD_LIMITS.location} characters`;
+  }
+
+  if (fields.urgency !== undefined && !INCIDENT_URGENCIES.includes(fields.urgency as string)) {
+    errors.urgency = 'Please choose a valid urgency';
+  }
+
+  const latitude = fields.latitude;
+  const longitude = fields.longitude;
+  if ((latitude != null && (typeof latitude !== 'number' || Math.abs(latitude) > 90)) ||
+      (longitude != null && (typeof longitude !== 'number' || Math.abs(longitude) > 180))) {
+    errors.location = 'Invalid coordinates';
+  }
+
+  return {
+    isValid: Object.keys(errors).length === 0,
+    errors
+  };
+};
+
+// Rate limits are counted per number, so 0917..., +63917... and 63917... match
+export const normalizePhoneNumber = (phone: string): string => phone.replace(/\D/g, '').slice(-10);
+
+const hashChallenge = async (incidentId: string, issuedAt: number, nonce: number): Promise<Uint8Array> => {
+  const data = new TextEncoder().encode(`${incidentId}:${issuedAt}:${nonce}`);
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+};
+
+const hasLeadingZeroBits = (hash: Uint8Array, bits: number): boolean => {
+  for (let i = 0; i < bits; i++) {
+    if (hash[i >> 3] & (0x80 >> (i & 7))) return false;
+  }
+  return true;
+};
+
+export const solveProofOfWork = async (incidentId: string, difficulty = PROOF_OF_WORK_DIFFICULTY): Promise<ProofOfWork> => {
+  const issuedAt = Date.now();
+  for (let nonce = 0; ; nonce++) {
+    if (hasLeadingZeroBits(await hashChallenge(incidentId, issuedAt, nonce), difficulty)) {
+      return { issuedAt, nonce };
+    }
+  }
+};
+
+export const verifyProofOfWork = async (
+  incidentId: string,
+  proof: Partial<ProofOfWork> | null | undefined,
+  now: number = Date.now(),
+  difficulty = PROOF_OF_WORK_DIFFICULTY
+): Promise<boolean> => {
+  if (!proof || typeof proof.issuedAt !== 'number' || typeof proof.nonce !== 'number') return false;
+  // A little slack for clocks that run ahead of the server
+  if (proof.issuedAt > now + 60 * 1000 || now - proof.issuedAt > PROOF_OF_WORK_MAX_AGE_MS) return false;
+  return hasLeadingZeroBits(await hashChallenge(incidentId, proof.issuedAt, proof.nonce), difficulty);
+};
@@ -0,0 +1,41 @@
+// One-time code rules shared by the phone-verification and submit-incident
+// edge functions and the report form. Must not import anything.
+
+export const VERIFICATION_CODE_LENGTH = 6;
+export const VERIFICATION_CODE_TTL_MS = 5 * 60 * 1000;
+export const VERIFICATION_MAX_ATTEMPTS = 5;
+export const VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000;
+
+// Codes sent per number and per IP address in the last hour
+export const VERIFICATION_SENDS_PER_PHONE = 3;
+export const VERIFICATION_SENDS_PER_IP = 10;
+
+// How long a confirmed number can be attached to a report
+export const VERIFICATION_VALID_FOR_MS = 60 * 60 * 1000;
+
+export type PhoneVerificationAction = 'send' | 'verify';
+
+export interface PhoneVerificationRequest {
+  action: PhoneVerificationAction;
+  phone?: string;
+  verificationId?: string;
+  code?: string;
+}
+
+export interface PhoneVerificationResponse {
+  success: boolean;
+  verificationId?: string;
+  expiresAt?: string;
+  verified?: boolean;
+  attemptsLeft?: number;
+  error?: string;
+  // Only returned by the console SMS provider with ALLOW_DEV_OTP=true, so the
+  // flow can be tested locally
+  devCode?: string;
+}
+
+export const hashVerificationCode = async (verificationId: string, code: string): Promise<string> => {
+  const data = new TextEncoder().encode(`${verificationId}:${code}`);
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(hash).map(b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PUSH_PAYLOAD_MAX_BYTES,
+  isKnownPushServiceEndpoint,
+  isPushAlertSeverity,
+  isValidPushSubscription,
+  matchesPushPreferences,
+  serializePushPayload
+} from './pushSubscriptions';
+import { base64UrlEncode, encryptPayload } from './webPush';
+
+describe('isKnownPushServiceEndpoint', () => {
+  it('accepts the browser push services and their subdomains', () => {
+    expect(isKnownPushServiceEndpoint('https://fcm.googleapis.com/fcm/send/abc:123')).toBe(true);
+    expect(isKnownPushServiceEndpoint('https://updates.push.services.mozilla.com/wpush/v2/abc')).toBe(true);
+    expect(isKnownPushServiceEndpoint('https://web.push.apple.com/QGx4')).toBe(true);
+    expect(isKnownPushServiceEndpoint('https://wns2-by3p.notify.windows.com/w/?token=abc')).toBe(true);
+  });
+
+  it('rejects other hosts, look-alike hosts and plain http', () => {
+    expect(isKnownPushServiceEndpoint('https://example.com/push')).toBe(false);
+    expect(isKnownPushServiceEndpoint('https://evilfcm.googleapis.com.example.com/send')).toBe(false);
+    expect(isKnownPushServiceEndpoint('https://notfcm.googleapis.com/send')).toBe(false);
+    expect(isKnownPushServiceEndpoint('http://fcm.googleapis.com/fcm/send/abc')).toBe(false);
+    expect(isKnownPushServiceEndpoint('not a url')).toBe(false);
+  });
+});
+
+describe('isValidPushSubscription', () => {
+  it('needs an endpoint and both keys', () => {
+    const subscription = { endpoint: 'https://fcm.googleapis.com/fcm/send/abc', keys: { p256dh: 'key', auth: 'secret' } };
+
+    expect(isValidPushSubscription(subscription)).toBe(true);
+    expect(isValidPushSubscription({ ...subscription, keys: { p256dh: 'key' } })).toBe(false);
+    expect(isValidPushSubscription({ ...subscription, endpoint: 'ftp://example.com' })).toBe(false);
+    expect(isValidPushSubscription(null)).toBe(false);
+  });
+});
+
+describe('push filters', () => {
+  it('only pushes high and critical alerts', () => {
+    expect(isPushAlertSeverity('critical')).toBe(true);
+    expect(isPushAlertSeverity('high')).toBe(true);
+    expect(isPushAlertSeverity('medium')).toBe(false);
+  });
+
+  it('matches the hazard types and barangay a subscriber chose', () => {
+    const alert = { type: 'flood', target_barangays: ['Agol'] };
+
+    expect(matchesPushPreferences({ hazardTypes: [], barangay: null }, alert)).toBe(true);
+    expect(matchesPushPreferences({ hazardTypes: ['flood'], barangay: 'Agol' }, alert)).toBe(true);
+    expect(matchesPushPreferences({ hazardTypes: ['typhoon'], barangay: null }, alert)).toBe(false);
+    expect(matchesPushPreferences({ hazardTypes: [], barangay: 'Basag' }, alert)).toBe(false);
+    // Municipality-wide alerts reach every barangay
+    expect(matchesPushPreferences({ hazardTypes: [], barangay: 'Basag' }, { type: 'flood', target_barangays: [] })).toBe(true);
+  });
+});
+
+describe('serializePushPayload', () => {
+  const payload = {
+    alertId: 'f3c1a2b4-5d6e-4f70-8a9b-0c1d2e3f4a5b',
+    title: 'CRITICAL: Typhoon warning',
+    body: 'Move to higher ground.',
+    severity: 'critical',
+    url: '/alerts/f3c1a2b4-5d6e-4f70-8a9b-0c1d2e3f4a5b'
+  };
+  const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+  it('leaves payloads that fit as they are', () => {
+    expect(serializePushPayload(payload)).toBe(JSON.stringify(payload));
+  });
+
+  it('shortens a message over 4 KB so the push can still be encrypted', async () => {
+    // Multi-byte characters and quotes that JSON escapes, well past the limit
+    const message = 'Lumikas na sa evacuation center — "Bagyong Ñora" 🌀 '.repeat(120);
+    expect(byteLength(message)).toBeGreaterThan(4096);
+
+    const json = serializePushPayload({ ...payload, body: message });
+    const sent = JSON.parse(json);
+
+    expect(byteLength(json)).toBeLessThanOrEqual(PUSH_PAYLOAD_MAX_BYTES);
+    expect(byteLength(json)).toBeGreaterThan(PUSH_PAYLOAD_MAX_BYTES - 8);
+    expect(sent).toMatchObject({ alertId: payload.alertId, title: payload.title, url: payload.url });
+    expect(sent.body).toMatch(/…$/);
+    expect(message.startsWith(sent.body.slice(0, -1))).toBe(true);
+
+    const subscriber = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+    const keys = {
+      p256dh: base64UrlEncode(new Uint8Array(await crypto.subtle.exportKey('raw', subscriber.publicKey))),
+      auth: base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)))
+    };
+    const encrypted = await encryptPayload({ endpoint: 'https://fcm.googleapis.com/fcm/send/abc', keys }, json);
+    expect(encrypted.length).toBeLessThanOrEqual(4096);
+  });
+
+  it('shortens the title when the body alone is not enough', () => {
+    const json = serializePushPayload({ ...payload, title: 'Á'.repeat(3000), body: 'é'.repeat(3000) });
+    const sent = JSON.parse(json);
+
+    expect(byteLength(json)).toBeLessThanOrEqual(PUSH_PAYLOAD_MAX_BYTES);
+    expect(sent.body).toBe('…');
+    expect(sent.title).toMatch(/^Á+…$/);
+  });
+});
@@ -0,0 +1,135 @@
+// Web Push opt-in rules shared by the push-subscription edge function, the
+// web-push dispatch adapter and the notification settings on the site.
+// Must not import anything.
+
+// Lower severities stay on the site and the other channels
+export const PUSH_ALERT_SEVERITIES = ['high', 'critical'] as const;
+
+// Push services drop undelivered messages after this long
+export const PUSH_TTL_SECONDS = 12 * 60 * 60;
+
+// Push services accept 4096 bytes of encrypted message. The aes128gcm header
+// (86 bytes), the auth tag (16) and the padding delimiter (1) leave this many
+// bytes of UTF-8 for the JSON payload.
+export const PUSH_PAYLOAD_MAX_BYTES = 4096 - 86 - 16 - 1;
+
+// Subscribe and unsubscribe requests per IP address in the last hour
+export const PUSH_SUBSCRIPTION_REQUESTS_PER_IP = 20;
+
+// The browser push services, and their subdomains: Firebase Cloud Messaging
+// (Chrome, Edge, Android), Mozilla autopush (Firefox), Apple (Safari) and
+// Windows Push Notification Services
+export const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'push.services.mozilla.com',
+  'push.apple.com',
+  'notify.windows.com'
+];
+
+export type PushSubscriptionAction = 'subscribe' | 'unsubscribe';
+
+// The browser's PushSubscription.toJSON() shape
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+export interface PushPreferences {
+  // Empty means every hazard type
+  hazardTypes: string[];
+  // Null means alerts for any barangay
+  barangay: string | null;
+}
+
+export interface PushSubscriptionRequest {
+  action: PushSubscriptionAction;
+  subscription?: PushSubscriptionKeys;
+  endpoint?: string;
+  // The subscription's auth secret, which only the subscribed browser knows;
+  // required to unsubscribe
+  auth?: string;
+  preferences?: PushPreferences;
+}
+
+export interface PushSubscriptionResponse {
+  success: boolean;
+  error?: string;
+}
+
+// What public/sw.js turns into a system notification
+export interface PushNotificationPayload {
+  alertId: string;
+  title: string;
+  body: string;
+  severity: string;
+  url: string;
+}
+
+export const isValidPushSubscription = (value: unknown): value is PushSubscriptionKeys => {
+  const subscription = value as PushSubscriptionKeys | null;
+  return !!subscription &&
+    typeof subscription.endpoint === 'string' &&
+    /^https?:\/\//.test(subscription.endpoint) &&
+    typeof subscription.keys?.p256dh === 'string' &&
+    typeof subscription.keys?.auth === 'string';
+};
+
+export const isKnownPushServiceEndpoint = (endpoint: string): boolean => {
+  try {
+    const { protocol, hostname } = new URL(endpoint);
+    return protocol === 'https:' &&
+      PUSH_SERVICE_HOSTS.some(host => hostname === host || hostname.endsWith(`.${host}`));
+  } catch {
+    return false;
+  }
+};
+
+export const isPushAlertSeverity = (severity: string) =>
+  (PUSH_ALERT_SEVERITIES as readonly string[]).includes(severity);
+
+export const matchesPushPreferences = (
+  preferences: PushPreferences,
+  alert: { type: string; target_barangays: string[] | null }
+) =>
+  (preferences.hazardTypes.length === 0 || preferences.hazardTypes.includes(alert.type)) &&
+  (!preferences.barangay || !alert.target_barangays?.length || alert.target_barangays.includes(preferences.barangay));
+
+const getByteLength = (text: string) => new TextEncoder().encode(text).length;
+
+// Cuts by code points so an emoji or accented letter is never split
+const truncateText = (text: string, length: number) => {
+  const chars = Array.from(text);
+  return chars.length <= length ? text : `${chars.slice(0, Math.max(length - 1, 0)).join('')}…`;
+};
+
+/**
+ * The payload as JSON no longer than PUSH_PAYLOAD_MAX_BYTES. A long body is
+ * shortened first, then the title; the notification opens `url`, where the
+ * full alert is shown.
+ */
+export const serializePushPayload = (payload: PushNotificationPayload): string => {
+  const fits = (candidate: PushNotificationPayload) =>
+    getByteLength(JSON.stringify(candidate)) <= PUSH_PAYLOAD_MAX_BYTES;
+
+  let fitted = payload;
+  for (const field of ['body', 'title'] as const) {
+    if (fits(fitted)) break;
+
+    // Longest prefix of the field that fits, in code points
+    let low = 0;
+    let high = Array.from(fitted[field]).length;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (fits({ ...fitted, [field]: truncateText(fitted[field], middle) })) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    fitted = { ...fitted, [field]: truncateText(fitted[field], low) };
+  }
+  return JSON.stringify(fitted);
+};
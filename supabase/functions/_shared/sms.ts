@@ -0,0 +1,53 @@
+// SMS providers behind one interface. Pick one with the SMS_PROVIDER secret:
+//   console   - logs messages instead of sending them (default, for development)
+//   semaphore - Semaphore SMS gateway; needs SEMAPHORE_API_KEY and optionally
+//               SEMAPHORE_SENDER_NAME
+
+export interface SmsProvider {
+  name: string;
+  send(to: string, message: string): Promise<void>;
+}
+
+export class ConsoleSmsProvider implements SmsProvider {
+  name = 'console'
+
+  async send(to: string, message: string) {
+    console.log(`[sms:console] to ${to}: ${message}`)
+  }
+}
+
+export class SemaphoreSmsProvider implements SmsProvider {
+  name = 'semaphore'
+
+  constructor(private apiKey: string, private senderName?: string) {}
+
+  async send(to: string, message: string) {
+    const body = new URLSearchParams({ apikey: this.apiKey, number: to, message })
+    if (this.senderName) body.set('sendername', this.senderName)
+
+    const response = await fetch('https://api.semaphore.co/api/v4/messages', {
+      method: 'POST',
+      body
+    })
+
+    if (!response.ok) {
+      throw new Error(`Semaphore SMS error: ${response.status} ${await response.text()}`)
+    }
+  }
+}
+
+export const getSmsProvider = (): SmsProvider => {
+  const provider = Deno.env.get('SMS_PROVIDER') ?? 'console'
+
+  switch (provider) {
+    case 'semaphore': {
+      const apiKey = Deno.env.get('SEMAPHORE_API_KEY')
+      if (!apiKey) throw new Error('SEMAPHORE_API_KEY is not set')
+      return new SemaphoreSmsProvider(apiKey, Deno.env.get('SEMAPHORE_SENDER_NAME') ?? undefined)
+    }
+    case 'console':
+      return new ConsoleSmsProvider()
+    default:
+      throw new Error(`Unknown SMS_PROVIDER: ${provider}`)
+  }
+}
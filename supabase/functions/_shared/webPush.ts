@@ -0,0 +1,184 @@
+// Web Push sending with VAPID (RFC 8292) and aes128gcm payload encryption
+// (RFC 8291), using only WebCrypto. Keys are base64url strings in the format
+// `npx web-push generate-vapid-keys` prints.
+
+import type { PushSubscriptionKeys } from './pushSubscriptions.ts'
+
+export interface VapidKeys {
+  publicKey: string
+  privateKey: string
+  // mailto: or https: contact the push service can reach us at
+  subject: string
+}
+
+export interface WebPushOptions {
+  ttl: number
+  urgency?: 'very-low' | 'low' | 'normal' | 'high'
+  // A newer message with the same topic replaces an undelivered one
+  topic?: string
+}
+
+// 404 and 410 mean the browser unsubscribed; the subscription should be removed
+export class PushSubscriptionGoneError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+    this.name = 'PushSubscriptionGoneError'
+  }
+}
+
+const RECORD_SIZE = 4096
+const encoder = new TextEncoder()
+
+export const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+export const base64UrlDecode = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+export const concatBytes = (...parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+const hkdf = async (salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number) => {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8)
+  return new Uint8Array(bits)
+}
+
+/**
+ * Content key and nonce for one message. The sender passes the subscriber's
+ * public key as the peer; the receiving side (see scripts/push-service-mock.ts)
+ * passes the sender's, so both derive the same values.
+ */
+export const deriveContentKeys = async (
+  privateKey: CryptoKey,
+  peerPublicKey: Uint8Array,
+  subscriberPublicKey: Uint8Array,
+  senderPublicKey: Uint8Array,
+  authSecret: Uint8Array,
+  salt: Uint8Array
+) => {
+  const peer = await crypto.subtle.importKey('raw', peerPublicKey, { name: 'ECDH', namedCurve: 'P-256' }, false, [])
+  const sharedSecret = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: peer }, privateKey, 256))
+
+  const keyInfo = concatBytes(encoder.encode('WebPush: info\0'), subscriberPublicKey, senderPublicKey)
+  const ikm = await hkdf(authSecret, sharedSecret, keyInfo, 32)
+
+  const contentKey = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16)
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12)
+  return {
+    key: await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt', 'decrypt']),
+    nonce
+  }
+}
+
+// A single aes128gcm record: salt, record size and the sender's key, then the ciphertext
+export const encryptPayload = async (subscription: PushSubscriptionKeys, payload: string) => {
+  const subscriberPublicKey = base64UrlDecode(subscription.keys.p256dh)
+  const authSecret = base64UrlDecode(subscription.keys.auth)
+
+  const sender = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair
+  const senderPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', sender.publicKey))
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+
+  const { key, nonce } = await deriveContentKeys(
+    sender.privateKey, subscriberPublicKey, subscriberPublicKey, senderPublicKey, authSecret, salt
+  )
+
+  // 0x02 marks the last (and only) record
+  const plaintext = concatBytes(encoder.encode(payload), new Uint8Array([2]))
+  if (plaintext.length + 16 > RECORD_SIZE) {
+    throw new Error('Push payload is too large')
+  }
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, key, plaintext))
+
+  const header = new Uint8Array(21)
+  header.set(salt)
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE)
+  header[20] = senderPublicKey.length
+  return concatBytes(header, senderPublicKey, ciphertext)
+}
+
+const importVapidPrivateKey = (vapid: VapidKeys) => {
+  const publicKey = base64UrlDecode(vapid.publicKey)
+  return crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: base64UrlEncode(publicKey.slice(1, 33)),
+      y: base64UrlEncode(publicKey.slice(33, 65)),
+      ext: true
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  )
+}
+
+// Signed for the push service's origin, valid for 12 hours
+export const createVapidAuthorization = async (endpoint: string, vapid: VapidKeys) => {
+  const encodeJson = (value: unknown) => base64UrlEncode(encoder.encode(JSON.stringify(value)))
+  const unsigned = `${encodeJson({ typ: 'JWT', alg: 'ES256' })}.${encodeJson({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+    sub: vapid.subject
+  })}`
+
+  const signature = new Uint8Array(await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    await importVapidPrivateKey(vapid),
+    encoder.encode(unsigned)
+  ))
+
+  return `vapid t=${unsigned}.${base64UrlEncode(signature)}, k=${vapid.publicKey}`
+}
+
+export const sendWebPush = async (
+  subscription: PushSubscriptionKeys,
+  payload: string,
+  vapid: VapidKeys,
+  options: WebPushOptions
+) => {
+  const headers: Record<string, string> = {
+    Authorization: await createVapidAuthorization(subscription.endpoint, vapid),
+    'Content-Encoding': 'aes128gcm',
+    'Content-Type': 'application/octet-stream',
+    TTL: String(options.ttl)
+  }
+  if (options.urgency) headers.Urgency = options.urgency
+  if (options.topic) headers.Topic = options.topic
+
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers,
+    body: await encryptPayload(subscription, payload)
+  })
+
+  if (response.status === 404 || response.status === 410) {
+    throw new PushSubscriptionGoneError(response.status, 'Push subscription has expired or was removed')
+  }
+  if (!response.ok) {
+    throw new Error(`Push service error: ${response.status} ${await response.text()}`)
+  }
+
+  return response.headers.get('Location') ?? undefined
+}
+
+export const getVapidKeys = (): VapidKeys => {
+  const publicKey = Deno.env.get('VAPID_PUBLIC_KEY')
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY')
+  if (!publicKey || !privateKey) throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY are not set')
+
+  return { publicKey, privateKey, subject: Deno.env.get('VAPID_SUBJECT') ?? 'mailto:mdrrmo@pioduran.gov.ph' }
+}
@@ -0,0 +1,135 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { getEmailProvider } from '../_shared/email.ts'
+import { formatAlertText, getAlertHeadline, type AlertMessageFields } from '../_shared/alertChannels.ts'
+import type { AlertApprovalNotifyRequest, AlertApprovalNotifyResponse } from '../_shared/alertApproval.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const json = (body: AlertApprovalNotifyResponse, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+interface ApprovalAlert extends AlertMessageFields {
+  id: string
+  status: string
+  approval_requested_by: string | null
+  approval_requested_by_name: string | null
+  approved_by_name: string | null
+  rejection_reason: string | null
+  // New content for a live alert, waiting for approval
+  pending_changes: Partial<AlertMessageFields> | null
+}
+
+// Emails the admins who can approve a pending alert, and the requester once
+// it has been approved or rejected. The admin panel shows the same in-app.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  const userClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+  )
+  const { data: { user } } = await userClient.auth.getUser()
+  if (!user) {
+    return json({ success: false, error: 'Sign in to send approval notifications' }, 401)
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  try {
+    const { alertId, event }: AlertApprovalNotifyRequest = await req.json()
+    if (!alertId || (event !== 'requested' && event !== 'reviewed')) {
+      return json({ success: false, error: 'alertId and event are required' }, 400)
+    }
+
+    const { data, error } = await supabaseClient
+      .from('emergency_alerts')
+      .select('*')
+      .eq('id', alertId)
+      .maybeSingle()
+    if (error) throw error
+    if (!data) return json({ success: false, error: 'Alert not found' }, 404)
+
+    const alert = data as ApprovalAlert
+    const isChange = alert.status === 'active' && alert.pending_changes !== null
+    const reviewUrl = `${Deno.env.get('PUBLIC_SITE_URL') ?? ''}/admin/emergency`
+    const provider = getEmailProvider()
+    let recipients: string[] = []
+    let subject: string
+    let text: string
+
+    if (event === 'requested') {
+      if (alert.status !== 'pending_approval' && !isChange) {
+        return json({ success: false, error: 'This alert is not waiting for approval' }, 409)
+      }
+
+      const { data: admins, error: adminsError } = await supabaseClient
+        .from('users')
+        .select('id, email')
+        .eq('role', 'admin')
+        .eq('status', 'active')
+      if (adminsError) throw adminsError
+
+      recipients = (admins as { id: string; email: string }[])
+        .filter(admin => admin.id !== alert.approval_requested_by)
+        .map(admin => admin.email)
+      const proposed = { ...alert, ...alert.pending_changes }
+      subject = `[Approval needed] ${getAlertHeadline(proposed)}`
+      text = [
+        isChange
+          ? `${alert.approval_requested_by_name ?? 'A staff member'} submitted changes to the live alert "${alert.title}" and they need a second admin's approval before the update is sent. The alert stays live as it was until then.`
+          : `${alert.approval_requested_by_name ?? 'A staff member'} submitted this alert and it needs a second admin's approval before it is issued.`,
+        '',
+        formatAlertText(proposed),
+        '',
+        `Review it at ${reviewUrl}`
+      ].join('\n')
+    } else {
+      if (alert.status === 'pending_approval' || isChange || !alert.approval_requested_by) {
+        return json({ success: false, error: 'This alert has not been reviewed' }, 409)
+      }
+
+      const { data: requester, error: requesterError } = await supabaseClient
+        .from('users')
+        .select('email')
+        .eq('id', alert.approval_requested_by)
+        .maybeSingle()
+      if (requesterError) throw requesterError
+
+      // Rejected changes leave the alert live with the rejection reason
+      const isRejected = alert.status === 'rejected' || (alert.status === 'active' && alert.rejection_reason !== null)
+      recipients = requester ? [requester.email as string] : []
+      subject = `[${isRejected ? 'Rejected' : 'Approved'}] ${getAlertHeadline(alert)}`
+      text = isRejected
+        ? `Your ${alert.status === 'active' ? 'changes to the alert' : 'alert'} "${alert.title}" ${alert.status === 'active' ? 'were' : 'was'} rejected.\n\nReason: ${alert.rejection_reason}\n\nEdit and resubmit at ${reviewUrl}`
+        : `Your alert "${alert.title}" was approved by ${alert.approved_by_name ?? 'an admin'} and has been issued.`
+    }
+
+    const results = await Promise.allSettled(recipients.map(to => provider.send({ to, subject, text })))
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`Error emailing ${recipients[index]} about alert ${alertId}:`, result.reason)
+      }
+    })
+
+    return json({ success: true, notified: results.filter(result => result.status === 'fulfilled').length })
+  } catch (error) {
+    console.error('Alert approval notification error:', error)
+    return json({ success: false, error: (error as Error).message }, 500)
+  }
+})
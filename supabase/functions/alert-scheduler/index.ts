@@ -0,0 +1,78 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { dispatchAlert } from '../_shared/alertDispatch.ts'
+import { isCronRequest } from '../_shared/cronAuth.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ScheduledAlertChange {
+  id: string
+  title: string
+  status: 'active' | 'expired'
+}
+
+// Runs every minute from pg_cron: activates scheduled emergency alerts,
+// dispatches them over their channels and expires the ones past their expires_at
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (!isCronRequest(req)) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Unauthorized' }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 401,
+      }
+    )
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  try {
+    const { data, error } = await supabaseClient.rpc('apply_emergency_alert_schedule')
+    if (error) throw error
+
+    const changes = (data ?? []) as ScheduledAlertChange[]
+    const activated = changes.filter(alert => alert.status === 'active')
+    const expired = changes.filter(alert => alert.status === 'expired')
+
+    changes.forEach(alert => console.log(`Emergency alert ${alert.id} (${alert.title}) is now ${alert.status}`))
+
+    // One alert's dispatch failing must not hold up the others
+    const dispatches = await Promise.allSettled(activated.map(alert => dispatchAlert(supabaseClient, alert.id)))
+    dispatches.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`Error dispatching emergency alert ${activated[index].id}:`, result.reason)
+      }
+    })
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        activated: activated.map(alert => alert.id),
+        expired: expired.map(alert => alert.id),
+        ranAt: new Date().toISOString()
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+  } catch (error) {
+    console.error('Alert scheduler error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: (error as Error).message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+})
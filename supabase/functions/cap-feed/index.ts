@@ -0,0 +1,115 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import {
+  ATOM_CONTENT_TYPE,
+  CAP_CONTENT_TYPE,
+  CAP_FEED_CANCELLED_RETENTION_HOURS,
+  renderAtomFeed,
+  renderCapXml,
+  toCapAlert,
+  validateCapAlert,
+  type CapSenderOptions,
+  type CapSourceAlert
+} from '../_shared/cap.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const CAP_COLUMNS = 'id, type, severity, title, message, location, coordinates, issued_at, expires_at, status, priority, revision, revised_at, previous_revisions, target_barangays, translations'
+
+const senderOptions: CapSenderOptions = {
+  sender: Deno.env.get('CAP_SENDER') ?? 'mdrrmo@pioduran.gov.ph',
+  senderName: Deno.env.get('CAP_SENDER_NAME') ?? 'MDRRMO Pio Duran, Albay',
+  identifierPrefix: Deno.env.get('CAP_IDENTIFIER_PREFIX') ?? 'ph.gov.pioduran.mdrrmo',
+  web: Deno.env.get('PUBLIC_SITE_URL') ?? undefined,
+  contact: Deno.env.get('CAP_CONTACT') ?? undefined,
+}
+
+const textResponse = (body: string, contentType: string, status = 200) =>
+  new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': contentType, 'Cache-Control': 'public, max-age=60' },
+    status,
+  })
+
+// GET /cap-feed          Atom index of current CAP messages
+// GET /cap-feed?id=<id>  CAP 1.2 document for one alert
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'GET') {
+    return textResponse('Method not allowed', 'text/plain', 405)
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  const url = new URL(req.url)
+  const feedUrl = `${Deno.env.get('SUPABASE_URL') ?? url.origin}/functions/v1/cap-feed`
+  const alertUrl = (alertId: string) => `${feedUrl}?id=${encodeURIComponent(alertId)}`
+
+  try {
+    const alertId = url.searchParams.get('id')
+
+    if (alertId) {
+      const { data, error } = await supabaseClient
+        .from('emergency_alerts')
+        .select(CAP_COLUMNS)
+        .eq('id', alertId)
+        .eq('show_on_frontend', true)
+        .in('status', ['active', 'expired', 'cancelled'])
+        .maybeSingle()
+      if (error) throw error
+
+      if (!data) {
+        return textResponse('Alert not found', 'text/plain', 404)
+      }
+
+      const cap = toCapAlert(data as CapSourceAlert, senderOptions)
+      const validation = validateCapAlert(cap)
+      if (!validation.isValid) {
+        console.error(`CAP message for alert ${alertId} is invalid:`, validation.errors)
+        return textResponse('Alert could not be exported', 'text/plain', 500)
+      }
+
+      return textResponse(renderCapXml(cap), CAP_CONTENT_TYPE)
+    }
+
+    const cancelledSince = new Date(Date.now() - CAP_FEED_CANCELLED_RETENTION_HOURS * 60 * 60 * 1000).toISOString()
+
+    const { data, error } = await supabaseClient
+      .from('emergency_alerts')
+      .select(CAP_COLUMNS)
+      .eq('show_on_frontend', true)
+      .or(`status.eq.active,and(status.eq.cancelled,updated_at.gte.${cancelledSince})`)
+      .order('issued_at', { ascending: false })
+    if (error) throw error
+
+    const entries = ((data ?? []) as CapSourceAlert[])
+      .map(alert => ({ alertId: alert.id, cap: toCapAlert(alert, senderOptions) }))
+      .filter(({ alertId, cap }) => {
+        const validation = validateCapAlert(cap)
+        if (!validation.isValid) {
+          console.error(`Leaving alert ${alertId} out of the CAP feed:`, validation.errors)
+        }
+        return validation.isValid
+      })
+
+    const feed = renderAtomFeed(entries, {
+      id: feedUrl,
+      title: `${senderOptions.senderName} Emergency Alerts`,
+      selfUrl: feedUrl,
+      authorName: senderOptions.senderName,
+      alertUrl,
+    })
+
+    return textResponse(feed, ATOM_CONTENT_TYPE)
+  } catch (error) {
+    console.error('CAP feed error:', error)
+    return textResponse('CAP feed is unavailable', 'text/plain', 500)
+  }
+})
@@ -0,0 +1,55 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { dispatchAlert } from '../_shared/alertDispatch.ts'
+import type { DispatchAlertRequest, DispatchAlertResponse } from '../_shared/alertChannels.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const json = (body: DispatchAlertResponse, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// Sends an active alert over its channels. Called from the admin panel when
+// an alert is published or edited, and to retry failed deliveries.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  // Only signed-in staff may send alerts; the anon key alone is not enough
+  const userClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+  )
+  const { data: { user } } = await userClient.auth.getUser()
+  if (!user) {
+    return json({ success: false, error: 'Sign in to dispatch alerts' }, 401)
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  try {
+    const { alertId }: DispatchAlertRequest = await req.json()
+    if (!alertId) {
+      return json({ success: false, error: 'alertId is required' }, 400)
+    }
+
+    const result = await dispatchAlert(supabaseClient, alertId)
+    return json(result, result.success ? 200 : 409)
+  } catch (error) {
+    console.error('Alert dispatch error:', error)
+    return json({ success: false, error: (error as Error).message }, 500)
+  }
+})
@@ -0,0 +1,203 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { ALERT_CHANNELS } from '../_shared/alertChannels.ts'
+import { isCronRequest } from '../_shared/cronAuth.ts'
+import {
+  EARTHQUAKE_FEED_SETTING_KEY,
+  PIO_DURAN_CENTER,
+  buildEarthquakeDraftAlert,
+  getDistanceKm,
+  getMaxIntensity,
+  isNearbyEarthquake,
+  parseEarthquakeFeedSettings,
+  type IntensityReport
+} from '../_shared/earthquakeFeed.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Older quakes still in the feed window are stored but not drafted, so the
+// first run or a changed radius doesn't fill the review queue with old events
+const DRAFT_WINDOW_HOURS = 24
+
+// USGS GeoJSON summary feed feature; intensity_reports is our extension for
+// PHIVOLCS-style reported intensities (the local fixture server sends them)
+interface FeedFeature {
+  id?: string
+  properties?: {
+    mag?: number | null
+    magType?: string | null
+    place?: string | null
+    time?: number | string
+    url?: string | null
+    intensity_reports?: unknown
+  }
+  geometry?: {
+    coordinates?: number[]
+  }
+}
+
+interface EarthquakeEventRow {
+  id: string
+  source_id: string
+  magnitude: number
+  depth_km: number | null
+  latitude: number
+  longitude: number
+  place: string | null
+  occurred_at: string
+  distance_km: number
+  intensity_reports: IntensityReport[]
+  is_nearby: boolean
+  drafted_at: string | null
+}
+
+const parseIntensityReports = (value: unknown): IntensityReport[] =>
+  Array.isArray(value)
+    ? value
+      .filter(report => typeof report?.place === 'string' && Number.isInteger(report?.intensity) && report.intensity >= 1 && report.intensity <= 10)
+      .map(report => ({ place: report.place, intensity: report.intensity }))
+    : []
+
+// Skips features without the fields every event needs
+const toEventRow = (feature: FeedFeature) => {
+  const [longitude, latitude, depth] = feature.geometry?.coordinates ?? []
+  const magnitude = feature.properties?.mag
+  const occurredAt = new Date(feature.properties?.time ?? NaN)
+  if (!feature.id || typeof magnitude !== 'number' || typeof latitude !== 'number' || typeof longitude !== 'number' || isNaN(occurredAt.getTime())) {
+    return null
+  }
+
+  const intensityReports = parseIntensityReports(feature.properties?.intensity_reports)
+  return {
+    source_id: feature.id,
+    magnitude: Math.round(magnitude * 10) / 10,
+    magnitude_type: feature.properties?.magType ?? null,
+    depth_km: typeof depth === 'number' ? Math.round(depth * 10) / 10 : null,
+    latitude,
+    longitude,
+    place: feature.properties?.place ?? null,
+    occurred_at: occurredAt.toISOString(),
+    distance_km: Math.round(getDistanceKm(PIO_DURAN_CENTER, { lat: latitude, lng: longitude }) * 10) / 10,
+    intensity_reports: intensityReports,
+    max_intensity: getMaxIntensity(intensityReports),
+    url: feature.properties?.url ?? null
+  }
+}
+
+// Runs every few minutes from pg_cron: stores new and revised quakes from the
+// feed and drafts an alert for each new one near Pio Duran for staff to review
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (!isCronRequest(req)) {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Unauthorized' }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 401,
+      }
+    )
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  try {
+    const { data: setting } = await supabaseClient
+      .from('system_settings')
+      .select('setting_value')
+      .eq('setting_key', EARTHQUAKE_FEED_SETTING_KEY)
+      .maybeSingle()
+    const settings = parseEarthquakeFeedSettings(setting?.setting_value)
+    const feedUrl = Deno.env.get('EARTHQUAKE_FEED_URL') || settings.feed_url
+
+    const response = await fetch(feedUrl)
+    if (!response.ok) {
+      throw new Error(`Earthquake feed ${feedUrl} returned ${response.status}`)
+    }
+    const feed = await response.json()
+
+    const rows = ((feed?.features ?? []) as FeedFeature[])
+      .map(toEventRow)
+      .filter((row): row is NonNullable<ReturnType<typeof toEventRow>> => row !== null)
+      .map(row => ({ ...row, is_nearby: isNearbyEarthquake(row, settings) }))
+
+    if (rows.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, ingested: 0, nearby: 0, drafted: [], ranAt: new Date().toISOString() }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+
+    const { data: events, error } = await supabaseClient
+      .from('earthquake_events')
+      .upsert(rows, { onConflict: 'source_id' })
+      .select('id, source_id, magnitude, depth_km, latitude, longitude, place, occurred_at, distance_km, intensity_reports, is_nearby, drafted_at')
+    if (error) throw error
+
+    // Each event is drafted once: a draft staff discard is deleted, which
+    // clears alert_id, but drafted_at stays
+    const draftAfter = Date.now() - DRAFT_WINDOW_HOURS * 60 * 60 * 1000
+    const toDraft = ((events ?? []) as EarthquakeEventRow[]).filter(event =>
+      event.is_nearby && !event.drafted_at && new Date(event.occurred_at).getTime() >= draftAfter
+    )
+
+    // One draft failing must not hold up the others
+    const drafted: string[] = []
+    for (const event of toDraft) {
+      try {
+        const { data: alert, error: alertError } = await supabaseClient
+          .from('emergency_alerts')
+          .insert([{
+            ...buildEarthquakeDraftAlert(event),
+            status: 'draft',
+            channels: ALERT_CHANNELS.map(channel => channel.id),
+            show_on_frontend: true
+          }])
+          .select('id')
+          .single()
+        if (alertError) throw alertError
+
+        const { error: linkError } = await supabaseClient
+          .from('earthquake_events')
+          .update({ alert_id: alert.id, drafted_at: new Date().toISOString() })
+          .eq('id', event.id)
+        if (linkError) throw linkError
+
+        drafted.push(alert.id)
+        console.log(`Drafted alert ${alert.id} for earthquake ${event.source_id} (M${event.magnitude}, ${event.distance_km} km)`)
+      } catch (draftError) {
+        console.error(`Error drafting an alert for earthquake ${event.source_id}:`, draftError)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ingested: rows.length,
+        nearby: rows.filter(row => row.is_nearby).length,
+        drafted,
+        ranAt: new Date().toISOString()
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+  } catch (error) {
+    console.error('Earthquake feed error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: (error as Error).message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    )
+  }
+})
@@ -0,0 +1,188 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { getSmsProvider } from '../_shared/sms.ts'
+import { normalizePhoneNumber, validateIncidentSubmission } from '../_shared/incidentSubmission.ts'
+import {
+  VERIFICATION_CODE_LENGTH,
+  VERIFICATION_CODE_TTL_MS,
+  VERIFICATION_MAX_ATTEMPTS,
+  VERIFICATION_RESEND_COOLDOWN_MS,
+  VERIFICATION_SENDS_PER_IP,
+  VERIFICATION_SENDS_PER_PHONE,
+  hashVerificationCode,
+  type PhoneVerificationRequest,
+  type PhoneVerificationResponse
+} from '../_shared/phoneVerification.ts'
+import { getClientIp } from '../_shared/clientIp.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const json = (body: PhoneVerificationResponse, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// The console provider only logs the code and hands it back in the response,
+// which would let anyone verify any number. It is only used with the explicit
+// ALLOW_DEV_OTP=true opt-in; otherwise verification is unavailable until a
+// real provider is configured.
+const allowDevCodes = () => Deno.env.get('ALLOW_DEV_OTP') === 'true'
+
+const getVerificationSmsProvider = () => {
+  try {
+    const provider = getSmsProvider()
+    return provider.name !== 'console' || allowDevCodes() ? provider : null
+  } catch (providerError) {
+    console.error('SMS provider is not configured:', providerError)
+    return null
+  }
+}
+
+const generateCode = () => {
+  const values = crypto.getRandomValues(new Uint32Array(VERIFICATION_CODE_LENGTH))
+  return Array.from(values, value => String(value % 10)).join('')
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  try {
+    const request: PhoneVerificationRequest = await req.json()
+
+    if (request.action === 'send') {
+      const rawPhone = (request.phone ?? '').trim()
+      if (validateIncidentSubmission({ contact_number: rawPhone }).errors.contactNumber) {
+        return json({ success: false, error: 'Please enter a valid phone number' }, 422)
+      }
+
+      const sms = getVerificationSmsProvider()
+      if (!sms) {
+        return json({ success: false, error: 'Phone verification is not available right now. You can still submit without verifying.' }, 503)
+      }
+
+      const phone = normalizePhoneNumber(rawPhone)
+      const ipAddress = getClientIp(req)
+      const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+
+      const { data: recent, error: recentError } = await supabaseClient
+        .from('phone_verifications')
+        .select('created_at')
+        .eq('phone', phone)
+        .gte('created_at', hourAgo)
+        .order('created_at', { ascending: false })
+      if (recentError) throw recentError
+
+      if (recent.length > 0 && Date.now() - new Date(recent[0].created_at).getTime() < VERIFICATION_RESEND_COOLDOWN_MS) {
+        return json({ success: false, error: 'Please wait a minute before requesting another code' }, 429)
+      }
+      if (recent.length >= VERIFICATION_SENDS_PER_PHONE) {
+        return json({ success: false, error: 'Too many codes requested for this number. Please try again later.' }, 429)
+      }
+
+      if (ipAddress) {
+        const { count, error: ipError } = await supabaseClient
+          .from('phone_verifications')
+          .select('id', { count: 'exact', head: true })
+          .eq('ip_address', ipAddress)
+          .gte('created_at', hourAgo)
+        if (ipError) throw ipError
+        if ((count ?? 0) >= VERIFICATION_SENDS_PER_IP) {
+          return json({ success: false, error: 'Too many codes requested. Please try again later.' }, 429)
+        }
+      }
+
+      const verificationId = crypto.randomUUID()
+      const code = generateCode()
+      const expiresAt = new Date(Date.now() + VERIFICATION_CODE_TTL_MS).toISOString()
+
+      const { error: insertError } = await supabaseClient.from('phone_verifications').insert({
+        id: verificationId,
+        phone,
+        code_hash: await hashVerificationCode(verificationId, code),
+        expires_at: expiresAt,
+        ip_address: ipAddress
+      })
+      if (insertError) throw insertError
+
+      await sms.send(
+        rawPhone,
+        `${code} is your MDRRMO Pio Duran verification code. It expires in ${VERIFICATION_CODE_TTL_MS / 60000} minutes. Do not share it.`
+      )
+
+      return json({
+        success: true,
+        verificationId,
+        expiresAt,
+        devCode: sms.name === 'console' && allowDevCodes() ? code : undefined
+      })
+    }
+
+    if (request.action === 'verify') {
+      // A malformed id would otherwise reach Postgres as an invalid uuid and fail with a 500
+      if (typeof request.verificationId !== 'string' || !UUID_PATTERN.test(request.verificationId)) {
+        return json({ success: false, error: 'Invalid verification request' }, 400)
+      }
+
+      const { data: verification, error } = await supabaseClient
+        .from('phone_verifications')
+        .select('*')
+        .eq('id', request.verificationId)
+        .maybeSingle()
+      if (error) throw error
+
+      if (!verification || new Date(verification.expires_at).getTime() < Date.now()) {
+        return json({ success: false, error: 'This code has expired. Please request a new one.' }, 410)
+      }
+      if (verification.verified_at) {
+        return json({ success: true, verificationId: verification.id, verified: true })
+      }
+      if (verification.attempts >= VERIFICATION_MAX_ATTEMPTS) {
+        return json({ success: false, error: 'Too many incorrect codes. Please request a new one.' }, 429)
+      }
+
+      const codeHash = await hashVerificationCode(verification.id, (request.code ?? '').trim())
+      if (codeHash !== verification.code_hash) {
+        await supabaseClient
+          .from('phone_verifications')
+          .update({ attempts: verification.attempts + 1 })
+          .eq('id', verification.id)
+
+        return json({
+          success: false,
+          verified: false,
+          attemptsLeft: VERIFICATION_MAX_ATTEMPTS - verification.attempts - 1,
+          error: 'Incorrect code'
+        }, 400)
+      }
+
+      const { error: updateError } = await supabaseClient
+        .from('phone_verifications')
+        .update({ verified_at: new Date().toISOString() })
+        .eq('id', verification.id)
+      if (updateError) throw updateError
+
+      return json({ success: true, verificationId: verification.id, verified: true })
+    }
+
+    return json({ success: false, error: 'Unknown action' }, 400)
+  } catch (error) {
+    console.error('Phone verification error:', error)
+    return json({ success: false, error: (error as Error).message }, 500)
+  }
+})
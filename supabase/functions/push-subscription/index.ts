@@ -0,0 +1,132 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import {
+  PUSH_SUBSCRIPTION_REQUESTS_PER_IP,
+  isKnownPushServiceEndpoint,
+  isValidPushSubscription,
+  type PushSubscriptionRequest,
+  type PushSubscriptionResponse
+} from '../_shared/pushSubscriptions.ts'
+import { getClientIp } from '../_shared/clientIp.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const json = (body: PushSubscriptionResponse, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+const MAX_HAZARD_TYPES = 10
+
+// Other hosts and plain http are only for testing against scripts/push-service-mock.ts
+const isAllowedEndpoint = (endpoint: string) =>
+  isKnownPushServiceEndpoint(endpoint) || Deno.env.get('PUSH_ALLOW_INSECURE_ENDPOINTS') === 'true'
+
+// Saves or removes a visitor's Web Push subscription and alert preferences.
+// An existing subscription can only be changed or removed with its auth
+// secret, which only the browser that subscribed knows.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  const findSubscription = async (endpoint: string) => {
+    const { data, error } = await supabaseClient
+      .from('push_subscriptions')
+      .select('id, auth')
+      .eq('endpoint', endpoint)
+      .maybeSingle()
+    if (error) throw error
+    return data as { id: string; auth: string } | null
+  }
+
+  try {
+    const request: PushSubscriptionRequest = await req.json()
+    if (request.action !== 'subscribe' && request.action !== 'unsubscribe') {
+      return json({ success: false, error: 'Unknown action' }, 400)
+    }
+
+    const ipAddress = getClientIp(req)
+    if (ipAddress) {
+      const { count, error: countError } = await supabaseClient
+        .from('push_subscription_requests')
+        .select('id', { count: 'exact', head: true })
+        .eq('ip_address', ipAddress)
+        .gte('created_at', new Date(Date.now() - 60 * 60 * 1000).toISOString())
+      if (countError) throw countError
+      if ((count ?? 0) >= PUSH_SUBSCRIPTION_REQUESTS_PER_IP) {
+        return json({ success: false, error: 'Too many requests. Please try again later.' }, 429)
+      }
+    }
+
+    const { error: logError } = await supabaseClient
+      .from('push_subscription_requests')
+      .insert({ action: request.action, ip_address: ipAddress })
+    if (logError) throw logError
+
+    if (request.action === 'subscribe') {
+      const { subscription, preferences } = request
+      if (!isValidPushSubscription(subscription) || !isAllowedEndpoint(subscription.endpoint)) {
+        return json({ success: false, error: 'Invalid push subscription' }, 422)
+      }
+
+      const existing = await findSubscription(subscription.endpoint)
+      if (existing && existing.auth !== subscription.keys.auth) {
+        return json({ success: false, error: 'This subscription belongs to another browser' }, 403)
+      }
+
+      const hazardTypes = (preferences?.hazardTypes ?? [])
+        .filter(type => typeof type === 'string')
+        .slice(0, MAX_HAZARD_TYPES)
+
+      const { error } = await supabaseClient
+        .from('push_subscriptions')
+        .upsert({
+          endpoint: subscription.endpoint,
+          p256dh: subscription.keys.p256dh,
+          auth: subscription.keys.auth,
+          hazard_types: hazardTypes,
+          barangay: preferences?.barangay || null,
+          user_agent: req.headers.get('user-agent')
+        }, { onConflict: 'endpoint' })
+      if (error) throw error
+
+      return json({ success: true })
+    }
+
+    if (!request.endpoint || !request.auth) {
+      return json({ success: false, error: 'endpoint and auth are required' }, 400)
+    }
+    // Nothing to remove; answered the same as a removal so endpoints can't be probed
+    const existing = await findSubscription(request.endpoint)
+    if (!existing) {
+      return json({ success: true })
+    }
+    if (existing.auth !== request.auth) {
+      return json({ success: false, error: 'This subscription belongs to another browser' }, 403)
+    }
+
+    const { error } = await supabaseClient
+      .from('push_subscriptions')
+      .delete()
+      .eq('id', existing.id)
+    if (error) throw error
+
+    return json({ success: true })
+  } catch (error) {
+    console.error('Push subscription error:', error)
+    return json({ success: false, error: (error as Error).message }, 500)
+  }
+})
@@ -0,0 +1,74 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { requestAlertAcknowledgements } from '../_shared/acknowledgementRequests.ts'
+import type { AlertMessageFields } from '../_shared/alertChannels.ts'
+import type {
+  RemindAlertAcknowledgementsRequest,
+  RemindAlertAcknowledgementsResponse
+} from '../_shared/alertAcknowledgements.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const json = (body: RemindAlertAcknowledgementsResponse, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// Sends the acknowledge link again to the focal persons of barangays that
+// have not confirmed an active alert yet. Called from the acknowledgement
+// board in the admin panel.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  const userClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+  )
+  const { data: { user } } = await userClient.auth.getUser()
+  if (!user) {
+    return json({ success: false, error: 'Sign in to send reminders' }, 401)
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+
+  try {
+    const { alertId, barangays }: RemindAlertAcknowledgementsRequest = await req.json()
+    if (!alertId) {
+      return json({ success: false, error: 'alertId is required' }, 400)
+    }
+
+    const { data: alert, error } = await supabaseClient
+      .from('emergency_alerts')
+      .select('*')
+      .eq('id', alertId)
+      .maybeSingle()
+    if (error) throw error
+    if (!alert) return json({ success: false, error: 'Alert not found' }, 404)
+    if (alert.status !== 'active') {
+      return json({ success: false, error: 'Reminders can only be sent for active alerts' }, 409)
+    }
+
+    const result = await requestAlertAcknowledgements(
+      supabaseClient,
+      alert as AlertMessageFields & { id: string },
+      { remind: true, barangays }
+    )
+    return json(result)
+  } catch (error) {
+    console.error('Acknowledgement reminder error:', error)
+    return json({ success: false, error: (error as Error).message }, 500)
+  }
+})
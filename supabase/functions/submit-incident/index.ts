@@ -0,0 +1,221 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import {
+  FINAL_INCIDENT_REJECTIONS,
+  HONEYPOT_FIELD,
+  INCIDENT_REJECTED_CODE,
+  MAX_INCIDENT_ATTACHMENTS,
+  normalizePhoneNumber,
+  validateIncidentSubmission,
+  verifyProofOfWork,
+  type IncidentSubmissionPayload,
+  type IncidentSubmissionRejection
+} from '../_shared/incidentSubmission.ts'
+import { VERIFICATION_VALID_FOR_MS } from '../_shared/phoneVerification.ts'
+import { getClientIp } from '../_shared/clientIp.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const REJECTION_MESSAGES: Record<IncidentSubmissionRejection, string> = {
+  honeypot: 'Your report could not be submitted.',
+  proof_of_work: 'Your report could not be verified. Please try again.',
+  validation: 'Please check the report details and try again.',
+  rate_limit_ip: 'Too many reports have been sent from your IP address. Please wait before submitting again, or call the hotline.',
+  rate_limit_phone: 'Too many reports have been sent with this contact number. Please wait before submitting again, or call the hotline.'
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+const generateReferenceNumber = () =>
+  `RD-${new Date().getFullYear()}-${String(Math.floor(Math.random() * 9999) + 1).padStart(4, '0')}`
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return json({ success: false, error: 'Method not allowed' }, 405)
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+  const supabaseClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '')
+
+  const ipAddress = getClientIp(req)
+  const userAgent = req.headers.get('user-agent')
+
+  let payload: IncidentSubmissionPayload
+  try {
+    payload = await req.json()
+  } catch {
+    return json({ success: false, error: 'Invalid request body' }, 400)
+  }
+
+  const row: Record<string, unknown> = payload.row ?? {}
+  const incidentId = typeof row.id === 'string' && UUID_PATTERN.test(row.id) ? row.id : null
+  const contactNumber = typeof row.contact_number === 'string' ? normalizePhoneNumber(row.contact_number) : null
+
+  const reject = async (reason: IncidentSubmissionRejection, status: number, details: Record<string, unknown> = {}) => {
+    const { error } = await supabaseClient.from('incident_submission_log').insert({
+      incident_id: incidentId,
+      outcome: 'rejected',
+      reason,
+      ip_address: ipAddress,
+      contact_number: contactNumber,
+      user_agent: userAgent,
+      details: {
+        ...details,
+        reporter_name: typeof row.reporter_name === 'string' ? row.reporter_name.slice(0, 100) : null,
+        incident_type: typeof row.incident_type === 'string' ? row.incident_type.slice(0, 100) : null
+      }
+    })
+    if (error) console.error('Error logging rejected submission:', error)
+
+    return json({
+      success: false,
+      reason,
+      code: FINAL_INCIDENT_REJECTIONS.includes(reason) ? INCIDENT_REJECTED_CODE : undefined,
+      error: REJECTION_MESSAGES[reason],
+      ...details
+    }, status)
+  }
+
+  try {
+    // Bots fill every field; the form keeps this one hidden
+    if (payload[HONEYPOT_FIELD]) {
+      return await reject('honeypot', 400)
+    }
+
+    if (!incidentId || !(await verifyProofOfWork(incidentId, payload.proof))) {
+      return await reject('proof_of_work', 400)
+    }
+
+    const attachments = Array.isArray(payload.attachments) ? payload.attachments : []
+    const { isValid, errors } = validateIncidentSubmission(row)
+    if (!isValid || attachments.length > MAX_INCIDENT_ATTACHMENTS ||
+        attachments.some(a => !UUID_PATTERN.test(a.id) || !a.file_path?.startsWith(`${incidentId}/`))) {
+      return await reject('validation', 422, {
+        errors: isValid ? { attachments: 'Invalid attachments' } : errors
+      })
+    }
+
+    const { data: limitReason, error: claimError } = await supabaseClient.rpc('claim_incident_submission', {
+      p_incident_id: incidentId,
+      p_ip_address: ipAddress,
+      p_contact_number: contactNumber
+    })
+    if (claimError) throw claimError
+    if (limitReason) {
+      return await reject(limitReason as IncidentSubmissionRejection, 429)
+    }
+
+    // Files were uploaded by the reporter; URLs are derived here rather than trusted
+    const publicUrl = (path: string) => `${supabaseUrl}/storage/v1/object/public/incidents/${path}`
+    const attachmentRows = attachments.map(a => ({
+      id: a.id,
+      incident_id: incidentId,
+      media_type: a.media_type === 'video' ? 'video' : 'image',
+      mime_type: a.mime_type ?? null,
+      file_path: a.file_path,
+      file_url: publicUrl(a.file_path),
+      thumbnail_url: a.thumbnail_path?.startsWith(`${incidentId}/`) ? publicUrl(a.thumbnail_path) : null,
+      file_size: a.file_size ?? null,
+      width: a.width ?? null,
+      height: a.height ?? null,
+      duration_seconds: a.duration_seconds ?? null
+    }))
+
+    // An unusable verification does not block the report; it just is not marked verified
+    let contactVerifiedAt: string | null = null
+    if (payload.verificationId && UUID_PATTERN.test(payload.verificationId)) {
+      const { data: verification } = await supabaseClient
+        .from('phone_verifications')
+        .select('phone, verified_at, incident_id')
+        .eq('id', payload.verificationId)
+        .maybeSingle()
+
+      if (verification?.verified_at &&
+          verification.phone === contactNumber &&
+          (!verification.incident_id || verification.incident_id === incidentId) &&
+          Date.now() - new Date(verification.verified_at).getTime() < VERIFICATION_VALID_FOR_MS) {
+        contactVerifiedAt = verification.verified_at
+      }
+    }
+
+    const firstImage = attachmentRows.find(a => a.media_type === 'image')
+    const report = {
+      id: incidentId,
+      reporter_name: String(row.reporter_name).trim(),
+      contact_number: String(row.contact_number).trim(),
+      location: typeof row.location === 'string' ? row.location.trim() || null : null,
+      incident_type: String(row.incident_type).trim(),
+      extra_details: row.extra_details && typeof row.extra_details === 'object' ? row.extra_details : {},
+      description: String(row.description).trim(),
+      urgency: row.urgency ?? 'MEDIUM',
+      latitude: row.latitude ?? null,
+      longitude: row.longitude ?? null,
+      location_accuracy: typeof row.location_accuracy === 'number' ? row.location_accuracy : null,
+      image_url: firstImage?.file_url ?? null,
+      contact_verified_at: contactVerifiedAt,
+      status: 'received'
+    }
+
+    let referenceNumber = typeof row.reference_number === 'string' && /^RD-\d{4}-\d{4}$/.test(row.reference_number)
+      ? row.reference_number
+      : generateReferenceNumber()
+    let inserted = false
+
+    for (let attempt = 0; attempt < 3 && !inserted; attempt++) {
+      const { error } = await supabaseClient
+        .from('incident_reports')
+        .insert({ ...report, reference_number: referenceNumber })
+
+      if (!error) {
+        inserted = true
+      } else if (error.code === '23505' && error.message.includes('pkey')) {
+        // Already delivered by an earlier attempt; report its reference number
+        const { data } = await supabaseClient
+          .from('incident_reports')
+          .select('reference_number')
+          .eq('id', incidentId)
+          .single()
+        referenceNumber = data?.reference_number ?? referenceNumber
+        inserted = true
+      } else if (error.code === '23505' && error.message.includes('reference_number')) {
+        referenceNumber = generateReferenceNumber()
+      } else {
+        throw error
+      }
+    }
+
+    if (!inserted) throw new Error('Unable to assign a unique reference number')
+
+    if (contactVerifiedAt) {
+      await supabaseClient
+        .from('phone_verifications')
+        .update({ incident_id: incidentId })
+        .eq('id', payload.verificationId)
+    }
+
+    if (attachmentRows.length > 0) {
+      const { error } = await supabaseClient
+        .from('incident_attachments')
+        .upsert(attachmentRows, { onConflict: 'id', ignoreDuplicates: true })
+
+      if (error) console.error('Error saving incident attachments:', error)
+    }
+
+    return json({ success: true, referenceNumber })
+  } catch (error) {
+    console.error('Incident submission error:', error)
+    return json({ success: false, error: (error as Error).message }, 500)
+  }
+})
@@ -0,0 +1,172 @@
+/*
+  # Public Incident Status Tracking
+
+  1. New Tables
+    - `incident_status_history`
+      - `id` (uuid, primary key)
+      - `incident_id` (uuid, references incident_reports)
+      - `status` (text, status of the incident at that point)
+      - `public_note` (text, optional note shown to the reporter)
+      - `created_at` (timestamp)
+    - `incident_tracking_attempts`
+      - `id` (uuid, primary key)
+      - `reference_number` (text)
+      - `success` (boolean)
+      - `attempted_at` (timestamp)
+
+  2. Functions
+    - `log_incident_status_change()` trigger records every status change
+    - `track_incident(reference_number, contact_number)` public lookup that
+      requires the reporter's contact number and only returns non-personal fields
+
+  3. Security
+    - Enable RLS on both tables
+    - Only authenticated users can read or add status history directly
+    - Tracking attempts are only written by `track_incident` (no policies)
+    - Lookups are throttled per reference number to prevent enumeration
+*/
+
+-- Status history table
+CREATE TABLE IF NOT EXISTS incident_status_history (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    incident_id uuid NOT NULL REFERENCES incident_reports(id) ON DELETE CASCADE,
+    status text NOT NULL,
+    public_note text,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_status_history_incident_id
+    ON incident_status_history(incident_id, created_at);
+
+ALTER TABLE incident_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read incident status history"
+    ON incident_status_history FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can add incident status history"
+    ON incident_status_history FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+-- Record the initial status and every later status change
+CREATE OR REPLACE FUNCTION log_incident_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        INSERT INTO incident_status_history (incident_id, status)
+        VALUES (NEW.id, NEW.status);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_incident_reports_status ON incident_reports;
+CREATE TRIGGER log_incident_reports_status
+    AFTER INSERT OR UPDATE OF status ON incident_reports
+    FOR EACH ROW
+    EXECUTE FUNCTION log_incident_status_change();
+
+-- Backfill an entry for reports that existed before this migration
+INSERT INTO incident_status_history (incident_id, status, created_at)
+SELECT id, status, date_reported
+FROM incident_reports ir
+WHERE NOT EXISTS (
+    SELECT 1 FROM incident_status_history h WHERE h.incident_id = ir.id
+);
+
+-- Tracking attempts (used for throttling, never exposed)
+CREATE TABLE IF NOT EXISTS incident_tracking_attempts (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    reference_number text NOT NULL,
+    success boolean NOT NULL,
+    attempted_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_tracking_attempts_reference
+    ON incident_tracking_attempts(reference_number, attempted_at);
+
+ALTER TABLE incident_tracking_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Public lookup by reference number + contact number
+CREATE OR REPLACE FUNCTION track_incident(
+    p_reference_number text,
+    p_contact_number text
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_reference text := upper(trim(coalesce(p_reference_number, '')));
+    v_contact text := right(regexp_replace(coalesce(p_contact_number, ''), '\D', '', 'g'), 10);
+    v_failed_attempts integer;
+    v_incident incident_reports%ROWTYPE;
+BEGIN
+    IF v_reference = '' OR length(v_contact) < 7 THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT count(*) INTO v_failed_attempts
+    FROM incident_tracking_attempts
+    WHERE reference_number = v_reference
+    AND success = false
+    AND attempted_at > now() - INTERVAL '15 minutes';
+
+    -- Too many wrong contact numbers for this reference: answer as "not found"
+    IF v_failed_attempts >= 5 THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT * INTO v_incident
+    FROM incident_reports
+    WHERE upper(reference_number) = v_reference
+    AND right(regexp_replace(contact_number, '\D', '', 'g'), 10) = v_contact;
+
+    INSERT INTO incident_tracking_attempts (reference_number, success)
+    VALUES (v_reference, v_incident.id IS NOT NULL);
+
+    IF v_incident.id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'reference_number', v_incident.reference_number,
+        'incident_type', v_incident.incident_type,
+        'location', v_incident.location,
+        'urgency', v_incident.urgency,
+        'status', v_incident.status,
+        'date_reported', v_incident.date_reported,
+        'updated_at', v_incident.updated_at,
+        'history', coalesce((
+            SELECT jsonb_agg(jsonb_build_object(
+                'status', h.status,
+                'public_note', h.public_note,
+                'created_at', h.created_at
+            ) ORDER BY h.created_at)
+            FROM incident_status_history h
+            WHERE h.incident_id = v_incident.id
+        ), '[]'::jsonb)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION track_incident(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION track_incident(text, text) TO anon, authenticated;
+
+-- Cleanup helper, same retention as login attempts
+CREATE OR REPLACE FUNCTION cleanup_old_tracking_attempts()
+RETURNS integer AS $$
+DECLARE
+    deleted_count integer;
+BEGIN
+    DELETE FROM incident_tracking_attempts
+    WHERE attempted_at < now() - INTERVAL '30 days';
+
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Public navigation entry for the tracker
+INSERT INTO navigation_items (label, path, icon, order_index, is_active, is_featured)
+SELECT 'Track Report', '/track', 'Search', 10, true, false
+WHERE NOT EXISTS (SELECT 1 FROM navigation_items WHERE path = '/track');
@@ -0,0 +1,209 @@
+/*
+  # Incident Dispatch Workflow
+
+  1. Status Lifecycle
+    - Replaces `pending | in-progress | resolved` with
+      received → verified → dispatched → on-scene → resolved → closed,
+      plus rejected and duplicate
+    - Existing reports are migrated (pending → received, in-progress → dispatched)
+
+  2. New Tables
+    - `response_teams`
+      - `id` (uuid, primary key)
+      - `name` (text, required)
+      - `unit_type` (text, e.g. rescue, medical, fire)
+      - `contact_number` (text, optional)
+      - `is_active` (boolean, default true)
+      - `created_at`, `updated_at` (timestamps)
+
+  3. Changes
+    - `incident_reports`: `assigned_team_id` and milestone timestamps
+      (`verified_at`, `dispatched_at`, `on_scene_at`, `resolved_at`, `closed_at`)
+    - `incident_status_history`: `from_status`, `note`, `changed_by`,
+      `changed_by_name` and `assigned_team_id` for every transition
+
+  4. Functions
+    - `transition_incident_status(incident_id, status, note, team_id)` validates
+      the transition and records who made it, when, and why
+
+  5. Security
+    - RLS on `response_teams`: authenticated users can read and manage teams
+*/
+
+-- Response teams
+CREATE TABLE IF NOT EXISTS response_teams (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    unit_type text DEFAULT 'rescue' CHECK (unit_type IN ('rescue', 'medical', 'fire', 'police', 'maritime', 'engineering', 'other')),
+    contact_number text,
+    is_active boolean DEFAULT true,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE response_teams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read response teams"
+    ON response_teams FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can manage response teams"
+    ON response_teams FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+CREATE TRIGGER update_response_teams_updated_at
+    BEFORE UPDATE ON response_teams
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO response_teams (name, unit_type, contact_number) VALUES
+('MDRRMO Rescue Team Alpha', 'rescue', '911'),
+('MDRRMO Rescue Team Bravo', 'rescue', '911'),
+('MHO Medical Response', 'medical', '(052) 345-6789'),
+('BFP Pio Duran', 'fire', '(052) 567-8901'),
+('PNP Pio Duran', 'police', '(052) 456-7890'),
+('PCG Sub-Station', 'maritime', '(052) 678-9012');
+
+-- Incident lifecycle columns
+ALTER TABLE incident_reports ADD COLUMN IF NOT EXISTS assigned_team_id uuid REFERENCES response_teams(id) ON DELETE SET NULL;
+ALTER TABLE incident_reports ADD COLUMN IF NOT EXISTS verified_at timestamptz;
+ALTER TABLE incident_reports ADD COLUMN IF NOT EXISTS dispatched_at timestamptz;
+ALTER TABLE incident_reports ADD COLUMN IF NOT EXISTS on_scene_at timestamptz;
+ALTER TABLE incident_reports ADD COLUMN IF NOT EXISTS resolved_at timestamptz;
+ALTER TABLE incident_reports ADD COLUMN IF NOT EXISTS closed_at timestamptz;
+
+-- Replace the status constraint (named differently by earlier migrations)
+ALTER TABLE incident_reports DROP CONSTRAINT IF EXISTS incident_status_check;
+ALTER TABLE incident_reports DROP CONSTRAINT IF EXISTS incident_reports_status_check;
+
+-- Migrate existing data without writing history rows for the rename
+ALTER TABLE incident_reports DISABLE TRIGGER log_incident_reports_status;
+
+UPDATE incident_reports SET status = 'received' WHERE status = 'pending';
+UPDATE incident_reports SET status = 'dispatched', dispatched_at = coalesce(dispatched_at, updated_at) WHERE status = 'in-progress';
+UPDATE incident_reports SET resolved_at = coalesce(resolved_at, updated_at) WHERE status = 'resolved';
+
+ALTER TABLE incident_reports ENABLE TRIGGER log_incident_reports_status;
+
+UPDATE incident_status_history SET status = 'received' WHERE status = 'pending';
+UPDATE incident_status_history SET status = 'dispatched' WHERE status = 'in-progress';
+
+ALTER TABLE incident_reports ALTER COLUMN status SET DEFAULT 'received';
+ALTER TABLE incident_reports ADD CONSTRAINT incident_reports_status_check
+    CHECK (status IN ('received', 'verified', 'dispatched', 'on-scene', 'resolved', 'closed', 'rejected', 'duplicate'));
+
+-- Transition details on the history table
+ALTER TABLE incident_status_history ADD COLUMN IF NOT EXISTS from_status text;
+ALTER TABLE incident_status_history ADD COLUMN IF NOT EXISTS note text;
+ALTER TABLE incident_status_history ADD COLUMN IF NOT EXISTS changed_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE incident_status_history ADD COLUMN IF NOT EXISTS changed_by_name text;
+ALTER TABLE incident_status_history ADD COLUMN IF NOT EXISTS assigned_team_id uuid REFERENCES response_teams(id) ON DELETE SET NULL;
+
+-- Stamp lifecycle milestones the first time a status is reached
+CREATE OR REPLACE FUNCTION stamp_incident_milestones()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        CASE NEW.status
+            WHEN 'verified' THEN NEW.verified_at := coalesce(NEW.verified_at, now());
+            WHEN 'dispatched' THEN NEW.dispatched_at := coalesce(NEW.dispatched_at, now());
+            WHEN 'on-scene' THEN NEW.on_scene_at := coalesce(NEW.on_scene_at, now());
+            WHEN 'resolved' THEN NEW.resolved_at := coalesce(NEW.resolved_at, now());
+            WHEN 'closed' THEN NEW.closed_at := coalesce(NEW.closed_at, now());
+            ELSE NULL;
+        END CASE;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_incident_reports_milestones ON incident_reports;
+CREATE TRIGGER stamp_incident_reports_milestones
+    BEFORE UPDATE OF status ON incident_reports
+    FOR EACH ROW
+    EXECUTE FUNCTION stamp_incident_milestones();
+
+-- History trigger now records the actor, the previous status and the note
+-- passed in by transition_incident_status()
+CREATE OR REPLACE FUNCTION log_incident_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_actor_name text;
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        SELECT name INTO v_actor_name FROM users WHERE id = auth.uid();
+
+        INSERT INTO incident_status_history (
+            incident_id, status, from_status, note, changed_by, changed_by_name, assigned_team_id
+        ) VALUES (
+            NEW.id,
+            NEW.status,
+            CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+            nullif(current_setting('incident.transition_note', true), ''),
+            auth.uid(),
+            v_actor_name,
+            NEW.assigned_team_id
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION transition_incident_status(
+    p_incident_id uuid,
+    p_status text,
+    p_note text DEFAULT NULL,
+    p_team_id uuid DEFAULT NULL
+)
+RETURNS incident_reports AS $$
+DECLARE
+    v_current text;
+    v_allowed text[];
+    v_incident incident_reports;
+BEGIN
+    SELECT status INTO v_current FROM incident_reports WHERE id = p_incident_id FOR UPDATE;
+
+    IF v_current IS NULL THEN
+        RAISE EXCEPTION 'Incident % not found', p_incident_id;
+    END IF;
+
+    -- Keep in sync with INCIDENT_STATUS_TRANSITIONS in src/utils/constants.ts
+    v_allowed := CASE v_current
+        WHEN 'received' THEN ARRAY['verified', 'rejected', 'duplicate']
+        WHEN 'verified' THEN ARRAY['dispatched', 'rejected', 'duplicate']
+        WHEN 'dispatched' THEN ARRAY['on-scene', 'resolved']
+        WHEN 'on-scene' THEN ARRAY['resolved']
+        WHEN 'resolved' THEN ARRAY['closed', 'dispatched']
+        WHEN 'rejected' THEN ARRAY['received']
+        WHEN 'duplicate' THEN ARRAY['received']
+        ELSE ARRAY[]::text[]
+    END;
+
+    IF NOT (p_status = ANY(v_allowed)) THEN
+        RAISE EXCEPTION 'Invalid incident status transition from % to %', v_current, p_status;
+    END IF;
+
+    IF p_status = 'dispatched' AND p_team_id IS NULL
+        AND (SELECT assigned_team_id FROM incident_reports WHERE id = p_incident_id) IS NULL THEN
+        RAISE EXCEPTION 'A response team must be assigned before dispatch';
+    END IF;
+
+    PERFORM set_config('incident.transition_note', coalesce(p_note, ''), true);
+
+    UPDATE incident_reports
+    SET status = p_status,
+        assigned_team_id = coalesce(p_team_id, assigned_team_id)
+    WHERE id = p_incident_id
+    RETURNING * INTO v_incident;
+
+    PERFORM set_config('incident.transition_note', '', true);
+
+    RETURN v_incident;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE ALL ON FUNCTION transition_incident_status(uuid, text, text, uuid) FROM public;
+GRANT EXECUTE ON FUNCTION transition_incident_status(uuid, text, text, uuid) TO authenticated;
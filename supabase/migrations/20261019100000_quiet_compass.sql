@@ -0,0 +1,31 @@
+/*
+  # Geolocated Incident Reports
+
+  1. Changes
+    - `incident_reports`
+      - `latitude` (double precision, optional) - WGS84 latitude of the incident
+      - `longitude` (double precision, optional) - WGS84 longitude of the incident
+      - `location_accuracy` (double precision, optional) - reported GPS accuracy in meters,
+        NULL when the point was dropped on the map by hand
+
+  2. Constraints
+    - Coordinates must be provided together and fall within valid WGS84 ranges
+
+  3. Indexes
+    - Index on (latitude, longitude) for map queries
+*/
+
+ALTER TABLE incident_reports ADD COLUMN IF NOT EXISTS latitude double precision;
+ALTER TABLE incident_reports ADD COLUMN IF NOT EXISTS longitude double precision;
+ALTER TABLE incident_reports ADD COLUMN IF NOT EXISTS location_accuracy double precision;
+
+ALTER TABLE incident_reports DROP CONSTRAINT IF EXISTS incident_reports_coordinates_check;
+ALTER TABLE incident_reports ADD CONSTRAINT incident_reports_coordinates_check
+    CHECK (
+        (latitude IS NULL AND longitude IS NULL)
+        OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+    );
+
+CREATE INDEX IF NOT EXISTS idx_incident_reports_coordinates
+    ON incident_reports(latitude, longitude)
+    WHERE latitude IS NOT NULL;
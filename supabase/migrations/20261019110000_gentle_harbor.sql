@@ -0,0 +1,87 @@
+/*
+  # Duplicate Incident Merging
+
+  1. Changes
+    - `incident_reports`
+      - `parent_incident_id` (uuid, optional) - the incident this report was merged into.
+        Child reports keep their own reporter, contact number and photo.
+
+  2. Functions
+    - `merge_incident_reports(parent_id, child_ids, note)` links the given reports to
+      the parent and marks them as duplicates. Reports already merged into one of the
+      children are moved up to the new parent so merges never nest.
+    - Reopening a duplicate (status changed away from `duplicate`) clears its parent link
+
+  3. Indexes
+    - Index on `parent_incident_id`
+*/
+
+ALTER TABLE incident_reports ADD COLUMN IF NOT EXISTS parent_incident_id uuid REFERENCES incident_reports(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_incident_reports_parent ON incident_reports(parent_incident_id);
+
+CREATE OR REPLACE FUNCTION clear_incident_parent_on_reopen()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status = 'duplicate' AND NEW.status IS DISTINCT FROM 'duplicate' THEN
+        NEW.parent_incident_id := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS clear_incident_reports_parent ON incident_reports;
+CREATE TRIGGER clear_incident_reports_parent
+    BEFORE UPDATE OF status ON incident_reports
+    FOR EACH ROW
+    EXECUTE FUNCTION clear_incident_parent_on_reopen();
+
+CREATE OR REPLACE FUNCTION merge_incident_reports(
+    p_parent_id uuid,
+    p_child_ids uuid[],
+    p_note text DEFAULT NULL
+)
+RETURNS SETOF incident_reports AS $$
+DECLARE
+    v_parent incident_reports;
+BEGIN
+    SELECT * INTO v_parent FROM incident_reports WHERE id = p_parent_id FOR UPDATE;
+
+    IF v_parent.id IS NULL THEN
+        RAISE EXCEPTION 'Incident % not found', p_parent_id;
+    END IF;
+
+    IF v_parent.status IN ('duplicate', 'rejected') THEN
+        RAISE EXCEPTION 'Cannot merge into a report marked as %', v_parent.status;
+    END IF;
+
+    IF p_parent_id = ANY(p_child_ids) THEN
+        RAISE EXCEPTION 'An incident cannot be merged into itself';
+    END IF;
+
+    -- Flatten: anything previously merged into a child now points at the new parent
+    UPDATE incident_reports
+    SET parent_incident_id = p_parent_id
+    WHERE parent_incident_id = ANY(p_child_ids);
+
+    PERFORM set_config(
+        'incident.transition_note',
+        coalesce(nullif(p_note, ''), 'Merged into ' || v_parent.reference_number),
+        true
+    );
+
+    UPDATE incident_reports
+    SET status = 'duplicate',
+        parent_incident_id = p_parent_id
+    WHERE id = ANY(p_child_ids);
+
+    PERFORM set_config('incident.transition_note', '', true);
+
+    RETURN QUERY
+        SELECT * FROM incident_reports
+        WHERE id = ANY(p_child_ids) OR parent_incident_id = p_parent_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE ALL ON FUNCTION merge_incident_reports(uuid, uuid[], text) FROM public;
+GRANT EXECUTE ON FUNCTION merge_incident_reports(uuid, uuid[], text) TO authenticated;
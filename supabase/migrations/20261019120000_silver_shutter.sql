@@ -0,0 +1,71 @@
+/*
+  # Incident Attachments
+
+  1. New Tables
+    - `incident_attachments`
+      - `id` (uuid, primary key, may be generated by the client so retries are idempotent)
+      - `incident_id` (uuid, references incident_reports)
+      - `media_type` (text, image or video)
+      - `mime_type` (text)
+      - `file_path` (text, object path in the `incidents` bucket)
+      - `file_url` (text, public URL of the processed file)
+      - `thumbnail_url` (text, public URL of the thumbnail)
+      - `file_size` (integer, bytes)
+      - `width`, `height` (integer, pixels)
+      - `duration_seconds` (numeric, videos only)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Anyone can add attachments (reporters are not signed in)
+    - Authenticated users can read and delete attachments
+
+  3. Notes
+    - Images are downscaled and re-encoded in the browser, which removes EXIF
+      metadata before the file is uploaded
+    - `incident_reports.image_url` is kept and set to the first image for
+      existing screens; existing photos are copied into this table
+*/
+
+CREATE TABLE IF NOT EXISTS incident_attachments (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    incident_id uuid NOT NULL REFERENCES incident_reports(id) ON DELETE CASCADE,
+    media_type text NOT NULL CHECK (media_type IN ('image', 'video')),
+    mime_type text,
+    file_path text,
+    file_url text NOT NULL,
+    thumbnail_url text,
+    file_size integer CHECK (file_size IS NULL OR file_size <= 26214400),
+    width integer,
+    height integer,
+    duration_seconds numeric(6, 2) CHECK (duration_seconds IS NULL OR duration_seconds <= 60),
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_attachments_incident ON incident_attachments(incident_id);
+
+ALTER TABLE incident_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can add incident attachments"
+    ON incident_attachments FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can read incident attachments"
+    ON incident_attachments FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can delete incident attachments"
+    ON incident_attachments FOR DELETE
+    TO authenticated
+    USING (true);
+
+-- Carry over single photos from before attachments existed
+INSERT INTO incident_attachments (incident_id, media_type, file_url, thumbnail_url, created_at)
+SELECT id, 'image', image_url, image_url, date_reported
+FROM incident_reports
+WHERE image_url IS NOT NULL
+  AND image_url NOT LIKE 'data:%'
+  AND NOT EXISTS (
+      SELECT 1 FROM incident_attachments a WHERE a.incident_id = incident_reports.id
+  );
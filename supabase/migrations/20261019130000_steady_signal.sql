@@ -0,0 +1,125 @@
+/*
+  # Incident SLA Escalation
+
+  1. Settings
+    - `incident_sla` in `system_settings`: acknowledgement and resolution
+      targets in minutes for each urgency level
+
+  2. New Tables
+    - `incident_escalations`
+      - `id` (uuid, primary key)
+      - `incident_id` (uuid, references incident_reports)
+      - `breach_type` (text, acknowledge or resolve)
+      - `urgency` (text, urgency at the time of the breach)
+      - `due_at` (timestamp, when the target expired)
+      - `created_at` (timestamp, when the breach was recorded)
+      - `acknowledged_at`, `acknowledged_by`, `acknowledged_by_name`
+    - One escalation per incident and breach type
+
+  3. Functions
+    - `record_incident_sla_breaches()` compares open incidents with the
+      configured targets and records new breaches. The admin panel calls it
+      every minute; it can also be scheduled with pg_cron.
+
+    - `acknowledge_incident_escalation(id)` records who acknowledged a breach
+
+  4. Security
+    - Authenticated users can read escalations; changes go through the functions above
+*/
+
+INSERT INTO system_settings (setting_key, setting_value, setting_type, description, is_public) VALUES
+('incident_sla', '{"HIGH": {"acknowledge_minutes": 5, "resolve_minutes": 120}, "MEDIUM": {"acknowledge_minutes": 15, "resolve_minutes": 480}, "LOW": {"acknowledge_minutes": 60, "resolve_minutes": 1440}}', 'json', 'Incident acknowledgement and resolution targets in minutes per urgency', false)
+ON CONFLICT (setting_key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS incident_escalations (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    incident_id uuid NOT NULL REFERENCES incident_reports(id) ON DELETE CASCADE,
+    breach_type text NOT NULL CHECK (breach_type IN ('acknowledge', 'resolve')),
+    urgency text NOT NULL,
+    due_at timestamptz NOT NULL,
+    created_at timestamptz DEFAULT now(),
+    acknowledged_at timestamptz,
+    acknowledged_by uuid REFERENCES users(id) ON DELETE SET NULL,
+    acknowledged_by_name text,
+    UNIQUE (incident_id, breach_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_escalations_open
+    ON incident_escalations(created_at DESC)
+    WHERE acknowledged_at IS NULL;
+
+ALTER TABLE incident_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read incident escalations"
+    ON incident_escalations FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Lets open admin panels pick up new escalations without waiting for the next poll
+ALTER PUBLICATION supabase_realtime ADD TABLE incident_escalations;
+
+-- Keep in sync with getIncidentSlaState() in src/utils/incidentSla.ts
+CREATE OR REPLACE FUNCTION record_incident_sla_breaches()
+RETURNS SETOF incident_escalations AS $$
+DECLARE
+    v_sla jsonb;
+BEGIN
+    SELECT CASE jsonb_typeof(setting_value)
+               WHEN 'string' THEN (setting_value #>> '{}')::jsonb
+               ELSE setting_value
+           END
+    INTO v_sla
+    FROM system_settings
+    WHERE setting_key = 'incident_sla';
+
+    IF v_sla IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO incident_escalations (incident_id, breach_type, urgency, due_at)
+    SELECT breach.incident_id, breach.breach_type, breach.urgency, breach.due_at
+    FROM (
+        SELECT
+            i.id AS incident_id,
+            'acknowledge'::text AS breach_type,
+            i.urgency,
+            i.date_reported + make_interval(mins => (v_sla -> i.urgency ->> 'acknowledge_minutes')::int) AS due_at
+        FROM incident_reports i
+        WHERE i.status = 'received'
+          AND v_sla -> i.urgency ? 'acknowledge_minutes'
+        UNION ALL
+        SELECT
+            i.id,
+            'resolve'::text,
+            i.urgency,
+            i.date_reported + make_interval(mins => (v_sla -> i.urgency ->> 'resolve_minutes')::int)
+        FROM incident_reports i
+        WHERE i.status IN ('received', 'verified', 'dispatched', 'on-scene')
+          AND v_sla -> i.urgency ? 'resolve_minutes'
+    ) breach
+    WHERE breach.due_at <= now()
+    ON CONFLICT (incident_id, breach_type) DO NOTHING
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION record_incident_sla_breaches() TO authenticated;
+
+CREATE OR REPLACE FUNCTION acknowledge_incident_escalation(p_escalation_id uuid)
+RETURNS incident_escalations AS $$
+DECLARE
+    v_escalation incident_escalations;
+BEGIN
+    UPDATE incident_escalations
+    SET acknowledged_at = coalesce(acknowledged_at, now()),
+        acknowledged_by = coalesce(acknowledged_by, auth.uid()),
+        acknowledged_by_name = coalesce(acknowledged_by_name, (SELECT name FROM users WHERE id = auth.uid()))
+    WHERE id = p_escalation_id
+    RETURNING * INTO v_escalation;
+
+    RETURN v_escalation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION acknowledge_incident_escalation(uuid) TO authenticated;
@@ -0,0 +1,143 @@
+/*
+  # Incident Notes
+
+  1. New Tables
+    - `incident_notes`
+      - `id` (uuid, primary key)
+      - `incident_id` (uuid, references incident_reports)
+      - `body` (text, required)
+      - `visibility` (text, internal or reporter)
+      - `attachments` (jsonb, list of files uploaded to the `incidents` bucket)
+      - `author_id` (uuid, references users, set from the session)
+      - `author_name` (text, copied so the thread survives user removal)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `stamp_incident_note_author()` fills in the author on insert
+    - `track_incident()` now also returns notes shared with the reporter as `messages`
+
+  3. Security
+    - Authenticated users can read and add notes
+    - Authors can delete their own notes
+    - Reporters only see `reporter` notes, through `track_incident()`
+*/
+
+CREATE TABLE IF NOT EXISTS incident_notes (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    incident_id uuid NOT NULL REFERENCES incident_reports(id) ON DELETE CASCADE,
+    body text NOT NULL CHECK (length(trim(body)) > 0),
+    visibility text NOT NULL DEFAULT 'internal' CHECK (visibility IN ('internal', 'reporter')),
+    attachments jsonb NOT NULL DEFAULT '[]'::jsonb,
+    author_id uuid REFERENCES users(id) ON DELETE SET NULL,
+    author_name text,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_notes_incident
+    ON incident_notes(incident_id, created_at);
+
+ALTER TABLE incident_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read incident notes"
+    ON incident_notes FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can add incident notes"
+    ON incident_notes FOR INSERT
+    TO authenticated
+    WITH CHECK (true);
+
+CREATE POLICY "Authors can delete their incident notes"
+    ON incident_notes FOR DELETE
+    TO authenticated
+    USING (author_id = auth.uid());
+
+-- The author always comes from the session, never from the client
+CREATE OR REPLACE FUNCTION stamp_incident_note_author()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.author_id := auth.uid();
+    SELECT name INTO NEW.author_name FROM users WHERE id = auth.uid();
+    NEW.created_at := now();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS stamp_incident_notes_author ON incident_notes;
+CREATE TRIGGER stamp_incident_notes_author
+    BEFORE INSERT ON incident_notes
+    FOR EACH ROW
+    EXECUTE FUNCTION stamp_incident_note_author();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE incident_notes;
+
+-- Same lookup as before, plus the notes responders chose to share
+CREATE OR REPLACE FUNCTION track_incident(
+    p_reference_number text,
+    p_contact_number text
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_reference text := upper(trim(coalesce(p_reference_number, '')));
+    v_contact text := right(regexp_replace(coalesce(p_contact_number, ''), '\D', '', 'g'), 10);
+    v_failed_attempts integer;
+    v_incident incident_reports%ROWTYPE;
+BEGIN
+    IF v_reference = '' OR length(v_contact) < 7 THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT count(*) INTO v_failed_attempts
+    FROM incident_tracking_attempts
+    WHERE reference_number = v_reference
+    AND success = false
+    AND attempted_at > now() - INTERVAL '15 minutes';
+
+    -- Too many wrong contact numbers for this reference: answer as "not found"
+    IF v_failed_attempts >= 5 THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT * INTO v_incident
+    FROM incident_reports
+    WHERE upper(reference_number) = v_reference
+    AND right(regexp_replace(contact_number, '\D', '', 'g'), 10) = v_contact;
+
+    INSERT INTO incident_tracking_attempts (reference_number, success)
+    VALUES (v_reference, v_incident.id IS NOT NULL);
+
+    IF v_incident.id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'reference_number', v_incident.reference_number,
+        'incident_type', v_incident.incident_type,
+        'location', v_incident.location,
+        'urgency', v_incident.urgency,
+        'status', v_incident.status,
+        'date_reported', v_incident.date_reported,
+        'updated_at', v_incident.updated_at,
+        'history', coalesce((
+            SELECT jsonb_agg(jsonb_build_object(
+                'status', h.status,
+                'public_note', h.public_note,
+                'created_at', h.created_at
+            ) ORDER BY h.created_at)
+            FROM incident_status_history h
+            WHERE h.incident_id = v_incident.id
+        ), '[]'::jsonb),
+        'messages', coalesce((
+            SELECT jsonb_agg(jsonb_build_object(
+                'body', n.body,
+                'attachments', n.attachments,
+                'created_at', n.created_at
+            ) ORDER BY n.created_at)
+            FROM incident_notes n
+            WHERE n.incident_id = v_incident.id
+            AND n.visibility = 'reporter'
+        ), '[]'::jsonb)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,103 @@
+/*
+  # Incident Type Catalog
+
+  1. New Tables
+    - `incident_types`
+      - `id` (uuid, primary key)
+      - `name` (text, unique label stored in incident_reports.incident_type)
+      - `icon` (text, lucide icon name)
+      - `default_urgency` (text, LOW, MEDIUM or HIGH)
+      - `hazard_alert_type` (text, matching emergency_alerts.type)
+      - `extra_fields` (jsonb, extra questions asked when reporting this type)
+      - `sort_order` (integer)
+      - `is_active` (boolean)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Changes
+    - `incident_reports.extra_details` (jsonb) holds the answers to the extra
+      questions, keyed by field key
+    - Renaming a type updates existing reports so filters and analytics stay intact
+
+  3. Security
+    - Anyone can read active types (the public report form needs them)
+    - Authenticated users can manage types
+*/
+
+CREATE TABLE IF NOT EXISTS incident_types (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text UNIQUE NOT NULL,
+    icon text DEFAULT 'AlertTriangle',
+    default_urgency text DEFAULT 'MEDIUM' CHECK (default_urgency IN ('LOW', 'MEDIUM', 'HIGH')),
+    hazard_alert_type text CHECK (hazard_alert_type IS NULL OR hazard_alert_type IN ('typhoon', 'earthquake', 'flood', 'fire', 'landslide', 'tsunami', 'general')),
+    extra_fields jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(extra_fields) = 'array'),
+    sort_order integer DEFAULT 0,
+    is_active boolean DEFAULT true,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE incident_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read active incident types"
+    ON incident_types FOR SELECT
+    TO public
+    USING (is_active = true);
+
+CREATE POLICY "Authenticated users can read all incident types"
+    ON incident_types FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can manage incident types"
+    ON incident_types FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+CREATE TRIGGER update_incident_types_updated_at
+    BEFORE UPDATE ON incident_types
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION rename_incident_type_on_reports()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.name IS DISTINCT FROM OLD.name THEN
+        UPDATE incident_reports SET incident_type = NEW.name WHERE incident_type = OLD.name;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS rename_incident_types_on_reports ON incident_types;
+CREATE TRIGGER rename_incident_types_on_reports
+    AFTER UPDATE OF name ON incident_types
+    FOR EACH ROW
+    EXECUTE FUNCTION rename_incident_type_on_reports();
+
+ALTER TABLE incident_reports ADD COLUMN IF NOT EXISTS extra_details jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- The six types that were hard-coded in the report form
+INSERT INTO incident_types (name, icon, default_urgency, hazard_alert_type, sort_order, extra_fields) VALUES
+('Fire', 'Flame', 'HIGH', 'fire', 1, '[
+    {"key": "structure_type", "label": "What is burning?", "type": "select", "required": true, "options": ["House", "Commercial building", "Vehicle", "Grass or forest", "Other"]},
+    {"key": "persons_inside", "label": "Are people still inside?", "type": "boolean", "required": false}
+]'),
+('Flood', 'Waves', 'HIGH', 'flood', 2, '[
+    {"key": "water_level", "label": "Water level", "type": "select", "required": true, "options": ["Ankle", "Knee", "Waist", "Chest or higher"]},
+    {"key": "persons_stranded", "label": "Number of persons stranded", "type": "number", "required": false, "min": 0}
+]'),
+('Landslide', 'Mountain', 'HIGH', 'landslide', 3, '[
+    {"key": "persons_trapped", "label": "Number of persons trapped", "type": "number", "required": true, "min": 0},
+    {"key": "road_blocked", "label": "Is a road blocked?", "type": "boolean", "required": false}
+]'),
+('Vehicular Accident', 'Car', 'HIGH', NULL, 4, '[
+    {"key": "vehicles_involved", "label": "Number of vehicles involved", "type": "number", "required": true, "min": 1},
+    {"key": "persons_injured", "label": "Number of persons injured", "type": "number", "required": false, "min": 0}
+]'),
+('Medical Emergency', 'HeartPulse', 'HIGH', NULL, 5, '[
+    {"key": "patients", "label": "Number of patients", "type": "number", "required": true, "min": 1},
+    {"key": "patient_conscious", "label": "Is the patient conscious?", "type": "boolean", "required": false}
+]'),
+('Others', 'AlertTriangle', 'MEDIUM', 'general', 99, '[]')
+ON CONFLICT (name) DO NOTHING;
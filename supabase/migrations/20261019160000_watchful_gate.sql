@@ -0,0 +1,132 @@
+/*
+  # Server-side Incident Submission Checks
+
+  1. Settings
+    - `incident_submission_limits` in `system_settings`: accepted reports
+      allowed per IP address and per phone number within the window
+
+  2. New Tables
+    - `incident_submission_log`
+      - `id` (uuid, primary key)
+      - `incident_id` (uuid, the report id sent by the client)
+      - `outcome` (text, accepted or rejected)
+      - `reason` (text, why a submission was rejected)
+      - `ip_address` (text)
+      - `contact_number` (text, normalized to the last 10 digits)
+      - `user_agent` (text)
+      - `details` (jsonb, validation errors and other context)
+      - `created_at` (timestamp)
+    - One accepted entry per report, so a retried delivery is not counted twice
+
+  3. Functions
+    - `claim_incident_submission(incident_id, ip, phone)` checks the limits and
+      records an accepted entry. Returns NULL when the report may be saved, or
+      `rate_limit_ip` / `rate_limit_phone`. Only the `submit-incident` edge
+      function (service role) may call it.
+
+  4. Security
+    - Public reports are no longer inserted directly: the anonymous INSERT
+      policies on `incident_reports` and `incident_attachments` are dropped and
+      submissions go through the `submit-incident` edge function
+    - Authenticated users can read and clear the log
+*/
+
+INSERT INTO system_settings (setting_key, setting_value, setting_type, description, is_public) VALUES
+('incident_submission_limits', '{"window_minutes": 60, "per_ip": 10, "per_phone": 3}', 'json', 'Public incident reports accepted per IP address and per phone number within the window', false)
+ON CONFLICT (setting_key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS incident_submission_log (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    incident_id uuid,
+    outcome text NOT NULL CHECK (outcome IN ('accepted', 'rejected')),
+    reason text CHECK (reason IN ('honeypot', 'proof_of_work', 'validation', 'rate_limit_ip', 'rate_limit_phone')),
+    ip_address text,
+    contact_number text,
+    user_agent text,
+    details jsonb DEFAULT '{}'::jsonb,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_incident_submission_log_accepted
+    ON incident_submission_log(incident_id)
+    WHERE outcome = 'accepted';
+
+CREATE INDEX IF NOT EXISTS idx_incident_submission_log_ip
+    ON incident_submission_log(ip_address, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_incident_submission_log_phone
+    ON incident_submission_log(contact_number, created_at DESC);
+
+ALTER TABLE incident_submission_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read the incident submission log"
+    ON incident_submission_log FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can delete incident submission log entries"
+    ON incident_submission_log FOR DELETE
+    TO authenticated
+    USING (true);
+
+CREATE OR REPLACE FUNCTION claim_incident_submission(
+    p_incident_id uuid,
+    p_ip_address text,
+    p_contact_number text
+)
+RETURNS text AS $$
+DECLARE
+    v_limits jsonb;
+    v_since timestamptz;
+BEGIN
+    -- A retry of a report that was already accepted
+    IF EXISTS (
+        SELECT 1 FROM incident_submission_log
+        WHERE incident_id = p_incident_id AND outcome = 'accepted'
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT CASE jsonb_typeof(setting_value)
+               WHEN 'string' THEN (setting_value #>> '{}')::jsonb
+               ELSE setting_value
+           END
+    INTO v_limits
+    FROM system_settings
+    WHERE setting_key = 'incident_submission_limits';
+
+    v_limits := coalesce(v_limits, '{}'::jsonb);
+    v_since := now() - make_interval(mins => coalesce((v_limits ->> 'window_minutes')::int, 60));
+
+    -- Serialize concurrent claims from the same sender
+    PERFORM pg_advisory_xact_lock(hashtext('incident_submission:' || coalesce(p_ip_address, '')));
+    PERFORM pg_advisory_xact_lock(hashtext('incident_submission:' || coalesce(p_contact_number, '')));
+
+    IF p_ip_address IS NOT NULL AND (
+        SELECT count(*) FROM incident_submission_log
+        WHERE outcome = 'accepted' AND ip_address = p_ip_address AND created_at >= v_since
+    ) >= coalesce((v_limits ->> 'per_ip')::int, 10) THEN
+        RETURN 'rate_limit_ip';
+    END IF;
+
+    IF (
+        SELECT count(*) FROM incident_submission_log
+        WHERE outcome = 'accepted' AND contact_number = p_contact_number AND created_at >= v_since
+    ) >= coalesce((v_limits ->> 'per_phone')::int, 3) THEN
+        RETURN 'rate_limit_phone';
+    END IF;
+
+    INSERT INTO incident_submission_log (incident_id, outcome, ip_address, contact_number)
+    VALUES (p_incident_id, 'accepted', p_ip_address, p_contact_number)
+    ON CONFLICT DO NOTHING;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_incident_submission(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_incident_submission(uuid, text, text) TO service_role;
+
+-- Public submissions now go through the submit-incident edge function
+DROP POLICY IF EXISTS "Anyone can create incident reports" ON incident_reports;
+DROP POLICY IF EXISTS "Anyone can add incident attachments" ON incident_attachments;
@@ -0,0 +1,46 @@
+/*
+  # Reporter Phone Verification
+
+  1. Changes
+    - `incident_reports.contact_verified_at` (timestamp): set when the
+      reporter confirmed the contact number with a one-time code
+
+  2. New Tables
+    - `phone_verifications`
+      - `id` (uuid, primary key)
+      - `phone` (text, normalized to the last 10 digits)
+      - `code_hash` (text, SHA-256 of the code; the code itself is never stored)
+      - `expires_at` (timestamp)
+      - `attempts` (integer, wrong codes entered)
+      - `verified_at` (timestamp)
+      - `incident_id` (uuid, the report the verification was used for)
+      - `ip_address` (text)
+      - `created_at` (timestamp)
+
+  3. Security
+    - RLS enabled with no policies: only the `phone-verification` and
+      `submit-incident` edge functions (service role) read or write codes
+*/
+
+ALTER TABLE incident_reports
+    ADD COLUMN IF NOT EXISTS contact_verified_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS phone_verifications (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    phone text NOT NULL,
+    code_hash text NOT NULL,
+    expires_at timestamptz NOT NULL,
+    attempts integer NOT NULL DEFAULT 0,
+    verified_at timestamptz,
+    incident_id uuid REFERENCES incident_reports(id) ON DELETE SET NULL,
+    ip_address text,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_phone_verifications_phone
+    ON phone_verifications(phone, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_phone_verifications_ip
+    ON phone_verifications(ip_address, created_at DESC);
+
+ALTER TABLE phone_verifications ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,76 @@
+/*
+  # Scheduled Emergency Alerts
+
+  1. Changes
+    - `emergency_alerts.issues_at` (timestamp, when a scheduled alert goes live)
+    - New `scheduled` status for alerts waiting on `issues_at`
+    - `emergency_alerts` is added to the realtime publication so the public
+      banner and the admin panel see state changes as they happen
+
+  2. Functions
+    - `apply_emergency_alert_schedule()` activates scheduled alerts whose
+      `issues_at` has passed and expires active alerts whose `expires_at`
+      has passed, returning the rows it changed. The `alert-scheduler` edge
+      function calls it; schedule that function every minute with pg_cron
+      and pg_net (see README).
+
+  3. Security
+    - The public can also read expired and cancelled alerts, so visitors
+      receive the realtime update that takes an alert off the banner.
+      Drafts and scheduled alerts stay private until they go live.
+    - `apply_emergency_alert_schedule()` is executable by the service role
+      and by authenticated users
+*/
+
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS issues_at timestamptz;
+
+-- The status check was created under different names by earlier migrations
+ALTER TABLE emergency_alerts DROP CONSTRAINT IF EXISTS alert_status_check;
+ALTER TABLE emergency_alerts DROP CONSTRAINT IF EXISTS emergency_alerts_status_check;
+ALTER TABLE emergency_alerts ADD CONSTRAINT emergency_alerts_status_check
+    CHECK (status IN ('draft', 'scheduled', 'active', 'expired', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_emergency_alerts_scheduled
+    ON emergency_alerts(issues_at)
+    WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_emergency_alerts_expiring
+    ON emergency_alerts(expires_at)
+    WHERE status = 'active' AND expires_at IS NOT NULL;
+
+DROP POLICY IF EXISTS "Anyone can read active emergency alerts" ON emergency_alerts;
+
+CREATE POLICY "Anyone can read issued emergency alerts"
+    ON emergency_alerts FOR SELECT
+    TO public
+    USING (status IN ('active', 'expired', 'cancelled'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE emergency_alerts;
+
+-- Keep in sync with getAlertState() in src/utils/emergencyAlerts.ts
+CREATE OR REPLACE FUNCTION apply_emergency_alert_schedule()
+RETURNS SETOF emergency_alerts AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE emergency_alerts
+    SET status = 'active',
+        issued_at = now(),
+        updated_at = now()
+    WHERE status = 'scheduled'
+      AND issues_at <= now()
+      AND (expires_at IS NULL OR expires_at > now())
+    RETURNING *;
+
+    -- A scheduled alert whose window passed entirely never goes live
+    RETURN QUERY
+    UPDATE emergency_alerts
+    SET status = 'expired',
+        updated_at = now()
+    WHERE status IN ('scheduled', 'active')
+      AND expires_at <= now()
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_emergency_alert_schedule() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION apply_emergency_alert_schedule() TO authenticated, service_role;
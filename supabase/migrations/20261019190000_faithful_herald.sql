@@ -0,0 +1,60 @@
+/*
+  # CAP Message Revisions for Emergency Alerts
+
+  1. Changes
+    - `emergency_alerts.revision` (integer, CAP message number for the alert, starting at 1)
+    - `emergency_alerts.revised_at` (timestamp, when the current revision was sent)
+    - `emergency_alerts.previous_revisions` (jsonb, `[{revision, sent}]` of
+      earlier messages, used for CAP `references`)
+
+  2. Triggers
+    - `track_emergency_alert_revision` starts a new revision when a published
+      alert's content changes (sent as a CAP Update) or when it is cancelled
+      (sent as a CAP Cancel). Edits to drafts and scheduled alerts, and the
+      automatic expiry, do not.
+
+  3. Notes
+    - The `cap-feed` edge function serves the Atom index and the CAP 1.2
+      documents from these columns
+*/
+
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 1;
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS revised_at timestamptz;
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS previous_revisions jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+-- Keep the compared columns in sync with the fields toCapAlert() in
+-- supabase/functions/_shared/cap.ts publishes
+CREATE OR REPLACE FUNCTION track_emergency_alert_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status IN ('active', 'expired') AND (
+        (NEW.status = 'cancelled' AND OLD.status <> 'cancelled') OR
+        (NEW.status = OLD.status AND (
+            NEW.type, NEW.severity, NEW.title, NEW.message, NEW.location,
+            NEW.coordinates, NEW.expires_at, NEW.priority
+        ) IS DISTINCT FROM (
+            OLD.type, OLD.severity, OLD.title, OLD.message, OLD.location,
+            OLD.coordinates, OLD.expires_at, OLD.priority
+        ))
+    ) THEN
+        NEW.previous_revisions := coalesce(OLD.previous_revisions, '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+            'revision', OLD.revision,
+            'sent', coalesce(OLD.revised_at, OLD.issued_at)
+        ));
+        NEW.revision := OLD.revision + 1;
+        NEW.revised_at := now();
+    ELSE
+        NEW.revision := OLD.revision;
+        NEW.revised_at := OLD.revised_at;
+        NEW.previous_revisions := OLD.previous_revisions;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS track_emergency_alert_revision ON emergency_alerts;
+CREATE TRIGGER track_emergency_alert_revision
+    BEFORE UPDATE ON emergency_alerts
+    FOR EACH ROW
+    EXECUTE FUNCTION track_emergency_alert_revision();
@@ -0,0 +1,54 @@
+/*
+  # Geo-targeted Emergency Alerts
+
+  1. Changes
+    - `emergency_alerts.target_barangays` (text[], barangays the alert is for;
+      empty means municipality-wide). Names match BARANGAYS in
+      src/utils/constants.ts.
+    - `emergency_alerts.target_polygon` (jsonb, optional `[[lng, lat], ...]`
+      area drawn in the composer). The composer also stores the barangays
+      it covers in `target_barangays`, so the banner only checks the list.
+
+  2. Triggers
+    - `track_emergency_alert_revision` also treats a change of target area as
+      a new CAP revision
+*/
+
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS target_barangays text[] NOT NULL DEFAULT '{}';
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS target_polygon jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_emergency_alerts_target_barangays
+    ON emergency_alerts USING gin(target_barangays);
+
+-- Keep the compared columns in sync with the fields toCapAlert() in
+-- supabase/functions/_shared/cap.ts publishes
+CREATE OR REPLACE FUNCTION track_emergency_alert_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status IN ('active', 'expired') AND (
+        (NEW.status = 'cancelled' AND OLD.status <> 'cancelled') OR
+        (NEW.status = OLD.status AND (
+            NEW.type, NEW.severity, NEW.title, NEW.message, NEW.location,
+            NEW.coordinates, NEW.expires_at, NEW.priority,
+            NEW.target_barangays, NEW.target_polygon
+        ) IS DISTINCT FROM (
+            OLD.type, OLD.severity, OLD.title, OLD.message, OLD.location,
+            OLD.coordinates, OLD.expires_at, OLD.priority,
+            OLD.target_barangays, OLD.target_polygon
+        ))
+    ) THEN
+        NEW.previous_revisions := coalesce(OLD.previous_revisions, '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+            'revision', OLD.revision,
+            'sent', coalesce(OLD.revised_at, OLD.issued_at)
+        ));
+        NEW.revision := OLD.revision + 1;
+        NEW.revised_at := now();
+    ELSE
+        NEW.revision := OLD.revision;
+        NEW.revised_at := OLD.revised_at;
+        NEW.previous_revisions := OLD.previous_revisions;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,93 @@
+/*
+  # Emergency Alert Dispatch
+
+  1. New Tables
+    - `alert_contacts` - people who receive emergency alerts by email or SMS
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `email` (text, optional)
+      - `phone` (text, optional)
+      - `barangay` (text, optional; empty means every alert, otherwise only
+        municipality-wide alerts and alerts targeting that barangay)
+      - `is_active` (boolean)
+      - `created_at`, `updated_at` (timestamps)
+
+    - `alert_deliveries` - one row per alert revision, channel and recipient
+      - `id` (uuid, primary key)
+      - `alert_id` (uuid, references emergency_alerts)
+      - `alert_revision` (integer, the CAP revision that was sent)
+      - `channel` (text: web-push, email, sms or social-media)
+      - `recipient` (text, address, number, subscription or platform)
+      - `status` (text: pending, sent, failed or skipped)
+      - `attempts` (integer, send attempts so far)
+      - `last_error` (text)
+      - `provider_message_id` (text, id returned by the provider, or the
+        social_posts id for social drafts)
+      - `sent_at`, `created_at`, `updated_at` (timestamps)
+
+  2. Security
+    - Authenticated users manage alert contacts and read deliveries. The
+      dispatch-alert edge function writes deliveries with the service role.
+    - `alert_deliveries` is added to the realtime publication so the delivery
+      log updates while a dispatch runs
+*/
+
+CREATE TABLE IF NOT EXISTS alert_contacts (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    email text,
+    phone text,
+    barangay text,
+    is_active boolean NOT NULL DEFAULT true,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    CHECK (email IS NOT NULL OR phone IS NOT NULL)
+);
+
+ALTER TABLE alert_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage alert contacts"
+    ON alert_contacts FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+DROP TRIGGER IF EXISTS update_alert_contacts_updated_at ON alert_contacts;
+CREATE TRIGGER update_alert_contacts_updated_at
+    BEFORE UPDATE ON alert_contacts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS alert_deliveries (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    alert_id uuid NOT NULL REFERENCES emergency_alerts(id) ON DELETE CASCADE,
+    alert_revision integer NOT NULL DEFAULT 1,
+    channel text NOT NULL CHECK (channel IN ('web-push', 'email', 'sms', 'social-media')),
+    recipient text NOT NULL,
+    status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+    attempts integer NOT NULL DEFAULT 0,
+    last_error text,
+    provider_message_id text,
+    sent_at timestamptz,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    UNIQUE (alert_id, alert_revision, channel, recipient)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_deliveries_alert
+    ON alert_deliveries(alert_id, created_at);
+
+ALTER TABLE alert_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read alert deliveries"
+    ON alert_deliveries FOR SELECT
+    TO authenticated
+    USING (true);
+
+DROP TRIGGER IF EXISTS update_alert_deliveries_updated_at ON alert_deliveries;
+CREATE TRIGGER update_alert_deliveries_updated_at
+    BEFORE UPDATE ON alert_deliveries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE alert_deliveries;
@@ -0,0 +1,47 @@
+/*
+  # Web Push Subscriptions
+
+  1. New Tables
+    - `push_subscriptions` - browsers that opted in to emergency alert
+      notifications
+      - `id` (uuid, primary key; the recipient in alert_deliveries)
+      - `endpoint` (text, unique push service URL)
+      - `p256dh`, `auth` (text, the browser's encryption keys)
+      - `hazard_types` (text[], alert types to receive; empty means all)
+      - `barangay` (text, optional; empty means alerts for any barangay)
+      - `user_agent` (text)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Security
+    - RLS is enabled with no policies for anonymous users. Visitors subscribe
+      and unsubscribe through the push-subscription edge function, which
+      uses the service role, so endpoints are never readable by the public.
+    - Authenticated users can read subscriptions to see subscriber counts.
+*/
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    endpoint text NOT NULL UNIQUE,
+    p256dh text NOT NULL,
+    auth text NOT NULL,
+    hazard_types text[] NOT NULL DEFAULT '{}',
+    barangay text,
+    user_agent text,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read push subscriptions"
+    ON push_subscriptions FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_barangay ON push_subscriptions(barangay);
+
+DROP TRIGGER IF EXISTS update_push_subscriptions_updated_at ON push_subscriptions;
+CREATE TRIGGER update_push_subscriptions_updated_at
+    BEFORE UPDATE ON push_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
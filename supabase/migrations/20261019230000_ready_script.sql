@@ -0,0 +1,98 @@
+/*
+  # Advisory Templates
+
+  1. New Tables
+    - `alert_templates` - reusable alert and advisory wording for the alert composer
+      - `id` (uuid, primary key)
+      - `name` (text, unique, shown in the template picker)
+      - `description` (text, when to use it)
+      - `type`, `severity` (text, same values as emergency_alerts)
+      - `title`, `message` (text, may contain {{placeholders}} such as
+        {{signal_level}}, {{barangays}} and {{valid_until}})
+      - `channels` (text[], dispatch channels to preselect)
+      - `is_active` (boolean, hidden from the picker when false)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Security
+    - Authenticated users manage templates
+
+  3. Seed Data
+    - Tropical cyclone wind signal, flood warning, class suspension,
+      pre-emptive evacuation and landslide advisories
+*/
+
+CREATE TABLE IF NOT EXISTS alert_templates (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL UNIQUE,
+    description text,
+    type text NOT NULL DEFAULT 'general' CHECK (type IN ('typhoon', 'earthquake', 'flood', 'fire', 'landslide', 'tsunami', 'general')),
+    severity text NOT NULL DEFAULT 'medium' CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+    title text NOT NULL,
+    message text NOT NULL,
+    channels text[] NOT NULL DEFAULT '{}',
+    is_active boolean NOT NULL DEFAULT true,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE alert_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage alert templates"
+    ON alert_templates FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+DROP TRIGGER IF EXISTS update_alert_templates_updated_at ON alert_templates;
+CREATE TRIGGER update_alert_templates_updated_at
+    BEFORE UPDATE ON alert_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO alert_templates (name, description, type, severity, title, message, channels) VALUES
+    (
+        'Tropical Cyclone Wind Signal',
+        'When PAGASA raises or lowers a wind signal over Pio Duran',
+        'typhoon',
+        'high',
+        'Tropical Cyclone Wind Signal No. {{signal_level}} - {{storm_name}}',
+        'PAGASA has raised Tropical Cyclone Wind Signal No. {{signal_level}} over Pio Duran due to {{storm_name}}. Residents of {{barangays}} are advised to secure their homes, stay indoors and prepare go-bags. Fishing and sea travel are suspended. This advisory is valid until {{valid_until}}.',
+        '{web-push,sms,social-media}'
+    ),
+    (
+        'Flood Warning',
+        'Rainfall or river level warnings for low-lying barangays',
+        'flood',
+        'high',
+        '{{warning_level}} Flood Warning',
+        'A {{warning_level}} flood warning is in effect for {{barangays}} due to {{cause}}. Residents near rivers and low-lying areas should move to higher ground and be ready to evacuate. Avoid crossing flooded roads. Valid until {{valid_until}}.',
+        '{web-push,sms,social-media}'
+    ),
+    (
+        'Class Suspension',
+        'Suspension of classes announced by the Municipal Mayor',
+        'general',
+        'low',
+        'Class Suspension: {{levels}} on {{date}}',
+        'Classes in {{levels}}, public and private, are suspended on {{date}} in {{barangays}} due to {{reason}}. Parents and guardians are advised to keep children at home and monitor MDRRMO Pio Duran announcements.',
+        '{sms,social-media}'
+    ),
+    (
+        'Pre-emptive Evacuation',
+        'Ordering residents of high-risk areas to evacuate',
+        'general',
+        'critical',
+        'Pre-emptive Evacuation Order for {{barangays}}',
+        'A pre-emptive evacuation is ordered for residents of {{barangays}} due to {{hazard}}. Proceed to {{evacuation_center}} now and bring your go-bag, medicines and important documents. Follow instructions from barangay officials and MDRRMO personnel. This order stays in effect until {{valid_until}}.',
+        '{web-push,email,sms,social-media}'
+    ),
+    (
+        'Landslide Advisory',
+        'Continuous heavy rain over landslide-prone slopes',
+        'landslide',
+        'medium',
+        'Landslide Advisory for {{barangays}}',
+        'Continuous rains have saturated the slopes in {{barangays}}. Residents near steep slopes and riverbanks should watch for cracks, tilting trees and muddy water and evacuate immediately when these appear. Valid until {{valid_until}}.',
+        '{sms,social-media}'
+    )
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,299 @@
+/*
+  # Two-person Approval for Emergency Alerts
+
+  1. Changes
+    - `alert_approval` in `system_settings`: `{"enabled", "min_severity",
+      "min_priority"}`. Alerts at or above either threshold need a second
+      admin's approval before they go live or are scheduled.
+    - New `pending_approval` and `rejected` alert statuses
+    - `emergency_alerts.approval_requested_by`, `approval_requested_by_name`,
+      `approval_requested_at` (who submitted the alert for approval, and when)
+    - `emergency_alerts.approved_by`, `approved_by_name`, `approved_at`
+    - `emergency_alerts.rejection_reason` (text)
+
+  2. New Tables
+    - `alert_approvals` - append-only record of approval requests and decisions
+      - `id` (uuid, primary key)
+      - `alert_id` (uuid, references emergency_alerts)
+      - `decision` (text: requested, approved or rejected)
+      - `reason` (text, required for rejections)
+      - `actor_id`, `actor_name` (who requested or decided)
+      - `alert_snapshot` (jsonb, the alert content as it was requested or decided on)
+      - `created_at` (timestamp)
+
+  3. Functions and Triggers
+    - `emergency_alert_requires_approval(severity, priority)` applies the rule.
+      Keep in sync with requiresAlertApproval() in src/utils/alertApproval.ts.
+    - `enforce_emergency_alert_approval` stops alerts that need approval from
+      going live or being scheduled any other way than through
+      `review_emergency_alert()`, stamps who requested approval, and keeps
+      the approval columns from being written directly
+    - `review_emergency_alert(alert_id, approve, reason)` lets an active admin
+      other than the requester approve or reject a pending alert
+    - `alert_approvals` rows are written by the triggers and the review
+      function only and cannot be updated or deleted
+
+  4. Security
+    - Authenticated users can read the approval record
+*/
+
+INSERT INTO system_settings (setting_key, setting_value, setting_type, description, is_public) VALUES
+('alert_approval', '{"enabled": true, "min_severity": "critical", "min_priority": null}', 'json', 'Emergency alerts that need a second admin''s approval before going live', false)
+ON CONFLICT (setting_key) DO NOTHING;
+
+ALTER TABLE emergency_alerts DROP CONSTRAINT IF EXISTS emergency_alerts_status_check;
+ALTER TABLE emergency_alerts ADD CONSTRAINT emergency_alerts_status_check
+    CHECK (status IN ('draft', 'pending_approval', 'rejected', 'scheduled', 'active', 'expired', 'cancelled'));
+
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS approval_requested_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS approval_requested_by_name text;
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS approval_requested_at timestamptz;
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS approved_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS approved_by_name text;
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS approved_at timestamptz;
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS rejection_reason text;
+
+CREATE INDEX IF NOT EXISTS idx_emergency_alerts_pending_approval
+    ON emergency_alerts(approval_requested_at)
+    WHERE status = 'pending_approval';
+
+CREATE TABLE IF NOT EXISTS alert_approvals (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    alert_id uuid NOT NULL REFERENCES emergency_alerts(id),
+    decision text NOT NULL CHECK (decision IN ('requested', 'approved', 'rejected')),
+    reason text,
+    actor_id uuid REFERENCES users(id) ON DELETE SET NULL,
+    actor_name text,
+    alert_snapshot jsonb NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_approvals_alert ON alert_approvals(alert_id, created_at);
+
+ALTER TABLE alert_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read alert approvals"
+    ON alert_approvals FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE OR REPLACE FUNCTION prevent_alert_approval_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'The alert approval record cannot be changed';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_alert_approval_changes ON alert_approvals;
+CREATE TRIGGER prevent_alert_approval_changes
+    BEFORE UPDATE OR DELETE ON alert_approvals
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_alert_approval_changes();
+
+-- Keep in sync with requiresAlertApproval() in src/utils/alertApproval.ts
+CREATE OR REPLACE FUNCTION emergency_alert_requires_approval(p_severity text, p_priority integer)
+RETURNS boolean AS $$
+DECLARE
+    v_rule jsonb;
+    v_levels text[] := ARRAY['low', 'medium', 'high', 'critical'];
+BEGIN
+    SELECT CASE jsonb_typeof(setting_value)
+               WHEN 'string' THEN (setting_value #>> '{}')::jsonb
+               ELSE setting_value
+           END
+    INTO v_rule
+    FROM system_settings
+    WHERE setting_key = 'alert_approval';
+
+    -- Same default as DEFAULT_ALERT_APPROVAL_RULE when the setting is missing
+    v_rule := coalesce(v_rule, '{"enabled": true, "min_severity": "critical", "min_priority": null}'::jsonb);
+
+    IF NOT coalesce((v_rule ->> 'enabled')::boolean, false) THEN
+        RETURN false;
+    END IF;
+
+    RETURN coalesce(
+        array_position(v_levels, p_severity) >= array_position(v_levels, v_rule ->> 'min_severity'),
+        false
+    ) OR coalesce(
+        jsonb_typeof(v_rule -> 'min_priority') = 'number' AND p_priority >= (v_rule ->> 'min_priority')::int,
+        false
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION emergency_alert_requires_approval(text, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION emergency_alert_snapshot(p_alert emergency_alerts)
+RETURNS jsonb AS $$
+    SELECT jsonb_build_object(
+        'type', p_alert.type,
+        'severity', p_alert.severity,
+        'priority', p_alert.priority,
+        'title', p_alert.title,
+        'message', p_alert.message,
+        'location', p_alert.location,
+        'target_barangays', p_alert.target_barangays,
+        'target_polygon', p_alert.target_polygon,
+        'issues_at', p_alert.issues_at,
+        'expires_at', p_alert.expires_at,
+        'channels', p_alert.channels
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION enforce_emergency_alert_approval()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_content_changed boolean := TG_OP = 'INSERT' OR (
+        NEW.type, NEW.severity, NEW.title, NEW.message, NEW.location, NEW.coordinates,
+        NEW.issues_at, NEW.expires_at, NEW.priority, NEW.target_barangays, NEW.target_polygon
+    ) IS DISTINCT FROM (
+        OLD.type, OLD.severity, OLD.title, OLD.message, OLD.location, OLD.coordinates,
+        OLD.issues_at, OLD.expires_at, OLD.priority, OLD.target_barangays, OLD.target_polygon
+    );
+BEGIN
+    -- review_emergency_alert() sets this for the alert it is deciding on
+    IF current_setting('app.reviewing_emergency_alert', true) = NEW.id::text THEN
+        RETURN NEW;
+    END IF;
+
+    -- Approval columns are only written by review_emergency_alert()
+    IF TG_OP = 'INSERT' THEN
+        NEW.approved_by := NULL;
+        NEW.approved_by_name := NULL;
+        NEW.approved_at := NULL;
+        NEW.rejection_reason := NULL;
+    ELSE
+        NEW.approved_by := OLD.approved_by;
+        NEW.approved_by_name := OLD.approved_by_name;
+        NEW.approved_at := OLD.approved_at;
+        NEW.rejection_reason := OLD.rejection_reason;
+        NEW.approval_requested_by := OLD.approval_requested_by;
+        NEW.approval_requested_by_name := OLD.approval_requested_by_name;
+        NEW.approval_requested_at := OLD.approval_requested_at;
+    END IF;
+
+    IF NEW.status = 'pending_approval' AND (TG_OP = 'INSERT' OR OLD.status <> 'pending_approval' OR v_content_changed) THEN
+        NEW.approval_requested_by := auth.uid();
+        NEW.approval_requested_by_name := (SELECT name FROM users WHERE id = auth.uid());
+        NEW.approval_requested_at := now();
+        NEW.approved_by := NULL;
+        NEW.approved_by_name := NULL;
+        NEW.approved_at := NULL;
+        NEW.rejection_reason := NULL;
+    END IF;
+
+    -- Live and expired alerts were already issued; scheduled ones only while unchanged
+    IF NEW.status IN ('scheduled', 'active')
+       AND emergency_alert_requires_approval(NEW.severity, NEW.priority)
+       AND NOT (
+           TG_OP = 'UPDATE' AND (
+               (OLD.status IN ('active', 'expired') AND emergency_alert_requires_approval(OLD.severity, OLD.priority)) OR
+               (OLD.status = 'scheduled' AND NOT v_content_changed)
+           )
+       ) THEN
+        RAISE EXCEPTION 'This alert needs a second admin''s approval before it can be issued'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_emergency_alert_approval ON emergency_alerts;
+CREATE TRIGGER enforce_emergency_alert_approval
+    BEFORE INSERT OR UPDATE ON emergency_alerts
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_emergency_alert_approval();
+
+CREATE OR REPLACE FUNCTION record_emergency_alert_approval_request()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'pending_approval' AND (
+        TG_OP = 'INSERT' OR NEW.approval_requested_at IS DISTINCT FROM OLD.approval_requested_at
+    ) THEN
+        INSERT INTO alert_approvals (alert_id, decision, actor_id, actor_name, alert_snapshot)
+        VALUES (NEW.id, 'requested', NEW.approval_requested_by, NEW.approval_requested_by_name, emergency_alert_snapshot(NEW));
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_emergency_alert_approval_request ON emergency_alerts;
+CREATE TRIGGER record_emergency_alert_approval_request
+    AFTER INSERT OR UPDATE ON emergency_alerts
+    FOR EACH ROW
+    EXECUTE FUNCTION record_emergency_alert_approval_request();
+
+CREATE OR REPLACE FUNCTION review_emergency_alert(p_alert_id uuid, p_approve boolean, p_reason text DEFAULT NULL)
+RETURNS emergency_alerts AS $$
+DECLARE
+    v_reviewer users;
+    v_alert emergency_alerts;
+    v_goes_live_now boolean;
+BEGIN
+    SELECT * INTO v_reviewer FROM users WHERE id = auth.uid() AND status = 'active';
+    IF v_reviewer.id IS NULL OR v_reviewer.role <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can approve or reject emergency alerts' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO v_alert FROM emergency_alerts WHERE id = p_alert_id FOR UPDATE;
+    IF v_alert.id IS NULL THEN
+        RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'no_data_found';
+    END IF;
+    IF v_alert.status <> 'pending_approval' THEN
+        RAISE EXCEPTION 'This alert is not waiting for approval';
+    END IF;
+    IF v_alert.approval_requested_by = v_reviewer.id THEN
+        RAISE EXCEPTION 'A different admin must review an alert you submitted' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    PERFORM set_config('app.reviewing_emergency_alert', p_alert_id::text, true);
+
+    IF p_approve THEN
+        IF v_alert.expires_at IS NOT NULL AND v_alert.expires_at <= now() THEN
+            RAISE EXCEPTION 'This alert expired while waiting for approval';
+        END IF;
+
+        v_goes_live_now := v_alert.issues_at IS NULL OR v_alert.issues_at <= now();
+        UPDATE emergency_alerts
+        SET status = CASE WHEN v_goes_live_now THEN 'active' ELSE 'scheduled' END,
+            issued_at = CASE WHEN v_goes_live_now THEN now() ELSE issued_at END,
+            issues_at = CASE WHEN v_goes_live_now THEN NULL ELSE issues_at END,
+            approved_by = v_reviewer.id,
+            approved_by_name = v_reviewer.name,
+            approved_at = now(),
+            rejection_reason = NULL
+        WHERE id = p_alert_id
+        RETURNING * INTO v_alert;
+    ELSE
+        IF nullif(trim(p_reason), '') IS NULL THEN
+            RAISE EXCEPTION 'Give a reason for rejecting the alert';
+        END IF;
+
+        UPDATE emergency_alerts
+        SET status = 'rejected',
+            rejection_reason = trim(p_reason)
+        WHERE id = p_alert_id
+        RETURNING * INTO v_alert;
+    END IF;
+
+    PERFORM set_config('app.reviewing_emergency_alert', '', true);
+
+    INSERT INTO alert_approvals (alert_id, decision, reason, actor_id, actor_name, alert_snapshot)
+    VALUES (
+        p_alert_id,
+        CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+        nullif(trim(p_reason), ''),
+        v_reviewer.id,
+        v_reviewer.name,
+        emergency_alert_snapshot(v_alert)
+    );
+
+    RETURN v_alert;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION review_emergency_alert(uuid, boolean, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION review_emergency_alert(uuid, boolean, text) TO authenticated;
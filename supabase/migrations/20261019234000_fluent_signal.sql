@@ -0,0 +1,141 @@
+/*
+  # Multilingual Emergency Alerts
+
+  1. Changes
+    - `emergency_alerts.translations` (jsonb, `{"fil": {"title", "message"},
+      "bcl": {...}}`). `title` and `message` stay English and are what every
+      dispatch channel sends; the banner and alert pages show a visitor's
+      preferred language when it has both a title and a message, and the CAP
+      feed adds an `<info>` block per translation.
+    - `alert_templates.translations` (jsonb, same shape) so templates carry
+      their translations into the composer
+
+  2. Triggers
+    - `track_emergency_alert_revision` treats a changed translation as a new
+      CAP revision
+    - `enforce_emergency_alert_approval` treats a changed translation as a
+      content change that needs approval again, and the approval record
+      snapshots include translations
+*/
+
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS translations jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE emergency_alerts DROP CONSTRAINT IF EXISTS emergency_alerts_translations_check;
+ALTER TABLE emergency_alerts ADD CONSTRAINT emergency_alerts_translations_check
+    CHECK (jsonb_typeof(translations) = 'object');
+
+ALTER TABLE alert_templates ADD COLUMN IF NOT EXISTS translations jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE alert_templates DROP CONSTRAINT IF EXISTS alert_templates_translations_check;
+ALTER TABLE alert_templates ADD CONSTRAINT alert_templates_translations_check
+    CHECK (jsonb_typeof(translations) = 'object');
+
+-- Keep the compared columns in sync with the fields toCapAlert() in
+-- supabase/functions/_shared/cap.ts publishes
+CREATE OR REPLACE FUNCTION track_emergency_alert_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status IN ('active', 'expired') AND (
+        (NEW.status = 'cancelled' AND OLD.status <> 'cancelled') OR
+        (NEW.status = OLD.status AND (
+            NEW.type, NEW.severity, NEW.title, NEW.message, NEW.location,
+            NEW.coordinates, NEW.expires_at, NEW.priority,
+            NEW.target_barangays, NEW.target_polygon, NEW.translations
+        ) IS DISTINCT FROM (
+            OLD.type, OLD.severity, OLD.title, OLD.message, OLD.location,
+            OLD.coordinates, OLD.expires_at, OLD.priority,
+            OLD.target_barangays, OLD.target_polygon, OLD.translations
+        ))
+    ) THEN
+        NEW.previous_revisions := coalesce(OLD.previous_revisions, '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+            'revision', OLD.revision,
+            'sent', coalesce(OLD.revised_at, OLD.issued_at)
+        ));
+        NEW.revision := OLD.revision + 1;
+        NEW.revised_at := now();
+    ELSE
+        NEW.revision := OLD.revision;
+        NEW.revised_at := OLD.revised_at;
+        NEW.previous_revisions := OLD.previous_revisions;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION emergency_alert_snapshot(p_alert emergency_alerts)
+RETURNS jsonb AS $$
+    SELECT jsonb_build_object(
+        'type', p_alert.type,
+        'severity', p_alert.severity,
+        'priority', p_alert.priority,
+        'title', p_alert.title,
+        'message', p_alert.message,
+        'location', p_alert.location,
+        'target_barangays', p_alert.target_barangays,
+        'target_polygon', p_alert.target_polygon,
+        'issues_at', p_alert.issues_at,
+        'expires_at', p_alert.expires_at,
+        'channels', p_alert.channels,
+        'translations', p_alert.translations
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION enforce_emergency_alert_approval()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_content_changed boolean := TG_OP = 'INSERT' OR (
+        NEW.type, NEW.severity, NEW.title, NEW.message, NEW.location, NEW.coordinates,
+        NEW.issues_at, NEW.expires_at, NEW.priority, NEW.target_barangays, NEW.target_polygon,
+        NEW.translations
+    ) IS DISTINCT FROM (
+        OLD.type, OLD.severity, OLD.title, OLD.message, OLD.location, OLD.coordinates,
+        OLD.issues_at, OLD.expires_at, OLD.priority, OLD.target_barangays, OLD.target_polygon,
+        OLD.translations
+    );
+BEGIN
+    -- review_emergency_alert() sets this for the alert it is deciding on
+    IF current_setting('app.reviewing_emergency_alert', true) = NEW.id::text THEN
+        RETURN NEW;
+    END IF;
+
+    -- Approval columns are only written by review_emergency_alert()
+    IF TG_OP = 'INSERT' THEN
+        NEW.approved_by := NULL;
+        NEW.approved_by_name := NULL;
+        NEW.approved_at := NULL;
+        NEW.rejection_reason := NULL;
+    ELSE
+        NEW.approved_by := OLD.approved_by;
+        NEW.approved_by_name := OLD.approved_by_name;
+        NEW.approved_at := OLD.approved_at;
+        NEW.rejection_reason := OLD.rejection_reason;
+        NEW.approval_requested_by := OLD.approval_requested_by;
+        NEW.approval_requested_by_name := OLD.approval_requested_by_name;
+        NEW.approval_requested_at := OLD.approval_requested_at;
+    END IF;
+
+    IF NEW.status = 'pending_approval' AND (TG_OP = 'INSERT' OR OLD.status <> 'pending_approval' OR v_content_changed) THEN
+        NEW.approval_requested_by := auth.uid();
+        NEW.approval_requested_by_name := (SELECT name FROM users WHERE id = auth.uid());
+        NEW.approval_requested_at := now();
+        NEW.approved_by := NULL;
+        NEW.approved_by_name := NULL;
+        NEW.approved_at := NULL;
+        NEW.rejection_reason := NULL;
+    END IF;
+
+    -- Live and expired alerts were already issued; scheduled ones only while unchanged
+    IF NEW.status IN ('scheduled', 'active')
+       AND emergency_alert_requires_approval(NEW.severity, NEW.priority)
+       AND NOT (
+           TG_OP = 'UPDATE' AND (
+               (OLD.status IN ('active', 'expired') AND emergency_alert_requires_approval(OLD.severity, OLD.priority)) OR
+               (OLD.status = 'scheduled' AND NOT v_content_changed)
+           )
+       ) THEN
+        RAISE EXCEPTION 'This alert needs a second admin''s approval before it can be issued'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
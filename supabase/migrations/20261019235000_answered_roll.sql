@@ -0,0 +1,179 @@
+/*
+  # Barangay Acknowledgements for Emergency Alerts
+
+  1. New Tables
+    - `alert_acknowledgements` - one row per issued alert and barangay whose
+      focal persons were asked to confirm they received it
+      - `id` (uuid, primary key)
+      - `alert_id` (uuid, references emergency_alerts)
+      - `barangay` (text)
+      - `token` (uuid, secret in the acknowledge links sent to focal persons)
+      - `acknowledged_at` (timestamp, null while pending)
+      - `acknowledged_by_name` (text, who confirmed receipt)
+      - `acknowledged_contact_id` (uuid, the alert_contacts row whose link was used)
+      - `recorded_by`, `recorded_by_name` (staff member who marked it
+        acknowledged on the barangay's behalf, e.g. after a radio check)
+      - `reminder_count` (integer, reminders sent after the first request)
+      - `last_reminded_at` (timestamp)
+      - `created_at` (timestamp, when the first request went out)
+
+  2. Functions
+    - `get_alert_acknowledgement(token)` returns the alert and barangay an
+      acknowledge link is for, so the public page can show what is confirmed
+    - `acknowledge_alert(token, contact_id, name)` confirms receipt through a
+      link. The contact must be an active focal person of that barangay.
+    - `record_alert_acknowledgement(alert_id, barangay, name)` lets active
+      staff mark a barangay acknowledged for someone who confirmed another way
+
+  3. Security
+    - Authenticated users can read acknowledgements. Rows are created and
+      reminders counted by the edge functions with the service role; the
+      functions above are the only way to acknowledge.
+    - `alert_acknowledgements` is added to the realtime publication so the
+      board in the admin panel fills in as barangays respond
+*/
+
+CREATE TABLE IF NOT EXISTS alert_acknowledgements (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    alert_id uuid NOT NULL REFERENCES emergency_alerts(id) ON DELETE CASCADE,
+    barangay text NOT NULL,
+    token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+    acknowledged_at timestamptz,
+    acknowledged_by_name text,
+    acknowledged_contact_id uuid REFERENCES alert_contacts(id) ON DELETE SET NULL,
+    recorded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+    recorded_by_name text,
+    reminder_count integer NOT NULL DEFAULT 0,
+    last_reminded_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (alert_id, barangay)
+);
+
+ALTER TABLE alert_acknowledgements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read alert acknowledgements"
+    ON alert_acknowledgements FOR SELECT
+    TO authenticated
+    USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE alert_acknowledgements;
+
+CREATE OR REPLACE FUNCTION alert_acknowledgement_details(p_acknowledgement alert_acknowledgements)
+RETURNS jsonb AS $$
+    SELECT jsonb_build_object(
+        'barangay', p_acknowledgement.barangay,
+        'acknowledged_at', p_acknowledgement.acknowledged_at,
+        'acknowledged_by_name', p_acknowledgement.acknowledged_by_name,
+        'alert', jsonb_build_object(
+            'title', a.title,
+            'message', a.message,
+            'severity', a.severity,
+            'status', a.status,
+            'issued_at', a.issued_at,
+            'expires_at', a.expires_at,
+            'translations', a.translations
+        )
+    )
+    FROM emergency_alerts a
+    WHERE a.id = p_acknowledgement.alert_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_alert_acknowledgement(p_token uuid)
+RETURNS jsonb AS $$
+DECLARE
+    v_acknowledgement alert_acknowledgements;
+BEGIN
+    SELECT * INTO v_acknowledgement FROM alert_acknowledgements WHERE token = p_token;
+    IF v_acknowledgement.id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN alert_acknowledgement_details(v_acknowledgement);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION acknowledge_alert(p_token uuid, p_contact_id uuid, p_name text)
+RETURNS jsonb AS $$
+DECLARE
+    v_acknowledgement alert_acknowledgements;
+    v_contact alert_contacts;
+BEGIN
+    SELECT * INTO v_acknowledgement FROM alert_acknowledgements WHERE token = p_token FOR UPDATE;
+    IF v_acknowledgement.id IS NULL THEN
+        RAISE EXCEPTION 'This acknowledgement link is not valid' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    -- The first confirmation stands; opening the link again is not an error
+    IF v_acknowledgement.acknowledged_at IS NOT NULL THEN
+        RETURN alert_acknowledgement_details(v_acknowledgement);
+    END IF;
+
+    SELECT * INTO v_contact
+    FROM alert_contacts
+    WHERE id = p_contact_id
+    AND is_active
+    AND barangay = v_acknowledgement.barangay;
+    IF v_contact.id IS NULL THEN
+        RAISE EXCEPTION 'Only a focal person of % can acknowledge this alert', v_acknowledgement.barangay
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    UPDATE alert_acknowledgements
+    SET acknowledged_at = now(),
+        acknowledged_by_name = coalesce(nullif(trim(p_name), ''), v_contact.name),
+        acknowledged_contact_id = v_contact.id
+    WHERE id = v_acknowledgement.id
+    RETURNING * INTO v_acknowledgement;
+
+    RETURN alert_acknowledgement_details(v_acknowledgement);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION record_alert_acknowledgement(p_alert_id uuid, p_barangay text, p_name text)
+RETURNS alert_acknowledgements AS $$
+DECLARE
+    v_user users;
+    v_acknowledgement alert_acknowledgements;
+BEGIN
+    SELECT * INTO v_user FROM users WHERE id = auth.uid() AND status = 'active';
+    IF v_user.id IS NULL THEN
+        RAISE EXCEPTION 'Only active staff can record acknowledgements' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF nullif(trim(p_name), '') IS NULL THEN
+        RAISE EXCEPTION 'Give the name of the person who acknowledged the alert';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM emergency_alerts WHERE id = p_alert_id AND status IN ('active', 'expired')) THEN
+        RAISE EXCEPTION 'Only issued alerts can be acknowledged';
+    END IF;
+
+    INSERT INTO alert_acknowledgements (alert_id, barangay)
+    VALUES (p_alert_id, p_barangay)
+    ON CONFLICT (alert_id, barangay) DO NOTHING;
+
+    UPDATE alert_acknowledgements
+    SET acknowledged_at = now(),
+        acknowledged_by_name = trim(p_name),
+        recorded_by = v_user.id,
+        recorded_by_name = v_user.name
+    WHERE alert_id = p_alert_id
+    AND barangay = p_barangay
+    AND acknowledged_at IS NULL
+    RETURNING * INTO v_acknowledgement;
+
+    IF v_acknowledgement.id IS NULL THEN
+        RAISE EXCEPTION '% has already acknowledged this alert', p_barangay;
+    END IF;
+
+    RETURN v_acknowledgement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION alert_acknowledgement_details(alert_acknowledgements) FROM public;
+REVOKE ALL ON FUNCTION get_alert_acknowledgement(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION get_alert_acknowledgement(uuid) TO anon, authenticated;
+REVOKE ALL ON FUNCTION acknowledge_alert(uuid, uuid, text) FROM public;
+GRANT EXECUTE ON FUNCTION acknowledge_alert(uuid, uuid, text) TO anon, authenticated;
+REVOKE ALL ON FUNCTION record_alert_acknowledgement(uuid, text, text) FROM public;
+GRANT EXECUTE ON FUNCTION record_alert_acknowledgement(uuid, text, text) TO authenticated;
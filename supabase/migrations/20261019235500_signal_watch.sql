@@ -0,0 +1,110 @@
+/*
+  # Tropical Cyclone Tracker
+
+  1. New Tables
+    - `tropical_cyclones` - a cyclone being tracked while it affects Pio Duran
+      - `id` (uuid, primary key)
+      - `name` (text, PAGASA local name)
+      - `international_name` (text, optional)
+      - `status` (text: active or ended)
+      - `alert_id` (uuid, the emergency alert kept up to date from its bulletins)
+      - `created_by` (uuid, references users)
+      - `created_at`, `updated_at`, `ended_at` (timestamps)
+
+    - `cyclone_bulletins` - one row per PAGASA bulletin posted for a cyclone
+      - `id` (uuid, primary key)
+      - `cyclone_id` (uuid, references tropical_cyclones)
+      - `bulletin_number` (integer, PAGASA's bulletin number)
+      - `issued_at` (timestamp, when PAGASA issued it)
+      - `category` (text: TD, TS, STS, TY or STY)
+      - `center_lat`, `center_lng` (numeric, position of the center)
+      - `center_description` (text, e.g. "310 km East of Virac, Catanduanes")
+      - `max_winds_kph`, `gusts_kph` (integer)
+      - `movement` (text, e.g. "West northwestward at 20 km/h")
+      - `signals` (jsonb, Tropical Cyclone Wind Signal level 1-5 by barangay;
+        barangays without a signal are left out)
+      - `forecast_track` (jsonb array of `{"forecast_at", "lat", "lng"}`)
+      - `summary` (text, hazards and advice for the public)
+      - `next_bulletin_at` (timestamp, optional)
+      - `alert_id` (uuid, the emergency alert this bulletin created or updated)
+      - `created_by`, `created_by_name` (who posted it)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Anyone can read cyclones and bulletins for the public tracker page;
+      authenticated users manage them
+    - Both tables are added to the realtime publication so the public page
+      shows a new bulletin as soon as it is posted
+*/
+
+CREATE TABLE IF NOT EXISTS tropical_cyclones (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    international_name text,
+    status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'ended')),
+    alert_id uuid REFERENCES emergency_alerts(id) ON DELETE SET NULL,
+    created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now(),
+    ended_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS cyclone_bulletins (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    cyclone_id uuid NOT NULL REFERENCES tropical_cyclones(id) ON DELETE CASCADE,
+    bulletin_number integer NOT NULL CHECK (bulletin_number > 0),
+    issued_at timestamptz NOT NULL DEFAULT now(),
+    category text NOT NULL CHECK (category IN ('TD', 'TS', 'STS', 'TY', 'STY')),
+    center_lat numeric(6, 3),
+    center_lng numeric(6, 3),
+    center_description text,
+    max_winds_kph integer,
+    gusts_kph integer,
+    movement text,
+    signals jsonb NOT NULL DEFAULT '{}' CHECK (jsonb_typeof(signals) = 'object'),
+    forecast_track jsonb NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(forecast_track) = 'array'),
+    summary text,
+    next_bulletin_at timestamptz,
+    alert_id uuid REFERENCES emergency_alerts(id) ON DELETE SET NULL,
+    created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+    created_by_name text,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (cyclone_id, bulletin_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tropical_cyclones_active ON tropical_cyclones(created_at) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_cyclone_bulletins_cyclone ON cyclone_bulletins(cyclone_id, bulletin_number);
+
+ALTER TABLE tropical_cyclones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cyclone_bulletins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read tropical cyclones"
+    ON tropical_cyclones FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can manage tropical cyclones"
+    ON tropical_cyclones FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Anyone can read cyclone bulletins"
+    ON cyclone_bulletins FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can manage cyclone bulletins"
+    ON cyclone_bulletins FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+DROP TRIGGER IF EXISTS update_tropical_cyclones_updated_at ON tropical_cyclones;
+CREATE TRIGGER update_tropical_cyclones_updated_at
+    BEFORE UPDATE ON tropical_cyclones
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE tropical_cyclones;
+ALTER PUBLICATION supabase_realtime ADD TABLE cyclone_bulletins;
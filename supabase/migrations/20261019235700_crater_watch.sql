@@ -0,0 +1,111 @@
+/*
+  # Mayon Volcano Alert Levels
+
+  1. Changes
+    - New `volcano` type for emergency alerts, advisory templates and the
+      hazard alert type of incident types
+
+  2. New Tables
+    - `volcano_bulletins` - one row per PHIVOLCS Mayon Volcano bulletin
+      - `id` (uuid, primary key)
+      - `alert_level` (integer, PHIVOLCS Volcano Alert Level 0-5)
+      - `issued_at` (timestamp, when PHIVOLCS issued it)
+      - `volcanic_earthquakes`, `rockfall_events`, `pdc_events` (integer,
+        counts over the bulletin's 24-hour observation period)
+      - `so2_flux_tonnes` (integer, sulfur dioxide emission in tonnes/day)
+      - `plume_height_m` (integer), `plume_drift` (text, e.g. "west-southwest")
+      - `observations` (text, lava flow, dome and ground deformation notes)
+      - `recommendations` (text, PHIVOLCS recommendations to LGUs and the public)
+      - `alert_id` (uuid, the evacuation advisory this bulletin issued or updated)
+      - `created_by`, `created_by_name` (who posted it)
+      - `created_at` (timestamp)
+
+    - `volcano_danger_zones` - barangays with areas inside Mayon's danger zones
+      - `barangay` (text, primary key)
+      - `zone` (text: permanent for the 6 km Permanent Danger Zone, extended
+        for the Extended Danger Zone PHIVOLCS adds at higher alert levels)
+      - `notes` (text, e.g. the puroks or sitios inside the zone)
+      - `updated_by` (uuid, references users)
+      - `updated_at` (timestamp)
+
+  3. Security
+    - Anyone can read bulletins and danger zones for the public status
+      widget; authenticated users manage them
+    - `volcano_bulletins` is added to the realtime publication so the widget
+      shows a new alert level as soon as it is posted
+*/
+
+-- The type checks were created under different names by earlier migrations
+ALTER TABLE emergency_alerts DROP CONSTRAINT IF EXISTS alert_type_check;
+ALTER TABLE emergency_alerts DROP CONSTRAINT IF EXISTS emergency_alerts_type_check;
+ALTER TABLE emergency_alerts ADD CONSTRAINT emergency_alerts_type_check
+    CHECK (type IN ('typhoon', 'earthquake', 'flood', 'fire', 'landslide', 'tsunami', 'volcano', 'general'));
+
+ALTER TABLE alert_templates DROP CONSTRAINT IF EXISTS alert_templates_type_check;
+ALTER TABLE alert_templates ADD CONSTRAINT alert_templates_type_check
+    CHECK (type IN ('typhoon', 'earthquake', 'flood', 'fire', 'landslide', 'tsunami', 'volcano', 'general'));
+
+ALTER TABLE incident_types DROP CONSTRAINT IF EXISTS incident_types_hazard_alert_type_check;
+ALTER TABLE incident_types ADD CONSTRAINT incident_types_hazard_alert_type_check
+    CHECK (hazard_alert_type IS NULL OR hazard_alert_type IN ('typhoon', 'earthquake', 'flood', 'fire', 'landslide', 'tsunami', 'volcano', 'general'));
+
+CREATE TABLE IF NOT EXISTS volcano_bulletins (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    alert_level integer NOT NULL CHECK (alert_level BETWEEN 0 AND 5),
+    issued_at timestamptz NOT NULL DEFAULT now(),
+    volcanic_earthquakes integer CHECK (volcanic_earthquakes >= 0),
+    rockfall_events integer CHECK (rockfall_events >= 0),
+    pdc_events integer CHECK (pdc_events >= 0),
+    so2_flux_tonnes integer CHECK (so2_flux_tonnes >= 0),
+    plume_height_m integer CHECK (plume_height_m >= 0),
+    plume_drift text,
+    observations text,
+    recommendations text,
+    alert_id uuid REFERENCES emergency_alerts(id) ON DELETE SET NULL,
+    created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+    created_by_name text,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS volcano_danger_zones (
+    barangay text PRIMARY KEY,
+    zone text NOT NULL CHECK (zone IN ('permanent', 'extended')),
+    notes text,
+    updated_by uuid REFERENCES users(id) ON DELETE SET NULL,
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_volcano_bulletins_issued ON volcano_bulletins(issued_at DESC);
+
+ALTER TABLE volcano_bulletins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE volcano_danger_zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read volcano bulletins"
+    ON volcano_bulletins FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can manage volcano bulletins"
+    ON volcano_bulletins FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Anyone can read volcano danger zones"
+    ON volcano_danger_zones FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users can manage volcano danger zones"
+    ON volcano_danger_zones FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+DROP TRIGGER IF EXISTS update_volcano_danger_zones_updated_at ON volcano_danger_zones;
+CREATE TRIGGER update_volcano_danger_zones_updated_at
+    BEFORE UPDATE ON volcano_danger_zones
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE volcano_bulletins;
@@ -0,0 +1,76 @@
+/*
+  # Earthquake Event Feed
+
+  1. New Tables
+    - `earthquake_events` - earthquakes ingested from the configured feed by
+      the `earthquake-feed` edge function
+      - `id` (uuid, primary key)
+      - `source_id` (text, unique, the feed's event id; later revisions of an
+        event update the same row)
+      - `magnitude` (numeric), `magnitude_type` (text, e.g. mb or Mw)
+      - `depth_km` (numeric)
+      - `latitude`, `longitude` (numeric, epicenter)
+      - `place` (text, the feed's description of the epicenter)
+      - `occurred_at` (timestamp)
+      - `distance_km` (numeric, from the Pio Duran town center)
+      - `intensity_reports` (jsonb array of `{"place", "intensity"}`, PHIVOLCS
+        Earthquake Intensity Scale I-X)
+      - `max_intensity` (integer, strongest of the reports)
+      - `is_nearby` (boolean, within the configured radius and magnitude when
+        last ingested)
+      - `url` (text, the feed's event page)
+      - `alert_id` (uuid, the draft alert created for a nearby quake)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Settings
+    - `earthquake_feed` in `system_settings`: `{"feed_url", "radius_km",
+      "min_magnitude"}`. The edge function's EARTHQUAKE_FEED_URL environment
+      variable overrides `feed_url`, for pointing it at the local fixture server.
+
+  3. Security
+    - Anyone can read earthquake events for the public widget; only the
+      service role writes them
+    - `earthquake_events` is added to the realtime publication
+*/
+
+INSERT INTO system_settings (setting_key, setting_value, setting_type, description, is_public) VALUES
+('earthquake_feed', '{"feed_url": "https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/2.5_day.geojson", "radius_km": 200, "min_magnitude": 4.5}', 'json', 'Earthquake feed to ingest, and the distance and magnitude of quakes that get a draft alert', false)
+ON CONFLICT (setting_key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS earthquake_events (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    source_id text NOT NULL UNIQUE,
+    magnitude numeric(3, 1) NOT NULL,
+    magnitude_type text,
+    depth_km numeric(6, 1),
+    latitude numeric(7, 4) NOT NULL,
+    longitude numeric(8, 4) NOT NULL,
+    place text,
+    occurred_at timestamptz NOT NULL,
+    distance_km numeric(7, 1) NOT NULL,
+    intensity_reports jsonb NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(intensity_reports) = 'array'),
+    max_intensity integer CHECK (max_intensity BETWEEN 1 AND 10),
+    is_nearby boolean NOT NULL DEFAULT false,
+    url text,
+    alert_id uuid REFERENCES emergency_alerts(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now(),
+    updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_earthquake_events_occurred ON earthquake_events(occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_earthquake_events_nearby ON earthquake_events(occurred_at DESC) WHERE is_nearby;
+
+ALTER TABLE earthquake_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read earthquake events"
+    ON earthquake_events FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+DROP TRIGGER IF EXISTS update_earthquake_events_updated_at ON earthquake_events;
+CREATE TRIGGER update_earthquake_events_updated_at
+    BEFORE UPDATE ON earthquake_events
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE earthquake_events;
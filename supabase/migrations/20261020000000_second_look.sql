@@ -0,0 +1,251 @@
+/*
+  # Approval for Changes to Issued Alerts
+
+  1. Changes
+    - `emergency_alerts.pending_changes` (jsonb): new content for a live alert
+      that is waiting for a second admin's approval. The alert stays live as
+      it is until the changes are approved, then goes out as a CAP Update.
+      Only `type`, `severity`, `priority`, `title`, `message`, `location`,
+      `target_barangays`, `target_polygon`, `expires_at`, `channels` and
+      `translations` are kept.
+
+  2. Functions and Triggers
+    - `enforce_emergency_alert_approval` no longer lets issued alerts that
+      need approval be edited in place:
+      - expired and cancelled alerts can't be reissued, only cancelled
+      - changing the content of a scheduled, live or expired alert needs
+        approval when the alert needs it before or after the change; live
+        alerts take the changes through `pending_changes`, the others go back
+        to `pending_approval`. Bringing the expiry forward to now (taking an
+        alert down) is not a change that needs approval.
+      - saving `pending_changes` stamps a fresh approval request
+    - `record_emergency_alert_approval_request` records requested changes
+      with the alert content as it would be once they are applied
+    - `review_emergency_alert` approves or rejects pending changes to a live
+      alert as well as pending alerts. Rejecting changes keeps the alert live
+      as it was, with the rejection reason.
+*/
+
+ALTER TABLE emergency_alerts ADD COLUMN IF NOT EXISTS pending_changes jsonb;
+ALTER TABLE emergency_alerts DROP CONSTRAINT IF EXISTS emergency_alerts_pending_changes_check;
+ALTER TABLE emergency_alerts ADD CONSTRAINT emergency_alerts_pending_changes_check
+    CHECK (pending_changes IS NULL OR jsonb_typeof(pending_changes) = 'object');
+
+CREATE INDEX IF NOT EXISTS idx_emergency_alerts_pending_changes
+    ON emergency_alerts(approval_requested_at)
+    WHERE pending_changes IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION enforce_emergency_alert_approval()
+RETURNS TRIGGER AS $$
+DECLARE
+    -- Moving the expiry to now or earlier only takes an alert down
+    v_content_changed boolean := TG_OP = 'INSERT' OR (
+        NEW.type, NEW.severity, NEW.title, NEW.message, NEW.location, NEW.coordinates,
+        NEW.issues_at, CASE WHEN NEW.expires_at <= now() THEN OLD.expires_at ELSE NEW.expires_at END,
+        NEW.priority, NEW.target_barangays, NEW.target_polygon, NEW.translations
+    ) IS DISTINCT FROM (
+        OLD.type, OLD.severity, OLD.title, OLD.message, OLD.location, OLD.coordinates,
+        OLD.issues_at, OLD.expires_at,
+        OLD.priority, OLD.target_barangays, OLD.target_polygon, OLD.translations
+    );
+BEGIN
+    -- review_emergency_alert() sets this for the alert it is deciding on
+    IF current_setting('app.reviewing_emergency_alert', true) = NEW.id::text THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND OLD.status IN ('expired', 'cancelled') AND NEW.status NOT IN (OLD.status, 'cancelled') THEN
+        RAISE EXCEPTION 'This alert has ended and can''t be reissued; issue a new alert instead'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Approval columns are only written by review_emergency_alert()
+    IF TG_OP = 'INSERT' THEN
+        NEW.approved_by := NULL;
+        NEW.approved_by_name := NULL;
+        NEW.approved_at := NULL;
+        NEW.rejection_reason := NULL;
+    ELSE
+        NEW.approved_by := OLD.approved_by;
+        NEW.approved_by_name := OLD.approved_by_name;
+        NEW.approved_at := OLD.approved_at;
+        NEW.rejection_reason := OLD.rejection_reason;
+        NEW.approval_requested_by := OLD.approval_requested_by;
+        NEW.approval_requested_by_name := OLD.approval_requested_by_name;
+        NEW.approval_requested_at := OLD.approval_requested_at;
+    END IF;
+
+    -- Pending changes belong to live alerts and hold content columns only
+    IF NEW.pending_changes IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.status <> 'active') THEN
+        NEW.pending_changes := NULL;
+    END IF;
+    IF NEW.pending_changes IS NOT NULL THEN
+        NEW.pending_changes := coalesce((
+            SELECT jsonb_object_agg(key, value)
+            FROM jsonb_each(NEW.pending_changes)
+            WHERE key IN ('type', 'severity', 'priority', 'title', 'message', 'location',
+                          'target_barangays', 'target_polygon', 'expires_at', 'channels', 'translations')
+        ), '{}'::jsonb);
+        -- Fails here rather than at approval when a value doesn't fit its column
+        PERFORM jsonb_populate_record(NEW, NEW.pending_changes);
+    END IF;
+
+    IF (NEW.status = 'pending_approval' AND (TG_OP = 'INSERT' OR OLD.status <> 'pending_approval' OR v_content_changed)) OR
+       (NEW.pending_changes IS NOT NULL AND NEW.pending_changes IS DISTINCT FROM OLD.pending_changes) THEN
+        NEW.approval_requested_by := auth.uid();
+        NEW.approval_requested_by_name := (SELECT name FROM users WHERE id = auth.uid());
+        NEW.approval_requested_at := now();
+        NEW.approved_by := NULL;
+        NEW.approved_by_name := NULL;
+        NEW.approved_at := NULL;
+        NEW.rejection_reason := NULL;
+    END IF;
+
+    -- Issuing an alert needs approval, and so does changing what an issued
+    -- one says when it needs approval before or after the change
+    IF NEW.status IN ('scheduled', 'active', 'expired') AND (
+        (
+            (TG_OP = 'INSERT' OR OLD.status NOT IN ('scheduled', 'active', 'expired'))
+            AND emergency_alert_requires_approval(NEW.severity, NEW.priority)
+        ) OR (
+            TG_OP = 'UPDATE' AND OLD.status IN ('scheduled', 'active', 'expired') AND v_content_changed AND (
+                emergency_alert_requires_approval(OLD.severity, OLD.priority) OR
+                emergency_alert_requires_approval(NEW.severity, NEW.priority)
+            )
+        )
+    ) THEN
+        RAISE EXCEPTION 'This alert needs a second admin''s approval before it can be issued or changed'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION record_emergency_alert_approval_request()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.status = 'pending_approval' OR NEW.pending_changes IS NOT NULL) AND (
+        TG_OP = 'INSERT' OR NEW.approval_requested_at IS DISTINCT FROM OLD.approval_requested_at
+    ) THEN
+        INSERT INTO alert_approvals (alert_id, decision, actor_id, actor_name, alert_snapshot)
+        VALUES (
+            NEW.id,
+            'requested',
+            NEW.approval_requested_by,
+            NEW.approval_requested_by_name,
+            emergency_alert_snapshot(jsonb_populate_record(NEW, coalesce(NEW.pending_changes, '{}'::jsonb)))
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION review_emergency_alert(p_alert_id uuid, p_approve boolean, p_reason text DEFAULT NULL)
+RETURNS emergency_alerts AS $$
+DECLARE
+    v_reviewer users;
+    v_alert emergency_alerts;
+    v_changed emergency_alerts;
+    v_is_change boolean;
+    v_goes_live_now boolean;
+    v_snapshot jsonb;
+BEGIN
+    SELECT * INTO v_reviewer FROM users WHERE id = auth.uid() AND status = 'active';
+    IF v_reviewer.id IS NULL OR v_reviewer.role <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can approve or reject emergency alerts' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO v_alert FROM emergency_alerts WHERE id = p_alert_id FOR UPDATE;
+    IF v_alert.id IS NULL THEN
+        RAISE EXCEPTION 'Alert not found' USING ERRCODE = 'no_data_found';
+    END IF;
+    v_is_change := v_alert.status = 'active' AND v_alert.pending_changes IS NOT NULL;
+    IF v_alert.status <> 'pending_approval' AND NOT v_is_change THEN
+        RAISE EXCEPTION 'This alert is not waiting for approval';
+    END IF;
+    IF v_alert.approval_requested_by = v_reviewer.id THEN
+        RAISE EXCEPTION 'A different admin must review an alert you submitted' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF NOT p_approve AND nullif(trim(p_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'Give a reason for rejecting the alert';
+    END IF;
+
+    PERFORM set_config('app.reviewing_emergency_alert', p_alert_id::text, true);
+
+    IF v_is_change AND p_approve THEN
+        v_changed := jsonb_populate_record(v_alert, v_alert.pending_changes);
+        IF v_changed.expires_at IS NOT NULL AND v_changed.expires_at <= now() THEN
+            RAISE EXCEPTION 'These changes expired while waiting for approval';
+        END IF;
+
+        -- Still live, so track_emergency_alert_revision sends it as a CAP Update
+        UPDATE emergency_alerts
+        SET type = v_changed.type,
+            severity = v_changed.severity,
+            priority = v_changed.priority,
+            title = v_changed.title,
+            message = v_changed.message,
+            location = v_changed.location,
+            target_barangays = v_changed.target_barangays,
+            target_polygon = v_changed.target_polygon,
+            expires_at = v_changed.expires_at,
+            channels = v_changed.channels,
+            translations = v_changed.translations,
+            pending_changes = NULL,
+            approved_by = v_reviewer.id,
+            approved_by_name = v_reviewer.name,
+            approved_at = now(),
+            rejection_reason = NULL
+        WHERE id = p_alert_id
+        RETURNING * INTO v_alert;
+        v_snapshot := emergency_alert_snapshot(v_alert);
+    ELSIF v_is_change THEN
+        v_snapshot := emergency_alert_snapshot(jsonb_populate_record(v_alert, v_alert.pending_changes));
+        UPDATE emergency_alerts
+        SET pending_changes = NULL,
+            rejection_reason = trim(p_reason)
+        WHERE id = p_alert_id
+        RETURNING * INTO v_alert;
+    ELSIF p_approve THEN
+        IF v_alert.expires_at IS NOT NULL AND v_alert.expires_at <= now() THEN
+            RAISE EXCEPTION 'This alert expired while waiting for approval';
+        END IF;
+
+        v_goes_live_now := v_alert.issues_at IS NULL OR v_alert.issues_at <= now();
+        UPDATE emergency_alerts
+        SET status = CASE WHEN v_goes_live_now THEN 'active' ELSE 'scheduled' END,
+            issued_at = CASE WHEN v_goes_live_now THEN now() ELSE issued_at END,
+            issues_at = CASE WHEN v_goes_live_now THEN NULL ELSE issues_at END,
+            approved_by = v_reviewer.id,
+            approved_by_name = v_reviewer.name,
+            approved_at = now(),
+            rejection_reason = NULL
+        WHERE id = p_alert_id
+        RETURNING * INTO v_alert;
+        v_snapshot := emergency_alert_snapshot(v_alert);
+    ELSE
+        UPDATE emergency_alerts
+        SET status = 'rejected',
+            rejection_reason = trim(p_reason)
+        WHERE id = p_alert_id
+        RETURNING * INTO v_alert;
+        v_snapshot := emergency_alert_snapshot(v_alert);
+    END IF;
+
+    PERFORM set_config('app.reviewing_emergency_alert', '', true);
+
+    INSERT INTO alert_approvals (alert_id, decision, reason, actor_id, actor_name, alert_snapshot)
+    VALUES (
+        p_alert_id,
+        CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+        nullif(trim(p_reason), ''),
+        v_reviewer.id,
+        v_reviewer.name,
+        v_snapshot
+    );
+
+    RETURN v_alert;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,16 @@
+/*
+  # Earthquake Drafts Stay Discarded
+
+  1. Changes
+    - `earthquake_events.drafted_at` (timestamp, when the draft alert was
+      created). Discarding a draft deletes the alert and clears `alert_id`,
+      so the `earthquake-feed` edge function drafts only events without
+      `drafted_at` and a discarded draft doesn't come back on the next run.
+      Existing events with a draft are backfilled from `created_at`.
+*/
+
+ALTER TABLE earthquake_events ADD COLUMN IF NOT EXISTS drafted_at timestamptz;
+
+UPDATE earthquake_events
+SET drafted_at = created_at
+WHERE alert_id IS NOT NULL AND drafted_at IS NULL;
@@ -0,0 +1,111 @@
+/*
+  # Per-caller Tracking Throttle
+
+  1. Changes
+    - `incident_tracking_attempts.caller` (text): the IP address the lookup
+      came from, read from the request headers PostgREST passes through
+
+  2. Functions
+    - `request_client_ip()` returns the caller's IP address for the current
+      API request, or NULL outside one
+    - `track_incident()` throttles wrong contact numbers per caller and
+      reference number instead of per reference number alone, so someone
+      guessing at a report can no longer lock its reporter out of tracking it.
+      A caller is also cut off after too many failed lookups across all
+      reference numbers.
+*/
+
+ALTER TABLE incident_tracking_attempts ADD COLUMN IF NOT EXISTS caller text;
+
+CREATE INDEX IF NOT EXISTS idx_incident_tracking_attempts_caller
+    ON incident_tracking_attempts(caller, attempted_at);
+
+-- Same header order as getClientIp() in the edge functions
+CREATE OR REPLACE FUNCTION request_client_ip()
+RETURNS text AS $$
+DECLARE
+    v_headers jsonb := nullif(current_setting('request.headers', true), '')::jsonb;
+BEGIN
+    RETURN coalesce(
+        nullif(trim(v_headers ->> 'cf-connecting-ip'), ''),
+        nullif(trim(split_part(v_headers ->> 'x-forwarded-for', ',', 1)), ''),
+        nullif(trim(v_headers ->> 'x-real-ip'), '')
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION track_incident(
+    p_reference_number text,
+    p_contact_number text
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_reference text := upper(trim(coalesce(p_reference_number, '')));
+    v_contact text := right(regexp_replace(coalesce(p_contact_number, ''), '\D', '', 'g'), 10);
+    v_caller text := coalesce(request_client_ip(), 'unknown');
+    v_reference_failures integer;
+    v_caller_failures integer;
+    v_incident incident_reports%ROWTYPE;
+BEGIN
+    IF v_reference = '' OR length(v_contact) < 7 THEN
+        RETURN NULL;
+    END IF;
+
+    -- Serialize concurrent lookups from the same caller
+    PERFORM pg_advisory_xact_lock(hashtext('incident_tracking:' || v_caller));
+
+    -- Too many wrong contact numbers from this caller, for this reference or
+    -- overall: answer as "not found"
+    SELECT count(*) FILTER (WHERE reference_number = v_reference), count(*)
+    INTO v_reference_failures, v_caller_failures
+    FROM incident_tracking_attempts
+    WHERE caller = v_caller
+    AND success = false
+    AND attempted_at > now() - INTERVAL '15 minutes';
+
+    IF v_reference_failures >= 5 OR v_caller_failures >= 20 THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT * INTO v_incident
+    FROM incident_reports
+    WHERE upper(reference_number) = v_reference
+    AND right(regexp_replace(contact_number, '\D', '', 'g'), 10) = v_contact;
+
+    INSERT INTO incident_tracking_attempts (reference_number, caller, success)
+    VALUES (v_reference, v_caller, v_incident.id IS NOT NULL);
+
+    IF v_incident.id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'reference_number', v_incident.reference_number,
+        'incident_type', v_incident.incident_type,
+        'location', v_incident.location,
+        'urgency', v_incident.urgency,
+        'status', v_incident.status,
+        'date_reported', v_incident.date_reported,
+        'updated_at', v_incident.updated_at,
+        'history', coalesce((
+            SELECT jsonb_agg(jsonb_build_object(
+                'status', h.status,
+                'public_note', h.public_note,
+                'created_at', h.created_at
+            ) ORDER BY h.created_at)
+            FROM incident_status_history h
+            WHERE h.incident_id = v_incident.id
+        ), '[]'::jsonb),
+        'messages', coalesce((
+            SELECT jsonb_agg(jsonb_build_object(
+                'body', n.body,
+                'attachments', n.attachments,
+                'created_at', n.created_at
+            ) ORDER BY n.created_at)
+            FROM incident_notes n
+            WHERE n.incident_id = v_incident.id
+            AND n.visibility = 'reporter'
+        ), '[]'::jsonb)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
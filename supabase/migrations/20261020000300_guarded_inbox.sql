@@ -0,0 +1,27 @@
+/*
+  # Push Subscription Request Log
+
+  1. New Tables
+    - `push_subscription_requests` - calls to the push-subscription edge
+      function, counted per IP address to rate-limit it
+      - `id` (uuid, primary key)
+      - `action` (text, subscribe or unsubscribe)
+      - `ip_address` (text)
+      - `created_at` (timestamp)
+
+  2. Security
+    - RLS enabled with no policies: only the `push-subscription` edge
+      function (service role) reads or writes the log
+*/
+
+CREATE TABLE IF NOT EXISTS push_subscription_requests (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    action text NOT NULL,
+    ip_address text,
+    created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscription_requests_ip
+    ON push_subscription_requests(ip_address, created_at DESC);
+
+ALTER TABLE push_subscription_requests ENABLE ROW LEVEL SECURITY;
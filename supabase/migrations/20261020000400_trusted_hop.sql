@@ -0,0 +1,20 @@
+/*
+  # Client IP From the Trusted Proxy
+
+  1. Functions
+    - `request_client_ip()` reads the rightmost `x-forwarded-for` entry, the
+      address the platform's proxy appended for the connection it received.
+      Entries to the left of it, and the `cf-connecting-ip` and `x-real-ip`
+      headers, can be sent by the client, so a caller could dodge the
+      per-caller tracking throttle by sending a new address with each lookup.
+*/
+
+-- Same rule as getClientIp() in supabase/functions/_shared/clientIp.ts
+CREATE OR REPLACE FUNCTION request_client_ip()
+RETURNS text AS $$
+DECLARE
+    v_forwarded_for text := nullif(current_setting('request.headers', true), '')::jsonb ->> 'x-forwarded-for';
+BEGIN
+    RETURN nullif(trim(regexp_replace(coalesce(v_forwarded_for, ''), '^.*,', '')), '');
+END;
+$$ LANGUAGE plpgsql STABLE;
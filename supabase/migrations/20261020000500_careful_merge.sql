@@ -0,0 +1,68 @@
+/*
+  # Merges Follow the Status Rules
+
+  1. Functions
+    - `merge_incident_reports(parent_id, child_ids, note)` now only merges
+      reports that `transition_incident_status()` would let move to
+      `duplicate` (received or verified). A dispatched, resolved, closed,
+      rejected or already merged report is refused instead of being marked
+      as a duplicate behind the workflow's back.
+*/
+
+CREATE OR REPLACE FUNCTION merge_incident_reports(
+    p_parent_id uuid,
+    p_child_ids uuid[],
+    p_note text DEFAULT NULL
+)
+RETURNS SETOF incident_reports AS $$
+DECLARE
+    v_parent incident_reports;
+    v_child incident_reports;
+BEGIN
+    SELECT * INTO v_parent FROM incident_reports WHERE id = p_parent_id FOR UPDATE;
+
+    IF v_parent.id IS NULL THEN
+        RAISE EXCEPTION 'Incident % not found', p_parent_id;
+    END IF;
+
+    IF v_parent.status IN ('duplicate', 'rejected') THEN
+        RAISE EXCEPTION 'Cannot merge into a report marked as %', v_parent.status;
+    END IF;
+
+    IF p_parent_id = ANY(p_child_ids) THEN
+        RAISE EXCEPTION 'An incident cannot be merged into itself';
+    END IF;
+
+    -- Same rule as transition_incident_status(): only received and verified
+    -- reports may become duplicates
+    FOR v_child IN
+        SELECT * FROM incident_reports WHERE id = ANY(p_child_ids) ORDER BY id FOR UPDATE
+    LOOP
+        IF v_child.status NOT IN ('received', 'verified') THEN
+            RAISE EXCEPTION 'Cannot merge % while it is %', v_child.reference_number, v_child.status;
+        END IF;
+    END LOOP;
+
+    -- Flatten: anything previously merged into a child now points at the new parent
+    UPDATE incident_reports
+    SET parent_incident_id = p_parent_id
+    WHERE parent_incident_id = ANY(p_child_ids);
+
+    PERFORM set_config(
+        'incident.transition_note',
+        coalesce(nullif(p_note, ''), 'Merged into ' || v_parent.reference_number),
+        true
+    );
+
+    UPDATE incident_reports
+    SET status = 'duplicate',
+        parent_incident_id = p_parent_id
+    WHERE id = ANY(p_child_ids);
+
+    PERFORM set_config('incident.transition_note', '', true);
+
+    RETURN QUERY
+        SELECT * FROM incident_reports
+        WHERE id = ANY(p_child_ids) OR parent_incident_id = p_parent_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
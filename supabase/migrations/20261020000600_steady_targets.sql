@@ -0,0 +1,81 @@
+/*
+  # SLA Targets Match the Admin Panel
+
+  1. Functions
+    - `incident_sla_minutes(sla, urgency, target)` reads one target from the
+      `incident_sla` setting. Missing, non-numeric and non-positive values
+      fall back to the defaults, as `parseIncidentSlaSettings()` does, instead
+      of failing the `::int` cast and stopping every breach from recording.
+    - `record_incident_sla_breaches()` uses it, and treats a missing or
+      unreadable `incident_sla` setting as the defaults rather than as
+      "no targets".
+*/
+
+-- Keep the defaults in sync with DEFAULT_INCIDENT_SLA in src/utils/constants.ts
+CREATE OR REPLACE FUNCTION incident_sla_minutes(p_sla jsonb, p_urgency text, p_target text)
+RETURNS numeric AS $$
+DECLARE
+    v_value text;
+    v_default numeric := '{
+        "HIGH": {"acknowledge_minutes": 5, "resolve_minutes": 120},
+        "MEDIUM": {"acknowledge_minutes": 15, "resolve_minutes": 480},
+        "LOW": {"acknowledge_minutes": 60, "resolve_minutes": 1440}
+    }'::jsonb -> p_urgency ->> p_target;
+BEGIN
+    IF jsonb_typeof(p_sla -> p_urgency) = 'object' THEN
+        v_value := trim(p_sla -> p_urgency ->> p_target);
+    END IF;
+
+    IF v_value ~ '^([0-9]+\.?[0-9]*|\.[0-9]+)$' AND v_value::numeric > 0 THEN
+        RETURN v_value::numeric;
+    END IF;
+
+    RETURN v_default;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Keep in sync with getIncidentSlaState() in src/utils/incidentSla.ts
+CREATE OR REPLACE FUNCTION record_incident_sla_breaches()
+RETURNS SETOF incident_escalations AS $$
+DECLARE
+    v_sla jsonb;
+BEGIN
+    BEGIN
+        SELECT CASE jsonb_typeof(setting_value)
+                   WHEN 'string' THEN (setting_value #>> '{}')::jsonb
+                   ELSE setting_value
+               END
+        INTO v_sla
+        FROM system_settings
+        WHERE setting_key = 'incident_sla';
+    EXCEPTION WHEN invalid_text_representation THEN
+        v_sla := NULL;
+    END;
+
+    RETURN QUERY
+    INSERT INTO incident_escalations (incident_id, breach_type, urgency, due_at)
+    SELECT breach.incident_id, breach.breach_type, breach.urgency, breach.due_at
+    FROM (
+        SELECT
+            i.id AS incident_id,
+            'acknowledge'::text AS breach_type,
+            i.urgency,
+            i.date_reported + incident_sla_minutes(v_sla, i.urgency, 'acknowledge_minutes') * interval '1 minute' AS due_at
+        FROM incident_reports i
+        WHERE i.status = 'received'
+        UNION ALL
+        SELECT
+            i.id,
+            'resolve'::text,
+            i.urgency,
+            i.date_reported + incident_sla_minutes(v_sla, i.urgency, 'resolve_minutes') * interval '1 minute'
+        FROM incident_reports i
+        WHERE i.status IN ('received', 'verified', 'dispatched', 'on-scene')
+    ) breach
+    WHERE breach.due_at <= now()
+    ON CONFLICT (incident_id, breach_type) DO NOTHING
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION incident_sla_minutes(jsonb, text, text) FROM public;
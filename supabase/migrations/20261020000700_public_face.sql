@@ -0,0 +1,21 @@
+/*
+  # Public Alert Columns
+
+  1. Security
+    - Visitors (`anon`) can only read the columns the site shows:
+      the alert content, its area, schedule, status and revision. The
+      unapproved `pending_changes`, the requester, approver and rejection
+      columns, the channels and the revision history stay with staff.
+      Realtime applies the same column privileges, so change events sent
+      to visitors carry only these columns too.
+    - Signed-in staff keep reading every column.
+*/
+
+REVOKE SELECT ON emergency_alerts FROM anon;
+
+-- EmergencyAlertBanner and the public alerts page select only from these
+GRANT SELECT (
+    id, type, severity, title, message, location, coordinates,
+    issued_at, issues_at, expires_at, status, priority, show_on_frontend,
+    revision, revised_at, target_barangays, translations, created_at, updated_at
+) ON emergency_alerts TO anon;